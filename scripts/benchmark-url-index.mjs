@@ -0,0 +1,155 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+// Benchmark UrlIndex startup against a synthetic vault.
+// Usage: node scripts/benchmark-url-index.mjs [noteCount] [webNoteRatio]
+
+import esbuild from "esbuild";
+import process from "process";
+import { performance } from "node:perf_hooks";
+import { pathToFileURL } from "node:url";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+const NOTE_COUNT = parseInt(process.argv[2] ?? "40000", 10);
+const WEB_NOTE_RATIO = parseFloat(process.argv[3] ?? "0.25");
+const DOMAINS = ["example.com", "reddit.com", "youtube.com", "github.com", "en.wikipedia.org", "news.ycombinator.com"];
+
+// Minimal runtime stand-in for the parts of the obsidian module UrlIndex uses
+const obsidianShim = `
+export class Events {
+	constructor() { this._handlers = new Map(); }
+	on(name, cb) { const list = this._handlers.get(name) ?? []; list.push(cb); this._handlers.set(name, list); return { name, cb }; }
+	offref() { }
+	trigger(name, ...args) { (this._handlers.get(name) ?? []).forEach(cb => cb(...args)); }
+}
+export class TFile { }
+export function debounce(fn) {
+	let pending = false;
+	const debounced = () => { pending = true; };
+	debounced.run = () => { if (pending) { pending = false; fn(); } };
+	debounced.cancel = () => { pending = false; };
+	return debounced;
+}
+export function normalizePath(path) { return path; }
+`;
+
+/**
+ * Bundle UrlIndex into a temporary ES module and import it
+ */
+async function loadUrlIndex(outDir) {
+	const outfile = join(outDir, "url-index.mjs");
+	await esbuild.build({
+		entryPoints: ["src/services/UrlIndex.ts"],
+		bundle: true,
+		format: "esm",
+		platform: "node",
+		outfile,
+		logLevel: "error",
+		plugins: [{
+			name: "obsidian-shim",
+			setup(build) {
+				build.onResolve({ filter: /^obsidian$/ }, () => ({ path: "obsidian", namespace: "shim" }));
+				build.onLoad({ filter: /.*/, namespace: "shim" }, () => ({ contents: obsidianShim, loader: "js" }));
+			},
+		}],
+	});
+	return import(pathToFileURL(outfile).href);
+}
+
+/**
+ * Create a fake App with a synthetic vault and an in-memory adapter
+ */
+function createSyntheticApp() {
+	const files = [];
+	const filesByPath = new Map();
+	const frontmatter = new Map();
+	for (let i = 0; i < NOTE_COUNT; i++) {
+		const file = {
+			path: `notes/note-${i}.md`,
+			extension: "md",
+			stat: { mtime: 1_700_000_000_000 + i },
+		};
+		files.push(file);
+		filesByPath.set(file.path, file);
+		if (i % Math.round(1 / WEB_NOTE_RATIO) === 0) {
+			const domain = DOMAINS[i % DOMAINS.length];
+			frontmatter.set(file.path, { source: `https://${domain}/page/${i}?utm_source=bench&id=${i}` });
+		} else {
+			frontmatter.set(file.path, { tags: ["journal"] });
+		}
+	}
+
+	const storage = new Map();
+	const noop = () => ({});
+	return {
+		vault: {
+			getMarkdownFiles: () => files,
+			getAbstractFileByPath: (path) => filesByPath.get(path) ?? null,
+			on: noop,
+			offref: noop,
+			adapter: {
+				exists: async (path) => storage.has(path),
+				read: async (path) => storage.get(path),
+				write: async (path, data) => { storage.set(path, data); },
+			},
+		},
+		metadataCache: {
+			getFileCache: (file) => ({ frontmatter: frontmatter.get(file.path) }),
+			on: noop,
+			offref: noop,
+		},
+		files,
+		storage,
+	};
+}
+
+async function time(label, fn) {
+	const start = performance.now();
+	await fn();
+	const ms = performance.now() - start;
+	console.log(`${label.padEnd(40)} ${ms.toFixed(1).padStart(8)} ms`);
+	return ms;
+}
+
+const outDir = mkdtempSync(join(tmpdir(), "web-sidecar-bench-"));
+try {
+	const { UrlIndex } = await loadUrlIndex(outDir);
+	const app = createSyntheticApp();
+	const settings = {
+		urlPropertyFields: ["source", "url", "URL"],
+		recentNotesCacheLimit: 150,
+		stripTrackingParams: true,
+		urlCanonicalizationRules: [],
+		domainGrouping: "registrable",
+		enableBodyLinkIndex: false,
+	};
+	const cachePath = "url-index-cache.json";
+
+	console.log(`Synthetic vault: ${NOTE_COUNT} notes, ${Math.round(WEB_NOTE_RATIO * 100)}% web notes\n`);
+
+	const cold = new UrlIndex(app, () => settings, cachePath);
+	const coldMs = await time("Cold start (no cache, full rebuild)", () => cold.initialize());
+	cold.destroy(); // flushes the cache
+
+	const warm = new UrlIndex(app, () => settings, cachePath);
+	const warmMs = await time("Warm start (cache, nothing changed)", () => warm.initialize());
+	warm.destroy();
+
+	// Touch 1% of the notes
+	app.files.filter((_, i) => i % 100 === 0).forEach(f => { f.stat.mtime += 1; });
+	const partial = new UrlIndex(app, () => settings, cachePath);
+	await time("Warm start (cache, 1% modified)", () => partial.initialize());
+
+	await time("Settings save (URL fields unchanged)", () => partial.onSettingsChanged());
+	await time("Full rebuild (legacy saveSettings path)", () => partial.rebuildIndex());
+	partial.destroy();
+
+	console.log(`\nWarm start speedup: ${(coldMs / warmMs).toFixed(1)}x`);
+} finally {
+	rmSync(outDir, { recursive: true, force: true });
+}
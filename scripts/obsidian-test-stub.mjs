@@ -0,0 +1,121 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+// Stand-in for the obsidian module in unit tests (the package only ships types).
+// Provides the helpers the tested modules import, implemented like Obsidian does,
+// and inert classes for the UI and vault types they reference.
+
+import { Buffer } from "node:buffer";
+import moment from "moment";
+import { parse, stringify } from "yaml";
+
+export { moment };
+
+export class TAbstractFile {
+	path = "";
+	name = "";
+}
+
+export class TFile extends TAbstractFile {
+	basename = "";
+	extension = "";
+	stat = { ctime: 0, mtime: 0, size: 0 };
+}
+
+export class TFolder extends TAbstractFile {
+	children = [];
+}
+
+export class Notice {
+	constructor(message) {
+		this.message = message;
+	}
+
+	hide() { }
+}
+
+export class Modal {
+	constructor(app) {
+		this.app = app;
+	}
+
+	open() { }
+
+	close() { }
+}
+
+/**
+ * Collapse slashes, trim them at both ends and normalize Unicode ("/" for the vault root)
+ */
+export function normalizePath(path) {
+	const collapsed = path.replace(/[\\/]+/g, "/").replace(/^\/+|\/+$/g, "");
+	return (collapsed || "/").replace(/\u00a0|\u202f/g, " ").normalize("NFC");
+}
+
+/**
+ * Locate the frontmatter block between the opening and closing "---" lines
+ */
+export function getFrontMatterInfo(content) {
+	const open = /^---[ \t]*\r?\n/.exec(content);
+	if (open) {
+		const close = /^---[ \t]*(?:\r?\n|$)/gm;
+		close.lastIndex = open[0].length;
+		const match = close.exec(content);
+		if (match) {
+			return {
+				exists: true,
+				frontmatter: content.slice(open[0].length, match.index),
+				from: open[0].length,
+				to: match.index,
+				contentStart: match.index + match[0].length,
+			};
+		}
+	}
+	return { exists: false, frontmatter: "", from: 0, to: 0, contentStart: 0 };
+}
+
+export function parseYaml(text) {
+	return parse(text);
+}
+
+export function stringifyYaml(value) {
+	return stringify(value);
+}
+
+export function arrayBufferToBase64(buffer) {
+	return Buffer.from(buffer).toString("base64");
+}
+
+/**
+ * HTTP request without CORS restrictions, throwing on error statuses unless `throw: false`
+ */
+export async function requestUrl(request) {
+	const params = typeof request === "string" ? { url: request } : request;
+	const response = await fetch(params.url, {
+		method: params.method ?? "GET",
+		headers: params.headers,
+		body: params.body,
+	});
+	const arrayBuffer = await response.arrayBuffer();
+	if (params.throw !== false && response.status >= 400) {
+		throw new Error(`Request failed, status ${response.status}`);
+	}
+
+	const headers = {};
+	response.headers.forEach((value, name) => {
+		headers[name] = value;
+	});
+	const text = new TextDecoder().decode(arrayBuffer);
+	return {
+		status: response.status,
+		headers,
+		arrayBuffer,
+		text,
+		get json() {
+			return JSON.parse(text);
+		},
+	};
+}
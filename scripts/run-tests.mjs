@@ -0,0 +1,68 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+// Run the unit tests (src/**/*.test.ts) with the Node test runner.
+// Each test file is bundled into a temporary ES module first; tests cover
+// pure modules only, so the obsidian module is replaced by the small stand-in
+// in obsidian-test-stub.mjs. jsdom (providing a DOM to tests) is not bundled.
+// Usage: node scripts/run-tests.mjs
+
+import esbuild from "esbuild";
+import process from "process";
+import { spawnSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { join, relative } from "node:path";
+
+/**
+ * Find test files below a directory
+ */
+function findTestFiles(dir) {
+	const files = [];
+	for (const entry of readdirSync(dir, { withFileTypes: true })) {
+		const path = join(dir, entry.name);
+		if (entry.isDirectory()) {
+			files.push(...findTestFiles(path));
+		} else if (entry.name.endsWith(".test.ts")) {
+			files.push(path);
+		}
+	}
+	return files.sort();
+}
+
+const testFiles = findTestFiles("src");
+if (testFiles.length === 0) {
+	console.log("No test files found");
+	process.exit(0);
+}
+
+// Inside node_modules, so the bundles resolve the packages left external
+const cacheDir = join("node_modules", ".cache");
+mkdirSync(cacheDir, { recursive: true });
+const outDir = mkdtempSync(join(cacheDir, "web-sidecar-test-"));
+let status = 1;
+try {
+	const outFiles = [];
+	for (const file of testFiles) {
+		const outfile = join(outDir, relative("src", file).replace(/\.ts$/, ".mjs"));
+		await esbuild.build({
+			entryPoints: [file],
+			bundle: true,
+			format: "esm",
+			platform: "node",
+			alias: { obsidian: "./scripts/obsidian-test-stub.mjs" },
+			external: ["jsdom", "yaml"],
+			outfile,
+			logLevel: "error",
+		});
+		outFiles.push(outfile);
+	}
+
+	const result = spawnSync(process.execPath, ["--test", ...outFiles], { stdio: "inherit" });
+	status = result.status ?? 1;
+} finally {
+	rmSync(outDir, { recursive: true, force: true });
+}
+process.exit(status);
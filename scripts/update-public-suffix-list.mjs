@@ -0,0 +1,60 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+// Regenerate src/services/publicSuffixData.ts from the public suffix list.
+// Usage: node scripts/update-public-suffix-list.mjs [path/to/public_suffix_list.dat]
+// Without a path, the list is downloaded from publicsuffix.org.
+
+import process from "process";
+import { readFileSync, writeFileSync } from "node:fs";
+import { domainToASCII } from "node:url";
+
+const LIST_URL = "https://publicsuffix.org/list/public_suffix_list.dat";
+const OUTPUT = "src/services/publicSuffixData.ts";
+
+const source = process.argv[2]
+	? readFileSync(process.argv[2], "utf8")
+	: await (await fetch(LIST_URL)).text();
+
+// Rules grouped by their top-level label, one line per TLD
+const byTld = new Map();
+let count = 0;
+
+for (const rawLine of source.split("\n")) {
+	const line = rawLine.trim();
+	if (!line || line.startsWith("//")) continue;
+
+	// Hostnames are compared in punycode, as the URL parser returns them
+	const prefix = line.startsWith("!") ? "!" : line.startsWith("*.") ? "*." : "";
+	const ascii = domainToASCII(line.slice(prefix.length));
+	if (!ascii) continue;
+
+	const rule = prefix + ascii;
+	const tld = ascii.split(".").pop();
+	if (!byTld.has(tld)) byTld.set(tld, []);
+	byTld.get(tld).push(rule);
+	count++;
+}
+
+const lines = Array.from(byTld.values()).map(rules => rules.join(" "));
+
+// The list itself is MPL-2.0 licensed, so the generated file keeps that license
+const output = `/*
+ * Web Sidecar
+ * Public suffix list data from ${LIST_URL}
+ * SPDX-License-Identifier: MPL-2.0
+ */
+
+// Generated by scripts/update-public-suffix-list.mjs - do not edit.
+// ${count} rules, space-separated, one line per top-level domain.
+
+export const PUBLIC_SUFFIX_RULES = \`
+${lines.join("\n")}
+\`;
+`;
+
+writeFileSync(OUTPUT, output);
+console.log(`Wrote ${count} rules to ${OUTPUT}`);
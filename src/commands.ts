@@ -31,5 +31,107 @@ export function registerCommands(plugin: WebSidecarPlugin): void {
         },
     });
 
+    // Capture Page Command
+    plugin.addCommand({
+        id: 'capture-to-linked-note',
+        name: 'Capture web viewer page to linked note',
+        checkCallback: (checking) => {
+            const leaf = plugin.captureService.getActiveWebViewerLeaf();
+            if (!leaf) return false;
+            if (!checking) {
+                void plugin.captureToLinkedNote(leaf);
+            }
+            return true;
+        },
+    });
+
+    // Capture All Web Viewers Command
+    plugin.addCommand({
+        id: 'capture-all-web-viewers',
+        name: 'Create linked notes for all open web viewers',
+        callback: () => {
+            void plugin.captureAllOpenWebViewers();
+        },
+    });
+
+    // Archive Page Command
+    plugin.addCommand({
+        id: 'archive-page',
+        name: 'Archive web viewer page as HTML',
+        checkCallback: (checking) => {
+            const leaf = plugin.captureService.getActiveWebViewerLeaf();
+            if (!leaf) return false;
+            if (!checking) {
+                void plugin.archivePage(leaf);
+            }
+            return true;
+        },
+    });
+
+    // Browsing Session Commands
+    plugin.addCommand({
+        id: 'save-browsing-session',
+        name: 'Save open web viewers as a browsing session',
+        callback: () => {
+            plugin.saveBrowsingSession();
+        },
+    });
+
+    plugin.addCommand({
+        id: 'restore-browsing-session',
+        name: 'Restore browsing session',
+        callback: () => {
+            plugin.restoreBrowsingSession();
+        },
+    });
+
+    // Visit History Command
+    plugin.addCommand({
+        id: 'clear-visit-history',
+        name: 'Clear visit history',
+        callback: () => {
+            plugin.clearVisitHistory();
+        },
+    });
+
+    // Read-Later Queue Commands
+    plugin.addCommand({
+        id: 'add-to-reading-queue',
+        name: 'Add web viewer page to read-later queue',
+        checkCallback: (checking) => {
+            const leaf = plugin.captureService.getActiveWebViewerLeaf();
+            if (!leaf || !plugin.settings.enableReadingQueue) return false;
+            if (!checking) {
+                plugin.addToReadingQueue(leaf);
+            }
+            return true;
+        },
+    });
+
+    plugin.addCommand({
+        id: 'open-next-in-reading-queue',
+        name: 'Open next page in read-later queue',
+        checkCallback: (checking) => {
+            if (!plugin.settings.enableReadingQueue) return false;
+            if (!checking) {
+                void plugin.openNextInReadingQueue();
+            }
+            return true;
+        },
+    });
+
+    // Capture Selection Command
+    plugin.addCommand({
+        id: 'capture-selection',
+        name: 'Capture selection from web viewer as quote',
+        checkCallback: (checking) => {
+            const leaf = plugin.captureService.getActiveWebViewerLeaf();
+            if (!leaf) return false;
+            if (!checking) {
+                void plugin.captureSelection(leaf);
+            }
+            return true;
+        },
+    });
 
 }
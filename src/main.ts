@@ -4,7 +4,7 @@
  * SPDX-License-Identifier: GPL-3.0-only
  */
 
-import { Plugin, WorkspaceLeaf, Menu } from 'obsidian';
+import { Plugin, WorkspaceLeaf, Menu, Notice, TFile, normalizePath } from 'obsidian';
 import { WebSidecarSettings, DEFAULT_SETTINGS } from './types';
 import { WebSidecarSettingTab } from './settings/settingsTab';
 import { WebSidecarView, VIEW_TYPE_WEB_SIDECAR } from './views/webSidecarView';
@@ -13,6 +13,20 @@ import { registerCommands } from './commands';
 import { UrlIndex } from './services/UrlIndex';
 import { TabStateService } from './services/TabStateService';
 import { NoteCreationService } from './services/NoteCreationService';
+import { CaptureService } from './services/CaptureService';
+import { PageArchiveService } from './services/PageArchiveService';
+import { BrowsingSessionService, listBrowsingSessions } from './services/BrowsingSessionService';
+import { VisitHistoryService } from './services/VisitHistoryService';
+import { VisitStatsService } from './services/VisitStatsService';
+import { ReadingQueueService } from './services/ReadingQueueService';
+import { NavigationService } from './services/NavigationService';
+import { findWebViewerLeafById } from './services/contentCapture';
+import { CreateNoteModal } from './modals/createNoteModal';
+import { BulkCaptureSummaryModal } from './modals/bulkCaptureSummaryModal';
+import { SaveSessionModal } from './modals/saveSessionModal';
+import { RestoreSessionModal } from './modals/restoreSessionModal';
+import { getExplorerSiteMatchers, updateSiteExplorerSettings } from './services/matchers/registry';
+import { getUrlPatternMatchers } from './services/matchers/urlPatterns';
 
 /**
  * Web Sidecar Plugin
@@ -22,20 +36,37 @@ export default class WebSidecarPlugin extends Plugin {
 	settings!: WebSidecarSettings;
 	private webViewerManager: WebViewerManager | null = null;
 	private noteCreationService!: NoteCreationService;
+	private navigationService!: NavigationService;
 	public urlIndex!: UrlIndex;
 	public tabStateService!: TabStateService;
+	public captureService!: CaptureService;
+	public pageArchiveService!: PageArchiveService;
+	public browsingSessionService!: BrowsingSessionService;
+	public visitHistoryService!: VisitHistoryService;
+	public visitStatsService!: VisitStatsService;
+	public readingQueueService!: ReadingQueueService;
 
 	async onload(): Promise<void> {
 		await this.loadSettings();
 
 		// 1. Initialize Services
-		this.urlIndex = new UrlIndex(this.app, () => this.settings);
+		const pluginDir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		this.urlIndex = new UrlIndex(this.app, () => this.settings, normalizePath(`${pluginDir}/url-index-cache.json`));
+		this.visitHistoryService = new VisitHistoryService(this.app, () => this.settings, normalizePath(`${pluginDir}/visit-history.json`));
+		this.visitStatsService = new VisitStatsService(this.app, () => this.settings, this.urlIndex);
+		this.readingQueueService = new ReadingQueueService(this.app, () => this.settings, this.urlIndex, () => this.tabStateService.refreshState());
 		this.tabStateService = new TabStateService(this, () => this.settings, () => this.updateView());
 		this.noteCreationService = new NoteCreationService(this.app, () => this.settings);
+		this.captureService = new CaptureService(this.app, () => this.settings, this.urlIndex, this.noteCreationService);
+		this.pageArchiveService = new PageArchiveService(this.app, () => this.settings, this.captureService, this.noteCreationService);
+		this.navigationService = new NavigationService(this.app, () => this.settings, this.urlIndex, this.noteCreationService, () => { }, () => this.tabStateService.refreshState());
+		this.browsingSessionService = new BrowsingSessionService(this.app, () => this.settings, this.tabStateService, this.urlIndex, this.navigationService);
 
 		this.app.workspace.onLayoutReady(() => {
-			this.urlIndex.initialize();
-			this.tabStateService.initialize();
+			void this.urlIndex.initialize();
+			void this.readingQueueService.initialize();
+			// History is loaded before tab tracking starts recording visits
+			void this.visitHistoryService.load().then(() => this.tabStateService.initialize());
 		});
 
 		this.webViewerManager = new WebViewerManager(this.app, () => this.settings, this.urlIndex);
@@ -56,6 +87,7 @@ export default class WebSidecarPlugin extends Plugin {
 				() => this.tabStateService.getVirtualTabs(),
 				this.urlIndex,
 				this.tabStateService,
+				this.noteCreationService,
 				async () => { await this.saveData(this.settings); }
 			)
 		);
@@ -66,11 +98,17 @@ export default class WebSidecarPlugin extends Plugin {
 
 		// 4. Register Events
 		this.registerNoteCreationEvent();
+		this.registerCaptureEvents();
+		this.registerSessionEvents();
+		this.registerReadingQueueEvents();
 		this.registerFileMenuEvent();
 	}
 
 	onunload(): void {
 		this.tabStateService?.destroy();
+		this.visitHistoryService?.destroy();
+		this.visitStatsService?.destroy();
+		this.readingQueueService?.destroy();
 		this.webViewerManager?.destroy();
 		this.urlIndex?.destroy();
 	}
@@ -78,8 +116,41 @@ export default class WebSidecarPlugin extends Plugin {
 	async loadSettings(): Promise<void> {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, (await this.loadData()) as unknown);
 
+		// Migration: Fill in page metadata fields added after the settings were saved
+		this.settings.pageMetadataProperties = {
+			...DEFAULT_SETTINGS.pageMetadataProperties,
+			...this.settings.pageMetadataProperties,
+		};
+
+		// Migration: Reddit, YouTube, X and GitHub explorers moved to the site explorer settings
+		const saved = this.settings as unknown as Record<string, unknown>;
+		const legacyExplorers: [id: string, enabled: string, sortOrder: string, isOpen: string][] = [
+			['subreddit', 'enableSubredditExplorer', 'subredditSortOrder', 'isSubredditExplorerOpen'],
+			['youtube', 'enableYouTubeChannelExplorer', 'youtubeChannelSortOrder', 'isYouTubeChannelExplorerOpen'],
+			['twitter', 'enableTwitterExplorer', 'twitterSortOrder', 'isTwitterExplorerOpen'],
+			['github', 'enableGithubExplorer', 'githubSortOrder', 'isGithubExplorerOpen'],
+		];
+		for (const [id, enabled, sortOrder, isOpen] of legacyExplorers) {
+			if (!(enabled in saved)) continue;
+			if (!this.settings.siteExplorers[id]) {
+				const sort = saved[sortOrder];
+				updateSiteExplorerSettings(this.settings, id, {
+					enabled: saved[enabled] === true,
+					sortOrder: sort === 'count' || sort === 'recent' ? sort : 'alpha',
+					isOpen: saved[isOpen] === true,
+				});
+			}
+			delete saved[enabled];
+			delete saved[sortOrder];
+			delete saved[isOpen];
+		}
+
 		// Migration: Ensure new sections are in sectionOrder
-		const allSections = ['recent', 'domain', 'subreddit', 'youtube', 'twitter', 'github', 'tag', 'selected-tag'];
+		const allSections = [
+			'recent', 'domain', 'subreddit', 'youtube', 'twitter', 'github', 'tag', 'selected-tag', 'history', 'suggestions', 'queue',
+			...getExplorerSiteMatchers().map(m => m.id),
+			...getUrlPatternMatchers(this.settings).map(m => m.id),
+		];
 		for (const sec of allSections) {
 			if (!this.settings.sectionOrder.includes(sec)) {
 				this.settings.sectionOrder.push(sec);
@@ -89,9 +160,11 @@ export default class WebSidecarPlugin extends Plugin {
 
 	async saveSettings(): Promise<void> {
 		await this.saveData(this.settings);
+		this.visitHistoryService?.prune();
 		this.tabStateService?.refreshState();
 		this.webViewerManager?.onSettingsChanged();
-		this.urlIndex?.rebuildIndex();
+		this.urlIndex?.onSettingsChanged();
+		this.readingQueueService?.onSettingsChanged();
 	}
 
 	async activateView(): Promise<void> {
@@ -128,20 +201,19 @@ export default class WebSidecarPlugin extends Plugin {
 		const handleCreateNote = async (e: Event) => {
 			const customEvent = e as CustomEvent<{ url: string; leafId?: string }>;
 			if (!customEvent.detail?.url) return;
+			const { url, leafId } = customEvent.detail;
 
-			const newFile = await this.noteCreationService.createLinkedNoteFromUrl(
-				customEvent.detail.url,
-				customEvent.detail.leafId
-			);
+			// Don't silently create a second note for a page that already has one
+			const existing = this.captureService.findLinkedNote(url);
+			if (existing) {
+				this.openDuplicateNoteModal(url, existing, leafId);
+				return;
+			}
+
+			const newFile = await this.noteCreationService.createLinkedNoteFromUrl(url, leafId);
 
 			if (newFile) {
-				this.urlIndex?.updateFileIndex(newFile);
-				this.tabStateService.refreshState();
-				this.forceRenderAllViews();
-				setTimeout(() => {
-					this.tabStateService?.refreshState();
-					this.forceRenderAllViews();
-				}, 300);
+				this.refreshAfterNoteChange(newFile);
 			}
 		};
 
@@ -150,12 +222,273 @@ export default class WebSidecarPlugin extends Plugin {
 		this.register(() => window.removeEventListener('web-sidecar:create-note', listener));
 	}
 
+	/**
+	 * Ask whether to open, capture into or duplicate the note already linked to a URL
+	 */
+	private openDuplicateNoteModal(url: string, existing: TFile, leafId?: string): void {
+		new CreateNoteModal(
+			this.app,
+			url,
+			this.settings,
+			this.noteCreationService,
+			(path) => {
+				const file = this.app.vault.getFileByPath(path);
+				if (file) {
+					void this.app.workspace.openLinkText(path, '', true);
+					this.refreshAfterNoteChange(file);
+				}
+			},
+			leafId,
+			{
+				file: existing,
+				onAppend: async (file, page) => {
+					// Same hash check and diff confirmation as a capture from the web viewer
+					if (await this.captureService.appendCapture(file, url, page)) {
+						this.tabStateService.setPageChangedSinceCapture(url, false);
+						this.refreshAfterNoteChange(file);
+					}
+				},
+			}
+		).open();
+	}
+
+	/**
+	 * Capture a web viewer page into the "## Captured" section of its linked note
+	 */
+	async captureToLinkedNote(leaf: WorkspaceLeaf): Promise<void> {
+		const url = leaf.view.getState()?.url;
+		const file = await this.captureService.captureToLinkedNote(leaf);
+		if (file) {
+			if (typeof url === 'string') {
+				this.tabStateService.setPageChangedSinceCapture(url, false);
+			}
+			this.refreshAfterNoteChange(file);
+		}
+	}
+
+	/**
+	 * Create linked notes for all open web viewers without one, then show a summary
+	 */
+	async captureAllOpenWebViewers(): Promise<void> {
+		const tabs = this.tabStateService.getTrackedTabs();
+		if (tabs.length === 0) {
+			new Notice('No open web viewers');
+			return;
+		}
+
+		new Notice(`Creating linked notes for ${tabs.length} web viewers...`);
+		const result = await this.captureService.captureAllOpenTabs(tabs);
+
+		for (const item of result.created) {
+			if (item.file) this.urlIndex?.updateFileIndex(item.file);
+		}
+		if (result.created.length > 0) {
+			this.tabStateService.refreshState();
+			this.forceRenderAllViews();
+		}
+
+		new BulkCaptureSummaryModal(this.app, result).open();
+	}
+
+	/**
+	 * Append the selection of a web viewer as a quote to its linked note
+	 */
+	async captureSelection(leaf: WorkspaceLeaf): Promise<void> {
+		const file = await this.captureService.captureSelection(leaf);
+		if (file) {
+			this.refreshAfterNoteChange(file);
+		}
+	}
+
+	/**
+	 * Save a web viewer page as an HTML archive linked from its note
+	 */
+	async archivePage(leaf: WorkspaceLeaf): Promise<void> {
+		const file = await this.pageArchiveService.archivePage(leaf);
+		if (file) {
+			this.refreshAfterNoteChange(file);
+		}
+	}
+
+	private registerCaptureEvents(): void {
+		const getLeaf = (e: Event) => {
+			const customEvent = e as CustomEvent<{ leafId: string }>;
+			return customEvent.detail?.leafId ? findWebViewerLeafById(this.app, customEvent.detail.leafId) : null;
+		};
+
+		const selectionListener = (e: Event) => {
+			const leaf = getLeaf(e);
+			if (leaf) void this.captureSelection(leaf);
+		};
+		const pageListener = (e: Event) => {
+			const leaf = getLeaf(e);
+			if (leaf) void this.captureToLinkedNote(leaf);
+		};
+		const archiveListener = (e: Event) => {
+			const leaf = getLeaf(e);
+			if (leaf) void this.archivePage(leaf);
+		};
+		const openArchiveListener = (e: Event) => {
+			const customEvent = e as CustomEvent<{ url: string }>;
+			if (customEvent.detail?.url) void this.pageArchiveService.openArchivedCopy(customEvent.detail.url);
+		};
+
+		window.addEventListener('web-sidecar:capture-selection', selectionListener);
+		window.addEventListener('web-sidecar:capture-page', pageListener);
+		window.addEventListener('web-sidecar:archive-page', archiveListener);
+		window.addEventListener('web-sidecar:open-archive', openArchiveListener);
+		this.register(() => {
+			window.removeEventListener('web-sidecar:capture-selection', selectionListener);
+			window.removeEventListener('web-sidecar:capture-page', pageListener);
+			window.removeEventListener('web-sidecar:archive-page', archiveListener);
+			window.removeEventListener('web-sidecar:open-archive', openArchiveListener);
+		});
+	}
+
+	/**
+	 * Ask for a name and save the open web viewers as a browsing session
+	 */
+	saveBrowsingSession(): void {
+		const count = this.tabStateService.getAllTrackedTabs().length;
+		if (count === 0) {
+			new Notice('No open web viewers to save');
+			return;
+		}
+		new SaveSessionModal(this.app, count, (name) => {
+			void this.browsingSessionService.saveSession(name);
+		}).open();
+	}
+
+	/**
+	 * Reopen a saved browsing session (picked from a list if no session note is given)
+	 */
+	restoreBrowsingSession(file?: TFile): void {
+		if (file) {
+			void this.browsingSessionService.restoreSession(file);
+			return;
+		}
+
+		const sessions = listBrowsingSessions(this.app, this.settings);
+		if (sessions.length === 0) {
+			new Notice('No saved browsing sessions');
+			return;
+		}
+		new RestoreSessionModal(this.app, sessions, (session) => {
+			void this.browsingSessionService.restoreSession(session);
+		}).open();
+	}
+
+	private registerSessionEvents(): void {
+		const saveListener = () => this.saveBrowsingSession();
+		const restoreListener = (e: Event) => {
+			const customEvent = e as CustomEvent<{ path?: string }>;
+			const path = customEvent.detail?.path;
+			this.restoreBrowsingSession(path ? this.app.vault.getFileByPath(path) ?? undefined : undefined);
+		};
+
+		window.addEventListener('web-sidecar:save-session', saveListener);
+		window.addEventListener('web-sidecar:restore-session', restoreListener);
+		this.register(() => {
+			window.removeEventListener('web-sidecar:save-session', saveListener);
+			window.removeEventListener('web-sidecar:restore-session', restoreListener);
+		});
+	}
+
+	/**
+	 * Remove every page from the visit history
+	 */
+	clearVisitHistory(): void {
+		const count = this.visitHistoryService.clear();
+		new Notice(count > 0 ? `Visit history cleared (${count} pages)` : 'Visit history is already empty');
+		this.forceRenderAllViews();
+	}
+
+	/**
+	 * Add the page of a web viewer to the read-later queue
+	 */
+	addToReadingQueue(leaf: WorkspaceLeaf): void {
+		const url = leaf.view.getState()?.url;
+		if (typeof url !== 'string' || !url) return;
+		void this.readingQueueService.add(url, leaf.getDisplayText());
+	}
+
+	/**
+	 * Open the next page of the read-later queue (focusing it if it is already open)
+	 */
+	async openNextInReadingQueue(): Promise<void> {
+		const item = this.readingQueueService.getNext();
+		if (!item) {
+			new Notice('The read-later queue is empty');
+			return;
+		}
+		await this.navigationService.openUrl(item.url);
+	}
+
+	private registerReadingQueueEvents(): void {
+		const addListener = (e: Event) => {
+			const customEvent = e as CustomEvent<{ leafId: string }>;
+			const leaf = customEvent.detail?.leafId ? findWebViewerLeafById(this.app, customEvent.detail.leafId) : null;
+			if (leaf) this.addToReadingQueue(leaf);
+		};
+		const openNextListener = () => void this.openNextInReadingQueue();
+		const markReadListener = (e: Event) => {
+			const customEvent = e as CustomEvent<{ url: string }>;
+			if (customEvent.detail?.url) void this.readingQueueService.markRead(customEvent.detail.url);
+		};
+
+		window.addEventListener('web-sidecar:queue-add', addListener);
+		window.addEventListener('web-sidecar:queue-open-next', openNextListener);
+		window.addEventListener('web-sidecar:queue-mark-read', markReadListener);
+		this.register(() => {
+			window.removeEventListener('web-sidecar:queue-add', addListener);
+			window.removeEventListener('web-sidecar:queue-open-next', openNextListener);
+			window.removeEventListener('web-sidecar:queue-mark-read', markReadListener);
+		});
+	}
+
+	/**
+	 * Index a created or changed note right away and refresh the views
+	 */
+	private refreshAfterNoteChange(file: TFile): void {
+		this.urlIndex?.updateFileIndex(file);
+		this.tabStateService.refreshState();
+		this.forceRenderAllViews();
+		setTimeout(() => {
+			this.tabStateService?.refreshState();
+			this.forceRenderAllViews();
+		}, 300);
+	}
+
 	private registerFileMenuEvent(): void {
 		this.registerEvent(
 			this.app.workspace.on('file-menu', (menu: Menu, _file, _source, leaf?: WorkspaceLeaf) => {
 				if (leaf && this.webViewerManager) {
 					this.webViewerManager.addMenuItems(menu, leaf);
 				}
+				if (leaf && this.captureService.isWebViewerLeaf(leaf)) {
+					menu.addItem((item) => {
+						item.setTitle('Capture to linked note')
+							.setIcon('download')
+							.onClick(() => void this.captureToLinkedNote(leaf));
+					});
+					menu.addItem((item) => {
+						item.setTitle('Capture selection as quote')
+							.setIcon('quote')
+							.onClick(() => void this.captureSelection(leaf));
+					});
+					menu.addItem((item) => {
+						item.setTitle('Archive page')
+							.setIcon('archive')
+							.onClick(() => void this.archivePage(leaf));
+					});
+					if (this.settings.enableReadingQueue) {
+						menu.addItem((item) => {
+							item.setTitle('Add to read-later queue')
+								.setIcon('list-plus')
+								.onClick(() => this.addToReadingQueue(leaf));
+						});
+					}
+				}
 			})
 		);
 	}
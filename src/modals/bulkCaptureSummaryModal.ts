@@ -0,0 +1,64 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { App, Modal } from 'obsidian';
+import type { BulkCaptureItem, BulkCaptureResult } from '../types';
+
+/**
+ * Summary of "create linked notes for all open web viewers":
+ * created notes (click to open), skipped tabs and failures with their reason
+ */
+export class BulkCaptureSummaryModal extends Modal {
+    private result: BulkCaptureResult;
+
+    constructor(app: App, result: BulkCaptureResult) {
+        super(app);
+        this.result = result;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: 'Web viewers captured' });
+
+        const { created, skipped, failed } = this.result;
+        this.renderList(contentEl, `Created notes (${created.length})`, created);
+        this.renderList(contentEl, `Skipped tabs (${skipped.length})`, skipped);
+        this.renderList(contentEl, `Failures (${failed.length})`, failed);
+
+        const buttonContainer = contentEl.createDiv({ cls: 'web-sidecar-modal-buttons' });
+        const closeBtn = buttonContainer.createEl('button', { text: 'Close', cls: 'mod-cta' });
+        closeBtn.addEventListener('click', () => this.close());
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    private renderList(container: HTMLElement, heading: string, items: BulkCaptureItem[]): void {
+        if (items.length === 0) return;
+
+        container.createEl('h4', { text: heading });
+        const list = container.createEl('ul', { cls: 'web-sidecar-bulk-capture-list' });
+
+        for (const item of items) {
+            const li = list.createEl('li');
+            const file = item.file;
+            if (file) {
+                const link = li.createEl('a', { text: file.basename, href: '#' });
+                link.addEventListener('click', (e) => {
+                    e.preventDefault();
+                    void this.app.workspace.openLinkText(file.path, '', true);
+                    this.close();
+                });
+            } else {
+                li.createSpan({ text: item.title });
+            }
+            li.createDiv({ cls: 'web-sidecar-bulk-capture-detail', text: item.reason ? `${item.reason} · ${item.url}` : item.url });
+        }
+    }
+}
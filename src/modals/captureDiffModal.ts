@@ -0,0 +1,159 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { App, Modal, Setting, TFile } from 'obsidian';
+import type { DiffLine } from '../types';
+import { countChanges } from '../services/lineDiff';
+
+/** Unchanged lines shown around each change in the unified view */
+const CONTEXT_LINES = 3;
+
+/**
+ * Modal showing what changed on a page since its last capture,
+ * before replacing the captured section of the note
+ */
+export class CaptureDiffModal extends Modal {
+    private file: TFile;
+    private diff: DiffLine[];
+    private onDecision: (accepted: boolean) => void;
+    private decided = false;
+    private sideBySide = false;
+    private diffEl: HTMLElement | null = null;
+
+    constructor(app: App, file: TFile, diff: DiffLine[], onDecision: (accepted: boolean) => void) {
+        super(app);
+        this.file = file;
+        this.diff = diff;
+        this.onDecision = onDecision;
+    }
+
+    onOpen(): void {
+        const { contentEl, modalEl } = this;
+        contentEl.empty();
+        modalEl.addClass('web-sidecar-diff-modal');
+
+        contentEl.createEl('h2', { text: 'Changes since last capture' });
+
+        const { added, removed } = countChanges(this.diff);
+        new Setting(contentEl)
+            .setName(this.file.basename)
+            .setDesc(`${added} lines added, ${removed} lines removed`)
+            .addToggle(toggle => toggle
+                .setTooltip('Side by side')
+                .setValue(this.sideBySide)
+                .onChange(value => {
+                    this.sideBySide = value;
+                    this.renderDiff();
+                }));
+
+        this.diffEl = contentEl.createDiv({ cls: 'web-sidecar-diff' });
+        this.renderDiff();
+
+        const buttonContainer = contentEl.createDiv({ cls: 'web-sidecar-modal-buttons' });
+
+        const cancelBtn = buttonContainer.createEl('button', { text: 'Keep previous capture' });
+        cancelBtn.addEventListener('click', () => this.decide(false));
+
+        const acceptBtn = buttonContainer.createEl('button', { text: 'Update capture', cls: 'mod-cta' });
+        acceptBtn.addEventListener('click', () => this.decide(true));
+    }
+
+    onClose(): void {
+        // Closing without choosing keeps the previous capture
+        this.decide(false);
+        this.contentEl.empty();
+    }
+
+    private decide(accepted: boolean): void {
+        if (this.decided) return;
+        this.decided = true;
+        this.onDecision(accepted);
+        this.close();
+    }
+
+    private renderDiff(): void {
+        if (!this.diffEl) return;
+        this.diffEl.empty();
+        this.diffEl.toggleClass('is-side-by-side', this.sideBySide);
+
+        if (this.sideBySide) {
+            this.renderSideBySide(this.diffEl);
+        } else {
+            this.renderUnified(this.diffEl);
+        }
+    }
+
+    /**
+     * Changed lines with a few unchanged lines of context, longer unchanged runs folded
+     */
+    private renderUnified(container: HTMLElement): void {
+        const visible = this.diff.map((line, index) => line.type !== 'same'
+            || this.diff.slice(Math.max(0, index - CONTEXT_LINES), index + CONTEXT_LINES + 1).some(l => l.type !== 'same'));
+
+        let hidden = 0;
+        this.diff.forEach((line, index) => {
+            if (!visible[index]) {
+                hidden++;
+                return;
+            }
+            if (hidden > 0) {
+                this.renderFold(container, hidden);
+                hidden = 0;
+            }
+            const prefix = line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' ';
+            container.createDiv({ cls: `web-sidecar-diff-line is-${line.type}`, text: `${prefix} ${line.text}` });
+        });
+        if (hidden > 0) this.renderFold(container, hidden);
+    }
+
+    /**
+     * Previous capture on the left, new capture on the right; removed and added runs side by side
+     */
+    private renderSideBySide(container: HTMLElement): void {
+        let removed: string[] = [];
+        let added: string[] = [];
+
+        const flush = () => {
+            for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+                this.renderRow(container, removed[i], added[i]);
+            }
+            removed = [];
+            added = [];
+        };
+
+        for (const line of this.diff) {
+            if (line.type === 'removed') {
+                removed.push(line.text);
+            } else if (line.type === 'added') {
+                added.push(line.text);
+            } else {
+                flush();
+                this.renderRow(container, line.text, line.text);
+            }
+        }
+        flush();
+    }
+
+    private renderRow(container: HTMLElement, left: string | undefined, right: string | undefined): void {
+        const row = container.createDiv({ cls: 'web-sidecar-diff-row' });
+        const changed = left !== right;
+        row.createDiv({
+            cls: `web-sidecar-diff-line${changed && left !== undefined ? ' is-removed' : ''}`,
+            text: left ?? '',
+        });
+        row.createDiv({
+            cls: `web-sidecar-diff-line${changed && right !== undefined ? ' is-added' : ''}`,
+            text: right ?? '',
+        });
+    }
+
+    private renderFold(container: HTMLElement, count: number): void {
+        container.createDiv({
+            cls: 'web-sidecar-diff-fold',
+            text: count === 1 ? '1 unchanged line' : `${count} unchanged lines`,
+        });
+    }
+}
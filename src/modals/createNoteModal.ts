@@ -4,93 +4,127 @@
  * SPDX-License-Identifier: GPL-3.0-only
  */
 
-import { App, Modal, Setting, normalizePath } from 'obsidian';
-import type { WebSidecarSettings } from '../types';
+import { App, Modal, Setting, TextComponent, TFile } from 'obsidian';
+import type { CapturedPage, WebSidecarSettings } from '../types';
+import type { NoteCreationService } from '../services/NoteCreationService';
+import { capturePage, findWebViewerLeafById } from '../services/contentCapture';
+import { getNoteTemplateFile, getNoteTemplateFiles, resolveNoteTemplatePath } from '../services/noteTemplates';
+import { getWebViewerTitle } from '../services/webViewerUtils';
 
 /**
- * Modal for creating a new note with URL pre-filled and optional captured content
+ * Note already linked to the URL, shown before creating another one
+ */
+export interface ExistingLinkedNote {
+    file: TFile;
+    /** Capture the page into the existing note instead */
+    onAppend: (file: TFile, page: CapturedPage | null) => Promise<void>;
+}
+
+/**
+ * Modal for creating a new note with URL pre-filled, a template picker and optional captured content.
+ * If the URL already has a linked note, it first offers to open it or capture into it.
  */
 export class CreateNoteModal extends Modal {
     private url: string;
     private settings: WebSidecarSettings;
+    private noteCreationService: NoteCreationService;
     private noteTitle: string = '';
+    /** Whether the user edited the title (a captured page title no longer replaces it) */
+    private titleEdited = false;
+    private titleInput: TextComponent | null = null;
     private onNoteCreated: (path: string) => void;
-    private capturedContent: string | null;
+    /** Page capture of the web viewer the note is created from (started when opened) */
+    private capture: Promise<CapturedPage | null> | null = null;
     private includeContent: boolean;
+    /** Selected template path (empty for the built-in template) */
+    private templatePath: string;
+    private existingNote: ExistingLinkedNote | null;
 
     constructor(
         app: App,
         url: string,
         settings: WebSidecarSettings,
+        noteCreationService: NoteCreationService,
         onNoteCreated: (path: string) => void,
-        capturedContent?: string | null
+        leafId?: string,
+        existingNote?: ExistingLinkedNote
     ) {
         super(app);
         this.url = url;
         this.settings = settings;
+        this.noteCreationService = noteCreationService;
         this.onNoteCreated = onNoteCreated;
-        this.capturedContent = capturedContent ?? null;
-        // Default to include content if we have it
-        this.includeContent = !!this.capturedContent;
+        this.existingNote = existingNote ?? null;
+
+        // Capture in the background while the user edits the title (or to append it to the existing note)
+        const leaf = leafId ? findWebViewerLeafById(app, leafId) : null;
+        if (leaf && (settings.capturePageContent || settings.savePageMetadata || this.existingNote)) {
+            this.capture = capturePage(leaf);
+        }
+        // Default to include content if we capture it
+        this.includeContent = !!this.capture && settings.capturePageContent;
+
+        // Use the page title, else generate title from URL
+        this.noteTitle = (leaf ? getWebViewerTitle(leaf) : undefined) || noteCreationService.generateTitleFromUrl(url);
 
-        // Generate default title from URL
-        this.noteTitle = this.generateTitleFromUrl(url);
+        // Preselect the template of this domain
+        const resolved = resolveNoteTemplatePath(settings, url);
+        this.templatePath = resolved ? getNoteTemplateFile(app, resolved)?.path ?? '' : '';
     }
 
-    /**
-     * Resolve folder path based on settings - uses vault config or custom path
-     */
-    private getFolderPath(): string {
-        if (this.settings.useVaultDefaultLocation) {
-            // Access internal Obsidian vault config (undocumented API)
-            const vaultConfig = this.app.vault as unknown as {
-                getConfig?: (key: string) => string | undefined;
-            };
-            const newFileLocation = vaultConfig.getConfig?.('newFileLocation') ?? 'root';
-
-            if (newFileLocation === 'folder') {
-                return vaultConfig.getConfig?.('newFileFolderPath') ?? '';
-            } else if (newFileLocation === 'current') {
-                // Use folder of currently active file
-                const activeFile = this.app.workspace.getActiveFile();
-                return activeFile?.parent?.path ?? '';
-            }
-            // 'root' or default
-            return '';
+    onOpen(): void {
+        if (this.existingNote) {
+            this.renderDuplicateGuard(this.existingNote);
+        } else {
+            this.renderCreateForm();
         }
-        return this.settings.newNoteFolderPath;
     }
 
-    private generateTitleFromUrl(url: string): string {
-        try {
-            let urlWithProtocol = url;
-            if (!url.match(/^https?:\/\//)) {
-                urlWithProtocol = 'https://' + url;
-            }
-            const parsed = new URL(urlWithProtocol);
-
-            // Try to get a meaningful title from the pathname
-            const pathname = parsed.pathname.replace(/\/$/, '');
-            if (pathname && pathname !== '/') {
-                const lastSegment = pathname.split('/').pop() || '';
-                // Clean up the segment
-                const cleaned = lastSegment
-                    .replace(/[-_]/g, ' ')
-                    .replace(/\.[^.]+$/, '') // Remove file extension
-                    .trim();
-                if (cleaned) {
-                    return cleaned.charAt(0).toUpperCase() + cleaned.slice(1);
-                }
-            }
-
-            // Fall back to hostname
-            return parsed.hostname.replace(/^www\./, '');
-        } catch {
-            return 'New Note';
+    /**
+     * Offer to open or capture into the note already linked to the URL before creating another one
+     */
+    private renderDuplicateGuard(existing: ExistingLinkedNote): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: 'This page already has a note' });
+
+        const urlDisplay = contentEl.createEl('div', { cls: 'web-sidecar-url-display' });
+        urlDisplay.createEl('code', { text: this.url });
+
+        new Setting(contentEl)
+            .setName(existing.file.basename)
+            .setDesc(existing.file.path);
+
+        const buttonContainer = contentEl.createDiv({ cls: 'web-sidecar-modal-buttons' });
+
+        const createBtn = buttonContainer.createEl('button', { text: 'Create anyway' });
+        createBtn.addEventListener('click', () => {
+            this.existingNote = null;
+            this.renderCreateForm();
+        });
+
+        // Appending needs the page open in a web viewer
+        if (this.capture) {
+            const appendBtn = buttonContainer.createEl('button', { text: 'Append capture' });
+            appendBtn.addEventListener('click', () => {
+                appendBtn.disabled = true;
+                void (async () => {
+                    const page = this.capture ? await this.capture : null;
+                    await existing.onAppend(existing.file, page);
+                    this.close();
+                })();
+            });
         }
+
+        const openBtn = buttonContainer.createEl('button', { text: 'Open existing', cls: 'mod-cta' });
+        openBtn.addEventListener('click', () => {
+            void this.app.workspace.openLinkText(existing.file.path, '', true);
+            this.close();
+        });
     }
 
-    onOpen(): void {
+    private renderCreateForm(): void {
         const { contentEl } = this;
         contentEl.empty();
 
@@ -103,15 +137,26 @@ export class CreateNoteModal extends Modal {
         // Note title input
         new Setting(contentEl)
             .setName('Note title')
-            .addText(text => text
-                .setValue(this.noteTitle)
-                .setPlaceholder('Enter note title')
-                .onChange(value => {
-                    this.noteTitle = value;
-                }));
+            .addText(text => {
+                this.titleInput = text;
+                text
+                    .setValue(this.noteTitle)
+                    .setPlaceholder('Enter note title')
+                    .onChange(value => {
+                        this.noteTitle = value;
+                        this.titleEdited = true;
+                    });
+            });
+
+        // Prefer the title from the page metadata once captured
+        void this.capture?.then(page => {
+            if (!page?.title || this.titleEdited) return;
+            this.noteTitle = page.title.trim();
+            this.titleInput?.setValue(this.noteTitle);
+        });
 
         // Folder display (read-only info)
-        const folderPath = this.getFolderPath();
+        const folderPath = this.noteCreationService.getNoteFolder(this.url, this.noteTitle.trim());
         const folderDisplay = folderPath || '(vault root)';
         new Setting(contentEl)
             .setName('Folder')
@@ -122,8 +167,26 @@ export class CreateNoteModal extends Modal {
             .setName('URL property')
             .setDesc(`Will be saved as: ${this.settings.primaryUrlProperty}`);
 
-        // Content capture toggle (only show if content was captured)
-        if (this.capturedContent) {
+        // Template picker (only show if templates are configured)
+        const templates = getNoteTemplateFiles(this.app, this.settings);
+        if (templates.length > 0) {
+            new Setting(contentEl)
+                .setName('Template')
+                .addDropdown(dropdown => {
+                    dropdown.addOption('', 'Built-in');
+                    for (const file of templates) {
+                        dropdown.addOption(file.path, file.path.replace(/\.md$/, ''));
+                    }
+                    dropdown
+                        .setValue(this.templatePath)
+                        .onChange(value => {
+                            this.templatePath = value;
+                        });
+                });
+        }
+
+        // Content capture toggle (only show if content can be captured)
+        if (this.capture) {
             new Setting(contentEl)
                 .setName('Include page content')
                 .setDesc('Add the web page content as markdown to the note')
@@ -148,76 +211,23 @@ export class CreateNoteModal extends Modal {
     }
 
     private async createNote(): Promise<void> {
-        if (!this.noteTitle.trim()) {
-            // Show error
-            return;
-        }
-
-        const fileName = this.sanitizeFileName(this.noteTitle) + '.md';
-        const folderPath = this.getFolderPath();
-        const fullPath = folderPath ? normalizePath(`${folderPath}/${fileName}`) : fileName;
-
-        // Create folder if it doesn't exist
-        if (folderPath) {
-            const folder = this.app.vault.getAbstractFileByPath(folderPath);
-            if (!folder) {
-                await this.app.vault.createFolder(folderPath);
-            }
-        }
-
-        // Check if file already exists
-        const existingFile = this.app.vault.getAbstractFileByPath(fullPath);
-        if (existingFile) {
-            // Could show error or append number
-            const timestamp = Date.now();
-            const newPath = folderPath
-                ? normalizePath(`${folderPath}/${this.sanitizeFileName(this.noteTitle)}-${timestamp}.md`)
-                : `${this.sanitizeFileName(this.noteTitle)}-${timestamp}.md`;
-            await this.createNoteAtPath(newPath);
-        } else {
-            await this.createNoteAtPath(fullPath);
-        }
-    }
-
-    private async createNoteAtPath(path: string): Promise<void> {
-        const content = this.generateNoteContent();
-
-        try {
-            await this.app.vault.create(path, content);
-            this.onNoteCreated(path);
+        const title = this.noteTitle.trim();
+        if (!title) return;
+
+        const { file } = await this.noteCreationService.createNote(this.url, {
+            title,
+            templatePath: this.templatePath,
+            includeContent: this.includeContent,
+            page: this.capture ? await this.capture : null,
+        }, { openNote: false });
+
+        // The note with the same name when the collision strategy opens it instead
+        if (file) {
+            this.onNoteCreated(file.path);
             this.close();
-        } catch (error) {
-            console.error('Failed to create note:', error);
         }
     }
 
-    private generateNoteContent(): string {
-        const lines = [
-            '---',
-            `${this.settings.primaryUrlProperty}: ${this.url}`,
-            '---',
-            '',
-            `# ${this.noteTitle}`,
-            '',
-        ];
-
-        // Add captured content if enabled
-        if (this.includeContent && this.capturedContent) {
-            lines.push(this.capturedContent);
-            lines.push('');
-        }
-
-        return lines.join('\n');
-    }
-
-    private sanitizeFileName(name: string): string {
-        // Remove characters that are invalid in file names
-        return name
-            .replace(/[\\/:*?"<>|]/g, '')
-            .replace(/\s+/g, ' ')
-            .trim();
-    }
-
     onClose(): void {
         const { contentEl } = this;
         contentEl.empty();
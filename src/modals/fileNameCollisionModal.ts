@@ -0,0 +1,55 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { App, Modal, TFile } from 'obsidian';
+
+/**
+ * Asks what to do when a new note's file name is taken:
+ * open the existing note or create the new one with a numeric suffix
+ */
+export class FileNameCollisionModal extends Modal {
+    private existing: TFile;
+    private onChoice: (choice: 'open-existing' | 'suffix' | null) => void;
+    private chosen = false;
+
+    constructor(app: App, existing: TFile, onChoice: (choice: 'open-existing' | 'suffix' | null) => void) {
+        super(app);
+        this.existing = existing;
+        this.onChoice = onChoice;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: 'A note with this name already exists' });
+        contentEl.createEl('p', { text: this.existing.path, cls: 'setting-item-description' });
+
+        const buttonContainer = contentEl.createDiv({ cls: 'web-sidecar-modal-buttons' });
+
+        const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel' });
+        cancelBtn.addEventListener('click', () => this.choose(null));
+
+        const suffixBtn = buttonContainer.createEl('button', { text: 'Create with number' });
+        suffixBtn.addEventListener('click', () => this.choose('suffix'));
+
+        const openBtn = buttonContainer.createEl('button', { text: 'Open existing', cls: 'mod-cta' });
+        openBtn.addEventListener('click', () => this.choose('open-existing'));
+    }
+
+    onClose(): void {
+        // Closing without choosing cancels
+        this.choose(null);
+        this.contentEl.empty();
+    }
+
+    private choose(choice: 'open-existing' | 'suffix' | null): void {
+        if (this.chosen) return;
+        this.chosen = true;
+        this.onChoice(choice);
+        this.close();
+    }
+}
@@ -0,0 +1,34 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { App, FuzzySuggestModal, TFile } from 'obsidian';
+
+/**
+ * Picks a saved browsing session to reopen
+ */
+export class RestoreSessionModal extends FuzzySuggestModal<TFile> {
+    private sessions: TFile[];
+    private onChoose: (file: TFile) => void;
+
+    constructor(app: App, sessions: TFile[], onChoose: (file: TFile) => void) {
+        super(app);
+        this.sessions = sessions;
+        this.onChoose = onChoose;
+        this.setPlaceholder('Restore browsing session...');
+    }
+
+    getItems(): TFile[] {
+        return this.sessions;
+    }
+
+    getItemText(file: TFile): string {
+        return file.basename;
+    }
+
+    onChooseItem(file: TFile): void {
+        this.onChoose(file);
+    }
+}
@@ -0,0 +1,69 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { App, Modal, Setting, moment } from 'obsidian';
+
+/**
+ * Asks for the name of a browsing session to save
+ */
+export class SaveSessionModal extends Modal {
+    private name: string;
+    private tabCount: number;
+    private onSave: (name: string) => void;
+
+    constructor(app: App, tabCount: number, onSave: (name: string) => void) {
+        super(app);
+        this.tabCount = tabCount;
+        this.onSave = onSave;
+        this.name = `Session ${moment().format('YYYY-MM-DD HH.mm')}`;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: 'Save browsing session' });
+        contentEl.createEl('p', {
+            text: this.tabCount === 1 ? '1 open web viewer' : `${this.tabCount} open web viewers`,
+            cls: 'setting-item-description',
+        });
+
+        new Setting(contentEl)
+            .setName('Session name')
+            .setDesc('A session with the same name is replaced')
+            .addText(text => {
+                text.setValue(this.name)
+                    .onChange(value => {
+                        this.name = value;
+                    });
+                text.inputEl.addEventListener('keydown', (e) => {
+                    if (e.key === 'Enter') {
+                        e.preventDefault();
+                        this.save();
+                    }
+                });
+                window.setTimeout(() => text.inputEl.select(), 0);
+            });
+
+        const buttonContainer = contentEl.createDiv({ cls: 'web-sidecar-modal-buttons' });
+
+        const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel' });
+        cancelBtn.addEventListener('click', () => this.close());
+
+        const saveBtn = buttonContainer.createEl('button', { text: 'Save', cls: 'mod-cta' });
+        saveBtn.addEventListener('click', () => this.save());
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    private save(): void {
+        if (!this.name.trim()) return;
+        this.onSave(this.name.trim());
+        this.close();
+    }
+}
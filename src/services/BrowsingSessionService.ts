@@ -0,0 +1,181 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { App, Notice, TFile, TFolder, WorkspaceLeaf, moment, normalizePath } from 'obsidian';
+import type { BrowsingSession, TrackedWebViewer, WebSidecarSettings } from '../types';
+import type { TabStateService } from './TabStateService';
+import type { UrlIndex } from './UrlIndex';
+import type { NavigationService } from './NavigationService';
+import { findMatchingNotes } from './noteMatcher';
+import { getAvailableNotePath, sanitizeFileName } from './noteFileNames';
+import { getViewFile } from './obsidianHelpers';
+import { formatBrowsingSession, parseBrowsingSession, SESSION_SAVED_PROPERTY } from './browsingSessionFormat';
+
+/**
+ * Saved session notes in the sessions folder, most recent first
+ */
+export function listBrowsingSessions(app: App, settings: WebSidecarSettings): TFile[] {
+    const folder = getSessionsFolder(settings);
+    return app.vault.getMarkdownFiles()
+        .filter(file => !folder || file.path.startsWith(folder + '/'))
+        .filter(file => isSessionNote(app, file))
+        .sort((a, b) => b.stat.mtime - a.stat.mtime);
+}
+
+/**
+ * Whether a note is a saved session (has the `session_saved` property)
+ */
+function isSessionNote(app: App, file: TFile): boolean {
+    return app.metadataCache.getFileCache(file)?.frontmatter?.[SESSION_SAVED_PROPERTY] !== undefined;
+}
+
+function getSessionsFolder(settings: WebSidecarSettings): string {
+    const folder = normalizePath(settings.sessionsFolder.trim() || '/');
+    return folder === '/' ? '' : folder;
+}
+
+/**
+ * Saves the open web viewers as named session notes and reopens them
+ */
+export class BrowsingSessionService {
+    constructor(
+        private app: App,
+        private getSettings: () => WebSidecarSettings,
+        private tabStateService: TabStateService,
+        private urlIndex: UrlIndex,
+        private navigationService: NavigationService
+    ) { }
+
+    /**
+     * The open web viewers as a session: sidebar order with pinned tabs first,
+     * popout placement and the linked notes open in the workspace
+     */
+    captureSession(name: string): BrowsingSession {
+        const settings = this.getSettings();
+        const tabs = this.tabStateService.getAllTrackedTabs();
+        const pins = settings.enablePinnedTabs ? this.tabStateService.getPinnedTabs() : [];
+        const pinIndex = (tab: TrackedWebViewer) => pins.findIndex(pin => pin.leafId === tab.leafId);
+
+        const pinned = tabs.filter(tab => pinIndex(tab) !== -1).sort((a, b) => pinIndex(a) - pinIndex(b));
+        const unpinned = tabs.filter(tab => pinIndex(tab) === -1);
+
+        const openNotes = new Set<string>();
+        for (const leaf of this.app.workspace.getLeavesOfType('markdown')) {
+            const file = getViewFile(leaf.view);
+            if (file) openNotes.add(file.path);
+        }
+
+        return {
+            name,
+            saved: moment().format('YYYY-MM-DDTHH:mm:ss'),
+            tabs: [...pinned, ...unpinned].map(tab => ({
+                url: tab.url,
+                title: tab.title || tab.url,
+                pinned: pinIndex(tab) !== -1,
+                popout: tab.isPopout,
+                notes: findMatchingNotes(this.app, tab.url, settings, this.urlIndex).exactMatches
+                    .map(match => match.file.path)
+                    .filter(path => openNotes.has(path)),
+            })),
+        };
+    }
+
+    /**
+     * Save the open web viewers as a session note in the sessions folder,
+     * replacing the session with the same name
+     */
+    async saveSession(name: string): Promise<TFile | null> {
+        const sessionName = name.trim();
+        const baseName = sanitizeFileName(sessionName);
+        if (!baseName) {
+            new Notice('Enter a session name');
+            return null;
+        }
+
+        const session = this.captureSession(sessionName);
+        if (session.tabs.length === 0) {
+            new Notice('No open web viewers to save');
+            return null;
+        }
+
+        const folder = getSessionsFolder(this.getSettings());
+        const path = normalizePath(folder ? `${folder}/${baseName}.md` : `${baseName}.md`);
+        const content = formatBrowsingSession(session);
+
+        try {
+            if (folder && !(this.app.vault.getAbstractFileByPath(folder) instanceof TFolder)) {
+                await this.app.vault.createFolder(folder);
+            }
+            // Only a saved session is replaced; any other note keeps its name
+            const existing = this.app.vault.getAbstractFileByPath(path);
+            let file: TFile;
+            if (existing instanceof TFile && isSessionNote(this.app, existing)) {
+                await this.app.vault.modify(existing, content);
+                file = existing;
+            } else {
+                file = await this.app.vault.create(existing ? getAvailableNotePath(this.app, folder, baseName) : path, content);
+            }
+
+            new Notice(`Session "${sessionName}" saved (${session.tabs.length} web viewers)`);
+            return file;
+        } catch (error) {
+            console.error('Web Sidecar: Failed to save browsing session:', error);
+            new Notice('Failed to save the session');
+            return null;
+        }
+    }
+
+    /**
+     * Reopen the web viewers of a session note: pages already open are focused,
+     * popout tabs share one popout window, pinned tabs are pinned again
+     * and their linked notes are opened next to them
+     */
+    async restoreSession(file: TFile): Promise<void> {
+        const session = parseBrowsingSession(await this.app.vault.cachedRead(file));
+        if (!session || session.tabs.length === 0) {
+            new Notice(`${file.basename} has no saved web viewers`);
+            return;
+        }
+
+        new Notice(`Restoring ${session.tabs.length} web viewers...`);
+        const settings = this.getSettings();
+        let popoutLeaf: WorkspaceLeaf | null = null;
+
+        for (const tab of session.tabs) {
+            try {
+                if (tab.popout) {
+                    popoutLeaf = await this.openInPopout(tab.url, popoutLeaf);
+                } else {
+                    await this.navigationService.openUrl(tab.url);
+                }
+
+                if (tab.pinned && settings.enablePinnedTabs) {
+                    await this.tabStateService.addPinnedTab({ url: tab.url, title: tab.title });
+                }
+
+                for (const path of tab.notes) {
+                    const note = this.app.vault.getFileByPath(path);
+                    if (note) await this.navigationService.openPaired(note, tab.url);
+                }
+            } catch (error) {
+                console.error('Web Sidecar: Failed to restore session tab:', tab.url, error);
+            }
+        }
+
+        this.tabStateService.refreshState();
+    }
+
+    /**
+     * Open a URL in the session's popout window (a new one for the first popout tab)
+     */
+    private async openInPopout(url: string, popoutLeaf: WorkspaceLeaf | null): Promise<WorkspaceLeaf> {
+        if (!popoutLeaf?.parent) return this.navigationService.openUrlInPopout(url);
+
+        const leaf = this.app.workspace.createLeafInParent(popoutLeaf.parent, -1);
+        await leaf.setViewState({ type: 'webviewer', state: { url, navigate: true } });
+        return popoutLeaf;
+    }
+}
@@ -0,0 +1,264 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { App, Notice, TFile, View, WorkspaceLeaf } from 'obsidian';
+import type { BulkCaptureResult, CapturedPage, TrackedWebViewer, WebSidecarSettings } from '../types';
+import type { UrlIndex } from './UrlIndex';
+import type { NoteCreationService } from './NoteCreationService';
+import { localizeCapturedImages } from './assetLocalizer';
+import {
+    CAPTURE_HASH_PROPERTY,
+    getCaptureProperties,
+    getCapturedSection,
+    hashCapturedContent,
+    setCapturedSection,
+} from './capturedSection';
+import { capturePage, captureWebViewSelectionHtml, findWebViewerLeafById, htmlToMarkdownSafe } from './contentCapture';
+import { findMatchingNotes } from './noteMatcher';
+import { addFrontmatterProperties, getPageMetadataProperties } from './noteTemplates';
+import { diffLines } from './lineDiff';
+import { getLeafId } from './obsidianHelpers';
+import { CaptureDiffModal } from '../modals/captureDiffModal';
+import { buildTextFragmentUrl, extractDomain, matchesDomain } from './urlUtils';
+import { getWebViewerTitle } from './webViewerUtils';
+
+/**
+ * Supported web viewer types
+ */
+const WEB_VIEW_TYPES = ['webviewer', 'surfing-view'];
+
+/**
+ * Captures parts of web viewer pages into their linked notes
+ */
+export class CaptureService {
+    constructor(
+        private app: App,
+        private getSettings: () => WebSidecarSettings,
+        private urlIndex: UrlIndex,
+        private noteCreationService: NoteCreationService
+    ) { }
+
+    /**
+     * Whether a leaf shows a web viewer
+     */
+    isWebViewerLeaf(leaf: WorkspaceLeaf): boolean {
+        return WEB_VIEW_TYPES.includes(leaf.view.getViewType());
+    }
+
+    /**
+     * The focused web viewer leaf, or the most recently active one
+     */
+    getActiveWebViewerLeaf(): WorkspaceLeaf | null {
+        const candidates = [
+            this.app.workspace.getActiveViewOfType(View)?.leaf,
+            this.app.workspace.getMostRecentLeaf(),
+        ];
+        return candidates.find((leaf): leaf is WorkspaceLeaf => !!leaf && this.isWebViewerLeaf(leaf)) ?? null;
+    }
+
+    /**
+     * Append the text selected in a web viewer as a blockquote to the page's linked note
+     * (a new linked note if there is none), with a text fragment link back to the passage
+     */
+    async captureSelection(leaf: WorkspaceLeaf): Promise<TFile | null> {
+        const url = leaf.view.getState()?.url;
+        if (typeof url !== 'string' || !url) {
+            new Notice('No page open in this web viewer');
+            return null;
+        }
+
+        const selection = await captureWebViewSelectionHtml(leaf);
+        if (!selection) {
+            new Notice('Select some text in the web viewer first');
+            return null;
+        }
+
+        const markdown = htmlToMarkdownSafe(selection.html).trim() || selection.text.trim();
+        const quote = formatQuote(markdown, buildTextFragmentUrl(url, selection.text), getWebViewerTitle(leaf));
+
+        let file = this.findLinkedNote(url);
+        if (!file) {
+            const created = await this.noteCreationService.createLinkedNote(url, getLeafId(leaf), { includeContent: false });
+            if (!created.file) {
+                if (!created.cancelled) new Notice('Failed to create a note for the quote');
+                return null;
+            }
+            file = created.file;
+        }
+
+        try {
+            await this.app.vault.process(file, data => `${data.trimEnd()}\n\n${quote}\n`);
+        } catch (error) {
+            console.error('Web Sidecar: Failed to append quote:', error);
+            new Notice('Failed to add the quote');
+            return null;
+        }
+
+        new Notice(`Quote added to ${file.basename}`);
+        return file;
+    }
+
+    /**
+     * Capture a web viewer page into the managed "## Captured" section of its linked note.
+     * A re-capture shows what changed since the previous capture before replacing it.
+     */
+    async captureToLinkedNote(leaf: WorkspaceLeaf): Promise<TFile | null> {
+        const url = leaf.view.getState()?.url;
+        if (typeof url !== 'string' || !url) {
+            new Notice('No page open in this web viewer');
+            return null;
+        }
+
+        const file = this.findLinkedNote(url);
+        if (!file) {
+            new Notice('No note is linked to this page yet');
+            return null;
+        }
+
+        return this.appendCapture(file, url, await capturePage(leaf));
+    }
+
+    /**
+     * Whether a new capture should replace the previous one: asks with a diff
+     * unless the captured section would not change
+     */
+    private async confirmRecapture(file: TFile, previous: string, captured: string): Promise<boolean> {
+        const diff = diffLines(previous, captured.trim());
+        if (diff.every(line => line.type === 'same')) {
+            new Notice('No changes since the last capture');
+            return false;
+        }
+
+        return new Promise<boolean>(resolve => {
+            new CaptureDiffModal(this.app, file, diff, resolve).open();
+        });
+    }
+
+    /**
+     * Write a captured page to the "## Captured" section of a note, record when and
+     * what was captured, and add the page metadata its frontmatter does not have yet.
+     * Nothing is written if the content is unchanged since the last capture (same hash
+     * as recorded in the frontmatter); replacing a previous capture asks with a diff.
+     */
+    async appendCapture(file: TFile, url: string, page: CapturedPage | null): Promise<TFile | null> {
+        if (!page?.content) {
+            new Notice('Could not capture the page content');
+            return null;
+        }
+
+        const captureProperties = await getCaptureProperties(page.content);
+        const storedHash: unknown = this.app.metadataCache.getFileCache(file)?.frontmatter?.[CAPTURE_HASH_PROPERTY];
+        if (storedHash === captureProperties[CAPTURE_HASH_PROPERTY]) {
+            new Notice('No changes since the last capture');
+            return null;
+        }
+
+        const previous = getCapturedSection(await this.app.vault.cachedRead(file));
+        if (previous !== null && !(await this.confirmRecapture(file, previous, page.content))) {
+            return null;
+        }
+
+        // Only once confirmed, so a cancelled capture leaves no attachments behind
+        const settings = this.getSettings();
+        const captured = await localizeCapturedImages(this.app, settings, page.content, url, file.path);
+
+        const properties = getPageMetadataProperties(page, settings);
+        try {
+            await this.app.vault.process(file, data => addFrontmatterProperties(setCapturedSection(data, captured), properties));
+            // Overwrite the previous capture's properties
+            await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+                Object.assign(frontmatter, captureProperties);
+            });
+        } catch (error) {
+            console.error('Web Sidecar: Failed to write capture:', error);
+            new Notice('Failed to write the capture');
+            return null;
+        }
+
+        new Notice(`Page captured to ${file.basename}`);
+        return file;
+    }
+
+    /**
+     * Create a linked note (with content capture and templates) for every open web viewer
+     * whose page has no exact match yet. Tabs of skipped domains, duplicate URLs and
+     * pages that are not web pages are skipped. Notes are created one at a time, unopened.
+     */
+    async captureAllOpenTabs(tabs: TrackedWebViewer[]): Promise<BulkCaptureResult> {
+        const settings = this.getSettings();
+        const result: BulkCaptureResult = { created: [], skipped: [], failed: [] };
+        const handledUrls = new Set<string>();
+
+        for (const tab of tabs) {
+            const item = { url: tab.url, title: tab.title || tab.url };
+            const host = extractDomain(tab.url);
+
+            if (!/^https?:\/\//i.test(tab.url) || !host) {
+                result.skipped.push({ ...item, reason: 'Not a web page' });
+            } else if (handledUrls.has(tab.url)) {
+                result.skipped.push({ ...item, reason: 'Same page as another tab' });
+            } else if (settings.bulkCaptureSkipDomains.some(domain => matchesDomain(host, domain))) {
+                result.skipped.push({ ...item, reason: 'Skipped domain' });
+            } else if (this.findLinkedNote(tab.url)) {
+                result.skipped.push({ ...item, reason: 'Already has a linked note' });
+            } else {
+                const leafId = (tab.leaf ?? findWebViewerLeafById(this.app, tab.leafId)) ? tab.leafId : undefined;
+                const { file, captureFailed, existing, cancelled } = await this.noteCreationService.createLinkedNote(tab.url, leafId, { openNote: false });
+                if (existing || cancelled) {
+                    result.skipped.push({ ...item, reason: 'A note with this name already exists' });
+                } else if (!file) {
+                    result.failed.push({ ...item, reason: 'Note could not be created' });
+                } else {
+                    result.created.push({ ...item, file });
+                    if (captureFailed) {
+                        result.failed.push({ ...item, file, reason: 'Page content could not be captured (note created without it)' });
+                    }
+                }
+            }
+            handledUrls.add(tab.url);
+        }
+
+        return result;
+    }
+
+    /**
+     * Compare a web viewer page with the last capture recorded in its linked note
+     *
+     * @returns Whether the page changed since it was captured, or null if it was never
+     *          captured or cannot be read
+     */
+    async hasPageChangedSinceCapture(leaf: WorkspaceLeaf): Promise<boolean | null> {
+        const url = leaf.view.getState()?.url;
+        if (typeof url !== 'string' || !url) return null;
+
+        const file = this.findLinkedNote(url);
+        const storedHash: unknown = file ? this.app.metadataCache.getFileCache(file)?.frontmatter?.[CAPTURE_HASH_PROPERTY] : undefined;
+        if (typeof storedHash !== 'string' || !storedHash) return null;
+
+        const page = await capturePage(leaf);
+        if (!page?.content) return null;
+        return (await hashCapturedContent(page.content)) !== storedHash;
+    }
+
+    /**
+     * Most recently modified note linked to a URL
+     */
+    findLinkedNote(url: string): TFile | null {
+        const { exactMatches } = findMatchingNotes(this.app, url, this.getSettings(), this.urlIndex);
+        const sorted = exactMatches.map(match => match.file).sort((a, b) => b.stat.mtime - a.stat.mtime);
+        return sorted[0] ?? null;
+    }
+}
+
+/**
+ * Format a passage as a blockquote ending with a link back to it
+ */
+function formatQuote(markdown: string, link: string, title: string | undefined): string {
+    const lines = markdown.split('\n').map(line => (line.trim() ? `> ${line}` : '>'));
+    const label = (title || 'Source').replace(/[[\]]/g, '');
+    lines.push('>', `> — [${label}](<${link}>)`);
+    return lines.join('\n');
+}
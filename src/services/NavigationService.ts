@@ -8,8 +8,10 @@ import { App, TFile, WorkspaceLeaf, WorkspaceSplit, View } from 'obsidian';
 import { CreateNoteModal } from '../modals/createNoteModal';
 import { TrackedWebViewer, WebSidecarSettings } from '../types';
 import type { UrlIndex } from './UrlIndex';
+import type { NoteCreationService } from './NoteCreationService';
 import { getWebViewerHomepage } from './webViewerUtils';
 import { getViewFile } from './obsidianHelpers';
+import { extractYouTubeTimestamp, formatYouTubeTimestamp } from './matchers/youtube';
 
 // Import helper modules
 import {
@@ -34,6 +36,7 @@ export class NavigationService {
     private app: App;
     private getSettings: () => WebSidecarSettings;
     private urlIndex: UrlIndex;
+    private noteCreationService: NoteCreationService;
     private urlCycleIndex: Map<string, number> = new Map();
     private noteCycleIndex: Map<string, number> = new Map();
     private isManualRefreshCallback: (val: boolean) => void;
@@ -43,12 +46,14 @@ export class NavigationService {
         app: App,
         getSettings: () => WebSidecarSettings,
         urlIndex: UrlIndex,
+        noteCreationService: NoteCreationService,
         setManualRefresh: (val: boolean) => void,
         onRefresh: () => void
     ) {
         this.app = app;
         this.getSettings = getSettings;
         this.urlIndex = urlIndex;
+        this.noteCreationService = noteCreationService;
         this.isManualRefreshCallback = setManualRefresh;
         this.onRefreshCallback = onRefresh;
     }
@@ -101,6 +106,13 @@ export class NavigationService {
     // --- Smart Opening Operations ---
 
     async openNoteSmartly(file: TFile, e: MouseEvent | KeyboardEvent, referenceLeafId?: string): Promise<void> {
+        if (referenceLeafId) {
+            const referenceUrl = this.app.workspace.getLeafById(referenceLeafId)?.view.getState()?.url;
+            if (typeof referenceUrl === 'string') {
+                await this.recordVideoTimestamp(file, referenceUrl);
+            }
+        }
+
         // CMD/Ctrl + click = open in new popout window
         if (e.metaKey || e.ctrlKey) {
             const newWindow = this.app.workspace.openPopoutLeaf();
@@ -146,16 +158,14 @@ export class NavigationService {
         await this.triggerRefresh();
     }
 
-    async openUrlSmartly(url: string, e: MouseEvent): Promise<void> {
+    /**
+     * Open a URL in a web viewer (focus existing, or new tab/popout with modifiers)
+     * onLeafOpened is called with the web viewer leaf as soon as it is navigating
+     */
+    async openUrlSmartly(url: string, e: MouseEvent, onLeafOpened?: (leaf: WorkspaceLeaf) => void): Promise<void> {
         // CMD/Ctrl + click = open in new popout window
         if (e.metaKey || e.ctrlKey) {
-            const newWindow = this.app.workspace.openPopoutLeaf();
-            await newWindow.setViewState({
-                type: 'webviewer',
-                state: { url, navigate: true }
-            });
-            this.isManualRefreshCallback(true);
-            this.onRefreshCallback();
+            onLeafOpened?.(await this.openUrlInPopout(url));
             return;
         }
 
@@ -166,16 +176,40 @@ export class NavigationService {
                 type: 'webviewer',
                 state: { url, navigate: true }
             });
+            onLeafOpened?.(leaf);
             this.isManualRefreshCallback(true);
             this.onRefreshCallback();
             return;
         }
 
         // Default: focus existing or open new
-        await this.openUrlInWebViewer(url);
+        await this.openUrl(url, onLeafOpened);
+    }
+
+    /**
+     * Open a URL in a web viewer, focusing one that already shows it
+     * (openUrlSmartly() without modifier keys)
+     */
+    async openUrl(url: string, onLeafOpened?: (leaf: WorkspaceLeaf) => void): Promise<void> {
+        const leaf = await this.openUrlInWebViewer(url);
+        onLeafOpened?.(leaf);
         await this.triggerRefresh();
     }
 
+    /**
+     * Open a URL in a web viewer in a new popout window
+     */
+    async openUrlInPopout(url: string): Promise<WorkspaceLeaf> {
+        const newWindow = this.app.workspace.openPopoutLeaf();
+        await newWindow.setViewState({
+            type: 'webviewer',
+            state: { url, navigate: true }
+        });
+        this.isManualRefreshCallback(true);
+        this.onRefreshCallback();
+        return newWindow;
+    }
+
     async openNewWebViewer(): Promise<void> {
         this.isManualRefreshCallback(true);
         const homepage = getWebViewerHomepage(this.app);
@@ -200,6 +234,7 @@ export class NavigationService {
             this.app,
             url,
             this.getSettings(),
+            this.noteCreationService,
             (path) => {
                 void (async () => {
                     const file = this.app.vault.getAbstractFileByPath(path);
@@ -214,13 +249,18 @@ export class NavigationService {
 
                     this.onRefreshCallback();
                 })();
-            }
+            },
+            leafId
         ).open();
     }
 
     // --- Paired Opening ---
 
-    async openPaired(file: TFile, url: string, e: MouseEvent): Promise<void> {
+    /**
+     * Open a note next to its web viewer (both in a new popout window with CMD/Ctrl + click)
+     */
+    async openPaired(file: TFile, url: string, e?: MouseEvent): Promise<void> {
+        await this.recordVideoTimestamp(file, url);
         await openPairedHelper(
             {
                 app: this.app,
@@ -230,10 +270,30 @@ export class NavigationService {
             },
             file,
             url,
-            e
+            !!e && (e.metaKey || e.ctrlKey)
         );
     }
 
+    /**
+     * Save the timestamp of a timestamped YouTube link into the note (if enabled)
+     */
+    private async recordVideoTimestamp(file: TFile, url: string): Promise<void> {
+        const settings = this.getSettings();
+        if (!settings.recordYouTubeTimestamp) return;
+
+        const seconds = extractYouTubeTimestamp(url);
+        if (seconds === null) return;
+
+        const property = settings.youtubeTimestampProperty || 'timestamp';
+        try {
+            await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+                frontmatter[property] = formatYouTubeTimestamp(seconds);
+            });
+        } catch (error) {
+            console.error('Web Sidecar: Failed to record video timestamp:', error);
+        }
+    }
+
     // --- Leaf Management (kept in main class due to complexity) ---
 
     getOrCreateRightLeaf(referenceLeaf?: WorkspaceLeaf): WorkspaceLeaf {
@@ -376,14 +436,14 @@ export class NavigationService {
 
     // --- Private Helpers ---
 
-    private async openUrlInWebViewer(url: string): Promise<void> {
+    private async openUrlInWebViewer(url: string): Promise<WorkspaceLeaf> {
         const leaves = getWebViewerLeaves(this.app);
 
         for (const leaf of leaves) {
             const state = leaf.view.getState();
             if (state?.url === url) {
                 await this.app.workspace.revealLeaf(leaf);
-                return;
+                return leaf;
             }
         }
 
@@ -397,6 +457,7 @@ export class NavigationService {
             state: { url, navigate: true }
         });
         await this.app.workspace.revealLeaf(leaf);
+        return leaf;
     }
 
     private async triggerRefresh(): Promise<void> {
@@ -5,8 +5,13 @@
  */
 
 import { App, TFile } from 'obsidian';
-import { WebSidecarSettings } from '../types';
-import { capturePageAsMarkdown, findWebViewerLeafById } from './contentCapture';
+import { CapturedPage, NoteCreationOptions, NoteCreationResult, NoteDraft, WebSidecarSettings } from '../types';
+import { localizeCapturedImages } from './assetLocalizer';
+import { capturePage, findWebViewerLeafById } from './contentCapture';
+import { resolveNoteFileName, resolveNotePath } from './noteFileNames';
+import { applyRoutingFrontmatter, findNoteRoutingRule, resolveRoutedFolder } from './noteRouting';
+import { buildNoteContent, resolveNoteTemplatePath } from './noteTemplates';
+import { getWebViewerTitle } from './webViewerUtils';
 
 /**
  * Handles creation of linked notes from URLs.
@@ -20,28 +25,83 @@ export class NoteCreationService {
 
     /**
      * Create a linked note directly from URL without modal.
-     * Captures page content if setting is enabled and leafId is provided.
+     * Captures page content and metadata if enabled and leafId is provided.
+     * The note is rendered from the template of the URL's domain (or the default template)
+     * and titled after the page, falling back to a title guessed from the URL.
+     * The first matching routing rule decides folder, file name, tags and extra properties.
+     * With `includeContent: false` the page content is left out (e.g. for quote captures).
      */
-    async createLinkedNoteFromUrl(url: string, leafId?: string): Promise<TFile | null> {
+    async createLinkedNoteFromUrl(url: string, leafId?: string, options: NoteCreationOptions = {}): Promise<TFile | null> {
+        return (await this.createLinkedNote(url, leafId, options)).file;
+    }
+
+    /**
+     * Create a linked note like createLinkedNoteFromUrl(), also reporting
+     * whether the page content could be captured
+     */
+    async createLinkedNote(url: string, leafId?: string, options: NoteCreationOptions = {}): Promise<NoteCreationResult> {
         const settings = this.getSettings();
+        const includeContent = settings.capturePageContent && options.includeContent !== false;
 
-        // Capture content if setting enabled and we have a leafId
-        let capturedContent: string | null = null;
-        if (settings.capturePageContent && leafId) {
-            const leaf = findWebViewerLeafById(this.app, leafId);
-            if (leaf) {
-                capturedContent = await capturePageAsMarkdown(leaf);
-            }
+        // Capture content and metadata if enabled and we have a leafId
+        const leaf = leafId ? findWebViewerLeafById(this.app, leafId) : null;
+        let capturedPage: CapturedPage | null = null;
+        if (leaf && (includeContent || settings.savePageMetadata)) {
+            capturedPage = await capturePage(leaf);
         }
 
-        // Generate title from URL
-        const noteTitle = this.generateTitleFromUrl(url);
-        const fileName = this.sanitizeFileName(noteTitle) + '.md';
-        const folderPath = this.getFolderPath();
+        // Use the page title, else generate title from URL
+        const title = capturedPage?.title?.trim()
+            || (leaf ? getWebViewerTitle(leaf) : undefined)
+            || this.generateTitleFromUrl(url);
+
+        return this.createNote(url, {
+            title,
+            templatePath: resolveNoteTemplatePath(settings, url),
+            includeContent,
+            page: capturedPage,
+        }, options);
+    }
 
-        // Construct full path
-        let fullPath = folderPath ? `${folderPath}/${fileName}` : fileName;
-        fullPath = fullPath.replace(/\/+/g, '/'); // Normalize slashes
+    /**
+     * Create a linked note from a draft. Shared by direct note creation and the create note dialog.
+     * The first matching routing rule decides folder, file name, tags and extra properties;
+     * the collision strategy decides what happens when a note with the same name exists.
+     */
+    async createNote(url: string, draft: NoteDraft, options: Pick<NoteCreationOptions, 'openNote'> = {}): Promise<NoteCreationResult> {
+        const settings = this.getSettings();
+        const routingRule = findNoteRoutingRule(settings, url);
+        const baseName = resolveNoteFileName(settings, routingRule, url, draft.title);
+        const folderPath = this.getNoteFolder(url, draft.title);
+
+        // Apply the collision strategy if a note with the same name exists
+        const resolution = await resolveNotePath(this.app, settings, folderPath, baseName);
+        if (!resolution) {
+            return { file: null, captureFailed: false, cancelled: true };
+        }
+        if (resolution.type === 'existing') {
+            if (options.openNote !== false) {
+                await this.app.workspace.openLinkText(resolution.file.path, '', true);
+            }
+            return { file: resolution.file, captureFailed: false, existing: true };
+        }
+        const fullPath = resolution.path;
+
+        // Generate note content
+        const page = draft.page;
+        const pageContent = draft.includeContent && page?.content ? page.content : undefined;
+        const buildContent = (captured: string | undefined) => buildNoteContent(this.app, settings, draft.templatePath, {
+            url,
+            title: draft.title,
+            content: captured,
+            selection: page?.selection,
+            author: page?.author,
+            published: page?.published,
+        }, page);
+        let content = await buildContent(pageContent);
+        if (content === null) {
+            return { file: null, captureFailed: false };
+        }
 
         // Create folder if needed
         if (folderPath) {
@@ -51,45 +111,39 @@ export class NoteCreationService {
             }
         }
 
-        // Handle existing file (append timestamp)
-        const existingFile = this.app.vault.getAbstractFileByPath(fullPath);
-        if (existingFile) {
-            const timestamp = Date.now();
-            fullPath = folderPath
-                ? `${folderPath}/${this.sanitizeFileName(noteTitle)}-${timestamp}.md`
-                : `${this.sanitizeFileName(noteTitle)}-${timestamp}.md`;
-        }
-
-        // Generate note content
-        const lines = [
-            '---',
-            `${settings.primaryUrlProperty}: ${url}`,
-            '---',
-            '',
-            `# ${noteTitle}`,
-            '',
-        ];
-
-        // Add captured content if available
-        if (capturedContent) {
-            lines.push(capturedContent);
-            lines.push('');
+        // Save captured images next to the note if enabled, only once the template is known to be valid
+        if (pageContent) {
+            const localized = await localizeCapturedImages(this.app, settings, pageContent, url, fullPath);
+            if (localized !== pageContent) content = await buildContent(localized) ?? content;
         }
 
-        const content = lines.join('\n');
+        const captureFailed = draft.includeContent && !page?.content;
 
         // Create file
         try {
             const newFile = await this.app.vault.create(fullPath, content);
-            await this.app.workspace.openLinkText(fullPath, '', true);
-            return newFile;
+            await applyRoutingFrontmatter(this.app, newFile, routingRule);
+            if (options.openNote !== false) {
+                await this.app.workspace.openLinkText(fullPath, '', true);
+            }
+            return { file: newFile, captureFailed };
         } catch (error) {
             console.error('Web Sidecar: Failed to create note:', error);
-            return null;
+            return { file: null, captureFailed };
         }
     }
 
-    private generateTitleFromUrl(url: string): string {
+    /**
+     * Folder a note for a URL is created in: the routing rule's folder, else the default folder
+     */
+    getNoteFolder(url: string, title: string): string {
+        return resolveRoutedFolder(findNoteRoutingRule(this.getSettings(), url), url, title, this.getFolderPath());
+    }
+
+    /**
+     * Title for a note when the page title is unknown, from the last path segment or the host
+     */
+    generateTitleFromUrl(url: string): string {
         try {
             let urlWithProtocol = url;
             if (!url.match(/^https?:\/\//)) {
@@ -116,13 +170,6 @@ export class NoteCreationService {
         }
     }
 
-    private sanitizeFileName(name: string): string {
-        return name
-            .replace(/[\\/:*?"<>|]/g, '')
-            .replace(/\s+/g, ' ')
-            .trim();
-    }
-
     /**
      * Resolve folder path based on settings - uses vault config or custom path
      */
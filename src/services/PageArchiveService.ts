@@ -0,0 +1,161 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { App, FileSystemAdapter, Notice, TFile, TFolder, WorkspaceLeaf, normalizePath } from 'obsidian';
+import type { WebSidecarSettings } from '../types';
+import type { CaptureService } from './CaptureService';
+import type { NoteCreationService } from './NoteCreationService';
+import { captureWebViewSnapshot } from './contentCapture';
+import { buildHtmlArchive } from './htmlArchive';
+import { sanitizeFileName } from './noteFileNames';
+import { getLeafId } from './obsidianHelpers';
+
+/** Frontmatter property linking a note to the HTML archive of its page */
+export const ARCHIVE_PROPERTY = 'archive';
+
+const BYTES_PER_MB = 1024 * 1024;
+
+/**
+ * Saves self-contained HTML snapshots of web viewer pages next to their linked notes,
+ * to read them when the live page is gone
+ */
+export class PageArchiveService {
+    constructor(
+        private app: App,
+        private getSettings: () => WebSidecarSettings,
+        private captureService: CaptureService,
+        private noteCreationService: NoteCreationService
+    ) { }
+
+    /**
+     * Archive a web viewer page as an HTML file in the archive folder and link it from
+     * the `archive` property of the page's linked note (a new linked note if there is none).
+     * Archiving again replaces the previous archive of the note.
+     */
+    async archivePage(leaf: WorkspaceLeaf): Promise<TFile | null> {
+        const url = leaf.view.getState()?.url;
+        if (typeof url !== 'string' || !/^https?:\/\//i.test(url)) {
+            new Notice('No web page open in this web viewer');
+            return null;
+        }
+
+        const snapshot = await captureWebViewSnapshot(leaf);
+        if (!snapshot) {
+            new Notice('Could not read the page (archiving is only available on desktop)');
+            return null;
+        }
+
+        let note = this.captureService.findLinkedNote(url);
+        if (!note) {
+            const created = await this.noteCreationService.createLinkedNote(url, getLeafId(leaf));
+            if (!created.file) {
+                if (!created.cancelled) new Notice('Failed to create a note for the archive');
+                return null;
+            }
+            note = created.file;
+        }
+
+        new Notice('Archiving page...');
+        const settings = this.getSettings();
+        const result = await buildHtmlArchive(snapshot, url, settings.archiveMaxSizeMb * BYTES_PER_MB);
+
+        let archive = this.getArchiveFile(note);
+        try {
+            if (archive) {
+                await this.app.vault.modify(archive, result.html);
+            } else {
+                archive = await this.app.vault.create(await this.getArchivePath(settings, note), result.html);
+            }
+            const archivePath = archive.path;
+            await this.app.fileManager.processFrontMatter(note, (frontmatter: Record<string, unknown>) => {
+                frontmatter[ARCHIVE_PROPERTY] = `[[${archivePath}]]`;
+            });
+        } catch (error) {
+            console.error('Web Sidecar: Failed to write page archive:', error);
+            new Notice('Failed to save the archive');
+            return null;
+        }
+
+        if (result.failures.length > 0) {
+            console.warn('Web Sidecar: Archive resources kept as remote links:\n' +
+                result.failures.map(failure => `${failure.url} (${failure.reason})`).join('\n'));
+            new Notice(`Page archived to ${archive.name} (${result.failures.length} resources could not be included, see console)`);
+        } else {
+            new Notice(`Page archived to ${archive.name}`);
+        }
+        return note;
+    }
+
+    /**
+     * HTML archive linked from a note's `archive` property
+     */
+    getArchiveFile(note: TFile): TFile | null {
+        const cache = this.app.metadataCache.getFileCache(note);
+        const link = cache?.frontmatterLinks?.find(ref => ref.key === ARCHIVE_PROPERTY);
+        if (link) {
+            return this.app.metadataCache.getFirstLinkpathDest(link.link, note.path);
+        }
+
+        // A plain path written by hand
+        const value: unknown = cache?.frontmatter?.[ARCHIVE_PROPERTY];
+        if (typeof value !== 'string' || !value.trim()) return null;
+        const file = this.app.vault.getAbstractFileByPath(normalizePath(value.trim()));
+        return file instanceof TFile ? file : null;
+    }
+
+    /**
+     * HTML archive of a page, from its linked note
+     */
+    findArchivedCopy(url: string): TFile | null {
+        const note = this.captureService.findLinkedNote(url);
+        return note ? this.getArchiveFile(note) : null;
+    }
+
+    /**
+     * Open the archived copy of a page in a new web viewer tab
+     */
+    async openArchivedCopy(url: string): Promise<boolean> {
+        const archive = this.findArchivedCopy(url);
+        if (!archive) {
+            new Notice('No archived copy of this page');
+            return false;
+        }
+
+        const adapter = this.app.vault.adapter;
+        if (!(adapter instanceof FileSystemAdapter)) {
+            new Notice('Archived copies can only be opened on desktop');
+            return false;
+        }
+
+        const fullPath = adapter.getFullPath(archive.path).replace(/\\/g, '/').replace(/^\/+/, '');
+        const leaf = this.app.workspace.getLeaf('tab');
+        await leaf.setViewState({
+            type: 'webviewer',
+            state: { url: encodeURI(`file:///${fullPath}`).replace(/[?#]/g, encodeURIComponent), navigate: true },
+            active: true,
+        });
+        return true;
+    }
+
+    /**
+     * Free path for a note's archive in the archive folder (created if needed)
+     */
+    private async getArchivePath(settings: WebSidecarSettings, note: TFile): Promise<string> {
+        const folder = normalizePath(settings.archiveFolder.trim() || '/');
+        const folderPath = folder === '/' ? '' : folder;
+        if (folderPath && !(this.app.vault.getAbstractFileByPath(folderPath) instanceof TFolder)) {
+            await this.app.vault.createFolder(folderPath);
+        }
+
+        const baseName = sanitizeFileName(note.basename) || 'Archive';
+        const pathFor = (name: string) => normalizePath(folderPath ? `${folderPath}/${name}.html` : `${name}.html`);
+        let path = pathFor(baseName);
+        for (let i = 1; this.app.vault.getAbstractFileByPath(path); i++) {
+            path = pathFor(`${baseName} ${i}`);
+        }
+        return path;
+    }
+}
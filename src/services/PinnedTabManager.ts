@@ -7,6 +7,7 @@
 import { TFile } from 'obsidian';
 import type { WebSidecarSettings, TrackedWebViewer, VirtualTab, PinnedTab } from '../types';
 import type WebSidecarPlugin from '../main';
+import { isEquivalentSiteUrl } from './matchers/registry';
 
 export class PinnedTabManager {
     private plugin: WebSidecarPlugin;
@@ -39,7 +40,9 @@ export class PinnedTabManager {
             // If not found by ID, try to find by URL
             if (!openTab) {
                 const activeUrl = pin.currentUrl || pin.url;
-                openTab = Array.from(trackedTabs.values()).find(t => t.url === activeUrl);
+                openTab = Array.from(trackedTabs.values()).find(t =>
+                    t.url === activeUrl || isEquivalentSiteUrl(t.url, activeUrl)
+                );
             }
 
             return {
@@ -53,7 +56,7 @@ export class PinnedTabManager {
         if (!this.getSettings().enablePinnedTabs) return;
 
         const settings = this.getSettings();
-        const existing = settings.pinnedTabs.find(p => p.url === tab.url);
+        const existing = settings.pinnedTabs.find(p => p.url === tab.url || isEquivalentSiteUrl(p.url, tab.url));
         if (existing) return; // Already pinned
 
         let isNote = false;
@@ -152,8 +155,8 @@ export class PinnedTabManager {
         const pin = settings.pinnedTabs.find(p => p.leafId === leafId);
         if (!pin) return;
 
-        // If back to home url, clear currentUrl
-        if (newUrl === pin.url) {
+        // If back to home url (or the same post/video), clear currentUrl
+        if (newUrl === pin.url || isEquivalentSiteUrl(newUrl, pin.url)) {
             if (pin.currentUrl !== undefined) {
                 pin.currentUrl = undefined;
                 this.plugin.saveSettings().then(() => { /* nothing */ }, console.error);
@@ -0,0 +1,74 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkReadingQueueItem, formatReadingQueueItem, parseReadingQueue } from './ReadingQueueService';
+
+const PATH = 'Read later.md';
+
+/** Compare URLs without the scheme and trailing slash, like canonical keys */
+const getKey = (url: string) => url.replace(/^https?:\/\//, '').replace(/\/$/, '');
+
+describe('parseReadingQueue', () => {
+    it('reads unchecked link and bare URL items in note order', () => {
+        const content = [
+            '# Read later',
+            '- [ ] [Docs](<https://example.com/docs (v2)>)',
+            '- [x] [Done](https://example.com/done)',
+            '* [ ] [Plain](https://example.com/plain)',
+            '  - [ ] https://example.com/bare — Some title',
+            '- [ ] No link here',
+            '- https://example.com/not-a-task',
+        ].join('\n');
+        assert.deepEqual(parseReadingQueue(content, PATH), [
+            { url: 'https://example.com/docs (v2)', title: 'Docs', path: PATH },
+            { url: 'https://example.com/plain', title: 'Plain', path: PATH },
+            { url: 'https://example.com/bare', title: 'Some title', path: PATH },
+        ]);
+    });
+
+    it('uses the URL as the title of unlabeled items', () => {
+        assert.deepEqual(parseReadingQueue('- [ ] [](https://example.com/a)\n- [ ] https://example.com/b', PATH), [
+            { url: 'https://example.com/a', title: 'https://example.com/a', path: PATH },
+            { url: 'https://example.com/b', title: 'https://example.com/b', path: PATH },
+        ]);
+    });
+});
+
+describe('formatReadingQueueItem', () => {
+    it('writes a link, or the bare URL without a distinct title', () => {
+        assert.equal(formatReadingQueueItem('https://example.com/a', 'A [draft]'), '- [ ] [A draft](<https://example.com/a>)');
+        assert.equal(formatReadingQueueItem('https://example.com/a', 'https://example.com/a'), '- [ ] https://example.com/a');
+        assert.equal(formatReadingQueueItem('https://example.com/a', ' '), '- [ ] https://example.com/a');
+    });
+
+    it('round-trips through parseReadingQueue', () => {
+        const line = formatReadingQueueItem('https://example.com/a b', 'Spaced');
+        assert.deepEqual(parseReadingQueue(line, PATH), [{ url: 'https://example.com/a b', title: 'Spaced', path: PATH }]);
+    });
+});
+
+describe('checkReadingQueueItem', () => {
+    const content = [
+        '- [x] https://example.com/a',
+        '- [ ] [A](https://example.com/a/)',
+        '  - [ ] https://example.com/a',
+    ].join('\n');
+
+    it('checks off the first unchecked item of the page', () => {
+        assert.equal(checkReadingQueueItem(content, 'http://example.com/a', getKey), [
+            '- [x] https://example.com/a',
+            '- [x] [A](https://example.com/a/)',
+            '  - [ ] https://example.com/a',
+        ].join('\n'));
+    });
+
+    it('returns null when the page is not queued', () => {
+        assert.equal(checkReadingQueueItem(content, 'https://example.com/b', getKey), null);
+        assert.equal(checkReadingQueueItem('- [x] https://example.com/b', 'https://example.com/b', getKey), null);
+    });
+});
@@ -0,0 +1,380 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { App, EventRef, Notice, TFile, TFolder, normalizePath } from 'obsidian';
+import type { ReadingQueueItem, WebSidecarSettings } from '../types';
+import type { UrlIndex } from './UrlIndex';
+import { findMatchingNotes } from './noteMatcher';
+import { getCanonicalizationOptions, normalizeUrl } from './urlUtils';
+
+/** Frontmatter property marking notes to read (status source) */
+export const READING_STATUS_PROPERTY = 'status';
+
+/** Status of a note waiting in the queue */
+export const TO_READ_STATUS = 'to-read';
+
+/** Status set once the note's page is read */
+export const READ_STATUS = 'read';
+
+/** Checklist item: indent and bullet, checkbox state, item text */
+const CHECKLIST_ITEM_REGEX = /^(\s*[-*+]\s+\[)(.)(\]\s+)(.*)$/;
+
+/** Markdown link with an http(s) URL, optionally in angle brackets */
+const MARKDOWN_LINK_REGEX = /\[([^\]]*)\]\((?:<(https?:\/\/[^>]+)>|(https?:\/\/[^\s)]+))\)/i;
+
+const BARE_URL_REGEX = /https?:\/\/[^\s<>)\]]+/i;
+
+/**
+ * Unchecked items of a queue checklist, in note order. Items are
+ * `- [ ] [Title](<url>)` links or `- [ ] url` lines
+ */
+export function parseReadingQueue(content: string, path: string): ReadingQueueItem[] {
+    const items: ReadingQueueItem[] = [];
+    for (const line of content.split('\n')) {
+        const match = CHECKLIST_ITEM_REGEX.exec(line);
+        if (!match || match[2] !== ' ') continue;
+        const item = parseItemText(match[4] ?? '');
+        if (item) items.push({ ...item, path });
+    }
+    return items;
+}
+
+/**
+ * Queue checklist line of a page
+ */
+export function formatReadingQueueItem(url: string, title: string): string {
+    const label = title.replace(/[[\]]/g, '').trim();
+    return label && label !== url ? `- [ ] [${label}](<${url}>)` : `- [ ] ${url}`;
+}
+
+/**
+ * Check off the first unchecked item of a page in a queue checklist
+ * @returns The updated content, or null if the page is not in the checklist
+ */
+export function checkReadingQueueItem(content: string, url: string, getKey: (url: string) => string): string | null {
+    const key = getKey(url);
+    const lines = content.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+        const match = CHECKLIST_ITEM_REGEX.exec(lines[i] ?? '');
+        if (!match || match[2] !== ' ') continue;
+        const item = parseItemText(match[4] ?? '');
+        if (item && getKey(item.url) === key) {
+            lines[i] = `${match[1]}x${match[3]}${match[4]}`;
+            return lines.join('\n');
+        }
+    }
+    return null;
+}
+
+function parseItemText(text: string): { url: string; title: string } | null {
+    const link = MARKDOWN_LINK_REGEX.exec(text);
+    if (link) {
+        const url = (link[2] ?? link[3] ?? '').trim();
+        return { url, title: link[1]?.trim() || url };
+    }
+    const url = BARE_URL_REGEX.exec(text)?.[0];
+    if (!url) return null;
+    const title = text.replace(url, '').replace(/^[\s:–—-]+|[\s:–—-]+$/g, '');
+    return { url, title: title || url };
+}
+
+/**
+ * Read-later queue, kept in the vault so it syncs across devices: the unchecked
+ * items of a checklist note, or the linked notes with `status: to-read`. A queued
+ * page read long enough in the focused web viewer is checked off in place.
+ */
+export class ReadingQueueService {
+    private cacheListeners: EventRef[] = [];
+    private vaultListeners: EventRef[] = [];
+    /** Unchecked items of the queue note (checklist source) */
+    private checklist: ReadingQueueItem[] = [];
+    /** Paths of the notes with `status: to-read` (status source), built on first use */
+    private toRead: Set<string> | null = null;
+    /** Page shown in the focused web viewer */
+    private readingUrl: string | null = null;
+    private readingSince = 0;
+    /** Focused time already spent on the last read page (the auto-check resumes after a pause) */
+    private readTime: { key: string; ms: number } | null = null;
+    private readTimer: number | null = null;
+    /** Settings the loaded queue depends on, to reload only when they change */
+    private queueSettingsKey = '';
+
+    constructor(
+        private app: App,
+        private getSettings: () => WebSidecarSettings,
+        private urlIndex: UrlIndex,
+        private onChange: () => void
+    ) { }
+
+    async initialize(): Promise<void> {
+        this.registerListeners();
+        await this.loadChecklist();
+    }
+
+    destroy(): void {
+        this.stopReading();
+        this.cacheListeners.forEach(ref => this.app.metadataCache.offref(ref));
+        this.vaultListeners.forEach(ref => this.app.vault.offref(ref));
+        this.cacheListeners = [];
+        this.vaultListeners = [];
+    }
+
+    /**
+     * Reload the queue after the queue was turned on or off, or its source or note changed
+     */
+    onSettingsChanged(): void {
+        if (this.getQueueSettingsKey() !== this.queueSettingsKey) this.reload();
+    }
+
+    /**
+     * Pages waiting in the queue, in reading order: checklist order,
+     * or oldest note first for the status source
+     */
+    getItems(): ReadingQueueItem[] {
+        const settings = this.getSettings();
+        if (!settings.enableReadingQueue) return [];
+        if (settings.readingQueueSource === 'checklist') return this.checklist;
+
+        if (!this.toRead) {
+            this.toRead = new Set(this.app.vault.getMarkdownFiles()
+                .filter(file => isToRead(this.app.metadataCache.getFileCache(file)?.frontmatter?.[READING_STATUS_PROPERTY]))
+                .map(file => file.path));
+        }
+
+        const items: ReadingQueueItem[] = [];
+        const files = Array.from(this.toRead)
+            .map(path => this.app.vault.getFileByPath(path))
+            .filter((file): file is TFile => file !== null)
+            .sort((a, b) => a.stat.ctime - b.stat.ctime);
+        for (const file of files) {
+            const url = this.urlIndex.getUrlsForFile(file)[0];
+            if (url) items.push({ url, title: file.basename, path: file.path });
+        }
+        return items;
+    }
+
+    isQueued(url: string): boolean {
+        const key = this.getKey(url);
+        return this.getItems().some(item => this.getKey(item.url) === key);
+    }
+
+    /**
+     * Next page to read: the first queued page not already shown in the focused web viewer
+     */
+    getNext(): ReadingQueueItem | null {
+        const readingKey = this.readingUrl ? this.getKey(this.readingUrl) : null;
+        return this.getItems().find(item => this.getKey(item.url) !== readingKey) ?? null;
+    }
+
+    /**
+     * Add a page to the queue: a new checklist item, or `status: to-read` on its linked notes
+     * (notes whose status is used for something else, e.g. `draft`, are skipped with a warning)
+     */
+    async add(url: string, title: string): Promise<void> {
+        if (this.isQueued(url)) {
+            new Notice('Already in the read-later queue');
+            return;
+        }
+
+        try {
+            if (this.getSettings().readingQueueSource === 'checklist') {
+                const file = await this.getOrCreateQueueNote();
+                await this.app.vault.process(file, content => {
+                    const line = formatReadingQueueItem(url, title);
+                    if (!content.trim()) return line + '\n';
+                    return content.replace(/\n*$/, '\n') + line + '\n';
+                });
+            } else {
+                const { exactMatches } = findMatchingNotes(this.app, url, this.getSettings(), this.urlIndex);
+                if (exactMatches.length === 0) {
+                    new Notice('Create a linked note first to queue this page');
+                    return;
+                }
+                const files = exactMatches.map(match => match.file);
+                const skipped = files.filter(file => !isQueueStatus(this.app.metadataCache.getFileCache(file)?.frontmatter?.[READING_STATUS_PROPERTY]));
+                if (skipped.length > 0) {
+                    new Notice(`Not queued, "${READING_STATUS_PROPERTY}" is already used by: ${skipped.map(file => file.basename).join(', ')}`);
+                }
+                const queued = files.filter(file => !skipped.includes(file));
+                if (queued.length === 0) return;
+                for (const file of queued) {
+                    await this.setStatus(file, TO_READ_STATUS);
+                }
+            }
+            new Notice(`Added to the read-later queue: ${title || url}`);
+        } catch (error) {
+            console.error('Web Sidecar: Failed to add to the read-later queue:', error);
+            new Notice('Failed to add the page to the read-later queue');
+        }
+    }
+
+    /**
+     * Check off a page in the queue note, or set `status: read` on its queued notes
+     * @returns Whether the page was in the queue
+     */
+    async markRead(url: string): Promise<boolean> {
+        const key = this.getKey(url);
+        const items = this.getItems().filter(item => this.getKey(item.url) === key);
+        if (items.length === 0) return false;
+
+        try {
+            if (this.getSettings().readingQueueSource === 'checklist') {
+                const file = this.app.vault.getFileByPath(this.getQueueNotePath());
+                if (!file) return false;
+                await this.app.vault.process(file, content =>
+                    checkReadingQueueItem(content, url, itemUrl => this.getKey(itemUrl)) ?? content
+                );
+            } else {
+                for (const item of items) {
+                    const file = this.app.vault.getFileByPath(item.path);
+                    if (file) await this.setStatus(file, READ_STATUS);
+                }
+            }
+            return true;
+        } catch (error) {
+            console.error('Web Sidecar: Failed to update the read-later queue:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Start the auto-check timer for the page shown in the focused web viewer
+     * (if it is queued). Only focused time counts: reading the same page again
+     * after a pause continues its timer
+     */
+    startReading(url: string): void {
+        this.stopReading();
+        this.readingUrl = url;
+        this.readingSince = Date.now();
+
+        const seconds = this.getSettings().readingQueueAutoCheckSeconds;
+        if (seconds <= 0 || !this.isQueued(url)) return;
+
+        const readMs = this.readTime?.key === this.getKey(url) ? this.readTime.ms : 0;
+        this.readTimer = window.setTimeout(() => {
+            this.readTimer = null;
+            const item = this.getItems().find(queued => this.getKey(queued.url) === this.getKey(url));
+            void this.markRead(url).then(done => {
+                if (done) new Notice(`Marked as read: ${item?.title ?? url}`);
+            });
+        }, Math.max(0, seconds * 1000 - readMs));
+    }
+
+    /**
+     * Pause the auto-check when the web viewer loses focus or navigates
+     */
+    stopReading(): void {
+        if (this.readingUrl) {
+            const key = this.getKey(this.readingUrl);
+            const readMs = this.readTime?.key === key ? this.readTime.ms : 0;
+            this.readTime = { key, ms: readMs + Date.now() - this.readingSince };
+        }
+        if (this.readTimer !== null) {
+            window.clearTimeout(this.readTimer);
+            this.readTimer = null;
+        }
+        this.readingUrl = null;
+    }
+
+    private registerListeners(): void {
+        const cacheRef = this.app.metadataCache.on('changed', (file, data, cache) => {
+            const settings = this.getSettings();
+            if (!settings.enableReadingQueue) return;
+            if (settings.readingQueueSource === 'checklist') {
+                if (file.path !== this.getQueueNotePath()) return;
+                this.checklist = parseReadingQueue(data, file.path);
+                this.onChange();
+            } else if (this.toRead) {
+                const wasQueued = this.toRead.delete(file.path);
+                const queued = isToRead(cache.frontmatter?.[READING_STATUS_PROPERTY]);
+                if (queued) this.toRead.add(file.path);
+                if (wasQueued || queued) this.onChange();
+            }
+        });
+        this.cacheListeners.push(cacheRef);
+
+        // The queue note appears, moves or goes away; queued notes move or go away
+        const reload = (file: unknown, oldPath?: string) => {
+            const path = this.getQueueNotePath();
+            if (file instanceof TFile && (file.path === path || oldPath === path)) {
+                this.reload();
+            }
+        };
+        this.vaultListeners.push(this.app.vault.on('create', file => reload(file)));
+        this.vaultListeners.push(this.app.vault.on('delete', file => {
+            if (this.toRead?.delete(file.path)) this.onChange();
+            reload(file);
+        }));
+        this.vaultListeners.push(this.app.vault.on('rename', (file, oldPath) => {
+            if (this.toRead?.delete(oldPath)) this.toRead.add(file.path);
+            reload(file, oldPath);
+        }));
+    }
+
+    private reload(): void {
+        this.toRead = null;
+        void this.loadChecklist().then(() => this.onChange());
+    }
+
+    private getQueueSettingsKey(): string {
+        const settings = this.getSettings();
+        return JSON.stringify([settings.enableReadingQueue, settings.readingQueueSource, this.getQueueNotePath()]);
+    }
+
+    private async loadChecklist(): Promise<void> {
+        this.queueSettingsKey = this.getQueueSettingsKey();
+        const settings = this.getSettings();
+        const file = settings.enableReadingQueue && settings.readingQueueSource === 'checklist'
+            ? this.app.vault.getFileByPath(this.getQueueNotePath())
+            : null;
+        try {
+            this.checklist = file ? parseReadingQueue(await this.app.vault.cachedRead(file), file.path) : [];
+        } catch (error) {
+            console.error('Web Sidecar: Failed to read the read-later queue:', error);
+            this.checklist = [];
+        }
+    }
+
+    private async getOrCreateQueueNote(): Promise<TFile> {
+        const path = this.getQueueNotePath();
+        const existing = this.app.vault.getFileByPath(path);
+        if (existing) return existing;
+
+        const folder = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+        if (folder && !(this.app.vault.getAbstractFileByPath(folder) instanceof TFolder)) {
+            await this.app.vault.createFolder(folder);
+        }
+        return this.app.vault.create(path, '');
+    }
+
+    private async setStatus(file: TFile, status: string): Promise<void> {
+        await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+            frontmatter[READING_STATUS_PROPERTY] = status;
+        });
+    }
+
+    private getQueueNotePath(): string {
+        const path = normalizePath(this.getSettings().readingQueueNote.trim() || 'Read later');
+        return path.endsWith('.md') ? path : `${path}.md`;
+    }
+
+    private getKey(url: string): string {
+        return normalizeUrl(url, getCanonicalizationOptions(this.getSettings())) || url;
+    }
+}
+
+/**
+ * Whether the queue may set a note's status: unset, or one of the queue's statuses
+ */
+function isQueueStatus(value: unknown): boolean {
+    const values = (Array.isArray(value) ? value : [value]).filter(status => status !== null && status !== undefined && status !== '');
+    return values.every(status => typeof status === 'string' && [TO_READ_STATUS, READ_STATUS].includes(status.trim().toLowerCase()));
+}
+
+function isToRead(value: unknown): boolean {
+    const values = Array.isArray(value) ? value : [value];
+    return values.some(status => typeof status === 'string' && status.trim().toLowerCase() === TO_READ_STATUS);
+}
@@ -4,13 +4,17 @@
  * SPDX-License-Identifier: GPL-3.0-only
  */
 
-import { WorkspaceLeaf, Notice } from 'obsidian';
-import type { WebSidecarSettings, TrackedWebViewer, VirtualTab, PinnedTab } from '../types';
+import { WorkspaceLeaf, Notice, View } from 'obsidian';
+import type { WebSidecarSettings, TrackedWebViewer, VirtualTab, PinnedTab, TabStateEvent, VisitHistoryEntry, ReadingQueueItem } from '../types';
 import type WebSidecarPlugin from '../main';
 import { getLeafId } from './obsidianHelpers';
 import { findMatchingNotes } from './noteMatcher';
+import { isValidPageTitle } from './webViewerUtils';
 import { VirtualTabManager } from './VirtualTabManager';
 import { PinnedTabManager } from './PinnedTabManager';
+import { WebViewNavigationTracker } from './WebViewNavigationTracker';
+import { createTrackedTab, isNewPage, reduceTabState } from './tabStateReducer';
+import { getCanonicalizationOptions } from './urlUtils';
 
 /**
  * Supported web viewer types
@@ -18,10 +22,15 @@ import { PinnedTabManager } from './PinnedTabManager';
 const WEB_VIEW_TYPES = ['webviewer', 'surfing-view'];
 
 /**
- * Polling interval for URL changes (ms)
+ * Polling interval for web viewers without webview navigation events (ms)
  */
 const POLL_INTERVAL = 500;
 
+/**
+ * Longest stretch counted as time on page at once (a page left open while away is not read)
+ */
+const MAX_DWELL_SEGMENT = 30 * 60 * 1000;
+
 export class TabStateService {
     private plugin: WebSidecarPlugin;
     private getSettings: () => WebSidecarSettings;
@@ -29,14 +38,20 @@ export class TabStateService {
 
     private virtualTabManager: VirtualTabManager;
     private pinnedTabManager: PinnedTabManager;
+    private navigationTracker: WebViewNavigationTracker;
 
     private trackedTabs: Map<string, TrackedWebViewer> = new Map();
     private urlTitleCache: Map<string, string> = new Map();
+    /** URLs whose page changed since it was captured to its linked note */
+    private changedSinceCapture: Set<string> = new Set();
+    /** Leaves whose page failed to load */
+    private failedLoads: Set<string> = new Set();
+    /** Whether new URLs are recorded in the visit history (not the tabs restored with the workspace) */
+    private recordVisits = false;
+    /** Page of the last focused web viewer, whose time on page is running */
+    private dwell: { leafId: string; url: string; since: number } | null = null;
     private pollIntervalId: number | null = null;
 
-    /** Pending original URL to apply to the next new tab (for redirect detection) */
-    private pendingOriginalUrl: string | undefined;
-
     constructor(
         plugin: WebSidecarPlugin,
         getSettings: () => WebSidecarSettings,
@@ -56,6 +71,12 @@ export class TabStateService {
             getSettings,
             () => this.refreshState()
         );
+        this.navigationTracker = new WebViewNavigationTracker({
+            onNavigate: (leaf, url) => this.onWebviewNavigate(leaf, url),
+            onTitleUpdated: (leaf, title) => this.onWebviewTitleUpdated(leaf, title),
+            onLoaded: (leaf) => void this.onWebviewLoaded(leaf),
+            onLoadFailed: (leaf) => this.setLoadFailed(leaf, true),
+        });
 
         // No auto-init in constructor, allow explicit init
     }
@@ -69,39 +90,65 @@ export class TabStateService {
         );
 
         // Listen for layout changes to refresh virtual tabs immediately
+        // (also attaches navigation listeners to new web viewers and drops closed ones)
         this.plugin.registerEvent(
             this.plugin.app.workspace.on('layout-change', () => {
                 this.refreshState();
             })
         );
 
-        // Start polling
-        this.startPolling();
+        // Sync pinned status on metadata cache changes
+        this.plugin.registerEvent(
+            this.plugin.app.metadataCache.on('changed', (file) => {
+                this.pinnedTabManager.syncPinnedStatusForFile(file);
+            })
+        );
 
-        // Initial scan and notify view
+        // Time on page only runs while an Obsidian window has focus
+        const watchWindowFocus = (win: Window) => {
+            this.plugin.registerDomEvent(win, 'blur', () => this.onWindowFocusChange(win));
+            this.plugin.registerDomEvent(win, 'focus', () => this.onWindowFocusChange(win));
+        };
+        watchWindowFocus(window);
+        this.plugin.registerEvent(
+            this.plugin.app.workspace.on('window-open', (_workspaceWindow, win) => watchWindowFocus(win))
+        );
+
+        // Initial scan (starts polling if a web viewer has no navigation events) and notify view
         void this.pinnedTabManager.syncAllPinnedNotes(); // Initial sync from notes
         this.refreshState();
+        this.recordVisits = true;
     }
 
     destroy(): void {
+        this.stopDwell();
         this.stopPolling();
+        this.navigationTracker.destroy();
         this.trackedTabs.clear();
         this.urlTitleCache.clear();
+        this.changedSinceCapture.clear();
+        this.failedLoads.clear();
+    }
+
+    /**
+     * Poll only while some web viewer does not report navigation events
+     */
+    private updatePolling(): void {
+        if (this.navigationTracker.needsPolling()) {
+            this.startPolling();
+        } else {
+            this.stopPolling();
+        }
     }
 
     /**
      * Start polling for URL changes
      */
     private startPolling(): void {
+        if (this.pollIntervalId !== null) return;
         this.pollIntervalId = this.plugin.registerInterval(
             window.setInterval(() => this.pollForChanges(), POLL_INTERVAL)
         );
-        // Also sync on metadata cache changes
-        this.plugin.registerEvent(
-            this.plugin.app.metadataCache.on('changed', (file) => {
-                this.pinnedTabManager.syncPinnedStatusForFile(file);
-            })
-        );
     }
 
     /**
@@ -124,11 +171,11 @@ export class TabStateService {
     }
 
     /**
-     * Poll for URL changes and cleanup closed tabs
+     * Poll web viewers without navigation events for URL changes and cleanup closed tabs
      */
     private pollForChanges(): void {
         const previousHash = this.getTabsHash();
-        this.scanAllWebViewers();
+        this.scanAllWebViewers(true);
         this.cleanupClosedTabs();
         const newHash = this.getTabsHash();
 
@@ -167,6 +214,13 @@ export class TabStateService {
         return this.getSortedTabs(tabs, settings);
     }
 
+    /**
+     * All tracked web viewers in sidebar order, including those shown as pinned tabs
+     */
+    getAllTrackedTabs(): TrackedWebViewer[] {
+        return this.getSortedTabs(Array.from(this.trackedTabs.values()), this.getSettings());
+    }
+
     /**
      * Sort tabs according to settings
      */
@@ -213,99 +267,260 @@ export class TabStateService {
     }
 
     /**
-     * Scan all web viewers and update tracked tabs
+     * Open web viewer leaves of all supported types
      */
-    private scanAllWebViewers(): void {
-        const leaves = this.plugin.app.workspace.getLeavesOfType('webviewer')
-            .concat(this.plugin.app.workspace.getLeavesOfType('surfing-view'));
+    private getWebViewerLeaves(): WorkspaceLeaf[] {
+        return WEB_VIEW_TYPES.flatMap(type => this.plugin.app.workspace.getLeavesOfType(type));
+    }
+
+    /**
+     * Leaf ID used as tracking key (falls back to a positional ID when the internal ID is missing)
+     */
+    private resolveLeafId(leaf: WorkspaceLeaf, leaves: WorkspaceLeaf[]): string {
+        return getLeafId(leaf) || leaf.view.getViewType() + '-' + leaves.indexOf(leaf);
+    }
+
+    /**
+     * Scan web viewers and update tracked tabs.
+     * Attaches navigation listeners first; with `pollingOnly`, leaves reporting events are skipped.
+     */
+    private scanAllWebViewers(pollingOnly = false): void {
+        const leaves = this.getWebViewerLeaves();
+        this.navigationTracker.sync(leaves);
+        this.updatePolling();
 
         for (const leaf of leaves) {
-            const leafId = getLeafId(leaf) || leaf.view.getViewType() + '-' + leaves.indexOf(leaf);
-            const info = this.getWebViewerInfo(leaf);
+            if (pollingOnly && this.navigationTracker.isEventDriven(leaf)) continue;
 
+            const info = this.getWebViewerInfo(leaf);
             if (info) {
-                // Detect popout window
-                const leafWindow = (leaf.getRoot() as unknown as { containerEl: { win: Window } }).containerEl?.win;
-                const isPopout = leafWindow !== undefined && leafWindow !== window;
+                this.applyNavigation(leaf, this.resolveLeafId(leaf, leaves), info.url, info.title);
+            }
+        }
+    }
 
-                // Cache title if available (for virtual tabs)
-                if (info.title && info.url) {
-                    this.urlTitleCache.set(info.url, info.title);
-                }
+    /**
+     * Handle a navigation reported by a web viewer's webview (including each step of a redirect chain)
+     */
+    private onWebviewNavigate(leaf: WorkspaceLeaf, url: string): void {
+        const leafId = this.resolveLeafId(leaf, this.getWebViewerLeaves());
+        // The view state title may still belong to the previous page; page-title-updated follows
+        if (this.applyNavigation(leaf, leafId, url, undefined)) {
+            this.onStateChange();
+        }
+    }
 
-                const existing = this.trackedTabs.get(leafId);
+    /**
+     * Handle a page title change reported by a web viewer's webview
+     */
+    private onWebviewTitleUpdated(leaf: WorkspaceLeaf, title: string): void {
+        if (!isValidPageTitle(title)) return;
 
-                // Update or create entry
-                if (existing) {
-                    // Only update URL and title if changed
-                    if (existing.url !== info.url || existing.title !== info.title || existing.isPopout !== isPopout) {
-                        // Compute sticky notes logic BEFORE updating the map
-                        let newOriginalUrl = existing.originalUrl;
+        const leafId = this.resolveLeafId(leaf, this.getWebViewerLeaves());
+        const tab = this.trackedTabs.get(leafId);
+        if (!tab) return;
 
-                        // Auto-sync pinned tab currentUrl when navigation/redirect detected
-                        if (existing.url !== info.url) {
-                            this.pinnedTabManager.syncPinnedTabCurrentUrl(leafId, info.url);
+        this.urlTitleCache.set(tab.url, title);
+        this.plugin.visitHistoryService.updateTitle(tab.url, title);
+        const next = reduceTabState(tab, { type: 'title', title });
+        if (next !== tab) {
+            this.trackedTabs.set(leafId, next);
+            this.onStateChange();
+        }
+    }
 
-                            // Sticky notes: snap to new URL if it has linked notes
+    /**
+     * Compare a loaded page with the last capture in its linked note, to flag changed pages
+     */
+    private async onWebviewLoaded(leaf: WorkspaceLeaf): Promise<void> {
+        this.setLoadFailed(leaf, false);
+        if (!this.getSettings().flagChangedPages) return;
 
-                            const matches = findMatchingNotes(this.plugin.app, info.url, this.getSettings(), this.plugin.urlIndex);
-                            const hasNotes = matches.exactMatches.length > 0;
+        const url = this.navigationTracker.getUrl(leaf);
+        const changed = await this.plugin.captureService.hasPageChangedSinceCapture(leaf);
+        if (!url || changed === null) return;
 
+        if (this.setPageChangedSinceCapture(url, changed)) {
+            this.onStateChange();
+        }
+    }
 
-                            if (hasNotes) {
-                                // Found notes for this new URL -> Snap/Reset origin
-                                if (newOriginalUrl && newOriginalUrl !== info.url) {
-                                    new Notice(`Found linked notes for new page. Origin updated.`);
-                                }
-                                newOriginalUrl = info.url;
-                            }
-                        }
+    /**
+     * Record whether the page of a leaf failed to load, refreshing the view
+     * if an archived copy of the page can now be offered (or no longer)
+     */
+    private setLoadFailed(leaf: WorkspaceLeaf, failed: boolean): void {
+        // Keyed like trackedTabs, so isArchivedCopyAvailable() finds the failure by the tab's leaf ID
+        const leafId = this.resolveLeafId(leaf, this.getWebViewerLeaves());
+        if (this.failedLoads.has(leafId) === failed) return;
+        if (failed) {
+            this.failedLoads.add(leafId);
+        } else {
+            this.failedLoads.delete(leafId);
+        }
+        this.onStateChange();
+    }
 
-                        // Now update the map with the correctly computed originalUrl
-                        this.trackedTabs.set(leafId, {
-                            ...existing,
-                            url: info.url,
-                            title: info.title || existing.title,
-                            isPopout,
-                            leaf: leaf,
-                            originalUrl: newOriginalUrl,
-                        });
-                    }
-                } else {
-                    // New tab - apply pending original URL if set (for redirect tracking)
-                    const originalUrl = this.pendingOriginalUrl;
-                    if (this.pendingOriginalUrl) {
-                        this.pendingOriginalUrl = undefined; // Clear after use
-                    }
+    /**
+     * Whether the page of a web viewer failed to load and has an archived copy to open instead
+     */
+    isArchivedCopyAvailable(tab: TrackedWebViewer): boolean {
+        return this.failedLoads.has(tab.leafId) && this.plugin.pageArchiveService.findArchivedCopy(tab.url) !== null;
+    }
 
-                    this.trackedTabs.set(leafId, {
-                        leafId,
-                        url: info.url,
-                        title: info.title || this.extractTitleFromUrl(info.url),
-                        lastFocused: Date.now(),
-                        isPopout,
-                        leaf: leaf,
-                        originalUrl, // Will be undefined for tabs not opened from linked notes
-                    });
-                }
+    /**
+     * Pages in the visit history, most recent visit first
+     */
+    getVisitHistory(): VisitHistoryEntry[] {
+        return this.plugin.visitHistoryService.getEntries();
+    }
+
+    /**
+     * Remove a page from the visit history
+     */
+    removeVisitHistoryEntry(url: string): void {
+        this.plugin.visitHistoryService.removeEntry(url);
+        this.onStateChange();
+    }
+
+    /**
+     * Pages waiting in the read-later queue, in reading order
+     */
+    getReadingQueue(): ReadingQueueItem[] {
+        return this.plugin.readingQueueService.getItems();
+    }
+
+    /**
+     * Whether a page changed since it was captured to its linked note
+     */
+    isPageChangedSinceCapture(url: string): boolean {
+        return this.changedSinceCapture.has(url);
+    }
+
+    /**
+     * Record whether a page changed since its last capture
+     * @returns Whether the flag changed
+     */
+    setPageChangedSinceCapture(url: string, changed: boolean): boolean {
+        if (this.changedSinceCapture.has(url) === changed) return false;
+        if (changed) {
+            this.changedSinceCapture.add(url);
+        } else {
+            this.changedSinceCapture.delete(url);
+        }
+        return true;
+    }
+
+    /**
+     * Apply the URL and title of a web viewer leaf to its tracked tab (creating it if needed)
+     * @returns Whether the tracked tab changed
+     */
+    private applyNavigation(leaf: WorkspaceLeaf, leafId: string, url: string, title: string | undefined): boolean {
+        // Detect popout window
+        const leafWindow = (leaf.getRoot() as unknown as { containerEl: { win: Window } }).containerEl?.win;
+        const isPopout = leafWindow !== undefined && leafWindow !== window;
+
+        const existing = this.trackedTabs.get(leafId);
+        const urlChanged = !existing || existing.url !== url;
+        const event: TabStateEvent = {
+            type: 'navigate',
+            url,
+            title,
+            timestamp: Date.now(),
+            // Only resolved for a new URL: title updates keep the flag of the current visit
+            hasLinkedNotes: urlChanged && this.hasLinkedNotes(url),
+        };
+
+        // Moving within a page (anchors, hash routes) is not another visit
+        if (urlChanged && isNewPage(existing?.url, url, getCanonicalizationOptions(this.getSettings()))) {
+            this.recordVisit(leafId, event.url, title, event.hasLinkedNotes);
+        }
+
+        // Cache title if available (for virtual tabs)
+        if (title) {
+            this.urlTitleCache.set(url, title);
+            this.plugin.visitHistoryService.updateTitle(url, title);
+        }
+
+        if (!existing) {
+            // New tab (original URL is recorded per leaf by recordOriginalUrl when opened from a note)
+            this.trackedTabs.set(leafId, {
+                ...createTrackedTab(leafId, event, this.extractTitleFromUrl(url)),
+                isPopout,
+                leaf,
+            });
+            return true;
+        }
+
+        const next = reduceTabState(existing, event);
+        if (next === existing && existing.isPopout === isPopout) return false;
+
+        if (urlChanged) {
+            // Auto-sync pinned tab currentUrl when navigation/redirect detected
+            this.pinnedTabManager.syncPinnedTabCurrentUrl(leafId, url);
+
+            // Sticky notes: the reducer snapped the origin to the new URL
+            if (event.hasLinkedNotes && existing.originalUrl && existing.originalUrl !== url) {
+                new Notice(`Found linked notes for new page. Origin updated.`);
             }
         }
+
+        this.trackedTabs.set(leafId, { ...next, isPopout, leaf });
+        return true;
+    }
+
+    /**
+     * Record a new URL of a tab in the visit history and the visit statistics of its
+     * linked notes, moving the running time on page to it if the tab is the focused web viewer
+     */
+    private recordVisit(leafId: string, url: string, title: string | undefined, hasLinkedNotes: boolean): void {
+        if (this.recordVisits) {
+            this.plugin.visitHistoryService.recordVisit(url, title, hasLinkedNotes);
+            if (hasLinkedNotes) this.plugin.visitStatsService.recordVisit(url);
+        }
+        if (this.dwell?.leafId === leafId) {
+            this.startDwell(leafId, url);
+        }
+    }
+
+    /**
+     * Start counting time on page for the focused web viewer (ends the previous page's)
+     * and the read-later auto-check of its page
+     */
+    private startDwell(leafId: string, url: string): void {
+        this.stopDwell();
+        this.dwell = { leafId, url, since: Date.now() };
+        this.plugin.readingQueueService.startReading(url);
+    }
+
+    /**
+     * Stop counting time on page (only if it runs for the given leaf, when one is given)
+     * and add it to the page's history entry and linked notes
+     */
+    private stopDwell(leafId?: string): void {
+        if (!this.dwell || (leafId !== undefined && this.dwell.leafId !== leafId)) return;
+
+        const elapsed = Math.min(Date.now() - this.dwell.since, MAX_DWELL_SEGMENT);
+        this.plugin.visitHistoryService.addDwellTime(this.dwell.url, elapsed);
+        this.plugin.visitStatsService.addTimeOnPage(this.dwell.url, elapsed);
+        this.plugin.readingQueueService.stopReading();
+        this.dwell = null;
     }
 
     /**
      * Remove tabs that are no longer open
      */
     private cleanupClosedTabs(): void {
-        const leaves = this.plugin.app.workspace.getLeavesOfType('webviewer')
-            .concat(this.plugin.app.workspace.getLeavesOfType('surfing-view'));
+        const leaves = this.getWebViewerLeaves();
 
         const activeLeafIds = new Set(
-            leaves.map((leaf, index) => getLeafId(leaf) || leaf.view.getViewType() + '-' + index)
+            leaves.map(leaf => this.resolveLeafId(leaf, leaves))
         );
 
         for (const leafId of this.trackedTabs.keys()) {
             if (!activeLeafIds.has(leafId)) {
                 this.trackedTabs.delete(leafId);
+                this.stopDwell(leafId);
 
                 // Also check if this was a pinned tab's leaf
                 const settings = this.getSettings();
@@ -321,11 +536,31 @@ export class TabStateService {
         }
     }
 
+    /**
+     * Pause time on page while no Obsidian window has focus,
+     * and resume it for the active web viewer once one has it again
+     */
+    private onWindowFocusChange(win: Window): void {
+        // Focus moving into a web viewer also blurs the window: check where it went
+        win.setTimeout(() => {
+            if (!win.document.hasFocus()) {
+                this.stopDwell();
+            } else if (!this.dwell) {
+                const leaf = this.plugin.app.workspace.getActiveViewOfType(View)?.leaf;
+                if (leaf) this.onActiveLeafChange(leaf);
+            }
+        }, 0);
+    }
+
     /**
      * Handle active leaf changes to update focus time and refresh view
+     * (time on page stops when anything else than a web viewer becomes active)
      */
     private onActiveLeafChange(leaf: WorkspaceLeaf | null): void {
-        if (!leaf) return;
+        if (!leaf) {
+            this.stopDwell();
+            return;
+        }
 
         const viewType = leaf.view.getViewType();
 
@@ -334,60 +569,50 @@ export class TabStateService {
             const info = this.getWebViewerInfo(leaf);
 
             if (info) {
-                // Detect if leaf is in a popout window
-                const leafWindow = (leaf.getRoot() as unknown as { containerEl: { win: Window } }).containerEl?.win;
-                const isPopout = leafWindow !== undefined && leafWindow !== window;
-
-                // Preserve originalUrl when updating focus time
-                const existing = this.trackedTabs.get(leafId);
-
-                // Update focus time while preserving originalUrl
-                this.trackedTabs.set(leafId, {
-                    leafId,
-                    url: info.url,
-                    title: info.title || this.extractTitleFromUrl(info.url),
-                    lastFocused: Date.now(),
-                    isPopout,
-                    leaf: leaf,
-                    originalUrl: existing?.originalUrl, // Preserve sticky URL
-                });
+                // Catch up on the URL, preserving originalUrl and history, then update focus time
+                this.applyNavigation(leaf, leafId, info.url, info.title);
+                const tab = this.trackedTabs.get(leafId);
+                if (tab) {
+                    this.trackedTabs.set(leafId, reduceTabState(tab, { type: 'focus', timestamp: Date.now() }));
+                    // Only focused time counts (the workspace also activates leaves in the background)
+                    if (this.dwell?.leafId !== leafId && leaf.view.containerEl.doc.hasFocus()) {
+                        this.startDwell(leafId, tab.url);
+                    }
+                }
             }
+        } else {
+            this.stopDwell();
         }
 
         // Always refresh the view to update virtual tabs
         this.onStateChange();
     }
 
+    /**
+     * Whether a URL has exactly linked notes
+     */
+    private hasLinkedNotes(url: string): boolean {
+        return findMatchingNotes(this.plugin.app, url, this.getSettings(), this.plugin.urlIndex).exactMatches.length > 0;
+    }
+
     /**
      * Get info from a specific web viewer leaf
      */
     private getWebViewerInfo(leaf: WorkspaceLeaf): { url: string; title?: string } | null {
         const state = leaf.view.getState();
-        const url = state?.url;
+        // The webview reports the live URL; the view state can lag behind navigation events
+        const url = this.navigationTracker.getUrl(leaf) ?? state?.url;
 
         if (url && typeof url === 'string') {
             const rawTitle = typeof state?.title === 'string' ? state.title : undefined;
             // Filter out invalid/loading titles
-            const title = this.isValidTitle(rawTitle) ? rawTitle : undefined;
+            const title = isValidPageTitle(rawTitle) ? rawTitle : undefined;
             return { url, title };
         }
 
         return null;
     }
 
-    /**
-     * Check if a title is valid (not a loading/placeholder state)
-     */
-    private isValidTitle(title: string | undefined): boolean {
-        if (!title || title.trim() === '') return false;
-        // Filter out data: URIs (actual URIs have format like data:text/plain, data:image/png)
-        if (/^data:[a-z]+\//.test(title)) return false;
-        // Filter out about: pages (about:blank, about:newtab, etc. - actual URLs)
-        if (/^about:(blank|newtab|srcdoc)/.test(title)) return false;
-        if (title === 'New Tab' || title === 'Loading...') return false;
-        return true;
-    }
-
     /**
      * Extract a title from URL as fallback
      */
@@ -465,11 +690,18 @@ export class TabStateService {
     }
 
     /**
-     * Set a pending original URL to be applied to the next new tab.
-     * Call this BEFORE opening a URL from a linked note to enable redirect detection.
+     * Record the URL a web viewer leaf was opened with from a linked note.
+     * Called with the opened leaf right after navigation, so a redirect that happened
+     * before the tab was first scanned still keeps the note URL at the start of its chain.
      */
-    setPendingOriginalUrl(url: string): void {
-        this.pendingOriginalUrl = url;
+    recordOriginalUrl(leafId: string, url: string, openedAt: number): void {
+        // Make sure the leaf is tracked
+        this.scanAllWebViewers();
+        const tab = this.trackedTabs.get(leafId);
+        if (!tab) return;
+
+        this.trackedTabs.set(leafId, reduceTabState(tab, { type: 'open-from-note', url, openedAt }));
+        this.refreshState();
     }
 
     /**
@@ -492,15 +724,25 @@ export class TabStateService {
     }
 
     /**
-     * Update all notes linked to the original URL of a tracked tab to the new (current) URL.
-     * Clears the originalUrl after update.
+     * Get the URL a tracked tab's linked notes point to (original URL, or the current URL if it has notes)
+     */
+    getLinkedSourceUrl(leafId: string): string | undefined {
+        const tab = this.trackedTabs.get(leafId);
+        if (!tab) return undefined;
+        if (tab.originalUrl) return tab.originalUrl;
+        return tab.history[tab.history.length - 1]?.hadLinkedNotes ? tab.url : undefined;
+    }
+
+    /**
+     * Update all notes linked to the original URL of a tracked tab to a URL from its history
+     * (default: the current URL). Clears the originalUrl if the notes now match the current URL.
      */
-    async updateTrackedTabNotes(leafId: string): Promise<void> {
+    async updateTrackedTabNotes(leafId: string, targetUrl?: string): Promise<void> {
         const tab = this.trackedTabs.get(leafId);
-        if (!tab || !tab.originalUrl || tab.originalUrl === tab.url) return;
+        const oldUrl = this.getLinkedSourceUrl(leafId);
+        const newUrl = targetUrl ?? tab?.url;
+        if (!tab || !oldUrl || !newUrl || oldUrl === newUrl) return;
 
-        const oldUrl = tab.originalUrl;
-        const newUrl = tab.url;
         const settings = this.getSettings();
 
         // Find all files linking to oldUrl and update them
@@ -524,8 +766,9 @@ export class TabStateService {
             });
         }
 
-        // Clear the originalUrl since we've updated notes to match current
-        tab.originalUrl = undefined;
+        // Clear the originalUrl if we've updated notes to match current, else stick to the new URL
+        const current = this.trackedTabs.get(leafId) ?? tab;
+        this.trackedTabs.set(leafId, reduceTabState(current, { type: 'notes-moved', from: oldUrl, to: newUrl }));
 
         this.refreshState();
     }
@@ -4,40 +4,120 @@
  * SPDX-License-Identifier: GPL-3.0-only
  */
 
-import { App, TFile, EventRef, Events } from 'obsidian';
-import type { WebSidecarSettings } from '../types';
-import { extractDomain, isValidUrl, normalizeUrl } from './urlUtils';
+import { App, TFile, EventRef, Events, debounce } from 'obsidian';
+import type { BodyMention, WebSidecarSettings } from '../types';
+import { extractGroupDomain, getCanonicalizationOptions, getGroupDomain, isValidUrl, normalizeUrl } from './urlUtils';
+import { extractBodyMentions } from './bodyLinks';
+
+/** On-disk cache format version (bump when the format changes) */
+const CACHE_VERSION = 3;
+
+/** Delay before writing the on-disk cache after index changes */
+const CACHE_SAVE_DELAY = 2000;
+
+/**
+ * On-disk index cache, keyed by file path + mtime
+ */
+interface UrlIndexCache {
+    version: number;
+    /** urlPropertyFields the cache was built with */
+    fields: string[];
+    /** Every indexed markdown file, including files without URLs */
+    files: Record<string, { mtime: number; urls: string[]; mentions?: BodyMention[] }>;
+    /** Whether body mentions were indexed */
+    bodyLinks: boolean;
+    /** Canonicalization options and domain grouping the URL keys were computed with */
+    keyOptions: string;
+    /** URL -> [normalized URL, group domain] */
+    keys: Record<string, [string, string | null]>;
+}
 
 export class UrlIndex extends Events {
     private app: App;
     private getSettings: () => WebSidecarSettings;
+    private cachePath: string | null;
     private urlToFiles: Map<string, Set<TFile>> = new Map();
     private normalizedUrlToFiles: Map<string, Set<TFile>> = new Map();
     private domainToFiles: Map<string, Set<TFile>> = new Map();
     // Reverse index to quickly clear file entries on update
     private fileToUrls: Map<string, Set<string>> = new Map();
+    // mtime of every indexed file (with or without URLs), persisted for incremental startup
+    private indexedMtimes: Map<string, number> = new Map();
+    // Memoized [normalized URL, domain] per URL (URL parsing dominates index build time)
+    private urlKeys: Map<string, [string, string | null]> = new Map();
+    // Body-link index: URLs mentioned in note bodies, kept apart from frontmatter URLs
+    private fileMentions: Map<string, BodyMention[]> = new Map();
+    private normalizedMentionToFiles: Map<string, Set<TFile>> = new Map();
+    // Link index ([[wikilinks]] between notes, from resolved links): target path -> source paths, and back
+    private linkSources: Map<string, Set<string>> = new Map();
+    private linkTargets: Map<string, Set<string>> = new Map();
+    // Set when files appear, move or go away: links elsewhere may resolve differently
+    private linksStale = false;
+    // Incremented to abort an in-progress body scan (rebuild, setting turned off)
+    private mentionScanId = 0;
+    // True once every file's body has been scanned (only then are mentions persisted)
+    private mentionsComplete = false;
+
+    // Settings the index was built with, to skip rebuilds when unrelated settings change
+    private indexedFields = '';
+    private indexedKeyOptions = '';
+    private indexedRecentLimit = 0;
+    private indexedBodyLinks = false;
 
     private listeners: EventRef[] = [];
 
-    constructor(app: App, getSettings: () => WebSidecarSettings) {
+    private scheduleCacheSave = debounce(() => { void this.saveCache(); }, CACHE_SAVE_DELAY, true);
+
+    constructor(app: App, getSettings: () => WebSidecarSettings, cachePath?: string) {
         super();
         this.app = app;
         this.getSettings = getSettings;
+        this.cachePath = cachePath ?? null;
     }
 
-    initialize(): void {
-        this.rebuildIndex();
+    async initialize(): Promise<void> {
+        this.registerListeners();
 
+        const loaded = await this.loadFromCache();
+        if (!loaded) {
+            this.rebuildIndex();
+        }
+    }
+
+    private registerListeners(): void {
         // Listen for metadata changes (content edit)
-        const cacheRef = this.app.metadataCache.on('changed', (file) => {
+        const cacheRef = this.app.metadataCache.on('changed', (file, data) => {
             this.updateFileIndex(file);
+            if (this.getSettings().enableBodyLinkIndex) {
+                this.updateFileMentions(file, data);
+            }
         });
         this.listeners.push(cacheRef);
 
+        // Listen for link resolution (per file, then once the whole vault is resolved)
+        const resolveRef = this.app.metadataCache.on('resolve', (file) => {
+            if (this.indexedBodyLinks) {
+                this.updateFileLinks(file.path);
+            }
+        });
+        this.listeners.push(resolveRef);
+
+        const resolvedRef = this.app.metadataCache.on('resolved', () => {
+            if (this.indexedBodyLinks && this.linksStale) {
+                this.rebuildLinks();
+            }
+        });
+        this.listeners.push(resolvedRef);
+
         // Listen for file deletion
         const deleteRef = this.app.vault.on('delete', (file) => {
             if (file instanceof TFile && file.extension === 'md') {
                 this.removeFileFromIndex(file);
+                this.removeFileMentions(file.path);
+                this.removeFileLinks(file.path);
+                this.linksStale = true;
+                this.indexedMtimes.delete(file.path);
+                this.scheduleCacheSave();
                 this.trigger('index-updated');
             }
         });
@@ -47,6 +127,7 @@ export class UrlIndex extends Events {
         const createRef = this.app.vault.on('create', (file) => {
             if (file instanceof TFile && file.extension === 'md') {
                 this.updateFileIndex(file);
+                this.linksStale = true;
             }
         });
         this.listeners.push(createRef);
@@ -55,6 +136,20 @@ export class UrlIndex extends Events {
         // strictly speaking we use path in fileToUrls map key)
         const renameRef = this.app.vault.on('rename', (file, oldPath) => {
             if (file instanceof TFile && file.extension === 'md') {
+                const mtime = this.indexedMtimes.get(oldPath);
+                if (mtime !== undefined) {
+                    this.indexedMtimes.delete(oldPath);
+                    this.indexedMtimes.set(file.path, mtime);
+                    this.scheduleCacheSave();
+                }
+
+                const mentions = this.fileMentions.get(oldPath);
+                if (mentions) {
+                    this.fileMentions.delete(oldPath);
+                    this.fileMentions.set(file.path, mentions);
+                }
+                this.linksStale = true;
+
                 // If path changed, we need to move entry in fileToUrls
                 const urls = this.fileToUrls.get(oldPath);
                 if (urls) {
@@ -68,12 +163,17 @@ export class UrlIndex extends Events {
     }
 
     destroy(): void {
+        // Flush pending cache write (data is captured synchronously)
+        this.scheduleCacheSave.run();
+
         this.listeners.forEach(ref => this.app.metadataCache.offref(ref));
         this.listeners.forEach(ref => this.app.vault.offref(ref));
         this.urlToFiles.clear();
         this.normalizedUrlToFiles.clear();
         this.domainToFiles.clear();
         this.fileToUrls.clear();
+        this.indexedMtimes.clear();
+        this.clearMentions();
     }
 
     /**
@@ -84,24 +184,78 @@ export class UrlIndex extends Events {
         return files ? Array.from(files) : [];
     }
 
+    /**
+     * Get the URLs in a file's URL properties
+     */
+    getUrlsForFile(file: TFile): string[] {
+        const urls = this.fileToUrls.get(file.path);
+        return urls ? Array.from(urls) : [];
+    }
+
     /**
      * Get files referencing this URL (normalized)
      */
     getFilesForNormalizedUrl(url: string): TFile[] {
-        const normalized = normalizeUrl(url);
+        const normalized = normalizeUrl(url, getCanonicalizationOptions(this.getSettings()));
         if (!normalized) return [];
         const files = this.normalizedUrlToFiles.get(normalized);
         return files ? Array.from(files) : [];
     }
 
     /**
-     * Get files matching the domain of this URL
+     * Get files in the same domain group as this hostname
+     * (with registrable domain grouping, "gist.github.com" also returns github.com notes)
      */
     getFilesForDomain(domain: string): TFile[] {
-        const files = this.domainToFiles.get(domain);
+        const files = this.domainToFiles.get(getGroupDomain(domain, this.getSettings().domainGrouping));
         return files ? Array.from(files) : [];
     }
 
+    /**
+     * Get files for every indexed domain accepted by the predicate
+     * (e.g. all YouTube domains: youtube.com, youtu.be, m.youtube.com)
+     */
+    getFilesMatchingDomain(predicate: (domain: string) => boolean): TFile[] {
+        const files = new Set<TFile>();
+        for (const [domain, domainFiles] of this.domainToFiles) {
+            if (!predicate(domain)) continue;
+            domainFiles.forEach(file => files.add(file));
+        }
+        return Array.from(files);
+    }
+
+    /**
+     * Get body mentions of this URL (normalized), grouped by file
+     */
+    getMentionsForUrl(url: string): Map<TFile, BodyMention[]> {
+        const result = new Map<TFile, BodyMention[]>();
+        const normalized = normalizeUrl(url, getCanonicalizationOptions(this.getSettings()));
+        if (!normalized) return result;
+
+        for (const file of this.normalizedMentionToFiles.get(normalized) ?? []) {
+            const mentions = (this.fileMentions.get(file.path) ?? [])
+                .filter(m => this.getUrlKeys(m.url)[0] === normalized);
+            if (mentions.length > 0) {
+                result.set(file, mentions);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Get paths of notes linking to any of the target notes (maintained with the body-link index)
+     */
+    getLinkSources(targetPaths: Set<string>): Set<string> {
+        // Files changed since the vault was last resolved
+        if (this.linksStale) this.rebuildLinks();
+
+        const sources = new Set<string>();
+        for (const target of targetPaths) {
+            this.linkSources.get(target)?.forEach(source => sources.add(source));
+        }
+        return sources;
+    }
+
     /**
      * Get all files that have indexed URLs
      */
@@ -136,10 +290,7 @@ export class UrlIndex extends Events {
      * Full rebuild
      */
     rebuildIndex(): void {
-        this.urlToFiles.clear();
-        this.normalizedUrlToFiles.clear();
-        this.domainToFiles.clear();
-        this.fileToUrls.clear();
+        this.clearIndex();
 
         const files = this.app.vault.getMarkdownFiles();
 
@@ -148,15 +299,51 @@ export class UrlIndex extends Events {
             this.updateFileIndex(file, true); // suppress event during loop
         }
 
-        // Build initial recent cache
-        const maxCache = this.getSettings().recentNotesCacheLimit;
-        // sort all files with URLs by mtime
-        const filesWithUrls = this.getAllFilesWithUrls();
-        this.recentFiles = filesWithUrls
-            .sort((a, b) => b.stat.mtime - a.stat.mtime)
-            .slice(0, maxCache);
+        this.finishBuild();
 
-        this.trigger('index-updated');
+        // Body mentions need file contents, so they are scanned in the background
+        if (this.indexedBodyLinks) {
+            void this.scanMentions(files);
+        }
+    }
+
+    /**
+     * React to settings changes without rebuilding unless needed:
+     * - urlPropertyFields changed: full rebuild
+     * - canonicalization or domain grouping changed: re-key normalized URLs and domains only
+     * - recent cache limit changed: rebuild recent cache only
+     * - body-link index toggled: scan or drop body mentions only
+     */
+    onSettingsChanged(): void {
+        const settings = this.getSettings();
+
+        if (JSON.stringify(settings.urlPropertyFields) !== this.indexedFields) {
+            this.rebuildIndex();
+            return;
+        }
+
+        if (this.getKeyOptions() !== this.indexedKeyOptions) {
+            this.reindexUrlKeys();
+            this.indexedKeyOptions = this.getKeyOptions();
+            this.scheduleCacheSave();
+            this.trigger('index-updated');
+        }
+
+        if (settings.recentNotesCacheLimit !== this.indexedRecentLimit) {
+            this.rebuildRecentFiles();
+        }
+
+        if (settings.enableBodyLinkIndex !== this.indexedBodyLinks) {
+            this.indexedBodyLinks = settings.enableBodyLinkIndex;
+            this.clearMentions();
+            if (settings.enableBodyLinkIndex) {
+                this.rebuildLinks();
+                void this.scanMentions(this.app.vault.getMarkdownFiles());
+            } else {
+                this.scheduleCacheSave();
+                this.trigger('index-updated');
+            }
+        }
     }
 
     /**
@@ -167,80 +354,415 @@ export class UrlIndex extends Events {
         this.removeFileFromIndex(file);
 
         // 2. Parse new frontmatter
+        const foundUrls = this.readFileUrls(file);
+        this.indexedMtimes.set(file.path, file.stat.mtime);
+
+        // 3. Add to indices
+        const hasUrls = foundUrls.size > 0;
+        if (hasUrls) {
+            this.addFileUrls(file, foundUrls);
+
+            // Add to top of recent cache (most recent)
+            this.recentFiles.unshift(file);
+            // Cap size
+            const maxCache = this.getSettings().recentNotesCacheLimit;
+            if (this.recentFiles.length > maxCache) {
+                this.recentFiles.pop();
+            }
+        }
+
+        if (!suppressEvent) {
+            this.scheduleCacheSave();
+            if (hasUrls) {
+                this.trigger('index-updated');
+            }
+        }
+    }
+
+    /**
+     * Read URLs from the configured frontmatter properties of a file
+     */
+    private readFileUrls(file: TFile): Set<string> {
+        const foundUrls = new Set<string>();
+
         const cache = this.app.metadataCache.getFileCache(file);
         const frontmatter = cache?.frontmatter;
+        if (!frontmatter) return foundUrls;
 
-        let hasChanges = false;
-        let hasUrls = false;
+        for (const propName of this.getSettings().urlPropertyFields) {
+            const propValue = frontmatter[propName] as unknown;
+            if (!propValue) continue;
 
-        if (frontmatter) {
-            const settings = this.getSettings();
-            const foundUrls = new Set<string>();
+            // Handle string or array of strings
+            const urls = Array.isArray(propValue) ? propValue : [propValue];
 
-            for (const propName of settings.urlPropertyFields) {
-                const propValue = frontmatter[propName] as unknown;
-                if (!propValue) continue;
+            for (const rawUrl of urls) {
+                if (typeof rawUrl === 'string' && isValidUrl(rawUrl)) {
+                    foundUrls.add(rawUrl);
+                }
+            }
+        }
 
-                // Handle string or array of strings
-                const urls = Array.isArray(propValue) ? propValue : [propValue];
+        return foundUrls;
+    }
 
-                for (const rawUrl of urls) {
-                    if (typeof rawUrl === 'string' && isValidUrl(rawUrl)) {
-                        foundUrls.add(rawUrl);
-                    }
+    /**
+     * Add a file's URLs to the URL, normalized URL and domain indices
+     */
+    private addFileUrls(file: TFile, urls: Set<string>): void {
+        this.fileToUrls.set(file.path, urls);
+
+        for (const url of urls) {
+            const [normalized, domain] = this.getUrlKeys(url);
+
+            // Index by URL
+            if (!this.urlToFiles.has(url)) {
+                this.urlToFiles.set(url, new Set());
+            }
+            this.urlToFiles.get(url)!.add(file);
+
+            // Index by Normalized URL
+            if (normalized) {
+                if (!this.normalizedUrlToFiles.has(normalized)) {
+                    this.normalizedUrlToFiles.set(normalized, new Set());
                 }
+                this.normalizedUrlToFiles.get(normalized)!.add(file);
             }
 
-            // 3. Add to indices
-            if (foundUrls.size > 0) {
-                hasUrls = true;
-                this.fileToUrls.set(file.path, foundUrls);
+            // Index by Domain
+            if (domain) {
+                if (!this.domainToFiles.has(domain)) {
+                    this.domainToFiles.set(domain, new Set());
+                }
+                this.domainToFiles.get(domain)!.add(file);
+            }
+        }
+    }
 
-                for (const url of foundUrls) {
-                    // Index by URL
-                    if (!this.urlToFiles.has(url)) {
-                        this.urlToFiles.set(url, new Set());
-                    }
-                    this.urlToFiles.get(url)!.add(file);
-
-                    // Index by Normalized URL
-                    const normalized = normalizeUrl(url);
-                    if (normalized) {
-                        if (!this.normalizedUrlToFiles.has(normalized)) {
-                            this.normalizedUrlToFiles.set(normalized, new Set());
-                        }
-                        this.normalizedUrlToFiles.get(normalized)!.add(file);
-                    }
+    /**
+     * Re-scan a file's body for mentioned URLs
+     */
+    private updateFileMentions(file: TFile, content: string, suppressEvent = false): void {
+        const hadMentions = this.fileMentions.has(file.path);
+        this.removeFileMentions(file.path);
 
-                    // Index by Domain
-                    const domain = extractDomain(url);
-                    if (domain) {
-                        if (!this.domainToFiles.has(domain)) {
-                            this.domainToFiles.set(domain, new Set());
-                        }
-                        this.domainToFiles.get(domain)!.add(file);
-                    }
-                }
-                hasChanges = true;
+        const mentions = extractBodyMentions(content, this.app.metadataCache.getFileCache(file));
+        this.addFileMentions(file, mentions);
+
+        if (!suppressEvent) {
+            this.scheduleCacheSave();
+            if (hadMentions || mentions.length > 0) {
+                this.trigger('index-updated');
             }
         }
+    }
 
-        // Update Recent Cache
-        if (hasUrls) {
-            // Remove if exists (it shouldn't because we declared it removed in step 1, 
-            // but removeFileFromIndex handles recentFiles removal too)
+    private addFileMentions(file: TFile, mentions: BodyMention[]): void {
+        if (mentions.length === 0) return;
+        this.fileMentions.set(file.path, mentions);
 
-            // Add to top (most recent)
-            this.recentFiles.unshift(file);
-            // Cap size
-            const maxCache = this.getSettings().recentNotesCacheLimit;
-            if (this.recentFiles.length > maxCache) {
-                this.recentFiles.pop();
+        for (const mention of mentions) {
+            const [normalized] = this.getUrlKeys(mention.url);
+            if (!normalized) continue;
+            const files = this.normalizedMentionToFiles.get(normalized) ?? new Set<TFile>();
+            files.add(file);
+            this.normalizedMentionToFiles.set(normalized, files);
+        }
+    }
+
+    private removeFileMentions(path: string): void {
+        const mentions = this.fileMentions.get(path);
+        if (!mentions) return;
+
+        for (const mention of mentions) {
+            const [normalized] = this.getUrlKeys(mention.url);
+            const files = this.normalizedMentionToFiles.get(normalized);
+            if (!files) continue;
+            for (const file of files) {
+                if (file.path === path) files.delete(file);
+            }
+            if (files.size === 0) {
+                this.normalizedMentionToFiles.delete(normalized);
             }
         }
 
-        if (hasChanges && !suppressEvent) {
-            this.trigger('index-updated');
+        this.fileMentions.delete(path);
+    }
+
+    private clearMentions(): void {
+        this.mentionScanId++;
+        this.mentionsComplete = false;
+        this.fileMentions.clear();
+        this.normalizedMentionToFiles.clear();
+        this.linkSources.clear();
+        this.linkTargets.clear();
+    }
+
+    /**
+     * Rebuild the link index from the resolved links of the whole vault
+     */
+    private rebuildLinks(): void {
+        this.linkSources.clear();
+        this.linkTargets.clear();
+        this.linksStale = false;
+        for (const sourcePath of Object.keys(this.app.metadataCache.resolvedLinks)) {
+            this.updateFileLinks(sourcePath);
+        }
+    }
+
+    /**
+     * Re-read the resolved links of a note
+     */
+    private updateFileLinks(sourcePath: string): void {
+        this.removeFileLinks(sourcePath);
+
+        const targets = new Set(Object.keys(this.app.metadataCache.resolvedLinks[sourcePath] ?? {}));
+        targets.delete(sourcePath);
+        if (targets.size === 0) return;
+
+        this.linkTargets.set(sourcePath, targets);
+        for (const target of targets) {
+            const sources = this.linkSources.get(target) ?? new Set<string>();
+            sources.add(sourcePath);
+            this.linkSources.set(target, sources);
+        }
+    }
+
+    private removeFileLinks(sourcePath: string): void {
+        for (const target of this.linkTargets.get(sourcePath) ?? []) {
+            const sources = this.linkSources.get(target);
+            if (!sources) continue;
+            sources.delete(sourcePath);
+            if (sources.size === 0) {
+                this.linkSources.delete(target);
+            }
+        }
+        this.linkTargets.delete(sourcePath);
+    }
+
+    /**
+     * Read and scan note bodies for mentioned URLs (aborted by clearMentions)
+     */
+    private async scanMentions(files: TFile[]): Promise<void> {
+        const scanId = ++this.mentionScanId;
+
+        for (const file of files) {
+            let content: string;
+            try {
+                content = await this.app.vault.cachedRead(file);
+            } catch (error) {
+                console.error('Web Sidecar: Failed to read note for body links:', error);
+                continue;
+            }
+            if (scanId !== this.mentionScanId) return;
+            // Skip files deleted while reading
+            if (this.app.vault.getAbstractFileByPath(file.path) !== file) continue;
+
+            this.updateFileMentions(file, content, true);
+        }
+
+        this.mentionsComplete = true;
+        this.scheduleCacheSave();
+        this.trigger('index-updated');
+    }
+
+    /**
+     * Get the normalized URL and group domain for a URL (memoized)
+     */
+    private getUrlKeys(url: string): [string, string | null] {
+        let keys = this.urlKeys.get(url);
+        if (!keys) {
+            const settings = this.getSettings();
+            keys = [
+                normalizeUrl(url, getCanonicalizationOptions(settings)),
+                extractGroupDomain(url, settings.domainGrouping),
+            ];
+            this.urlKeys.set(url, keys);
+        }
+        return keys;
+    }
+
+    /**
+     * Settings that URL keys depend on, serialized for comparison
+     */
+    private getKeyOptions(): string {
+        const settings = this.getSettings();
+        return JSON.stringify({
+            canonicalization: getCanonicalizationOptions(settings),
+            domainGrouping: settings.domainGrouping,
+        });
+    }
+
+    /**
+     * Re-key the normalized URL and domain indices (after canonicalization rules or domain grouping change)
+     */
+    private reindexUrlKeys(): void {
+        this.normalizedUrlToFiles.clear();
+        this.domainToFiles.clear();
+        this.urlKeys.clear();
+
+        for (const [url, files] of this.urlToFiles) {
+            const [normalized, domain] = this.getUrlKeys(url);
+
+            if (normalized) {
+                const existing = this.normalizedUrlToFiles.get(normalized) ?? new Set<TFile>();
+                files.forEach(file => existing.add(file));
+                this.normalizedUrlToFiles.set(normalized, existing);
+            }
+
+            if (domain) {
+                const existing = this.domainToFiles.get(domain) ?? new Set<TFile>();
+                files.forEach(file => existing.add(file));
+                this.domainToFiles.set(domain, existing);
+            }
+        }
+
+        this.normalizedMentionToFiles.clear();
+        for (const [path, mentions] of this.fileMentions) {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile)) continue;
+            this.fileMentions.delete(path);
+            this.addFileMentions(file, mentions);
+        }
+    }
+
+    /**
+     * Rebuild the recent files cache from all files with URLs
+     */
+    private rebuildRecentFiles(): void {
+        const maxCache = this.getSettings().recentNotesCacheLimit;
+        // sort all files with URLs by mtime
+        this.recentFiles = this.getAllFilesWithUrls()
+            .sort((a, b) => b.stat.mtime - a.stat.mtime)
+            .slice(0, maxCache);
+        this.indexedRecentLimit = maxCache;
+    }
+
+    private clearIndex(): void {
+        this.urlToFiles.clear();
+        this.normalizedUrlToFiles.clear();
+        this.domainToFiles.clear();
+        this.fileToUrls.clear();
+        this.indexedMtimes.clear();
+        this.urlKeys.clear();
+        this.clearMentions();
+    }
+
+    /**
+     * Common tail of full and cached builds
+     */
+    private finishBuild(): void {
+        const settings = this.getSettings();
+        this.indexedFields = JSON.stringify(settings.urlPropertyFields);
+        this.indexedKeyOptions = this.getKeyOptions();
+        this.indexedBodyLinks = settings.enableBodyLinkIndex;
+        if (this.indexedBodyLinks) {
+            this.rebuildLinks();
+        }
+
+        // Build initial recent cache
+        this.rebuildRecentFiles();
+
+        this.scheduleCacheSave();
+        this.trigger('index-updated');
+    }
+
+    /**
+     * Build the index from the on-disk cache, re-reading only files whose mtime changed
+     * Returns false if there is no usable cache (missing, outdated format or different URL fields)
+     */
+    private async loadFromCache(): Promise<boolean> {
+        if (!this.cachePath) return false;
+
+        let cache: UrlIndexCache;
+        try {
+            if (!(await this.app.vault.adapter.exists(this.cachePath))) return false;
+            cache = JSON.parse(await this.app.vault.adapter.read(this.cachePath)) as UrlIndexCache;
+        } catch (error) {
+            console.error('Web Sidecar: Failed to read URL index cache:', error);
+            return false;
+        }
+
+        const fields = JSON.stringify(this.getSettings().urlPropertyFields);
+        if (cache?.version !== CACHE_VERSION || JSON.stringify(cache.fields) !== fields || !cache.files) {
+            return false;
+        }
+
+        this.clearIndex();
+
+        // Reuse URL keys if they were computed with the same canonicalization rules and domain grouping
+        if (cache.keyOptions === this.getKeyOptions() && cache.keys) {
+            this.urlKeys = new Map(Object.entries(cache.keys));
+        }
+
+        // Body mentions are reused only if they were indexed last session
+        const bodyLinks = this.getSettings().enableBodyLinkIndex;
+        const reuseMentions = bodyLinks && cache.bodyLinks;
+        const toScan: TFile[] = [];
+
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            const entry = cache.files[file.path];
+            if (entry && entry.mtime === file.stat.mtime) {
+                // Unchanged since last session
+                this.indexedMtimes.set(file.path, entry.mtime);
+                if (entry.urls.length > 0) {
+                    this.addFileUrls(file, new Set(entry.urls));
+                }
+                if (reuseMentions) {
+                    this.addFileMentions(file, entry.mentions ?? []);
+                } else if (bodyLinks) {
+                    toScan.push(file);
+                }
+            } else {
+                // New or modified while closed
+                this.updateFileIndex(file, true);
+                if (bodyLinks) toScan.push(file);
+            }
+        }
+
+        this.finishBuild();
+
+        if (toScan.length > 0) {
+            void this.scanMentions(toScan);
+        } else {
+            this.mentionsComplete = reuseMentions;
+        }
+        return true;
+    }
+
+    /**
+     * Write the index to the on-disk cache
+     */
+    private async saveCache(): Promise<void> {
+        if (!this.cachePath) return;
+
+        // Capture data synchronously (destroy() clears the maps right after flushing)
+        const files: UrlIndexCache['files'] = {};
+        for (const [path, mtime] of this.indexedMtimes) {
+            const urls = this.fileToUrls.get(path);
+            const mentions = this.fileMentions.get(path);
+            files[path] = mentions
+                ? { mtime, urls: urls ? Array.from(urls) : [], mentions }
+                : { mtime, urls: urls ? Array.from(urls) : [] };
+        }
+        const keys: UrlIndexCache['keys'] = {};
+        for (const url of this.urlToFiles.keys()) {
+            keys[url] = this.getUrlKeys(url);
+        }
+        const cache: UrlIndexCache = {
+            version: CACHE_VERSION,
+            fields: this.getSettings().urlPropertyFields,
+            files,
+            bodyLinks: this.indexedBodyLinks && this.mentionsComplete,
+            keyOptions: this.indexedKeyOptions,
+            keys,
+        };
+        const data = JSON.stringify(cache);
+
+        try {
+            await this.app.vault.adapter.write(this.cachePath, data);
+        } catch (error) {
+            console.error('Web Sidecar: Failed to write URL index cache:', error);
         }
     }
 
@@ -258,6 +780,8 @@ export class UrlIndex extends Events {
         if (!urls) return;
 
         for (const url of urls) {
+            const [normalized, domain] = this.getUrlKeys(url);
+
             // Remove from URL index
             const filesForUrl = this.urlToFiles.get(url);
             if (filesForUrl) {
@@ -268,7 +792,6 @@ export class UrlIndex extends Events {
             }
 
             // Remove from Normalized URL index
-            const normalized = normalizeUrl(url);
             if (normalized) {
                 const filesForNormalized = this.normalizedUrlToFiles.get(normalized);
                 if (filesForNormalized) {
@@ -280,7 +803,6 @@ export class UrlIndex extends Events {
             }
 
             // Remove from Domain index
-            const domain = extractDomain(url);
             if (domain) {
                 const filesForDomain = this.domainToFiles.get(domain);
                 if (filesForDomain) {
@@ -7,7 +7,7 @@
 import { MarkdownView } from 'obsidian';
 import type { VirtualTab, WebSidecarSettings, TrackedWebViewer } from '../types';
 import type WebSidecarPlugin from '../main';
-import { isSameRedditPost } from './matchers/reddit';
+import { isEquivalentSiteUrl } from './matchers/registry';
 
 export class VirtualTabManager {
     private plugin: WebSidecarPlugin;
@@ -92,14 +92,14 @@ export class VirtualTabManager {
                     // Skip if URL is already open in a web viewer
                     const urlToCheck = foundUrl; // Capture for closure
                     const isAlreadyOpen = Array.from(openUrls).some(openUrl =>
-                        openUrl === urlToCheck || isSameRedditPost(openUrl, urlToCheck)
+                        openUrl === urlToCheck || isEquivalentSiteUrl(openUrl, urlToCheck)
                     );
                     if (isAlreadyOpen) continue;
 
                     // Skip if URL belongs to a pinned tab (shown in pinned section instead)
                     // Check using same robust logic as open URLs
                     const isPinned = Array.from(pinnedUrls).some(pinUrl =>
-                        pinUrl === urlToCheck || isSameRedditPost(pinUrl, urlToCheck)
+                        pinUrl === urlToCheck || isEquivalentSiteUrl(pinUrl, urlToCheck)
                     );
                     if (isPinned) continue;
 
@@ -0,0 +1,205 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { App, debounce } from 'obsidian';
+import type { VisitHistoryEntry, WebSidecarSettings } from '../types';
+import { getCanonicalizationOptions, normalizeUrl } from './urlUtils';
+
+/** On-disk history format version (bump when the format changes) */
+const HISTORY_VERSION = 1;
+
+/** Delay before writing the history file after a change */
+const HISTORY_SAVE_DELAY = 5000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * On-disk visit history
+ */
+interface VisitHistoryFile {
+    version: number;
+    entries: VisitHistoryEntry[];
+}
+
+/**
+ * Local log of the pages visited in web viewers, kept in the plugin folder
+ * (never in the vault or the plugin settings)
+ */
+export class VisitHistoryService {
+    /** Entries keyed by normalized URL */
+    private entries: Map<string, VisitHistoryEntry> = new Map();
+
+    private scheduleSave = debounce(() => { void this.save(); }, HISTORY_SAVE_DELAY, true);
+
+    constructor(
+        private app: App,
+        private getSettings: () => WebSidecarSettings,
+        private filePath: string
+    ) { }
+
+    async load(): Promise<void> {
+        try {
+            if (!(await this.app.vault.adapter.exists(this.filePath))) return;
+            const data = JSON.parse(await this.app.vault.adapter.read(this.filePath)) as VisitHistoryFile;
+            if (data?.version !== HISTORY_VERSION || !Array.isArray(data.entries)) return;
+
+            const entries = data.entries
+                .filter(entry => typeof entry?.url === 'string' && typeof entry.lastVisit === 'number')
+                .sort((a, b) => a.lastVisit - b.lastVisit);
+            for (const entry of entries) {
+                this.entries.set(this.getKey(entry.url), entry);
+            }
+            this.prune();
+        } catch (error) {
+            console.error('Web Sidecar: Failed to read visit history:', error);
+        }
+    }
+
+    /**
+     * Write pending changes
+     */
+    destroy(): void {
+        this.scheduleSave.run();
+    }
+
+    /**
+     * Record a visit to a page (only http(s) pages are kept)
+     */
+    recordVisit(url: string, title: string | undefined, hasLinkedNote: boolean): void {
+        if (!this.getSettings().enableVisitHistory || !/^https?:\/\//i.test(url)) return;
+
+        const key = this.getKey(url);
+        const now = Date.now();
+        const entry = this.entries.get(key);
+        if (entry) {
+            // Most recent first: re-insert
+            this.entries.delete(key);
+            this.entries.set(key, {
+                ...entry,
+                url,
+                title: title || entry.title,
+                lastVisit: now,
+                visitCount: entry.visitCount + 1,
+                hadLinkedNote: hasLinkedNote,
+            });
+        } else {
+            this.entries.set(key, {
+                url,
+                title: title || url,
+                firstVisit: now,
+                lastVisit: now,
+                visitCount: 1,
+                dwellTime: 0,
+                hadLinkedNote: hasLinkedNote,
+            });
+            this.pruneToMaxEntries();
+        }
+        this.scheduleSave();
+    }
+
+    /**
+     * Update the title of a page once it is known
+     */
+    updateTitle(url: string, title: string): void {
+        const entry = this.entries.get(this.getKey(url));
+        if (!entry || entry.title === title) return;
+        entry.title = title;
+        this.scheduleSave();
+    }
+
+    /**
+     * Add time spent on a page to its entry
+     */
+    addDwellTime(url: string, ms: number): void {
+        const entry = this.entries.get(this.getKey(url));
+        if (!entry || ms <= 0) return;
+        entry.dwellTime += ms;
+        this.scheduleSave();
+    }
+
+    /**
+     * History entries, most recent visit first
+     */
+    getEntries(): VisitHistoryEntry[] {
+        return Array.from(this.entries.values()).reverse();
+    }
+
+    /**
+     * History entry of a page
+     */
+    getEntry(url: string): VisitHistoryEntry | null {
+        return this.entries.get(this.getKey(url)) ?? null;
+    }
+
+    removeEntry(url: string): void {
+        if (this.entries.delete(this.getKey(url))) {
+            this.scheduleSave();
+        }
+    }
+
+    /**
+     * Remove every entry
+     * @returns Number of entries removed
+     */
+    clear(): number {
+        const count = this.entries.size;
+        this.entries.clear();
+        this.scheduleSave();
+        this.scheduleSave.run();
+        return count;
+    }
+
+    /**
+     * Apply the retention limits: entries older than the retention period,
+     * then the least recently visited beyond the maximum count
+     */
+    prune(): void {
+        const { visitHistoryRetentionDays } = this.getSettings();
+        const before = this.entries.size;
+
+        if (visitHistoryRetentionDays > 0) {
+            const cutoff = Date.now() - visitHistoryRetentionDays * DAY_MS;
+            for (const [key, entry] of this.entries) {
+                if (entry.lastVisit < cutoff) this.entries.delete(key);
+            }
+        }
+        this.pruneToMaxEntries();
+
+        if (this.entries.size !== before) {
+            this.scheduleSave();
+        }
+    }
+
+    private pruneToMaxEntries(): void {
+        const max = this.getSettings().visitHistoryMaxEntries;
+        // Map order is visit order: the first keys are the least recently visited
+        for (const key of this.entries.keys()) {
+            if (this.entries.size <= max) break;
+            this.entries.delete(key);
+        }
+    }
+
+    private getKey(url: string): string {
+        return normalizeUrl(url, getCanonicalizationOptions(this.getSettings())) || url;
+    }
+
+    /**
+     * Write the history file
+     */
+    private async save(): Promise<void> {
+        // Capture data synchronously (destroy() flushes right before unload)
+        const data: VisitHistoryFile = {
+            version: HISTORY_VERSION,
+            entries: Array.from(this.entries.values()),
+        };
+
+        try {
+            await this.app.vault.adapter.write(this.filePath, JSON.stringify(data));
+        } catch (error) {
+            console.error('Web Sidecar: Failed to write visit history:', error);
+        }
+    }
+}
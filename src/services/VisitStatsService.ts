@@ -0,0 +1,176 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { App, TFile, moment } from 'obsidian';
+import type { WebSidecarSettings } from '../types';
+import type { UrlIndex } from './UrlIndex';
+import { findMatchingNotes } from './noteMatcher';
+
+/** Frontmatter property with the date and time of the last visit */
+export const LAST_VISITED_PROPERTY = 'last_visited';
+
+/** Frontmatter property counting the visits */
+export const VISIT_COUNT_PROPERTY = 'visit_count';
+
+/** Frontmatter property with the total time on page (seconds) */
+export const TIME_ON_PAGE_PROPERTY = 'time_on_page';
+
+/** Delay between frontmatter writes: visits in between are written together */
+const FLUSH_DELAY = 60 * 1000;
+
+/**
+ * Visit statistics of a note not written yet
+ */
+interface PendingVisitStats {
+    lastVisited: number | null;
+    visits: number;
+    timeOnPage: number;
+}
+
+/**
+ * Writes the visits of pages to the frontmatter of their linked notes (exact matches):
+ * last visit, visit count and total time on page. Updates are collected and written
+ * at most once a minute, and not to the note being edited.
+ */
+export class VisitStatsService {
+    /** Pending updates keyed by note path */
+    private pending: Map<string, PendingVisitStats> = new Map();
+    private flushTimer: number | null = null;
+
+    constructor(
+        private app: App,
+        private getSettings: () => WebSidecarSettings,
+        private urlIndex: UrlIndex
+    ) { }
+
+    /**
+     * Write pending updates (including the note being edited)
+     */
+    destroy(): void {
+        if (this.flushTimer !== null) {
+            window.clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+        void this.flush(true);
+    }
+
+    /**
+     * Count a visit of a page in its linked notes
+     */
+    recordVisit(url: string): void {
+        const now = Date.now();
+        this.update(url, stats => {
+            stats.lastVisited = now;
+            stats.visits++;
+        });
+    }
+
+    /**
+     * Add time spent on a page to its linked notes (only counted while its
+     * web viewer is the active leaf of a focused window)
+     */
+    addTimeOnPage(url: string, ms: number): void {
+        if (ms <= 0) return;
+        this.update(url, stats => {
+            stats.timeOnPage += ms;
+        });
+    }
+
+    private update(url: string, apply: (stats: PendingVisitStats) => void): void {
+        const settings = this.getSettings();
+        if (!settings.writeVisitStats) return;
+
+        const { exactMatches } = findMatchingNotes(this.app, url, settings, this.urlIndex);
+        if (exactMatches.length === 0) return;
+
+        for (const { file } of exactMatches) {
+            let stats = this.pending.get(file.path);
+            if (!stats) {
+                stats = { lastVisited: null, visits: 0, timeOnPage: 0 };
+                this.pending.set(file.path, stats);
+            }
+            apply(stats);
+        }
+        this.scheduleFlush();
+    }
+
+    private scheduleFlush(): void {
+        if (this.flushTimer !== null) return;
+        this.flushTimer = window.setTimeout(() => {
+            this.flushTimer = null;
+            void this.flush(false);
+        }, FLUSH_DELAY);
+    }
+
+    /**
+     * Write the pending updates to the notes' frontmatter. The note open in the active
+     * editor is kept for a later write unless `includeActive` is set.
+     * Time on page is written in whole seconds; the rest is kept for the next write
+     * (rounded on the last write, when the plugin unloads).
+     */
+    private async flush(includeActive: boolean): Promise<void> {
+        const activePath = includeActive ? null : this.app.workspace.getActiveFile()?.path;
+
+        const batch = Array.from(this.pending.entries()).filter(([path]) => path !== activePath);
+        for (const [path] of batch) {
+            this.pending.delete(path);
+        }
+        if (this.pending.size > 0) this.scheduleFlush();
+
+        for (const [path, stats] of batch) {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile)) continue;
+
+            const seconds = includeActive ? Math.round(stats.timeOnPage / 1000) : Math.floor(stats.timeOnPage / 1000);
+            if (!includeActive) this.carryOver(path, stats.timeOnPage - seconds * 1000);
+            // Not a whole second on the page yet and no visit: nothing to write
+            if (stats.visits === 0 && seconds === 0) continue;
+
+            try {
+                await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+                    applyVisitStats(frontmatter, { ...stats, timeOnPage: seconds * 1000 });
+                });
+            } catch (error) {
+                console.error('Web Sidecar: Failed to write visit statistics:', path, error);
+            }
+        }
+    }
+
+    /**
+     * Keep time on page not written yet for the next write of a note
+     * (without scheduling one: it is written with the next update)
+     */
+    private carryOver(path: string, ms: number): void {
+        if (ms <= 0) return;
+        const stats = this.pending.get(path);
+        if (stats) {
+            stats.timeOnPage += ms;
+        } else {
+            this.pending.set(path, { lastVisited: null, visits: 0, timeOnPage: ms });
+        }
+    }
+}
+
+/**
+ * Add pending visit statistics to the values already in a note's frontmatter
+ */
+function applyVisitStats(frontmatter: Record<string, unknown>, stats: PendingVisitStats): void {
+    if (stats.lastVisited !== null) {
+        frontmatter[LAST_VISITED_PROPERTY] = moment(stats.lastVisited).format('YYYY-MM-DDTHH:mm:ss');
+    }
+    if (stats.visits > 0) {
+        frontmatter[VISIT_COUNT_PROPERTY] = toNumber(frontmatter[VISIT_COUNT_PROPERTY]) + stats.visits;
+    }
+    const seconds = Math.round(stats.timeOnPage / 1000);
+    if (seconds > 0) {
+        frontmatter[TIME_ON_PAGE_PROPERTY] = toNumber(frontmatter[TIME_ON_PAGE_PROPERTY]) + seconds;
+    }
+}
+
+function toNumber(value: unknown): number {
+    const number = typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value) : NaN;
+    return Number.isFinite(number) ? number : 0;
+}
@@ -0,0 +1,197 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { WorkspaceLeaf } from 'obsidian';
+
+/**
+ * Electron navigation events emitted by a `webview` element
+ */
+const NAVIGATION_EVENTS = ['did-navigate', 'did-navigate-in-page'] as const;
+const TITLE_EVENT = 'page-title-updated';
+const LOADED_EVENT = 'did-finish-load';
+const START_LOADING_EVENT = 'did-start-loading';
+const FAILED_EVENT = 'did-fail-load';
+
+/** Electron error code of loads aborted by a new navigation (not a failure) */
+const ERR_ABORTED = -3;
+
+/**
+ * Electron `<webview>` element (desktop only)
+ */
+interface WebviewElement extends HTMLElement {
+    getURL: () => string;
+}
+
+/**
+ * Payload of Electron webview navigation and title events
+ */
+interface WebviewEvent extends Event {
+    url?: string;
+    isMainFrame?: boolean;
+    title?: string;
+    /** HTTP status of a main frame navigation */
+    httpResponseCode?: number;
+    /** Failed loads */
+    errorCode?: number;
+    errorDescription?: string;
+    validatedURL?: string;
+}
+
+interface AttachedWebview {
+    webview: WebviewElement;
+    detach: () => void;
+}
+
+export interface WebViewNavigationHandlers {
+    onNavigate: (leaf: WorkspaceLeaf, url: string) => void;
+    onTitleUpdated: (leaf: WorkspaceLeaf, title: string) => void;
+    /** The page finished loading (its content can be read) */
+    onLoaded: (leaf: WorkspaceLeaf) => void;
+    /** The page could not be loaded (network error or HTTP error status) */
+    onLoadFailed: (leaf: WorkspaceLeaf, url: string, reason: string) => void;
+}
+
+/**
+ * Subscribes to navigation events of the `webview` element inside each web viewer leaf.
+ * Leaves without one (mobile, view types rendering an iframe, or a webview not created yet)
+ * are reported by needsPolling() so the caller can fall back to polling their view state.
+ */
+export class WebViewNavigationTracker {
+    private handlers: WebViewNavigationHandlers;
+    private attached: Map<WorkspaceLeaf, AttachedWebview> = new Map();
+    private unattachedCount = 0;
+
+    constructor(handlers: WebViewNavigationHandlers) {
+        this.handlers = handlers;
+    }
+
+    /**
+     * Attach to the webviews of the given leaves and detach from leaves no longer open.
+     * Re-attaches when a view replaced its webview element.
+     */
+    sync(leaves: WorkspaceLeaf[]): void {
+        const open = new Set(leaves);
+        for (const [leaf, entry] of this.attached) {
+            if (!open.has(leaf)) {
+                entry.detach();
+                this.attached.delete(leaf);
+            }
+        }
+
+        this.unattachedCount = 0;
+        for (const leaf of leaves) {
+            const webview = this.findWebview(leaf);
+            const existing = this.attached.get(leaf);
+
+            if (existing && existing.webview === webview) continue;
+            existing?.detach();
+            this.attached.delete(leaf);
+
+            if (webview) {
+                this.attached.set(leaf, { webview, detach: this.attach(leaf, webview) });
+            } else {
+                this.unattachedCount++;
+            }
+        }
+    }
+
+    /**
+     * Whether a leaf's navigation is reported by events
+     */
+    isEventDriven(leaf: WorkspaceLeaf): boolean {
+        return this.attached.has(leaf);
+    }
+
+    /**
+     * Whether any leaf seen by the last sync() has to be polled
+     */
+    needsPolling(): boolean {
+        return this.unattachedCount > 0;
+    }
+
+    /**
+     * Current URL reported by a leaf's webview, if attached and loaded
+     */
+    getUrl(leaf: WorkspaceLeaf): string | undefined {
+        const entry = this.attached.get(leaf);
+        if (!entry) return undefined;
+        try {
+            // Throws until the webview is attached to the DOM and ready
+            return entry.webview.getURL() || undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    destroy(): void {
+        for (const entry of this.attached.values()) {
+            entry.detach();
+        }
+        this.attached.clear();
+        this.unattachedCount = 0;
+    }
+
+    private findWebview(leaf: WorkspaceLeaf): WebviewElement | null {
+        const el = leaf.view.containerEl.querySelector('webview');
+        if (!el) return null;
+        // getURL is only available on Electron's webview tag
+        if (typeof (el as Partial<WebviewElement>).getURL !== 'function') return null;
+        return el as WebviewElement;
+    }
+
+    /**
+     * Add the event listeners, returning a function removing them
+     */
+    private attach(leaf: WorkspaceLeaf, webview: WebviewElement): () => void {
+        // Whether the current load failed (its error page is not the page)
+        let failed = false;
+
+        const onNavigate = (event: Event) => {
+            const { url, isMainFrame, httpResponseCode } = event as WebviewEvent;
+            // In-page navigations of subframes do not change the page URL
+            if (!url || isMainFrame === false) return;
+            this.handlers.onNavigate(leaf, url);
+            if (httpResponseCode !== undefined && httpResponseCode >= 400) {
+                failed = true;
+                this.handlers.onLoadFailed(leaf, url, `HTTP ${httpResponseCode}`);
+            }
+        };
+        const onTitleUpdated = (event: Event) => {
+            const { title } = event as WebviewEvent;
+            if (title) this.handlers.onTitleUpdated(leaf, title);
+        };
+        const onStartLoading = () => {
+            failed = false;
+        };
+        const onLoadFailed = (event: Event) => {
+            const { errorCode, errorDescription, validatedURL, isMainFrame } = event as WebviewEvent;
+            if (isMainFrame === false || errorCode === ERR_ABORTED) return;
+            failed = true;
+            this.handlers.onLoadFailed(leaf, validatedURL || webview.getURL(), errorDescription || 'Load failed');
+        };
+        const onLoaded = () => {
+            if (!failed) this.handlers.onLoaded(leaf);
+        };
+
+        for (const type of NAVIGATION_EVENTS) {
+            webview.addEventListener(type, onNavigate);
+        }
+        webview.addEventListener(TITLE_EVENT, onTitleUpdated);
+        webview.addEventListener(START_LOADING_EVENT, onStartLoading);
+        webview.addEventListener(FAILED_EVENT, onLoadFailed);
+        webview.addEventListener(LOADED_EVENT, onLoaded);
+
+        return () => {
+            for (const type of NAVIGATION_EVENTS) {
+                webview.removeEventListener(type, onNavigate);
+            }
+            webview.removeEventListener(TITLE_EVENT, onTitleUpdated);
+            webview.removeEventListener(START_LOADING_EVENT, onStartLoading);
+            webview.removeEventListener(FAILED_EVENT, onLoadFailed);
+            webview.removeEventListener(LOADED_EVENT, onLoaded);
+        };
+    }
+}
@@ -0,0 +1,156 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Buffer } from 'node:buffer';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { App, TAbstractFile, TFile, TFolder } from 'obsidian';
+import { AssetLocalizationOptions, findImageUrls, localizeImages } from './assetLocalizer';
+
+const PNG = Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex');
+
+/** Responses of the local server: [status, content type, body] */
+const RESPONSES: Record<string, [number, string, string | Buffer]> = {
+    '/images/photo.png': [200, 'image/png', PNG],
+    '/images/copy.png': [200, 'image/png', PNG],
+    '/download/chart.svg': [200, 'application/octet-stream', '<svg xmlns="http://www.w3.org/2000/svg"/>'],
+    '/images/page.png': [200, 'text/html; charset=utf-8', '<html>Sign in</html>'],
+    '/images/large.png': [200, 'image/png', Buffer.alloc(4096)],
+};
+
+let baseUrl: Promise<string> | null = null;
+
+/**
+ * URL of a local server serving RESPONSES (started on first use)
+ */
+function getBaseUrl(): Promise<string> {
+    baseUrl ??= new Promise(resolve => {
+        const server = createServer((request, response) => {
+            const [status, contentType, body] = RESPONSES[request.url ?? ''] ?? [404, 'text/plain', 'Not found'];
+            response.writeHead(status, { 'Content-Type': contentType });
+            response.end(body);
+        });
+        server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`));
+        // Let the test process end with the server listening
+        server.unref();
+    });
+    return baseUrl;
+}
+
+/**
+ * Vault saving attachments to an "attachments" folder
+ */
+class FakeVault {
+    files = new Map<string, TAbstractFile>();
+
+    getFiles(): TFile[] {
+        return Array.from(this.files.values()).filter((file): file is TFile => file instanceof TFile);
+    }
+
+    getAbstractFileByPath(path: string): TAbstractFile | null {
+        return this.files.get(path) ?? null;
+    }
+
+    async createFolder(path: string): Promise<TFolder> {
+        const folder = Object.assign(new TFolder(), { path });
+        this.files.set(path, folder);
+        return folder;
+    }
+
+    async createBinary(path: string, data: ArrayBuffer): Promise<TFile> {
+        const name = path.split('/').pop() ?? path;
+        const file = Object.assign(new TFile(), { path, name, stat: { ctime: 0, mtime: 0, size: data.byteLength } });
+        this.files.set(path, file);
+        return file;
+    }
+}
+
+function createApp(vault = new FakeVault()): App {
+    return {
+        vault,
+        fileManager: {
+            getAvailablePathForAttachment: async (fileName: string) => `attachments/${fileName}`,
+            generateMarkdownLink: (file: TFile) => `[[${file.path}]]`,
+        },
+    } as unknown as App;
+}
+
+async function options(overrides: Partial<AssetLocalizationOptions> = {}): Promise<AssetLocalizationOptions> {
+    return {
+        pageUrl: `${await getBaseUrl()}/articles/post`,
+        notePath: 'Notes/Post.md',
+        maxImageBytes: 1024,
+        maxTotalBytes: 10 * 1024,
+        ...overrides,
+    };
+}
+
+describe('findImageUrls', () => {
+    it('lists the images of markdown once, in order', () => {
+        const markdown = '![a](https://x.com/1.png) text ![b](<https://x.com/2 b.png> "Title") ![c](https://x.com/1.png) [link](https://x.com/3.png)';
+        assert.deepEqual(findImageUrls(markdown), ['https://x.com/1.png', 'https://x.com/2 b.png']);
+    });
+});
+
+describe('localizeImages', () => {
+    it('downloads images into the attachment folder and links them', async () => {
+        const app = createApp();
+        const result = await localizeImages(app, 'Intro\n\n![Photo](/images/photo.png)\n\n![Chart](../download/chart.svg "Chart")', await options());
+
+        assert.deepEqual(result.failures, []);
+        assert.equal(result.saved.length, 2);
+        assert.match(result.saved[0] ?? '', /^attachments\/photo-[0-9a-f]{12}\.png$/);
+        assert.match(result.saved[1] ?? '', /^attachments\/chart-[0-9a-f]{12}\.svg$/);
+        assert.equal(result.markdown, `Intro\n\n![[${result.saved[0]}]]\n\n![[${result.saved[1]}]]`);
+        assert.ok(app.vault.getAbstractFileByPath('attachments') instanceof TFolder);
+    });
+
+    it('reuses an attachment with the same content', async () => {
+        const app = createApp();
+        const first = await localizeImages(app, '![a](/images/photo.png)', await options());
+        const second = await localizeImages(app, '![a](/images/photo.png) ![b](/images/copy.png)', await options());
+
+        assert.deepEqual(second.saved, []);
+        assert.equal(second.reused, 2);
+        assert.equal(second.markdown, `![[${first.saved[0]}]] ![[${first.saved[0]}]]`);
+    });
+
+    it('keeps the remote URL of missing images', async () => {
+        const base = await getBaseUrl();
+        const result = await localizeImages(createApp(), '![Gone](/images/gone.png)', await options());
+
+        assert.equal(result.markdown, '![Gone](/images/gone.png)');
+        assert.deepEqual(result.failures, [{ url: `${base}/images/gone.png`, reason: 'HTTP 404' }]);
+    });
+
+    it('keeps the remote URL of responses that are not images', async () => {
+        const base = await getBaseUrl();
+        const result = await localizeImages(createApp(), '![Page](/images/page.png)', await options());
+
+        assert.equal(result.markdown, '![Page](/images/page.png)');
+        assert.deepEqual(result.saved, []);
+        assert.deepEqual(result.failures, [{ url: `${base}/images/page.png`, reason: 'Not an image' }]);
+    });
+
+    it('keeps the remote URL of images over the size limits', async () => {
+        const base = await getBaseUrl();
+        const tooLarge = await localizeImages(createApp(), '![Large](/images/large.png)', await options());
+        assert.deepEqual(tooLarge.failures, [{ url: `${base}/images/large.png`, reason: 'Larger than 0 MB' }]);
+
+        const overTotal = await localizeImages(createApp(), '![a](/images/photo.png)', await options({ maxTotalBytes: 8 }));
+        assert.deepEqual(overTotal.failures, [{ url: `${base}/images/photo.png`, reason: 'Capture limit of 0 MB reached' }]);
+    });
+
+    it('leaves data: URIs alone', async () => {
+        const markdown = '![Inline](data:image/png;base64,AA==)';
+        const result = await localizeImages(createApp(), markdown, await options());
+
+        assert.equal(result.markdown, markdown);
+        assert.deepEqual(result.failures, []);
+    });
+});
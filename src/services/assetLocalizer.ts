@@ -0,0 +1,238 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { App, Notice, TFile, TFolder, requestUrl } from 'obsidian';
+import type { AssetFailure, AssetLocalizationResult, WebSidecarSettings } from '../types';
+import { sha256Hex } from './contentHash';
+
+/** ![alt](url) or ![alt](<url> "title") as written by htmlToMarkdown */
+const IMAGE_REGEX = /!\[([^\]]*)\]\(\s*(<[^>]*>|[^)\s]+)(?:\s+"[^"]*")?\s*\)/g;
+
+/** File extension for each supported image content type */
+const IMAGE_EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'image/avif': 'avif',
+    'image/svg+xml': 'svg',
+    'image/bmp': 'bmp',
+    'image/x-icon': 'ico',
+    'image/vnd.microsoft.icon': 'ico',
+};
+
+/** Length of the content hash in attachment names */
+const HASH_LENGTH = 12;
+
+const BYTES_PER_MB = 1024 * 1024;
+
+export interface AssetLocalizationOptions {
+    /** URL of the captured page, to resolve relative image URLs */
+    pageUrl: string;
+    /** Path of the note the markdown is written to (attachment location depends on it) */
+    notePath: string;
+    maxImageBytes: number;
+    maxTotalBytes: number;
+}
+
+/**
+ * Remote images referenced by markdown, in order of appearance (duplicates removed)
+ */
+export function findImageUrls(markdown: string): string[] {
+    const urls: string[] = [];
+    IMAGE_REGEX.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = IMAGE_REGEX.exec(markdown)) !== null) {
+        const url = unwrapUrl(match[2] ?? '');
+        if (url && !urls.includes(url)) urls.push(url);
+    }
+    return urls;
+}
+
+/**
+ * Download the images of captured markdown into the vault's attachment folder
+ * (as configured in Obsidian for the note) and point the image references at them.
+ * Attachments are named after the image and a hash of its content, so an image
+ * already saved by an earlier capture is reused instead of duplicated.
+ * Images failing to download or exceeding the size limits keep their remote URL.
+ */
+export async function localizeImages(
+    app: App,
+    markdown: string,
+    options: AssetLocalizationOptions
+): Promise<AssetLocalizationResult> {
+    const result: AssetLocalizationResult = { markdown, saved: [], reused: 0, failures: [] };
+    const localFiles = new Map<string, TFile>();
+    let totalBytes = 0;
+
+    for (const url of findImageUrls(markdown)) {
+        const absoluteUrl = resolveImageUrl(url, options.pageUrl);
+        if (!absoluteUrl) {
+            // data: URIs and other schemes are already self-contained or not downloadable
+            continue;
+        }
+
+        try {
+            const response = await requestUrl({ url: absoluteUrl, throw: false });
+            if (response.status < 200 || response.status >= 300) {
+                result.failures.push({ url: absoluteUrl, reason: `HTTP ${response.status}` });
+                continue;
+            }
+
+            const data = response.arrayBuffer;
+            const extension = getImageExtension(getHeader(response.headers, 'content-type'), absoluteUrl);
+            if (!extension) {
+                result.failures.push({ url: absoluteUrl, reason: 'Not an image' });
+                continue;
+            }
+            if (data.byteLength > options.maxImageBytes) {
+                result.failures.push({ url: absoluteUrl, reason: `Larger than ${formatMb(options.maxImageBytes)}` });
+                continue;
+            }
+            if (totalBytes + data.byteLength > options.maxTotalBytes) {
+                result.failures.push({ url: absoluteUrl, reason: `Capture limit of ${formatMb(options.maxTotalBytes)} reached` });
+                continue;
+            }
+
+            const hashSuffix = `-${(await sha256Hex(data)).slice(0, HASH_LENGTH)}.${extension}`;
+
+            let file = findAttachmentByHash(app, hashSuffix, data.byteLength);
+            if (file) {
+                if (!result.saved.includes(file.path)) result.reused++;
+            } else {
+                const fileName = getImageBaseName(absoluteUrl) + hashSuffix;
+                const path = await app.fileManager.getAvailablePathForAttachment(fileName, options.notePath);
+                await ensureParentFolder(app, path);
+                file = await app.vault.createBinary(path, data);
+                totalBytes += data.byteLength;
+                result.saved.push(file.path);
+            }
+            localFiles.set(url, file);
+        } catch (error) {
+            console.error('Web Sidecar: Failed to download image:', absoluteUrl, error);
+            result.failures.push({ url: absoluteUrl, reason: error instanceof Error ? error.message : 'Download failed' });
+        }
+    }
+
+    if (localFiles.size > 0) {
+        result.markdown = markdown.replace(IMAGE_REGEX, (match, _alt: string, rawUrl: string) => {
+            const file = localFiles.get(unwrapUrl(rawUrl));
+            return file ? '!' + app.fileManager.generateMarkdownLink(file, options.notePath) : match;
+        });
+    }
+
+    return result;
+}
+
+/**
+ * Localize the images of captured content for a new note if enabled in settings,
+ * reporting images that could not be saved
+ */
+export async function localizeCapturedImages(
+    app: App,
+    settings: WebSidecarSettings,
+    markdown: string,
+    pageUrl: string,
+    notePath: string
+): Promise<string> {
+    if (!settings.localizeImages || !markdown) return markdown;
+
+    const result = await localizeImages(app, markdown, {
+        pageUrl,
+        notePath,
+        maxImageBytes: settings.maxImageSizeMb * BYTES_PER_MB,
+        maxTotalBytes: settings.maxCaptureImagesSizeMb * BYTES_PER_MB,
+    });
+    reportFailures(result.failures);
+    return result.markdown;
+}
+
+function reportFailures(failures: AssetFailure[]): void {
+    if (failures.length === 0) return;
+
+    console.warn('Web Sidecar: Images kept as remote links:\n' +
+        failures.map(failure => `${failure.url} (${failure.reason})`).join('\n'));
+    new Notice(failures.length === 1
+        ? 'Web Sidecar: 1 image could not be saved to the vault (see console)'
+        : `Web Sidecar: ${failures.length} images could not be saved to the vault (see console)`);
+}
+
+/**
+ * Attachment saved by an earlier capture with the same content
+ * (names end with the content hash, e.g. "photo-1a2b3c4d5e6f.png")
+ */
+function findAttachmentByHash(app: App, hashSuffix: string, size: number): TFile | null {
+    return app.vault.getFiles().find(file => file.name.endsWith(hashSuffix) && file.stat.size === size) ?? null;
+}
+
+/**
+ * Strip the angle brackets of `<url>` link destinations
+ */
+function unwrapUrl(raw: string): string {
+    return raw.startsWith('<') && raw.endsWith('>') ? raw.slice(1, -1).trim() : raw;
+}
+
+/**
+ * Absolute http(s) URL of an image, or null if it cannot be downloaded
+ */
+function resolveImageUrl(url: string, pageUrl: string): string | null {
+    try {
+        const resolved = new URL(url, pageUrl);
+        return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.href : null;
+    } catch {
+        return null;
+    }
+}
+
+function getHeader(headers: Record<string, string>, name: string): string | undefined {
+    const key = Object.keys(headers).find(header => header.toLowerCase() === name);
+    return key ? headers[key] : undefined;
+}
+
+/**
+ * Extension for an image from its content type, else from its URL
+ * (null if the response is not an image)
+ */
+function getImageExtension(contentType: string | undefined, url: string): string | null {
+    const type = contentType?.split(';')[0]?.trim().toLowerCase();
+    if (type && IMAGE_EXTENSIONS[type]) return IMAGE_EXTENSIONS[type];
+    // Some servers send images as application/octet-stream
+    if (type && type.startsWith('text/')) return null;
+
+    const extension = new URL(url).pathname.split('.').pop()?.toLowerCase();
+    if (extension === 'jpeg') return 'jpg';
+    return extension && Object.values(IMAGE_EXTENSIONS).includes(extension) ? extension : null;
+}
+
+/**
+ * File name (without extension) of an image URL, safe for the vault
+ */
+function getImageBaseName(url: string): string {
+    const segment = new URL(url).pathname.split('/').pop() ?? '';
+    let name = segment;
+    try {
+        name = decodeURIComponent(segment);
+    } catch {
+        // Keep the encoded name
+    }
+    const base = name
+        .replace(/\.[^.]*$/, '')
+        .replace(/[\\/:*?"<>|#^[\]\s]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 60);
+    return base || 'image';
+}
+
+async function ensureParentFolder(app: App, path: string): Promise<void> {
+    const folderPath = path.split('/').slice(0, -1).join('/');
+    if (folderPath && !(app.vault.getAbstractFileByPath(folderPath) instanceof TFolder)) {
+        await app.vault.createFolder(folderPath);
+    }
+}
+
+function formatMb(bytes: number): string {
+    return `${Math.round(bytes / BYTES_PER_MB * 10) / 10} MB`;
+}
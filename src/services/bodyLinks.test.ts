@@ -0,0 +1,81 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { CachedMetadata, Pos } from 'obsidian';
+import { extractBodyMentions } from './bodyLinks';
+
+function pos(startLine: number, endLine: number): Pos {
+    return {
+        start: { line: startLine, col: 0, offset: 0 },
+        end: { line: endLine, col: 0, offset: 0 },
+    };
+}
+
+function urlsOf(content: string, cache: CachedMetadata | null = null): string[] {
+    return extractBodyMentions(content, cache).map(mention => mention.url);
+}
+
+describe('extractBodyMentions', () => {
+    it('finds markdown link targets, including parentheses and titles', () => {
+        assert.deepEqual(urlsOf('See [docs](https://example.com/a) and [wiki](https://en.wikipedia.org/wiki/Foo_(bar) "Foo").'), [
+            'https://example.com/a',
+            'https://en.wikipedia.org/wiki/Foo_(bar)',
+        ]);
+    });
+
+    it('finds autolinks and bare URLs without trailing punctuation', () => {
+        assert.deepEqual(urlsOf('Autolink <https://example.com/auto>, bare https://example.com/bare.'), [
+            'https://example.com/auto',
+            'https://example.com/bare',
+        ]);
+    });
+
+    it('reports each URL once per line', () => {
+        assert.deepEqual(urlsOf('[a](https://example.com/) https://example.com/'), ['https://example.com/']);
+    });
+
+    it('keeps the line, trimmed text and nearest heading', () => {
+        const content = '# Intro\n\n## Links\n  Read https://example.com/x  ';
+        const cache: CachedMetadata = {
+            headings: [
+                { heading: 'Intro', level: 1, position: pos(0, 0) },
+                { heading: 'Links', level: 2, position: pos(2, 2) },
+            ],
+        };
+        assert.deepEqual(extractBodyMentions(content, cache), [
+            { url: 'https://example.com/x', line: 3, heading: 'Links', text: 'Read https://example.com/x' },
+        ]);
+    });
+
+    it('skips frontmatter and code blocks', () => {
+        const content = [
+            '---',
+            'url: https://example.com/front',
+            '---',
+            '```',
+            'https://example.com/code',
+            '```',
+            'https://example.com/body',
+        ].join('\n');
+        const cache: CachedMetadata = {
+            frontmatterPosition: pos(0, 2),
+            sections: [
+                { type: 'yaml', position: pos(0, 2) },
+                { type: 'code', position: pos(3, 5) },
+                { type: 'paragraph', position: pos(6, 6) },
+            ],
+        };
+        assert.deepEqual(urlsOf(content, cache), ['https://example.com/body']);
+    });
+
+    it('truncates long context lines', () => {
+        const [mention] = extractBodyMentions(`https://example.com/ ${'x'.repeat(300)}`, null);
+        assert.equal(mention?.text.length, 160);
+        assert.ok(mention?.text.endsWith('…'));
+    });
+});
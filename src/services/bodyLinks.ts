@@ -0,0 +1,123 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { App, CachedMetadata, HeadingCache, TFile } from 'obsidian';
+import type { BodyMention, MentionContext } from '../types';
+import type { UrlIndex } from './UrlIndex';
+import { isValidUrl } from './urlUtils';
+
+/** Max length of the line text kept as mention context */
+const MAX_CONTEXT_LENGTH = 160;
+
+/** Markdown link target: [text](https://...), allowing one level of parentheses in the URL */
+const MARKDOWN_LINK_REGEX = /\]\((https?:\/\/(?:[^()\s]|\([^()\s]*\))+)(?:\s+"[^"]*")?\)/g;
+
+/** Bare URL or autolink <https://...> */
+const BARE_URL_REGEX = /https?:\/\/[^\s<>()[\]"'`]+/g;
+
+/** Punctuation that ends a sentence rather than a bare URL */
+const TRAILING_PUNCTUATION = /[.,;:!?*_~]+$/;
+
+/**
+ * Find URLs in a note body with their line and heading context.
+ * Skips frontmatter and code blocks (metadata cache sections).
+ */
+export function extractBodyMentions(content: string, cache: CachedMetadata | null): BodyMention[] {
+    const mentions: BodyMention[] = [];
+    const lines = content.split('\n');
+
+    const skipped = new Set<number>();
+    const frontmatterEnd = cache?.frontmatterPosition?.end.line;
+    if (frontmatterEnd !== undefined) {
+        for (let i = 0; i <= frontmatterEnd; i++) skipped.add(i);
+    }
+    for (const section of cache?.sections ?? []) {
+        if (section.type !== 'code') continue;
+        for (let i = section.position.start.line; i <= section.position.end.line; i++) skipped.add(i);
+    }
+
+    const headings = cache?.headings ?? [];
+
+    lines.forEach((line, index) => {
+        if (skipped.has(index) || !line.includes('://')) return;
+
+        const urls = new Set<string>();
+
+        // Markdown links first: their targets may contain parentheses
+        const masked = line.replace(MARKDOWN_LINK_REGEX, (_match, url: string) => {
+            urls.add(url);
+            return ' ';
+        });
+
+        for (const url of masked.match(BARE_URL_REGEX) ?? []) {
+            urls.add(url.replace(TRAILING_PUNCTUATION, ''));
+        }
+
+        if (urls.size === 0) return;
+
+        const heading = findHeading(headings, index);
+        const text = truncateContext(line.trim());
+
+        for (const url of urls) {
+            if (!isValidUrl(url)) continue;
+            mentions.push({ url, line: index, heading, text });
+        }
+    });
+
+    return mentions;
+}
+
+/**
+ * Find notes linking to any of the target notes ([[wikilinks]] to web notes),
+ * with the context of each link
+ */
+export function getLinkMentions(app: App, targetPaths: Set<string>, urlIndex: UrlIndex): Map<TFile, MentionContext[]> {
+    const result = new Map<TFile, MentionContext[]>();
+    if (targetPaths.size === 0) return result;
+
+    for (const sourcePath of urlIndex.getLinkSources(targetPaths)) {
+        if (targetPaths.has(sourcePath)) continue;
+
+        const source = app.vault.getAbstractFileByPath(sourcePath);
+        if (!(source instanceof TFile)) continue;
+        const cache = app.metadataCache.getFileCache(source);
+
+        const contexts: MentionContext[] = [];
+        for (const link of cache?.links ?? []) {
+            const dest = app.metadataCache.getFirstLinkpathDest(link.link, sourcePath);
+            if (!dest || !targetPaths.has(dest.path)) continue;
+
+            const line = link.position.start.line;
+            contexts.push({
+                line,
+                heading: findHeading(cache?.headings ?? [], line),
+                text: truncateContext(link.original),
+            });
+        }
+
+        if (contexts.length > 0) {
+            result.set(source, contexts);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Nearest heading at or above a line
+ */
+function findHeading(headings: HeadingCache[], line: number): string | undefined {
+    let heading: string | undefined;
+    for (const h of headings) {
+        if (h.position.start.line > line) break;
+        heading = h.heading;
+    }
+    return heading;
+}
+
+function truncateContext(text: string): string {
+    return text.length > MAX_CONTEXT_LENGTH ? `${text.slice(0, MAX_CONTEXT_LENGTH - 1)}…` : text;
+}
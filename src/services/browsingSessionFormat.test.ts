@@ -0,0 +1,66 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { BrowsingSession } from '../types';
+import { formatBrowsingSession, parseBrowsingSession, SESSION_BLOCK_LANGUAGE } from './browsingSessionFormat';
+
+const SESSION: BrowsingSession = {
+    name: 'Research',
+    saved: '2025-03-01T10:20:30',
+    tabs: [
+        { url: 'https://example.com/a', title: 'Docs [draft]', pinned: true, popout: false, notes: ['Web/Docs.md'] },
+        { url: 'https://example.com/b c', title: 'Other', pinned: false, popout: true, notes: [] },
+    ],
+};
+
+describe('formatBrowsingSession', () => {
+    it('writes the frontmatter, a readable tab list and the session block', () => {
+        const lines = formatBrowsingSession(SESSION).split('\n');
+        assert.deepEqual(lines.slice(0, 8), [
+            '---',
+            'session_saved: 2025-03-01T10:20:30',
+            '---',
+            '',
+            '# Research',
+            '',
+            '- [Docs draft](<https://example.com/a>) (pinned) · [[Web/Docs]]',
+            '- [Other](<https://example.com/b c>) (popout)',
+        ]);
+        assert.equal(lines[9], '```' + SESSION_BLOCK_LANGUAGE);
+    });
+
+    it('round-trips through parseBrowsingSession', () => {
+        assert.deepEqual(parseBrowsingSession(formatBrowsingSession(SESSION)), SESSION);
+    });
+});
+
+describe('parseBrowsingSession', () => {
+    const block = (json: string) => `# Session\n\n\`\`\`${SESSION_BLOCK_LANGUAGE}\n${json}\n\`\`\`\n`;
+
+    it('returns null without a valid session block', () => {
+        assert.equal(parseBrowsingSession('# Session\n'), null);
+        assert.equal(parseBrowsingSession(block('{ not json')), null);
+        assert.equal(parseBrowsingSession(block('{"name": "x"}')), null);
+        assert.equal(parseBrowsingSession('```json\n{"tabs": []}\n```'), null);
+    });
+
+    it('fills in defaults and skips tabs without a URL', () => {
+        const session = parseBrowsingSession(block(JSON.stringify({
+            tabs: [
+                { url: 'https://example.com/', pinned: 'yes', notes: ['a.md', 3] },
+                { title: 'No URL' },
+                'https://example.com/string',
+            ],
+        })));
+        assert.deepEqual(session, {
+            name: '',
+            saved: '',
+            tabs: [{ url: 'https://example.com/', title: 'https://example.com/', pinned: false, popout: false, notes: ['a.md'] }],
+        });
+    });
+});
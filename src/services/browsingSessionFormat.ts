@@ -0,0 +1,79 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import type { BrowsingSession, BrowsingSessionTab } from '../types';
+
+/** Language of the fenced code block holding the session data */
+export const SESSION_BLOCK_LANGUAGE = 'web-sidecar-session';
+
+/** Frontmatter property marking session notes, with the time they were saved */
+export const SESSION_SAVED_PROPERTY = 'session_saved';
+
+const SESSION_BLOCK_REGEX = new RegExp('^```' + SESSION_BLOCK_LANGUAGE + '[ \\t]*\\n([\\s\\S]*?)\\n```', 'm');
+
+/**
+ * Session stored in the code block of a session note (null if the block is missing or invalid)
+ */
+export function parseBrowsingSession(content: string): BrowsingSession | null {
+    const block = SESSION_BLOCK_REGEX.exec(content)?.[1];
+    if (!block) return null;
+
+    let data: unknown;
+    try {
+        data = JSON.parse(block);
+    } catch {
+        return null;
+    }
+    if (!isRecord(data) || !Array.isArray(data.tabs)) return null;
+
+    const tabs: BrowsingSessionTab[] = [];
+    for (const tab of data.tabs as unknown[]) {
+        if (!isRecord(tab) || typeof tab.url !== 'string' || !tab.url) continue;
+        tabs.push({
+            url: tab.url,
+            title: typeof tab.title === 'string' ? tab.title : tab.url,
+            pinned: tab.pinned === true,
+            popout: tab.popout === true,
+            notes: Array.isArray(tab.notes) ? tab.notes.filter((path): path is string => typeof path === 'string') : [],
+        });
+    }
+
+    return {
+        name: typeof data.name === 'string' ? data.name : '',
+        saved: typeof data.saved === 'string' ? data.saved : '',
+        tabs,
+    };
+}
+
+/**
+ * Session note: a readable list of the web viewers, followed by the session data
+ * as JSON in a fenced code block (read back by parseBrowsingSession)
+ */
+export function formatBrowsingSession(session: BrowsingSession): string {
+    const lines = [
+        '---',
+        `${SESSION_SAVED_PROPERTY}: ${session.saved}`,
+        '---',
+        '',
+        `# ${session.name}`,
+        '',
+    ];
+
+    for (const tab of session.tabs) {
+        const flags = [tab.pinned ? 'pinned' : '', tab.popout ? 'popout' : ''].filter(Boolean);
+        const notes = tab.notes.map(path => `[[${path.replace(/\.md$/, '')}]]`);
+        lines.push(`- [${tab.title.replace(/[[\]]/g, '')}](<${tab.url}>)`
+            + (flags.length > 0 ? ` (${flags.join(', ')})` : '')
+            + (notes.length > 0 ? ` · ${notes.join(', ')}` : ''));
+    }
+
+    lines.push('', '```' + SESSION_BLOCK_LANGUAGE, JSON.stringify(session, null, 2), '```', '');
+    return lines.join('\n');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
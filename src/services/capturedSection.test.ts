@@ -0,0 +1,71 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    CAPTURED_SECTION_END,
+    formatCapturedSection,
+    getCapturedSection,
+    hashCapturedContent,
+    setCapturedSection,
+} from './capturedSection';
+
+const NOTE = '---\nurl: https://example.com\n---\n\n# Example\n\nMy notes.\n';
+
+describe('captured section', () => {
+    it('appends a section to a note without one', () => {
+        const content = setCapturedSection(NOTE, 'Page text');
+
+        assert.equal(content, `${NOTE}\n${formatCapturedSection('Page text')}\n`);
+        assert.equal(getCapturedSection(content), 'Page text');
+    });
+
+    it('replaces the section and keeps what follows it', () => {
+        const first = setCapturedSection(NOTE, 'First capture') + '\n## Thoughts\n\nLater notes.\n';
+        const second = setCapturedSection(first, 'Second capture');
+
+        assert.equal(getCapturedSection(second), 'Second capture');
+        assert.equal(second.split(CAPTURED_SECTION_END).length, 2);
+        assert.ok(second.startsWith(NOTE));
+        assert.ok(second.endsWith('%%\n\n## Thoughts\n\nLater notes.\n'));
+    });
+
+    it('is stable when the same capture is written again', () => {
+        const once = setCapturedSection(NOTE, 'Page text');
+        assert.equal(setCapturedSection(once, 'Page text'), once);
+    });
+
+    it('keeps headings of the captured content inside the section', () => {
+        const captured = '# Title\n\n## Part\n\nText';
+        const content = setCapturedSection(NOTE, captured);
+
+        assert.equal(getCapturedSection(content), captured);
+        assert.equal(getCapturedSection(setCapturedSection(content, 'Short')), 'Short');
+    });
+
+    it('ends a section without its end marker at the next heading', () => {
+        const content = '# Note\n\n## Captured\n\nOld text\n\n## Thoughts\n\nMine\n';
+
+        assert.equal(getCapturedSection(content), 'Old text');
+        assert.equal(
+            setCapturedSection(content, 'New text'),
+            `# Note\n\n${formatCapturedSection('New text')}\n\n## Thoughts\n\nMine\n`
+        );
+    });
+
+    it('returns null for a note without a section', () => {
+        assert.equal(getCapturedSection(NOTE), null);
+    });
+
+    it('hashes content ignoring whitespace differences', async () => {
+        const hash = await hashCapturedContent('Line  one\n\n  Line two  ');
+
+        assert.equal(hash, await hashCapturedContent('Line one\nLine two\n'));
+        assert.notEqual(hash, await hashCapturedContent('Line one\nLine 2'));
+        assert.match(hash, /^[0-9a-f]{64}$/);
+    });
+});
@@ -0,0 +1,111 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+/**
+ * The managed "## Captured" section of a linked note and the capture properties
+ * recording when it was captured and what.
+ * Captured page content can contain headings of any level, so the section
+ * ends with a comment marker rather than at the next heading.
+ */
+
+import { moment } from 'obsidian';
+import { sha256Hex } from './contentHash';
+
+export const CAPTURED_SECTION_HEADING = '## Captured';
+
+/** Frontmatter property with the time of the last capture */
+export const CAPTURED_AT_PROPERTY = 'captured_at';
+
+/** Frontmatter property with the hash of the last captured content */
+export const CAPTURE_HASH_PROPERTY = 'capture_hash';
+
+/** Obsidian comment closing the section (hidden in reading view) */
+export const CAPTURED_SECTION_END = '%% end of captured section %%';
+
+const HEADING_REGEX = /^##[ \t]+Captured[ \t]*$/m;
+
+interface SectionBounds {
+    /** Offset of the heading line */
+    start: number;
+    /** Offset just after the heading line */
+    bodyStart: number;
+    /** Offset of the end marker (or the next heading if the marker was removed) */
+    bodyEnd: number;
+    /** Offset just after the section */
+    end: number;
+}
+
+function findCapturedSection(content: string): SectionBounds | null {
+    const heading = HEADING_REGEX.exec(content);
+    if (!heading) return null;
+
+    const start = heading.index;
+    const bodyStart = start + heading[0].length;
+    const markerIndex = content.indexOf(CAPTURED_SECTION_END, bodyStart);
+    if (markerIndex !== -1) {
+        return { start, bodyStart, bodyEnd: markerIndex, end: markerIndex + CAPTURED_SECTION_END.length };
+    }
+
+    // Marker removed by hand: the section ends at the next heading of the same or a higher level
+    const next = /^#{1,2}[ \t]/m.exec(content.slice(bodyStart));
+    const bodyEnd = next ? bodyStart + next.index : content.length;
+    return { start, bodyStart, bodyEnd, end: bodyEnd };
+}
+
+/**
+ * Content of the captured section (null if the note has none)
+ */
+export function getCapturedSection(content: string): string | null {
+    const bounds = findCapturedSection(content);
+    return bounds ? content.slice(bounds.bodyStart, bounds.bodyEnd).trim() : null;
+}
+
+/**
+ * Captured content wrapped in the managed section (heading and end marker)
+ */
+export function formatCapturedSection(captured: string): string {
+    return `${CAPTURED_SECTION_HEADING}\n\n${captured.trim()}\n\n${CAPTURED_SECTION_END}`;
+}
+
+/**
+ * Replace the captured section of a note, or append one at the end of the note
+ */
+export function setCapturedSection(content: string, captured: string): string {
+    const section = formatCapturedSection(captured);
+    const bounds = findCapturedSection(content);
+
+    if (!bounds) {
+        const before = content.trimEnd();
+        return `${before ? before + '\n\n' : ''}${section}\n`;
+    }
+
+    const after = content.slice(bounds.end).replace(/^[ \t]*\n?/, '');
+    return content.slice(0, bounds.start) + section + '\n' + (after.trim() ? '\n' + after.replace(/^\n+/, '') : '');
+}
+
+/**
+ * Hash of captured page content, ignoring whitespace-only differences.
+ * Computed on the content as captured (before images are localized),
+ * so it can be compared with a fresh capture of the page.
+ */
+export async function hashCapturedContent(markdown: string): Promise<string> {
+    const normalized = markdown
+        .split('\n')
+        .map(line => line.trim().replace(/\s+/g, ' '))
+        .filter(line => line.length > 0)
+        .join('\n');
+    return sha256Hex(normalized);
+}
+
+/**
+ * Frontmatter properties recording a capture of the given content
+ */
+export async function getCaptureProperties(markdown: string): Promise<Record<string, string>> {
+    return {
+        [CAPTURED_AT_PROPERTY]: moment().format('YYYY-MM-DDTHH:mm:ss'),
+        [CAPTURE_HASH_PROPERTY]: await hashCapturedContent(markdown),
+    };
+}
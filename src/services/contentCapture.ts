@@ -6,8 +6,36 @@
 
 import { WorkspaceLeaf, App, htmlToMarkdown } from 'obsidian';
 import Defuddle from 'defuddle';
+import type { DefuddleResponse } from 'defuddle';
+import type { CapturedPage, CapturedSelection } from '../types';
 import { getLeafId } from './obsidianHelpers';
 
+/**
+ * Electron webview element with script execution (desktop only)
+ */
+interface ScriptableWebview extends Element {
+    executeJavaScript: (code: string) => Promise<unknown>;
+}
+
+/**
+ * Find the webview element of a web viewer leaf that can execute scripts
+ */
+function getScriptableWebview(leaf: WorkspaceLeaf): ScriptableWebview | null {
+    const webviewEl = leaf.view.containerEl.querySelector('webview');
+    if (!webviewEl) {
+        console.warn('Web Sidecar: No webview element found in leaf');
+        return null;
+    }
+
+    // Check if executeJavaScript is available (desktop only)
+    if (typeof (webviewEl as unknown as { executeJavaScript: unknown }).executeJavaScript !== 'function') {
+        console.warn('Web Sidecar: executeJavaScript not available (mobile or unsupported)');
+        return null;
+    }
+
+    return webviewEl as unknown as ScriptableWebview;
+}
+
 /**
  * Capture the content of a web viewer's page as HTML.
  * Desktop-only: uses Electron's executeJavaScript on webview element.
@@ -17,25 +45,15 @@ import { getLeafId } from './obsidianHelpers';
  */
 export async function captureWebViewContent(leaf: WorkspaceLeaf): Promise<string | null> {
     try {
-        // Find the webview element in the leaf's container
-        const webviewEl = leaf.view.containerEl.querySelector('webview');
-        if (!webviewEl) {
-            console.warn('Web Sidecar: No webview element found in leaf');
-            return null;
-        }
-
-        // Check if executeJavaScript is available (desktop only)
-        if (typeof (webviewEl as unknown as { executeJavaScript: unknown }).executeJavaScript !== 'function') {
-            console.warn('Web Sidecar: executeJavaScript not available (mobile or unsupported)');
-            return null;
-        }
+        const webviewEl = getScriptableWebview(leaf);
+        if (!webviewEl) return null;
 
         // Execute JavaScript in the webview context to get the FULL document HTML
         // We need document.documentElement.outerHTML for Defuddle to work properly
         // SECURITY NOTE: This is a READ operation from an isolated webview context.
         // The extracted HTML is sanitized by Defuddle and converted to Markdown text,
         // never directly injected into Obsidian's DOM.
-        const html = await (webviewEl as unknown as { executeJavaScript: (s: string) => Promise<string> }).executeJavaScript('document.documentElement.outerHTML');
+        const html = await webviewEl.executeJavaScript('document.documentElement.outerHTML');
 
         if (typeof html !== 'string' || !html.trim()) {
             console.warn('Web Sidecar: Empty content returned from webview');
@@ -50,39 +68,168 @@ export async function captureWebViewContent(leaf: WorkspaceLeaf): Promise<string
 }
 
 /**
- * Extract main content from HTML using Defuddle.
- * Defuddle removes navigation, ads, sidebars, and other cruft,
- * leaving only the primary article content.
- * 
- * @param html - Full HTML document string
- * @returns Clean HTML content, or null if extraction fails
+ * Get the text currently selected in a web viewer's page.
+ * Desktop-only, like captureWebViewContent.
+ *
+ * @returns The selected text, or null if nothing is selected or capture failed
  */
-export function extractMainContent(html: string): string | null {
+export async function captureWebViewSelection(leaf: WorkspaceLeaf): Promise<string | null> {
     try {
-        if (!html || typeof html !== 'string') {
+        const webviewEl = getScriptableWebview(leaf);
+        if (!webviewEl) return null;
+
+        // READ operation, like captureWebViewContent
+        const selection = await webviewEl.executeJavaScript('window.getSelection()?.toString() ?? ""');
+        return typeof selection === 'string' && selection.trim() ? selection.trim() : null;
+    } catch (error) {
+        console.error('Web Sidecar: Failed to capture webview selection:', error);
+        return null;
+    }
+}
+
+/**
+ * Script returning the selected HTML and text of a page (null without a selection).
+ * Cloned nodes resolve href/src against the page, so relative links are made absolute.
+ */
+const SELECTION_SCRIPT = `(() => {
+    const selection = window.getSelection();
+    if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null;
+    const container = document.createElement('div');
+    for (let i = 0; i < selection.rangeCount; i++) {
+        container.appendChild(selection.getRangeAt(i).cloneContents());
+    }
+    container.querySelectorAll('a[href]').forEach(a => a.setAttribute('href', a.href));
+    container.querySelectorAll('img[src]').forEach(img => img.setAttribute('src', img.src));
+    return { html: container.innerHTML, text: selection.toString() };
+})()`;
+
+/**
+ * Get the HTML and text currently selected in a web viewer's page.
+ * Desktop-only, like captureWebViewContent.
+ *
+ * @returns The selection, or null if nothing is selected or capture failed
+ */
+export async function captureWebViewSelectionHtml(leaf: WorkspaceLeaf): Promise<CapturedSelection | null> {
+    try {
+        const webviewEl = getScriptableWebview(leaf);
+        if (!webviewEl) return null;
+
+        // READ operation: the HTML is converted to Markdown, never injected into Obsidian's DOM
+        const result = await webviewEl.executeJavaScript(SELECTION_SCRIPT) as Partial<CapturedSelection> | null;
+        if (!result || typeof result.html !== 'string' || typeof result.text !== 'string' || !result.text.trim()) {
             return null;
         }
 
-        // Parse the HTML string into a DOM
-        const parser = new DOMParser();
-        const doc = parser.parseFromString(html, 'text/html');
+        return { html: result.html, text: result.text };
+    } catch (error) {
+        console.error('Web Sidecar: Failed to capture webview selection:', error);
+        return null;
+    }
+}
 
-        // Use Defuddle to extract main content
-        const defuddle = new Defuddle(doc);
-        const result = defuddle.parse();
+/**
+ * Script returning the page as currently rendered, without scripts (elements, event
+ * handlers, `javascript:` URLs and `srcdoc`), for an HTML archive.
+ * Links, stylesheet and image URLs are made absolute, images keep the source they display,
+ * and style elements filled through the CSSOM (CSS-in-JS) get their rules as text.
+ */
+const SNAPSHOT_SCRIPT = `(() => {
+    const root = document.documentElement.cloneNode(true);
+    const styles = Array.from(document.querySelectorAll('style'));
+    root.querySelectorAll('style').forEach((style, i) => {
+        try {
+            const rules = styles[i] && styles[i].sheet ? Array.from(styles[i].sheet.cssRules) : [];
+            if (rules.length > 0) style.textContent = rules.map(rule => rule.cssText).join('\\n');
+        } catch (e) { /* keep the style as written */ }
+    });
+    const images = Array.from(document.querySelectorAll('img'));
+    root.querySelectorAll('img').forEach((img, i) => {
+        const src = (images[i] && images[i].currentSrc) || img.src;
+        if (src) img.setAttribute('src', src);
+        ['srcset', 'sizes', 'loading'].forEach(name => img.removeAttribute(name));
+    });
+    root.querySelectorAll('picture source').forEach(el => el.remove());
+    root.querySelectorAll('a[href]').forEach(a => a.setAttribute('href', a.href));
+    root.querySelectorAll('link[href]').forEach(link => link.setAttribute('href', link.href));
+    root.querySelectorAll('script, noscript, iframe, frame, object, embed, base, meta[http-equiv], link[rel~="preload"], link[rel~="modulepreload"], link[rel~="prefetch"]')
+        .forEach(el => el.remove());
+    root.querySelectorAll('*').forEach(el => {
+        Array.from(el.attributes).forEach(attr => {
+            const isScriptUrl = /^javascript:/i.test(attr.value.replace(/[\\s\\u0000-\\u001f]/g, ''));
+            if (attr.name.startsWith('on') || attr.name === 'srcdoc' || isScriptUrl) el.removeAttribute(attr.name);
+        });
+    });
+    const adopted = document.adoptedStyleSheets || [];
+    adopted.forEach(sheet => {
+        const style = document.createElement('style');
+        style.textContent = Array.from(sheet.cssRules).map(rule => rule.cssText).join('\\n');
+        root.querySelector('head')?.appendChild(style);
+    });
+    return '<!DOCTYPE html>\\n' + root.outerHTML;
+})()`;
+
+/**
+ * Get the HTML of a web viewer's page as currently rendered, for an HTML archive.
+ * Desktop-only, like captureWebViewContent.
+ *
+ * @returns The page HTML (scripts removed), or null if capture failed
+ */
+export async function captureWebViewSnapshot(leaf: WorkspaceLeaf): Promise<string | null> {
+    try {
+        const webviewEl = getScriptableWebview(leaf);
+        if (!webviewEl) return null;
 
-        if (!result.content) {
-            console.warn('Web Sidecar: Defuddle returned empty content');
+        // READ operation: the snapshot is written to a file, never injected into Obsidian's DOM
+        const html = await webviewEl.executeJavaScript(SNAPSHOT_SCRIPT);
+        return typeof html === 'string' && html.trim() ? html : null;
+    } catch (error) {
+        console.error('Web Sidecar: Failed to capture page snapshot:', error);
+        return null;
+    }
+}
+
+/**
+ * Parse an HTML document with Defuddle (main content and page metadata)
+ *
+ * @returns The Defuddle result, or null if parsing fails
+ */
+function parsePage(html: string): DefuddleResponse | null {
+    try {
+        if (!html || typeof html !== 'string') {
             return null;
         }
 
-        return result.content;
+        // Parse the HTML string into a DOM
+        const parser = new DOMParser();
+        const doc = parser.parseFromString(html, 'text/html');
+
+        return new Defuddle(doc).parse();
     } catch (error) {
         console.error('Web Sidecar: Failed to extract main content with Defuddle:', error);
         return null;
     }
 }
 
+/**
+ * Extract main content from HTML using Defuddle.
+ * Defuddle removes navigation, ads, sidebars, and other cruft,
+ * leaving only the primary article content.
+ * 
+ * @param html - Full HTML document string
+ * @returns Clean HTML content, or null if extraction fails
+ */
+export function extractMainContent(html: string): string | null {
+    const result = parsePage(html);
+    if (!result) return null;
+
+    if (!result.content) {
+        console.warn('Web Sidecar: Defuddle returned empty content');
+        return null;
+    }
+
+    return result.content;
+}
+
 /**
  * Convert HTML to Markdown using Obsidian's built-in htmlToMarkdown function.
  * This function wraps the API with error handling.
@@ -135,6 +282,37 @@ export async function capturePageAsMarkdown(leaf: WorkspaceLeaf): Promise<string
     return markdown;
 }
 
+/**
+ * Capture a web viewer page: clean Markdown content, page metadata and the current selection.
+ *
+ * @param leaf - The workspace leaf containing the web viewer
+ * @returns The captured page, or null if the page HTML could not be read
+ */
+export async function capturePage(leaf: WorkspaceLeaf): Promise<CapturedPage | null> {
+    const fullHtml = await captureWebViewContent(leaf);
+    if (!fullHtml) {
+        return null;
+    }
+
+    const parsed = parsePage(fullHtml);
+    if (!parsed?.content) {
+        console.warn('Web Sidecar: Defuddle extraction failed, falling back to raw HTML');
+    }
+    const markdown = htmlToMarkdownSafe(parsed?.content || fullHtml);
+
+    return {
+        content: markdown.trim() ? markdown : null,
+        title: parsed?.title || undefined,
+        author: parsed?.author || undefined,
+        published: parsed?.published || undefined,
+        description: parsed?.description || undefined,
+        site: parsed?.site || undefined,
+        image: parsed?.image || undefined,
+        wordCount: parsed?.wordCount || undefined,
+        selection: (await captureWebViewSelection(leaf)) ?? undefined,
+    };
+}
+
 /**
  * Find a web viewer leaf by its ID.
  * 
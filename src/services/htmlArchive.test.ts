@@ -0,0 +1,111 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Buffer } from 'node:buffer';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { JSDOM } from 'jsdom';
+import { buildHtmlArchive } from './htmlArchive';
+
+const PNG = Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex');
+
+/** Resources served to the archived pages: [content type, body] */
+const RESOURCES: Record<string, [string, string | Buffer]> = {
+    '/style.css': ['text/css', '@import "print.css" print;\nbody { background: url(images/bg.png); }'],
+    '/print.css': ['text/css', 'h1 { color: black; }'],
+    '/images/bg.png': ['image/png', PNG],
+    '/logo.png': ['image/png', PNG],
+    '/font.woff2': ['application/octet-stream', 'font'],
+};
+
+const MB = 1024 * 1024;
+
+let baseUrl: Promise<string> | null = null;
+
+/**
+ * URL of a local server serving RESOURCES (started on first use)
+ */
+function getBaseUrl(): Promise<string> {
+    baseUrl ??= new Promise(resolve => {
+        const server = createServer((request, response) => {
+            const resource = RESOURCES[request.url ?? ''];
+            response.writeHead(resource ? 200 : 404, { 'Content-Type': resource?.[0] ?? 'text/plain' });
+            response.end(resource?.[1] ?? 'Not found');
+        });
+        server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`));
+        // Let the test process end with the server listening
+        server.unref();
+    });
+    return baseUrl;
+}
+
+globalThis.DOMParser = new JSDOM().window.DOMParser;
+
+function parse(html: string): Document {
+    return new DOMParser().parseFromString(html, 'text/html');
+}
+
+describe('buildHtmlArchive', () => {
+    it('blocks scripts with a Content-Security-Policy first in the head', async () => {
+        const { html } = await buildHtmlArchive('<html><head><title>Page</title></head><body><script>run()</script></body></html>', 'https://example.com/', MB);
+        const doc = parse(html);
+
+        assert.ok(html.startsWith('<!DOCTYPE html>\n'));
+        assert.equal(doc.head.firstElementChild?.getAttribute('charset'), 'utf-8');
+        const csp = doc.querySelector('meta[http-equiv="Content-Security-Policy"]');
+        assert.equal(csp?.getAttribute('content'), "script-src 'none'; connect-src 'none'");
+        assert.equal(csp?.previousElementSibling, doc.head.firstElementChild);
+    });
+
+    it('escapes the page URL it records', async () => {
+        const pageUrl = 'https://example.com/?q="><script>alert(1)</script>&a=<b>';
+        const { html } = await buildHtmlArchive('<p>Text</p>', pageUrl, MB);
+        const doc = parse(html);
+
+        assert.equal(doc.querySelector('meta[name="web-sidecar-archived-from"]')?.getAttribute('content'), pageUrl);
+        assert.equal(doc.querySelectorAll('script').length, 0);
+        assert.match(doc.querySelector('meta[name="web-sidecar-archived-at"]')?.getAttribute('content') ?? '', /^\d{4}-\d\d-\d\dT\d\d:\d\d:\d\d$/);
+    });
+
+    it('inlines stylesheets, imports, images and fonts', async () => {
+        const base = await getBaseUrl();
+        const page = '<html><head><link rel="stylesheet" href="/style.css"><style>@font-face { src: url("font.woff2"); }</style></head>'
+            + '<body><img src="logo.png"><div style="background: url(/images/bg.png)"></div></body></html>';
+        const result = await buildHtmlArchive(page, `${base}/index.html`, MB);
+        const doc = parse(result.html);
+        const styles = Array.from(doc.querySelectorAll('style'), style => style.textContent ?? '');
+
+        assert.deepEqual(result.failures, []);
+        assert.equal(doc.querySelector('link[rel="stylesheet"]'), null);
+        assert.match(styles.join('\n'), /@media print \{\nh1 \{ color: black; \}\n\}/);
+        assert.match(styles.join('\n'), /url\("data:image\/png;base64,[^"]+"\)/);
+        assert.match(styles.join('\n'), /url\("data:font\/woff2;base64,[^"]+"\)/);
+        assert.match(doc.querySelector('img')?.getAttribute('src') ?? '', /^data:image\/png;base64,/);
+        assert.match(doc.querySelector('div')?.getAttribute('style') ?? '', /url\("data:image\/png;base64,/);
+        // The background image is downloaded once
+        assert.equal(result.inlined, 5);
+    });
+
+    it('keeps the URL of resources that cannot be downloaded', async () => {
+        const base = await getBaseUrl();
+        const result = await buildHtmlArchive('<img src="/missing.png"><img src="data:image/png;base64,AA==">', `${base}/`, MB);
+        const images = parse(result.html).querySelectorAll('img');
+
+        assert.equal(images[0]?.getAttribute('src'), '/missing.png');
+        assert.equal(images[1]?.getAttribute('src'), 'data:image/png;base64,AA==');
+        assert.deepEqual(result.failures, [{ url: `${base}/missing.png`, reason: 'HTTP 404' }]);
+    });
+
+    it('stops inlining at the size limit', async () => {
+        const base = await getBaseUrl();
+        const result = await buildHtmlArchive('<img src="/logo.png"><img src="/images/bg.png">', `${base}/`, PNG.byteLength);
+
+        assert.equal(result.inlined, 1);
+        assert.deepEqual(result.failures, [{ url: `${base}/images/bg.png`, reason: 'Archive size limit reached' }]);
+    });
+});
@@ -0,0 +1,263 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { arrayBufferToBase64, moment, requestUrl } from 'obsidian';
+import type { AssetFailure } from '../types';
+
+/** url(...) references in CSS, quoted or not */
+const CSS_URL_REGEX = /url\(\s*(['"]?)([^'")]+)\1\s*\)/g;
+
+/** @import rules in CSS, with url() or a string, and an optional media list */
+const CSS_IMPORT_REGEX = /@import\s+(?:url\(\s*(['"]?)([^'")]+)\1\s*\)|(['"])([^'"]+)\3)\s*([^;]*);/g;
+
+/** Nested @import levels followed when inlining stylesheets */
+const MAX_IMPORT_DEPTH = 2;
+
+/** Content type of resources whose server does not send one */
+const CONTENT_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    avif: 'image/avif',
+    svg: 'image/svg+xml',
+    ico: 'image/x-icon',
+    woff: 'font/woff',
+    woff2: 'font/woff2',
+    ttf: 'font/ttf',
+    otf: 'font/otf',
+    css: 'text/css',
+};
+
+export interface HtmlArchiveResult {
+    html: string;
+    /** Number of stylesheets, images and fonts inlined */
+    inlined: number;
+    /** Resources left as remote links */
+    failures: AssetFailure[];
+}
+
+/**
+ * Downloads the resources of one archive, within a size budget,
+ * fetching each URL once
+ */
+class ResourceFetcher {
+    private cache = new Map<string, Promise<string | null>>();
+    private usedBytes = 0;
+    inlined = 0;
+    failures: AssetFailure[] = [];
+
+    constructor(private maxBytes: number) { }
+
+    /**
+     * Resource as a data: URI (null if it could not be downloaded or exceeds the budget)
+     */
+    getDataUri(url: string): Promise<string | null> {
+        let pending = this.cache.get(url);
+        if (!pending) {
+            pending = this.fetch(url).then(resource => resource
+                ? `data:${resource.contentType};base64,${arrayBufferToBase64(resource.data)}`
+                : null);
+            this.cache.set(url, pending);
+        }
+        return pending;
+    }
+
+    /**
+     * Text of a stylesheet (null if it could not be downloaded or exceeds the budget)
+     */
+    async getText(url: string): Promise<string | null> {
+        const resource = await this.fetch(url);
+        return resource ? new TextDecoder().decode(resource.data) : null;
+    }
+
+    private async fetch(url: string): Promise<{ data: ArrayBuffer; contentType: string } | null> {
+        try {
+            const response = await requestUrl({ url, throw: false });
+            if (response.status < 200 || response.status >= 300) {
+                this.failures.push({ url, reason: `HTTP ${response.status}` });
+                return null;
+            }
+
+            const data = response.arrayBuffer;
+            if (this.usedBytes + data.byteLength > this.maxBytes) {
+                this.failures.push({ url, reason: 'Archive size limit reached' });
+                return null;
+            }
+            this.usedBytes += data.byteLength;
+            this.inlined++;
+
+            const header = Object.keys(response.headers).find(name => name.toLowerCase() === 'content-type');
+            const contentType = (header ? response.headers[header] : undefined)?.split(';')[0]?.trim();
+            // Fonts and images are often served as application/octet-stream
+            return {
+                data,
+                contentType: contentType && contentType !== 'application/octet-stream' ? contentType : guessContentType(url),
+            };
+        } catch (error) {
+            console.error('Web Sidecar: Failed to download archive resource:', url, error);
+            this.failures.push({ url, reason: error instanceof Error ? error.message : 'Download failed' });
+            return null;
+        }
+    }
+}
+
+/**
+ * Turn a page snapshot into a self-contained HTML file: stylesheets, images, fonts
+ * and icons are downloaded and inlined (as style elements and data: URIs), and scripts
+ * are blocked. Resources failing to download or exceeding the size budget keep their URL.
+ */
+export async function buildHtmlArchive(html: string, pageUrl: string, maxBytes: number): Promise<HtmlArchiveResult> {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const fetcher = new ResourceFetcher(maxBytes);
+
+    // Style elements of the page (before linked stylesheets are turned into style elements)
+    for (const style of Array.from(doc.querySelectorAll('style'))) {
+        if (style.textContent) {
+            style.textContent = await inlineCss(style.textContent, pageUrl, fetcher, 0);
+        }
+    }
+
+    for (const link of Array.from(doc.querySelectorAll<HTMLLinkElement>('link[rel~="stylesheet"][href]'))) {
+        const href = resolveUrl(link.getAttribute('href') ?? '', pageUrl);
+        const css = href ? await fetcher.getText(href) : null;
+        if (!href || css === null) continue;
+
+        const style = doc.createElement('style');
+        style.textContent = await inlineCss(css, href, fetcher, 0);
+        const media = link.getAttribute('media');
+        if (media) style.setAttribute('media', media);
+        link.replaceWith(style);
+    }
+
+    for (const el of Array.from(doc.querySelectorAll('[style]'))) {
+        const css = el.getAttribute('style') ?? '';
+        if (css.includes('url(')) el.setAttribute('style', await inlineCssUrls(css, pageUrl, fetcher));
+    }
+
+    const sources: [string, string][] = [
+        ['img[src]', 'src'],
+        ['link[rel~="icon"][href]', 'href'],
+        ['video[poster]', 'poster'],
+    ];
+    for (const [selector, attribute] of sources) {
+        for (const el of Array.from(doc.querySelectorAll(selector))) {
+            const url = resolveUrl(el.getAttribute(attribute) ?? '', pageUrl);
+            const dataUri = url ? await fetcher.getDataUri(url) : null;
+            if (dataUri) el.setAttribute(attribute, dataUri);
+        }
+    }
+
+    addArchiveMeta(doc, pageUrl);
+
+    return {
+        html: '<!DOCTYPE html>\n' + doc.documentElement.outerHTML,
+        inlined: fetcher.inlined,
+        failures: fetcher.failures,
+    };
+}
+
+/**
+ * Inline the @import rules and url() references of a stylesheet
+ */
+async function inlineCss(css: string, baseUrl: string, fetcher: ResourceFetcher, depth: number): Promise<string> {
+    const imports: { rule: string; css: string }[] = [];
+    // Matches are collected first: imported stylesheets are inlined with the same regex
+    for (const match of findAll(CSS_IMPORT_REGEX, css)) {
+        const url = resolveUrl(match[2] ?? match[4] ?? '', baseUrl);
+        const imported = url && depth < MAX_IMPORT_DEPTH ? await fetcher.getText(url) : null;
+        if (!url || imported === null) continue;
+
+        const inlined = await inlineCss(imported, url, fetcher, depth + 1);
+        const media = match[5]?.trim();
+        imports.push({ rule: match[0], css: media ? `@media ${media} {\n${inlined}\n}` : inlined });
+    }
+
+    let result = css;
+    for (const { rule, css: inlined } of imports) {
+        result = result.replace(rule, () => inlined);
+    }
+    return inlineCssUrls(result, baseUrl, fetcher);
+}
+
+/**
+ * Replace the url() references of CSS with data: URIs
+ */
+async function inlineCssUrls(css: string, baseUrl: string, fetcher: ResourceFetcher): Promise<string> {
+    const dataUris = new Map<string, string>();
+    for (const match of findAll(CSS_URL_REGEX, css)) {
+        const raw = match[2]?.trim() ?? '';
+        if (dataUris.has(raw)) continue;
+        const url = resolveUrl(raw, baseUrl);
+        const dataUri = url ? await fetcher.getDataUri(url) : null;
+        if (dataUri) dataUris.set(raw, dataUri);
+    }
+
+    if (dataUris.size === 0) return css;
+    return css.replace(CSS_URL_REGEX, (whole, _quote: string, raw: string) => {
+        const dataUri = dataUris.get(raw.trim());
+        return dataUri ? `url("${dataUri}")` : whole;
+    });
+}
+
+/**
+ * All matches of a global regex
+ */
+function findAll(regex: RegExp, text: string): RegExpExecArray[] {
+    const matches: RegExpExecArray[] = [];
+    regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+        matches.push(match);
+    }
+    return matches;
+}
+
+/**
+ * Block scripts when the archive is opened and record where and when it was archived
+ */
+function addArchiveMeta(doc: Document, pageUrl: string): void {
+    const meta: [string, string][] = [
+        ['web-sidecar-archived-from', pageUrl],
+        ['web-sidecar-archived-at', moment().format('YYYY-MM-DDTHH:mm:ss')],
+    ];
+    for (const [name, content] of meta.reverse()) {
+        const el = doc.createElement('meta');
+        el.setAttribute('name', name);
+        el.setAttribute('content', content);
+        doc.head.prepend(el);
+    }
+
+    const csp = doc.createElement('meta');
+    csp.setAttribute('http-equiv', 'Content-Security-Policy');
+    csp.setAttribute('content', "script-src 'none'; connect-src 'none'");
+    doc.head.prepend(csp);
+
+    if (!doc.querySelector('meta[charset]')) {
+        const charset = doc.createElement('meta');
+        charset.setAttribute('charset', 'utf-8');
+        doc.head.prepend(charset);
+    }
+}
+
+/**
+ * Absolute http(s) URL of a resource, or null if it cannot be downloaded (data: URIs, fragments, ...)
+ */
+function resolveUrl(url: string, baseUrl: string): string | null {
+    if (!url || url.startsWith('#')) return null;
+    try {
+        const resolved = new URL(url, baseUrl);
+        return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.href : null;
+    } catch {
+        return null;
+    }
+}
+
+function guessContentType(url: string): string {
+    const extension = new URL(url).pathname.split('.').pop()?.toLowerCase() ?? '';
+    return CONTENT_TYPES[extension] ?? 'application/octet-stream';
+}
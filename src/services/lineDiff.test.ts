@@ -0,0 +1,69 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { DiffLine } from '../types';
+import { countChanges, diffLines } from './lineDiff';
+
+/**
+ * Diff as unified diff lines (" a", "-b", "+c")
+ */
+function format(diff: DiffLine[]): string[] {
+    const prefixes = { same: ' ', removed: '-', added: '+' };
+    return diff.map(line => prefixes[line.type] + line.text);
+}
+
+/**
+ * Texts a diff goes from and to
+ */
+function sides(diff: DiffLine[]): { before: string; after: string } {
+    return {
+        before: diff.filter(line => line.type !== 'added').map(line => line.text).join('\n'),
+        after: diff.filter(line => line.type !== 'removed').map(line => line.text).join('\n'),
+    };
+}
+
+describe('diffLines', () => {
+    it('finds a shortest edit script', () => {
+        const diff = diffLines('A\nB\nC\nA\nB\nB\nA', 'C\nB\nA\nB\nA\nC');
+
+        assert.deepEqual(format(diff), ['-A', '-B', ' C', '+B', ' A', ' B', '-B', ' A', '+C']);
+        assert.deepEqual(countChanges(diff), { added: 2, removed: 3 });
+    });
+
+    it('keeps the unchanged lines around a change', () => {
+        const diff = diffLines('intro\nold line\noutro', 'intro\nnew line\noutro');
+        assert.deepEqual(format(diff), [' intro', '-old line', '+new line', ' outro']);
+    });
+
+    it('reports identical texts as unchanged', () => {
+        const diff = diffLines('a\nb', 'a\r\nb');
+        assert.ok(diff.every(line => line.type === 'same'));
+        assert.equal(diff.length, 2);
+    });
+
+    it('handles empty texts', () => {
+        assert.deepEqual(format(diffLines('', 'a\nb')), ['+a', '+b']);
+        assert.deepEqual(format(diffLines('a', '')), ['-a']);
+        assert.deepEqual(diffLines('', ''), []);
+    });
+
+    it('goes from the old to the new text', () => {
+        const before = 'one\ntwo\nthree\nfour\nfive\nsix';
+        const after = 'zero\none\nthree\nfour\n4.5\nsix\nseven';
+        assert.deepEqual(sides(diffLines(before, after)), { before, after });
+    });
+
+    it('reports too many changes as removed, then added', () => {
+        const before = Array.from({ length: 1500 }, (_, i) => `old ${i}`).join('\n');
+        const after = Array.from({ length: 1500 }, (_, i) => `new ${i}`).join('\n');
+        const diff = diffLines(before, after);
+
+        assert.deepEqual(countChanges(diff), { added: 1500, removed: 1500 });
+        assert.deepEqual(sides(diff), { before, after });
+    });
+});
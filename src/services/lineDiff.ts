@@ -0,0 +1,128 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import type { DiffLine } from '../types';
+
+/**
+ * Edit distance above which the diff gives up on aligning lines
+ * and reports the changed range as removed, then added
+ */
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Line-based diff of two texts (Myers' algorithm), in the order of a unified diff
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+    const a = splitLines(oldText);
+    const b = splitLines(newText);
+
+    // Only diff the changed middle: captures of the same page share most lines
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const same = (text: string): DiffLine => ({ type: 'same', text });
+    return [
+        ...a.slice(0, start).map(same),
+        ...myersDiff(a.slice(start, endA), b.slice(start, endB)),
+        ...a.slice(endA).map(same),
+    ];
+}
+
+/**
+ * Number of added and removed lines
+ */
+export function countChanges(diff: DiffLine[]): { added: number; removed: number } {
+    return {
+        added: diff.filter(line => line.type === 'added').length,
+        removed: diff.filter(line => line.type === 'removed').length,
+    };
+}
+
+function splitLines(text: string): string[] {
+    return text ? text.replace(/\r\n/g, '\n').split('\n') : [];
+}
+
+/**
+ * Furthest x reached on each diagonal k before an edit step, for k in [-d - 1, d + 1]
+ */
+interface TraceStep {
+    values: Int32Array;
+    minK: number;
+}
+
+function myersDiff(a: string[], b: string[]): DiffLine[] {
+    const n = a.length;
+    const m = b.length;
+    const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    const trace: TraceStep[] = [];
+
+    for (let d = 0; d <= max; d++) {
+        trace.push({ values: v.slice(offset - d - 1, offset + d + 2), minK: -d - 1 });
+
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && v[offset + k - 1]! < v[offset + k + 1]!)
+                ? v[offset + k + 1]!
+                : v[offset + k - 1]! + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+
+            if (x >= n && y >= m) {
+                return backtrack(a, b, trace);
+            }
+        }
+    }
+
+    // Too many changes to align
+    return [
+        ...a.map((text): DiffLine => ({ type: 'removed', text })),
+        ...b.map((text): DiffLine => ({ type: 'added', text })),
+    ];
+}
+
+function backtrack(a: string[], b: string[], trace: TraceStep[]): DiffLine[] {
+    const result: DiffLine[] = [];
+    let x = a.length;
+    let y = b.length;
+
+    for (let d = trace.length - 1; d >= 0; d--) {
+        const step = trace[d]!;
+        const at = (k: number) => step.values[k - step.minK]!;
+        const k = x - y;
+
+        const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+        const prevX = at(prevK);
+        const prevY = prevX - prevK;
+
+        while (x > prevX && y > prevY) {
+            result.push({ type: 'same', text: a[x - 1]! });
+            x--;
+            y--;
+        }
+        if (d > 0) {
+            if (x === prevX) {
+                result.push({ type: 'added', text: b[y - 1]! });
+            } else {
+                result.push({ type: 'removed', text: a[x - 1]! });
+            }
+        }
+        x = prevX;
+        y = prevY;
+    }
+
+    return result.reverse();
+}
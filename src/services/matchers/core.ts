@@ -5,11 +5,13 @@
  */
 
 import { App, TFile } from 'obsidian';
-import type { WebSidecarSettings, MatchResult, MatchedNote } from '../../types';
+import type { WebSidecarSettings, MatchResult, MatchedNote, MentionContext } from '../../types';
 import type { UrlIndex } from '../UrlIndex';
-import { normalizeUrl, urlsMatch, isSameDomain, isValidUrl, extractDomain } from '../urlUtils';
-import { extractSubreddit, isSameRedditPost } from './reddit';
+import { getLinkMentions } from '../bodyLinks';
+import { normalizeUrl, isSameDomain, isValidUrl, extractDomain, getCanonicalizationOptions, getSharedSectionDepth } from '../urlUtils';
+import { extractSubreddit, redditMatcher } from './reddit';
 import { isYouTubeDomain, extractYouTubeChannel } from './youtube';
+import { getSiteExplorerSettings, getSiteMatchers, isEquivalentSiteUrl, isSameSiteDomain } from './registry';
 export { extractGithubRepo } from './github';
 
 /**
@@ -23,8 +25,11 @@ export function findMatchingNotes(
 ): MatchResult {
     const exactMatches: MatchedNote[] = [];
     const tldMatches: MatchedNote[] = [];
+    const sectionMatches: MatchedNote[] = [];
     const subredditMatches = new Map<string, MatchedNote[]>();
-    const normalizedSearchUrl = normalizeUrl(url);
+    const groupBySubreddit = getSiteExplorerSettings(settings, redditMatcher.id).enabled;
+    const canonicalization = getCanonicalizationOptions(settings);
+    const normalizedSearchUrl = normalizeUrl(url, canonicalization);
 
     if (!normalizedSearchUrl) {
         return { exactMatches, tldMatches };
@@ -40,8 +45,12 @@ export function findMatchingNotes(
         const domainFiles = domain ? urlIndex.getFilesForDomain(domain) : [];
         const exactFiles = urlIndex.getFilesForNormalizedUrl(url); // Normalized match covers exact & variations
 
+        // Sites spanning several domains (youtube.com, youtu.be) need notes from all of them
+        const site = getSiteMatchers().find(m => m.sharedDomain && m.matchesDomain(url));
+        const siteFiles = site ? urlIndex.getFilesMatchingDomain(d => site.matchesDomain(`https://${d}/`)) : [];
+
         // Merge and deduplicate
-        const fileSet = new Set([...domainFiles, ...exactFiles]);
+        const fileSet = new Set([...domainFiles, ...exactFiles, ...siteFiles]);
         filesToCheck = Array.from(fileSet);
     } else {
         filesToCheck = app.vault.getMarkdownFiles();
@@ -66,8 +75,8 @@ export function findMatchingNotes(
                 if (typeof val !== 'string') continue;
                 if (!isValidUrl(val)) continue;
 
-                // Check for exact match OR domain-specific equivalency
-                if (urlsMatch(val, url) || isSameRedditPost(val, url)) {
+                // Check for exact match OR site-specific equivalency (same post/video id)
+                if (normalizeUrl(val, canonicalization) === normalizedSearchUrl || isEquivalentSiteUrl(val, url)) {
                     // Check if already added (if we have multiple properties pointing to same URL)
                     if (!exactMatches.some(m => m.file.path === file.path)) {
                         exactMatches.push({
@@ -81,10 +90,30 @@ export function findMatchingNotes(
                     break;
                 }
 
+                // Check for same section match (same domain, shared path prefix like /3/library/)
+                if (settings.sectionMatchDepth > 0 && isSameDomain(val, url)) {
+                    const depth = getSharedSectionDepth(url, val);
+                    if (depth >= settings.sectionMatchDepth) {
+                        const existing = sectionMatches.find(m => m.file.path === file.path);
+                        if (!existing) {
+                            sectionMatches.push({
+                                file,
+                                matchType: 'section',
+                                url: val,
+                                propertyName: propName,
+                                sharedPathDepth: depth,
+                            });
+                        } else if (depth > (existing.sharedPathDepth ?? 0)) {
+                            existing.url = val;
+                            existing.propertyName = propName;
+                            existing.sharedPathDepth = depth;
+                        }
+                    }
+                }
+
                 // Check for TLD match (if enabled and not already an exact match)
-                // Treat all YouTube domains as the same domain
-                const bothYouTube = isYouTubeDomain(val) && isYouTubeDomain(url);
-                if (settings.enableTldSearch && (isSameDomain(val, url) || bothYouTube)) {
+                // Treat all domains of a site as the same domain (e.g. youtube.com and youtu.be)
+                if (settings.enableTldSearch && (isSameDomain(val, url, settings.domainGrouping) || isSameSiteDomain(val, url))) {
                     // Avoid duplicates - check if this file is already in tldMatches
                     const alreadyMatched = tldMatches.some(m => m.file.path === file.path);
 
@@ -100,7 +129,7 @@ export function findMatchingNotes(
                         const noteSubreddit = extractSubreddit(val);
 
                         // Logic for Subreddit Explorer (Grouping)
-                        if (settings.enableSubredditExplorer && noteSubreddit) {
+                        if (groupBySubreddit && noteSubreddit) {
                             if (!subredditMatches.has(noteSubreddit)) {
                                 subredditMatches.set(noteSubreddit, []);
                             }
@@ -132,8 +161,14 @@ export function findMatchingNotes(
     // Remove exact matches from TLD/Subreddit matches
     const exactPaths = new Set(exactMatches.map(m => m.file.path));
 
-    // Filter TLD matches
-    let filteredTldMatches = tldMatches.filter(m => !exactPaths.has(m.file.path));
+    // Same section matches: longest shared prefix first, then most recently modified
+    const filteredSectionMatches = sectionMatches
+        .filter(m => !exactPaths.has(m.file.path))
+        .sort((a, b) => (b.sharedPathDepth ?? 0) - (a.sharedPathDepth ?? 0) || b.file.stat.mtime - a.file.stat.mtime);
+    const sectionPaths = new Set(filteredSectionMatches.map(m => m.file.path));
+
+    // Filter TLD matches (exact and same section matches are shown in their own groups)
+    let filteredTldMatches = tldMatches.filter(m => !exactPaths.has(m.file.path) && !sectionPaths.has(m.file.path));
 
     // YouTube Channel Filter Logic
     let matchedChannel: string | undefined;
@@ -166,7 +201,7 @@ export function findMatchingNotes(
     }
 
     // Filter Subreddit matches map
-    if (settings.enableSubredditExplorer) {
+    if (groupBySubreddit) {
         for (const [key, matches] of subredditMatches.entries()) {
             const filtered = matches.filter(m => !exactPaths.has(m.file.path));
             if (filtered.length > 0) {
@@ -180,7 +215,43 @@ export function findMatchingNotes(
     return {
         exactMatches,
         tldMatches: filteredTldMatches,
+        sectionMatches: filteredSectionMatches.length > 0 ? filteredSectionMatches : undefined,
+        mentionMatches: settings.enableBodyLinkIndex && urlIndex
+            ? findMentionMatches(app, url, exactMatches, urlIndex)
+            : undefined,
         subredditMatches: subredditMatches.size > 0 ? subredditMatches : undefined,
         matchedChannel
     };
 }
+
+/**
+ * Find notes mentioning the URL in their body: links or bare URLs to the page,
+ * and links to notes whose source is the page. Excludes the exact matches themselves.
+ */
+function findMentionMatches(
+    app: App,
+    url: string,
+    exactMatches: MatchedNote[],
+    urlIndex: UrlIndex
+): MatchedNote[] {
+    const exactPaths = new Set(exactMatches.map(m => m.file.path));
+    const mentionsByFile = new Map<TFile, MentionContext[]>(urlIndex.getMentionsForUrl(url));
+
+    for (const [file, contexts] of getLinkMentions(app, exactPaths, urlIndex)) {
+        mentionsByFile.set(file, [...(mentionsByFile.get(file) ?? []), ...contexts]);
+    }
+
+    const mentionMatches: MatchedNote[] = [];
+    for (const [file, mentions] of mentionsByFile) {
+        if (exactPaths.has(file.path)) continue;
+        mentionMatches.push({
+            file,
+            matchType: 'mention',
+            url,
+            propertyName: '',
+            mentions: mentions.sort((a, b) => a.line - b.line),
+        });
+    }
+
+    return mentionMatches.sort((a, b) => b.file.stat.mtime - a.file.stat.mtime);
+}
@@ -4,9 +4,10 @@
  * SPDX-License-Identifier: GPL-3.0-only
  */
 
-import { App, TFile } from 'obsidian';
-import type { WebSidecarSettings, MatchedNote } from '../../types';
+import { App } from 'obsidian';
+import type { WebSidecarSettings, MatchedNote, SiteMatcher } from '../../types';
 import type { UrlIndex } from '../UrlIndex';
+import { getAllSiteNotes } from './siteMatcher';
 
 /**
  * Extract GitHub repository from URL
@@ -32,6 +33,21 @@ export function extractGithubRepo(url: string): string | null {
     return null;
 }
 
+/**
+ * GitHub: notes grouped by repository (owner/repo)
+ */
+export const githubMatcher: SiteMatcher = {
+    id: 'github',
+    name: 'GitHub',
+    faviconDomain: 'github.com',
+    indexDomains: ['github.com'],
+    matchesDomain: (url) => url.includes('github.com'),
+    sectionLabel: 'GitHub repos',
+    groupLabel: 'GitHub repository',
+    getGroupKey: (url) => extractGithubRepo(url),
+    getGroupUrl: (repo) => `https://github.com/${repo}`,
+};
+
 /**
  * Get all notes that link to GitHub, grouped by repository (owner/repo)
  */
@@ -40,67 +56,5 @@ export function getAllGithubNotes(
     settings: WebSidecarSettings,
     urlIndex?: UrlIndex
 ): Map<string, MatchedNote[]> {
-    const repoMap = new Map<string, MatchedNote[]>();
-
-    let filesToCheck: TFile[] | ReadonlyArray<TFile>;
-    if (urlIndex) {
-        const githubFiles = urlIndex.getFilesForDomain('github.com');
-        filesToCheck = githubFiles;
-    } else {
-        filesToCheck = app.vault.getMarkdownFiles();
-    }
-
-    // Deduplicate filesToCheck if needed?
-    const processedPaths = new Set<string>();
-
-    for (const file of filesToCheck) {
-        if (processedPaths.has(file.path)) continue;
-        processedPaths.add(file.path);
-
-        const cache = app.metadataCache.getFileCache(file);
-        const frontmatter = cache?.frontmatter;
-
-        if (!frontmatter) continue;
-
-        // Check each configured property field
-        for (const propName of settings.urlPropertyFields) {
-            const propValue = frontmatter[propName] as unknown;
-
-            if (!propValue) continue;
-
-            const values = Array.isArray(propValue) ? propValue : [propValue];
-
-            for (const val of values) {
-                if (typeof val !== 'string') continue;
-
-                // Fast check for domain
-                if (!val.includes('github.com')) continue;
-
-                const repo = extractGithubRepo(val);
-                if (repo) {
-                    if (!repoMap.has(repo)) {
-                        repoMap.set(repo, []);
-                    }
-
-                    // Avoid duplicates per repo
-                    const existing = repoMap.get(repo)!;
-                    if (!existing.some(m => m.file.path === file.path)) {
-                        existing.push({
-                            file,
-                            matchType: 'tld', // broadly considering it TLD/domain match
-                            url: val,
-                            propertyName: propName
-                        });
-                    }
-                }
-            }
-        }
-    }
-
-    // Sort notes within each group by recency
-    for (const notes of repoMap.values()) {
-        notes.sort((a, b) => b.file.stat.mtime - a.file.stat.mtime);
-    }
-
-    return repoMap;
+    return getAllSiteNotes(app, settings, githubMatcher, urlIndex);
 }
@@ -10,3 +10,6 @@ export * from './reddit';
 export * from './youtube';
 export * from './tags';
 export * from './twitter';
+export * from './siteMatcher';
+export * from './registry';
+export * from './urlPatterns';
@@ -4,9 +4,10 @@
  * SPDX-License-Identifier: GPL-3.0-only
  */
 
-import { App, TFile } from 'obsidian';
-import type { WebSidecarSettings, MatchedNote } from '../../types';
+import { App } from 'obsidian';
+import type { WebSidecarSettings, MatchedNote, SiteMatcher } from '../../types';
 import type { UrlIndex } from '../UrlIndex';
+import { getAllSiteNotes } from './siteMatcher';
 
 /**
  * Extract subreddit name from URL if it's a reddit URL
@@ -54,6 +55,23 @@ export function isSameRedditPost(url1: string, url2: string): boolean {
 }
 
 
+/**
+ * Reddit: posts are identified by id, notes grouped by subreddit
+ */
+export const redditMatcher: SiteMatcher = {
+    id: 'subreddit',
+    name: 'Reddit',
+    faviconDomain: 'reddit.com',
+    indexDomains: ['reddit.com'],
+    matchesDomain: (url) => url.includes('reddit.com'),
+    extractId: extractRedditPostId,
+    isEquivalent: isSameRedditPost,
+    sectionLabel: 'Subreddits',
+    groupLabel: 'subreddit',
+    getGroupKey: (url) => extractSubreddit(url),
+    getGroupUrl: (subreddit) => `https://reddit.com/${subreddit}`,
+};
+
 /**
  * Get all notes that link to Reddit, grouped by subreddit
  */
@@ -62,61 +80,5 @@ export function getAllRedditNotes(
     settings: WebSidecarSettings,
     urlIndex?: UrlIndex
 ): Map<string, MatchedNote[]> {
-    const subredditMap = new Map<string, MatchedNote[]>();
-
-    // Optimization: Use index for reddit.com domain
-    let filesToCheck: TFile[] | ReadonlyArray<TFile>;
-    if (urlIndex) {
-        filesToCheck = urlIndex.getFilesForDomain('reddit.com');
-    } else {
-        filesToCheck = app.vault.getMarkdownFiles();
-    }
-
-    for (const file of filesToCheck) {
-        const cache = app.metadataCache.getFileCache(file);
-        const frontmatter = cache?.frontmatter;
-
-        if (!frontmatter) continue;
-
-        // Check each configured property field
-        for (const propName of settings.urlPropertyFields) {
-            const propValue = frontmatter[propName] as unknown;
-
-            if (!propValue) continue;
-
-            const values = Array.isArray(propValue) ? propValue : [propValue];
-
-            for (const val of values) {
-                if (typeof val !== 'string') continue;
-
-                // Fast check for reddit
-                if (!val.includes('reddit.com')) continue;
-
-                const subreddit = extractSubreddit(val);
-                if (subreddit) {
-                    if (!subredditMap.has(subreddit)) {
-                        subredditMap.set(subreddit, []);
-                    }
-
-                    // Avoid duplicates per subreddit
-                    const existing = subredditMap.get(subreddit)!;
-                    if (!existing.some(m => m.file.path === file.path)) {
-                        existing.push({
-                            file,
-                            matchType: 'tld', // broadly considering it TLD/domain match
-                            url: val,
-                            propertyName: propName
-                        });
-                    }
-                }
-            }
-        }
-    }
-
-    // Sort notes within each subreddit by recency
-    for (const notes of subredditMap.values()) {
-        notes.sort((a, b) => b.file.stat.mtime - a.file.stat.mtime);
-    }
-
-    return subredditMap;
+    return getAllSiteNotes(app, settings, redditMatcher, urlIndex);
 }
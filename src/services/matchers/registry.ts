@@ -0,0 +1,92 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import type { SiteExplorerSettings, SiteMatcher, WebSidecarSettings } from '../../types';
+import { isEquivalentForSite } from './siteMatcher';
+import { redditMatcher } from './reddit';
+import { youtubeMatcher } from './youtube';
+import { twitterMatcher } from './twitter';
+import { githubMatcher } from './github';
+import { arxivMatcher, hackerNewsMatcher, mastodonMatcher, stackExchangeMatcher, wikipediaMatcher } from './sites';
+
+const siteMatchers = new Map<string, SiteMatcher>();
+
+/**
+ * Register a site matcher (replaces any matcher with the same id)
+ */
+export function registerSiteMatcher(matcher: SiteMatcher): void {
+    siteMatchers.set(matcher.id, matcher);
+}
+
+/**
+ * Get all registered site matchers, in registration order
+ */
+export function getSiteMatchers(): SiteMatcher[] {
+    return Array.from(siteMatchers.values());
+}
+
+/**
+ * Get a registered site matcher by id
+ */
+export function getSiteMatcher(id: string): SiteMatcher | undefined {
+    return siteMatchers.get(id);
+}
+
+/**
+ * Get site matchers that have an explorer section
+ */
+export function getExplorerSiteMatchers(): SiteMatcher[] {
+    return getSiteMatchers().filter(m => m.getGroupKey);
+}
+
+/**
+ * Check if two URLs point to the same resource on any registered site
+ * (e.g. the same Reddit post with a different slug)
+ */
+export function isEquivalentSiteUrl(url1: string, url2: string): boolean {
+    return getSiteMatchers().some(m => isEquivalentForSite(m, url1, url2));
+}
+
+/**
+ * Check if two URLs belong to a site whose domains are treated as one (e.g. youtube.com and youtu.be)
+ */
+export function isSameSiteDomain(url1: string, url2: string): boolean {
+    return getSiteMatchers().some(m => m.sharedDomain && m.matchesDomain(url1) && m.matchesDomain(url2));
+}
+
+/**
+ * Get the explorer section state for a site, falling back to defaults
+ */
+export function getSiteExplorerSettings(settings: WebSidecarSettings, id: string): SiteExplorerSettings {
+    return settings.siteExplorers[id] ?? { enabled: false, sortOrder: 'alpha', isOpen: false };
+}
+
+/**
+ * Update the explorer section state for a site
+ */
+export function updateSiteExplorerSettings(
+    settings: WebSidecarSettings,
+    id: string,
+    update: Partial<SiteExplorerSettings>
+): void {
+    settings.siteExplorers = {
+        ...settings.siteExplorers,
+        [id]: { ...getSiteExplorerSettings(settings, id), ...update },
+    };
+}
+
+// Built-in sites
+[
+    redditMatcher,
+    youtubeMatcher,
+    twitterMatcher,
+    githubMatcher,
+    hackerNewsMatcher,
+    stackExchangeMatcher,
+    arxivMatcher,
+    wikipediaMatcher,
+    mastodonMatcher,
+].forEach(registerSiteMatcher);
@@ -0,0 +1,101 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { App, TFile } from 'obsidian';
+import type { WebSidecarSettings, MatchedNote, SiteMatcher } from '../../types';
+import type { UrlIndex } from '../UrlIndex';
+
+/**
+ * Check if two URLs point to the same resource according to a site matcher
+ */
+export function isEquivalentForSite(matcher: SiteMatcher, url1: string, url2: string): boolean {
+    if (matcher.isEquivalent) {
+        return matcher.isEquivalent(url1, url2);
+    }
+    if (!matcher.extractId) return false;
+    if (!matcher.matchesDomain(url1) || !matcher.matchesDomain(url2)) return false;
+
+    const id1 = matcher.extractId(url1);
+    const id2 = matcher.extractId(url2);
+    return !!id1 && id1 === id2;
+}
+
+/**
+ * Collect all web notes of a site, grouped by the matcher's grouping key
+ */
+export function getAllSiteNotes(
+    app: App,
+    settings: WebSidecarSettings,
+    matcher: SiteMatcher,
+    urlIndex?: UrlIndex
+): Map<string, MatchedNote[]> {
+    const groupMap = new Map<string, MatchedNote[]>();
+    if (!matcher.getGroupKey) return groupMap;
+
+    // Optimization: Use index for the site's domains
+    let filesToCheck: TFile[] | ReadonlyArray<TFile>;
+    if (urlIndex) {
+        filesToCheck = matcher.indexDomains
+            ? matcher.indexDomains.flatMap(domain => urlIndex.getFilesForDomain(domain))
+            : urlIndex.getAllFilesWithUrls();
+    } else {
+        filesToCheck = app.vault.getMarkdownFiles();
+    }
+
+    // Files may be indexed under several of the site's domains
+    const processedPaths = new Set<string>();
+
+    for (const file of filesToCheck) {
+        if (processedPaths.has(file.path)) continue;
+        processedPaths.add(file.path);
+
+        const cache = app.metadataCache.getFileCache(file);
+        const frontmatter = cache?.frontmatter;
+
+        if (!frontmatter) continue;
+
+        // Check each configured property field
+        for (const propName of settings.urlPropertyFields) {
+            const propValue = frontmatter[propName] as unknown;
+
+            if (!propValue) continue;
+
+            const values = Array.isArray(propValue) ? propValue : [propValue];
+
+            for (const val of values) {
+                if (typeof val !== 'string') continue;
+
+                // Fast check for domain
+                if (!matcher.matchesDomain(val)) continue;
+
+                const key = matcher.getGroupKey(val, frontmatter, settings);
+                if (!key) continue;
+
+                if (!groupMap.has(key)) {
+                    groupMap.set(key, []);
+                }
+
+                // Avoid duplicates per group
+                const existing = groupMap.get(key)!;
+                if (!existing.some(m => m.file.path === file.path)) {
+                    existing.push({
+                        file,
+                        matchType: 'tld', // broadly considering it TLD/domain match
+                        url: val,
+                        propertyName: propName
+                    });
+                }
+            }
+        }
+    }
+
+    // Sort notes within each group by recency
+    for (const notes of groupMap.values()) {
+        notes.sort((a, b) => b.file.stat.mtime - a.file.stat.mtime);
+    }
+
+    return groupMap;
+}
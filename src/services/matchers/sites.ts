@@ -0,0 +1,144 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import type { SiteMatcher } from '../../types';
+
+/**
+ * Parse a URL, tolerating a missing protocol
+ */
+function parseUrl(url: string): URL | null {
+    try {
+        return new URL(/^https?:\/\//i.test(url) ? url : 'https://' + url);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Hacker News: items are identified by ?id=
+ */
+export const hackerNewsMatcher: SiteMatcher = {
+    id: 'hackernews',
+    name: 'Hacker News',
+    faviconDomain: 'news.ycombinator.com',
+    indexDomains: ['news.ycombinator.com'],
+    matchesDomain: (url) => /^(https?:\/\/)?news\.ycombinator\.com\//i.test(url),
+    extractId: (url) => {
+        const parsed = parseUrl(url);
+        if (!parsed || parsed.pathname !== '/item') return null;
+        return parsed.searchParams.get('id');
+    },
+};
+
+/** Stack Exchange network sites outside *.stackexchange.com */
+const STACK_EXCHANGE_HOSTS = ['stackoverflow.com', 'superuser.com', 'serverfault.com', 'askubuntu.com', 'mathoverflow.net'];
+
+/**
+ * Stack Overflow / Stack Exchange: questions are identified by id (the slug is optional),
+ * notes grouped by site
+ */
+export const stackExchangeMatcher: SiteMatcher = {
+    id: 'stackexchange',
+    name: 'Stack Exchange',
+    faviconDomain: 'stackoverflow.com',
+    matchesDomain: (url) => {
+        const host = parseUrl(url)?.hostname.toLowerCase().replace(/^www\./, '');
+        if (!host) return false;
+        return host.endsWith('.stackexchange.com') || STACK_EXCHANGE_HOSTS.includes(host);
+    },
+    extractId: (url) => {
+        const parsed = parseUrl(url);
+        const match = parsed?.pathname.match(/^\/(?:questions|q)\/(\d+)/);
+        if (!parsed || !match?.[1]) return null;
+        return `${parsed.hostname.toLowerCase().replace(/^www\./, '')}/${match[1]}`;
+    },
+    sectionLabel: 'Stack Exchange sites',
+    groupLabel: 'Stack Exchange site',
+    getGroupKey: (url) => parseUrl(url)?.hostname.toLowerCase().replace(/^www\./, '') ?? null,
+    getGroupUrl: (host) => `https://${host}`,
+};
+
+/**
+ * arXiv: papers are identified by id, ignoring version and abs/pdf/html variants
+ */
+export const arxivMatcher: SiteMatcher = {
+    id: 'arxiv',
+    name: 'arXiv',
+    faviconDomain: 'arxiv.org',
+    indexDomains: ['arxiv.org'],
+    matchesDomain: (url) => /^(https?:\/\/)?(www\.)?arxiv\.org\//i.test(url),
+    extractId: (url) => {
+        const match = url.match(/arxiv\.org\/(?:abs|pdf|html)\/([a-z-]+(?:\.[a-z]{2})?\/\d{7}|\d{4}\.\d{4,5})/i);
+        return match?.[1] ?? null;
+    },
+};
+
+/**
+ * Wikipedia: articles are identified by language and title, notes grouped by language edition
+ */
+export const wikipediaMatcher: SiteMatcher = {
+    id: 'wikipedia',
+    name: 'Wikipedia',
+    faviconDomain: 'wikipedia.org',
+    matchesDomain: (url) => /^(https?:\/\/)?([a-z-]+\.)?(m\.)?wikipedia\.org\//i.test(url),
+    extractId: (url) => {
+        const parsed = parseUrl(url);
+        if (!parsed) return null;
+        const lang = parsed.hostname.toLowerCase().split('.')[0];
+        const title = parsed.pathname.startsWith('/wiki/')
+            ? parsed.pathname.slice('/wiki/'.length)
+            : parsed.searchParams.get('title');
+        if (!lang || !title) return null;
+        try {
+            return `${lang}:${decodeURIComponent(title).replace(/_/g, ' ')}`;
+        } catch {
+            return `${lang}:${title.replace(/_/g, ' ')}`;
+        }
+    },
+    sectionLabel: 'Wikipedia languages',
+    groupLabel: 'Wikipedia language',
+    getGroupKey: (url) => {
+        const host = parseUrl(url)?.hostname.toLowerCase();
+        const lang = host?.split('.')[0];
+        return lang && !['www', 'm', 'wikipedia'].includes(lang) ? lang : null;
+    },
+    getGroupUrl: (lang) => `https://${lang}.wikipedia.org`,
+};
+
+/** Well-known Mastodon instances (Mastodon has no single domain) */
+const MASTODON_INSTANCES = ['mastodon.social', 'mastodon.online', 'mstdn.social', 'mas.to', 'fosstodon.org', 'hachyderm.io', 'infosec.exchange'];
+
+/**
+ * Mastodon: statuses are identified by instance and id, notes grouped by account
+ */
+export const mastodonMatcher: SiteMatcher = {
+    id: 'mastodon',
+    name: 'Mastodon',
+    faviconDomain: 'joinmastodon.org',
+    indexDomains: MASTODON_INSTANCES,
+    matchesDomain: (url) => {
+        const host = parseUrl(url)?.hostname.toLowerCase().replace(/^www\./, '');
+        return !!host && MASTODON_INSTANCES.includes(host);
+    },
+    extractId: (url) => {
+        const parsed = parseUrl(url);
+        const match = parsed?.pathname.match(/^\/@[^/]+\/(\d+)/);
+        if (!parsed || !match?.[1]) return null;
+        return `${parsed.hostname.toLowerCase()}/${match[1]}`;
+    },
+    sectionLabel: 'Mastodon accounts',
+    groupLabel: 'Mastodon account',
+    getGroupKey: (url) => {
+        const parsed = parseUrl(url);
+        const match = parsed?.pathname.match(/^\/(@[^/]+)/);
+        if (!parsed || !match?.[1]) return null;
+        return `${match[1]}@${parsed.hostname.toLowerCase()}`;
+    },
+    getGroupUrl: (account) => {
+        const [, user, instance] = account.split('@');
+        return user && instance ? `https://${instance}/@${user}` : null;
+    },
+};
@@ -4,9 +4,10 @@
  * SPDX-License-Identifier: GPL-3.0-only
  */
 
-import { App, TFile } from 'obsidian';
-import type { WebSidecarSettings, MatchedNote } from '../../types';
+import { App } from 'obsidian';
+import type { WebSidecarSettings, MatchedNote, SiteMatcher } from '../../types';
 import type { UrlIndex } from '../UrlIndex';
+import { getAllSiteNotes } from './siteMatcher';
 
 /**
  * Extract Twitter/X username from URL
@@ -30,6 +31,22 @@ export function extractTwitterUser(url: string): string | null {
     return null;
 }
 
+/**
+ * Twitter/X: twitter.com and x.com, notes grouped by user
+ */
+export const twitterMatcher: SiteMatcher = {
+    id: 'twitter',
+    name: 'X (Twitter)',
+    faviconDomain: 'x.com',
+    indexDomains: ['twitter.com', 'x.com'],
+    matchesDomain: (url) => url.includes('twitter.com') || url.includes('x.com'),
+    sectionLabel: 'X users',
+    groupLabel: 'X (Twitter) user',
+    getGroupKey: (url) => extractTwitterUser(url),
+    getGroupUrl: (user) => `https://x.com/${user.substring(1)}`,
+    getGroupNoteNames: (user) => [user, user.substring(1)],
+};
+
 /**
  * Get all notes that link to Twitter/X, grouped by user
  */
@@ -38,69 +55,5 @@ export function getAllTwitterNotes(
     settings: WebSidecarSettings,
     urlIndex?: UrlIndex
 ): Map<string, MatchedNote[]> {
-    const userMap = new Map<string, MatchedNote[]>();
-
-    let filesToCheck: TFile[] | ReadonlyArray<TFile>;
-    if (urlIndex) {
-        // We need both twitter.com and x.com
-        const twitterFiles = urlIndex.getFilesForDomain('twitter.com');
-        const xFiles = urlIndex.getFilesForDomain('x.com');
-        filesToCheck = [...twitterFiles, ...xFiles];
-    } else {
-        filesToCheck = app.vault.getMarkdownFiles();
-    }
-
-    // Deduplicate filesToCheck if needed? (Set)
-    const processedPaths = new Set<string>();
-
-    for (const file of filesToCheck) {
-        if (processedPaths.has(file.path)) continue;
-        processedPaths.add(file.path);
-
-        const cache = app.metadataCache.getFileCache(file);
-        const frontmatter = cache?.frontmatter;
-
-        if (!frontmatter) continue;
-
-        // Check each configured property field
-        for (const propName of settings.urlPropertyFields) {
-            const propValue = frontmatter[propName] as unknown;
-
-            if (!propValue) continue;
-
-            const values = Array.isArray(propValue) ? propValue : [propValue];
-
-            for (const val of values) {
-                if (typeof val !== 'string') continue;
-
-                // Fast check for domain
-                if (!val.includes('twitter.com') && !val.includes('x.com')) continue;
-
-                const user = extractTwitterUser(val);
-                if (user) {
-                    if (!userMap.has(user)) {
-                        userMap.set(user, []);
-                    }
-
-                    // Avoid duplicates per user
-                    const existing = userMap.get(user)!;
-                    if (!existing.some(m => m.file.path === file.path)) {
-                        existing.push({
-                            file,
-                            matchType: 'tld', // broadly considering it TLD/domain match
-                            url: val,
-                            propertyName: propName
-                        });
-                    }
-                }
-            }
-        }
-    }
-
-    // Sort notes within each user group by recency
-    for (const notes of userMap.values()) {
-        notes.sort((a, b) => b.file.stat.mtime - a.file.stat.mtime);
-    }
-
-    return userMap;
+    return getAllSiteNotes(app, settings, twitterMatcher, urlIndex);
 }
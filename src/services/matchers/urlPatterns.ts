@@ -0,0 +1,77 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import type { SiteMatcher, UrlPatternGroup, WebSidecarSettings } from '../../types';
+
+/** Section id prefix for user-defined URL pattern groups */
+export const URL_PATTERN_SECTION_PREFIX = 'pattern:';
+
+/**
+ * Get the section id of a URL pattern group
+ */
+export function getUrlPatternSectionId(group: UrlPatternGroup): string {
+    return URL_PATTERN_SECTION_PREFIX + group.id;
+}
+
+/**
+ * Compile a user pattern, returning null for invalid expressions
+ */
+function compilePattern(pattern: string): RegExp | null {
+    if (!pattern.trim()) return null;
+    try {
+        return new RegExp(pattern);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Build the group key from a regex match:
+ * named groups joined by " / ", else the first capture group, else the whole match
+ */
+function getGroupKeyFromMatch(match: RegExpMatchArray): string | null {
+    if (match.groups) {
+        const values = Object.values(match.groups).filter((v): v is string => !!v);
+        return values.length > 0 ? values.join(' / ') : null;
+    }
+    return match[1] ?? match[0] ?? null;
+}
+
+/**
+ * Create a site matcher for a user-defined URL pattern group
+ */
+export function createUrlPatternMatcher(group: UrlPatternGroup): SiteMatcher {
+    const regex = compilePattern(group.pattern);
+
+    return {
+        id: getUrlPatternSectionId(group),
+        name: group.name || 'URL pattern',
+        faviconDomain: '',
+        icon: 'regex',
+        matchesDomain: (url) => !!regex && regex.test(url),
+        sectionLabel: group.name || 'URL pattern',
+        getGroupKey: (url) => {
+            const match = regex ? url.match(regex) : null;
+            return match ? getGroupKeyFromMatch(match) : null;
+        },
+    };
+}
+
+/**
+ * Get site matchers for all user-defined URL pattern groups
+ */
+export function getUrlPatternMatchers(settings: WebSidecarSettings): SiteMatcher[] {
+    return settings.urlPatternGroups.map(createUrlPatternMatcher);
+}
+
+/**
+ * Find the URL pattern group matcher for a section id
+ */
+export function getUrlPatternMatcher(settings: WebSidecarSettings, sectionId: string): SiteMatcher | undefined {
+    if (!sectionId.startsWith(URL_PATTERN_SECTION_PREFIX)) return undefined;
+    const group = settings.urlPatternGroups.find(g => getUrlPatternSectionId(g) === sectionId);
+    return group ? createUrlPatternMatcher(group) : undefined;
+}
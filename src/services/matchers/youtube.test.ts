@@ -0,0 +1,68 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    extractYouTubeTimestamp,
+    extractYouTubeVideoId,
+    formatYouTubeTimestamp,
+    isSameYouTubeVideo,
+} from './youtube';
+
+const ID = 'dQw4w9WgXcQ';
+
+describe('extractYouTubeVideoId', () => {
+    it('reads the ID of every URL variant', () => {
+        for (const url of [
+            `https://www.youtube.com/watch?v=${ID}`,
+            `https://m.youtube.com/watch?feature=share&v=${ID}`,
+            `https://youtu.be/${ID}?t=42`,
+            `https://www.youtube.com/shorts/${ID}`,
+            `https://www.youtube-nocookie.com/embed/${ID}`,
+            `https://youtube.com/live/${ID}`,
+        ]) {
+            assert.equal(extractYouTubeVideoId(url), ID, url);
+        }
+    });
+
+    it('ignores other sites and pages without a video', () => {
+        assert.equal(extractYouTubeVideoId(`https://example.com/watch?v=${ID}`), null);
+        assert.equal(extractYouTubeVideoId('https://www.youtube.com/@channel'), null);
+        assert.equal(extractYouTubeVideoId('https://www.youtube.com/watch?v=short'), null);
+    });
+
+    it('matches the same video across URL variants', () => {
+        assert.equal(isSameYouTubeVideo(`https://youtu.be/${ID}`, `https://www.youtube.com/watch?v=${ID}&t=10`), true);
+        assert.equal(isSameYouTubeVideo(`https://youtu.be/${ID}`, 'https://youtu.be/aaaaaaaaaaa'), false);
+    });
+});
+
+describe('extractYouTubeTimestamp', () => {
+    it('reads plain seconds from the query or hash', () => {
+        assert.equal(extractYouTubeTimestamp(`https://youtu.be/${ID}?t=42`), 42);
+        assert.equal(extractYouTubeTimestamp(`https://www.youtube.com/watch?v=${ID}&t=90s`), 90);
+        assert.equal(extractYouTubeTimestamp(`https://www.youtube.com/embed/${ID}?start=15`), 15);
+        assert.equal(extractYouTubeTimestamp(`https://www.youtube.com/watch?v=${ID}#t=7`), 7);
+    });
+
+    it('reads hour, minute and second parts', () => {
+        assert.equal(extractYouTubeTimestamp(`https://www.youtube.com/watch?v=${ID}&t=1h2m3s`), 3723);
+        assert.equal(extractYouTubeTimestamp(`https://www.youtube.com/watch?v=${ID}&t=2m`), 120);
+    });
+
+    it('returns null without a valid timestamp', () => {
+        assert.equal(extractYouTubeTimestamp(`https://www.youtube.com/watch?v=${ID}`), null);
+        assert.equal(extractYouTubeTimestamp(`https://www.youtube.com/watch?v=${ID}&t=0h`), null);
+        assert.equal(extractYouTubeTimestamp(`https://www.youtube.com/watch?v=${ID}&t=m1`), null);
+        assert.equal(extractYouTubeTimestamp('https://example.com/?t=42'), null);
+    });
+
+    it('formats timestamps', () => {
+        assert.equal(formatYouTubeTimestamp(92), '1:32');
+        assert.equal(formatYouTubeTimestamp(3723), '1:02:03');
+    });
+});
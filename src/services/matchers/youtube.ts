@@ -4,9 +4,10 @@
  * SPDX-License-Identifier: GPL-3.0-only
  */
 
-import { App, TFile } from 'obsidian';
-import type { WebSidecarSettings, MatchedNote } from '../../types';
+import { App } from 'obsidian';
+import type { WebSidecarSettings, MatchedNote, SiteMatcher } from '../../types';
 import type { UrlIndex } from '../UrlIndex';
+import { getAllSiteNotes } from './siteMatcher';
 
 /**
  * Check if URL belongs to a YouTube domain (all variants)
@@ -18,6 +19,75 @@ export function isYouTubeDomain(url: string): boolean {
     return regex.test(url);
 }
 
+/**
+ * Extract the YouTube video ID from any URL variant
+ * e.g. youtu.be/ID, youtube.com/watch?v=ID, /shorts/ID, /embed/ID, /live/ID
+ */
+export function extractYouTubeVideoId(url: string): string | null {
+    if (!isYouTubeDomain(url)) return null;
+
+    // youtu.be/ID
+    const shortMatch = url.match(/^https?:\/\/youtu\.be\/([\w-]{11})/i);
+    if (shortMatch?.[1]) return shortMatch[1];
+
+    // /shorts/ID, /embed/ID, /live/ID, /v/ID
+    const pathMatch = url.match(/\/(?:shorts|embed|live|v)\/([\w-]{11})/);
+    if (pathMatch?.[1]) return pathMatch[1];
+
+    // watch?v=ID (v may appear anywhere in the query)
+    const queryMatch = url.match(/[?&]v=([\w-]{11})/);
+    return queryMatch?.[1] ?? null;
+}
+
+/**
+ * Check if two URLs refer to the same YouTube video
+ * This handles short links, shorts, embeds and timestamped links (t=42).
+ */
+export function isSameYouTubeVideo(url1: string, url2: string): boolean {
+    const id1 = extractYouTubeVideoId(url1);
+    const id2 = extractYouTubeVideoId(url2);
+
+    if (id1 && id2) {
+        return id1 === id2;
+    }
+    return false;
+}
+
+/**
+ * Extract the start timestamp (in seconds) from a YouTube URL
+ * Supports t=/start= as plain seconds ("42", "42s") or "1h2m3s", in query or hash
+ */
+export function extractYouTubeTimestamp(url: string): number | null {
+    if (!isYouTubeDomain(url)) return null;
+
+    const match = url.match(/[?&#](?:t|start)=([\dhms]+)/i);
+    if (!match?.[1]) return null;
+
+    const value = match[1].toLowerCase();
+    if (/^\d+s?$/.test(value)) {
+        return parseInt(value, 10);
+    }
+
+    const parts = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+    if (!parts) return null;
+
+    const seconds = parseInt(parts[1] ?? '0', 10) * 3600
+        + parseInt(parts[2] ?? '0', 10) * 60
+        + parseInt(parts[3] ?? '0', 10);
+    return seconds > 0 ? seconds : null;
+}
+
+/**
+ * Format seconds as a video timestamp (e.g. 92 -> "1:32", 3723 -> "1:02:03")
+ */
+export function formatYouTubeTimestamp(seconds: number): string {
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = seconds % 60;
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+}
+
 /**
  * Extract YouTube channel name from note frontmatter
  * Uses configured property fields in priority order (first match wins)
@@ -45,6 +115,26 @@ export function extractYouTubeChannel(
 }
 
 
+/**
+ * YouTube: all YouTube domains are one site, videos are identified by id,
+ * notes grouped by channel (from frontmatter)
+ */
+export const youtubeMatcher: SiteMatcher = {
+    id: 'youtube',
+    name: 'YouTube',
+    faviconDomain: 'youtube.com',
+    sharedDomain: true,
+    matchesDomain: isYouTubeDomain,
+    extractId: extractYouTubeVideoId,
+    isEquivalent: isSameYouTubeVideo,
+    sectionLabel: 'YouTube channels',
+    groupLabel: 'YouTube channel',
+    getGroupKey: (_url, frontmatter, settings) =>
+        extractYouTubeChannel(frontmatter, settings.youtubeChannelPropertyFields || []),
+    getGroupUrl: (channel) => channel.startsWith('@') ? `https://www.youtube.com/${channel}` : null,
+    getGroupNoteNames: (channel) => [channel],
+};
+
 /**
  * Get all notes that link to YouTube, grouped by channel name
  * Channel name is extracted from frontmatter properties (not URL)
@@ -54,64 +144,5 @@ export function getAllYouTubeNotes(
     settings: WebSidecarSettings,
     urlIndex?: UrlIndex
 ): Map<string, MatchedNote[]> {
-    const channelMap = new Map<string, MatchedNote[]>();
-    const propertyFields = settings.youtubeChannelPropertyFields || [];
-
-    if (propertyFields.length === 0) return channelMap;
-
-    // Get all files with URLs
-    let filesToCheck: TFile[] | ReadonlyArray<TFile>;
-    if (urlIndex) {
-        filesToCheck = urlIndex.getAllFilesWithUrls();
-    } else {
-        filesToCheck = app.vault.getMarkdownFiles();
-    }
-
-    for (const file of filesToCheck) {
-        const cache = app.metadataCache.getFileCache(file);
-        const frontmatter = cache?.frontmatter;
-        if (!frontmatter) continue;
-
-        // Check each configured property field for a URL
-        for (const propName of settings.urlPropertyFields) {
-            const propValue = frontmatter[propName] as unknown;
-            if (!propValue) continue;
-
-            const values = Array.isArray(propValue) ? propValue : [propValue];
-
-            for (const val of values) {
-                if (typeof val !== 'string') continue;
-
-                // Fast check for YouTube
-                if (!isYouTubeDomain(val)) continue;
-
-                // Get channel name from frontmatter
-                const channel = extractYouTubeChannel(frontmatter, propertyFields);
-
-                if (!channel) continue;
-
-                if (!channelMap.has(channel)) {
-                    channelMap.set(channel, []);
-                }
-
-                // Avoid duplicates per channel
-                const existing = channelMap.get(channel)!;
-                if (!existing.some(m => m.file.path === file.path)) {
-                    existing.push({
-                        file,
-                        matchType: 'tld',
-                        url: val,
-                        propertyName: propName
-                    });
-                }
-            }
-        }
-    }
-
-    // Sort notes within each channel by recency
-    for (const notes of channelMap.values()) {
-        notes.sort((a, b) => b.file.stat.mtime - a.file.stat.mtime);
-    }
-
-    return channelMap;
+    return getAllSiteNotes(app, settings, youtubeMatcher, urlIndex);
 }
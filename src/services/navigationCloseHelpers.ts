@@ -87,7 +87,7 @@ export function closeLinkedNoteLeaves(
     callbacks: CloseCallbacks
 ): void {
     const matches = findMatchingNotes(app, url, settings, urlIndex);
-    const allMatches = [...matches.exactMatches, ...matches.tldMatches];
+    const allMatches = [...matches.exactMatches, ...(matches.sectionMatches ?? []), ...matches.tldMatches];
 
     if (matches.subredditMatches) {
         matches.subredditMatches.forEach(notes => allMatches.push(...notes));
@@ -22,17 +22,17 @@ export interface OpenPairedContext {
 
 /**
  * Open both web viewer AND note together (paired opening)
+ * With inNewWindow, only the note is opened, in a new popout window
  */
 export async function openPaired(
     ctx: OpenPairedContext,
     file: TFile,
     url: string,
-    e: MouseEvent
+    inNewWindow: boolean
 ): Promise<void> {
     const { app, getSettings, getOrCreateRightLeaf, triggerRefresh } = ctx;
 
-    // CMD/Ctrl + click = open in new popout window
-    if (e.metaKey || e.ctrlKey) {
+    if (inNewWindow) {
         const newWindow = app.workspace.openPopoutLeaf();
         await newWindow.openFile(file);
         return;
@@ -0,0 +1,135 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { App, TAbstractFile, TFile, TFolder } from 'obsidian';
+import { DEFAULT_SETTINGS, NoteRoutingRule, WebSidecarSettings } from '../types';
+import {
+    getAvailableNotePath,
+    resolveNoteFileName,
+    resolveNotePath,
+    sanitizeFileName,
+    truncateFileName,
+} from './noteFileNames';
+
+/**
+ * App whose vault holds the given notes and folders
+ */
+function vaultWith(files: string[], folders: string[] = []): App {
+    const entries = new Map<string, TAbstractFile>();
+    for (const path of files) entries.set(path, Object.assign(new TFile(), { path }));
+    for (const path of folders) entries.set(path, Object.assign(new TFolder(), { path }));
+    return { vault: { getAbstractFileByPath: (path: string) => entries.get(path) ?? null } } as unknown as App;
+}
+
+function settingsWith(overrides: Partial<WebSidecarSettings>): WebSidecarSettings {
+    return { ...DEFAULT_SETTINGS, ...overrides };
+}
+
+function rule(fileNamePattern: string): NoteRoutingRule {
+    return { pattern: 'example.com', folder: '', fileNamePattern, tags: [], properties: {} };
+}
+
+describe('sanitizeFileName', () => {
+    it('replaces characters not allowed in file names or links', () => {
+        assert.equal(sanitizeFileName('What is 1/2: a [guide]?'), 'What is 1 2 a guide');
+        assert.equal(sanitizeFileName('a#b^c|d'), 'a b c d');
+    });
+
+    it('removes control and invisible characters', () => {
+        assert.equal(sanitizeFileName('Tab\there\u200b\u202eand\u0085 more'), 'Tabhereand more');
+    });
+
+    it('trims dots and spaces', () => {
+        assert.equal(sanitizeFileName('  ..Hidden name.. '), 'Hidden name');
+    });
+
+    it('renames names reserved on Windows', () => {
+        assert.equal(sanitizeFileName('CON'), 'CON_');
+        assert.equal(sanitizeFileName('lpt1.txt'), 'lpt1.txt_');
+        assert.equal(sanitizeFileName('Console'), 'Console');
+    });
+
+    it('normalizes Unicode to NFC', () => {
+        assert.equal(sanitizeFileName('Cafe\u0301'), 'Caf\u00e9');
+    });
+});
+
+describe('truncateFileName', () => {
+    it('cuts between words when little is lost', () => {
+        assert.equal(truncateFileName('A fairly long title for a note', 20), 'A fairly long title');
+    });
+
+    it('cuts inside a word rather than losing much', () => {
+        assert.equal(truncateFileName('Supercalifragilistic word', 10), 'Supercalif');
+    });
+
+    it('does not split surrogate pairs', () => {
+        assert.equal(truncateFileName('😀😀😀', 2), '😀😀');
+    });
+
+    it('keeps names within the limit, or any length without one', () => {
+        assert.equal(truncateFileName('Short', 10), 'Short');
+        assert.equal(truncateFileName('No limit here', 0), 'No limit here');
+    });
+});
+
+describe('resolveNoteFileName', () => {
+    const url = 'https://example.com/posts/hello';
+
+    it('uses the file name template', () => {
+        const settings = settingsWith({ noteFileNameTemplate: '{{domain}} - {{title}}' });
+        assert.equal(resolveNoteFileName(settings, null, url, 'Hello: world'), 'example.com - Hello world');
+    });
+
+    it('prefers the pattern of the routing rule', () => {
+        const settings = settingsWith({ noteFileNameTemplate: '{{domain}} - {{title}}' });
+        assert.equal(resolveNoteFileName(settings, rule('Clip {{title}}'), url, 'Hello'), 'Clip Hello');
+    });
+
+    it('falls back to the title, then to a placeholder', () => {
+        assert.equal(resolveNoteFileName(settingsWith({ noteFileNameTemplate: '???' }), null, url, 'Hello'), 'Hello');
+        assert.equal(resolveNoteFileName(settingsWith({ noteFileNameTemplate: '' }), null, url, '///'), 'Untitled');
+    });
+
+    it('applies the length limit', () => {
+        const settings = settingsWith({ noteFileNameTemplate: '{{title}}', noteFileNameMaxLength: 5 });
+        assert.equal(resolveNoteFileName(settings, null, url, 'Hello world'), 'Hello');
+    });
+});
+
+describe('note path collisions', () => {
+    it('numbers the name until it is free', () => {
+        const app = vaultWith(['Inbox/Note.md', 'Inbox/Note 1.md']);
+        assert.equal(getAvailableNotePath(app, 'Inbox', 'Note'), 'Inbox/Note 2.md');
+        assert.equal(getAvailableNotePath(app, '', 'Note'), 'Note.md');
+    });
+
+    it('creates the note when the name is free', async () => {
+        const resolution = await resolveNotePath(vaultWith([]), settingsWith({}), 'Inbox', 'Note');
+        assert.deepEqual(resolution, { type: 'create', path: 'Inbox/Note.md' });
+    });
+
+    it('adds a number with the suffix strategy', async () => {
+        const settings = settingsWith({ noteFileNameCollision: 'suffix' });
+        const resolution = await resolveNotePath(vaultWith(['Inbox/Note.md']), settings, 'Inbox', 'Note');
+        assert.deepEqual(resolution, { type: 'create', path: 'Inbox/Note 1.md' });
+    });
+
+    it('returns the existing note with the open existing strategy', async () => {
+        const settings = settingsWith({ noteFileNameCollision: 'open-existing' });
+        const resolution = await resolveNotePath(vaultWith(['Inbox/Note.md']), settings, 'Inbox', 'Note');
+        assert.equal(resolution?.type, 'existing');
+        assert.equal(resolution?.type === 'existing' ? resolution.file.path : null, 'Inbox/Note.md');
+    });
+
+    it('numbers the name when a folder takes the path', async () => {
+        const settings = settingsWith({ noteFileNameCollision: 'open-existing' });
+        const resolution = await resolveNotePath(vaultWith([], ['Inbox/Note.md']), settings, 'Inbox', 'Note');
+        assert.deepEqual(resolution, { type: 'create', path: 'Inbox/Note 1.md' });
+    });
+});
@@ -0,0 +1,122 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { App, TFile, normalizePath } from 'obsidian';
+import type { NoteRoutingRule, WebSidecarSettings } from '../types';
+import { FileNameCollisionModal } from '../modals/fileNameCollisionModal';
+import { renderNoteTemplate } from './noteTemplates';
+
+/** File name used when a pattern renders to nothing usable */
+const FALLBACK_FILE_NAME = 'Untitled';
+
+/** Characters not allowed in file names on some platforms, or breaking Obsidian links */
+const INVALID_CHARS_REGEX = /[\\/:*?"<>|#^[\]]/g;
+
+/** Zero-width and bidirectional formatting characters (control characters are removed separately) */
+const INVISIBLE_CHARS_REGEX = /[\u00ad\u200b-\u200f\u202a-\u202e\u2060-\u2064\ufeff]/g;
+
+/** Names reserved by Windows, with or without extension */
+const RESERVED_NAMES_REGEX = /^(con|prn|aux|nul|com\d|lpt\d)(\..*)?$/i;
+
+/**
+ * Make a string safe as a file name on all platforms: Unicode NFC, no invisible
+ * or reserved characters, no leading/trailing dots or spaces, no reserved names
+ */
+export function sanitizeFileName(name: string): string {
+    const sanitized = Array.from(name.normalize('NFC'))
+        .filter(char => !isControlChar(char))
+        .join('')
+        .replace(INVISIBLE_CHARS_REGEX, '')
+        .replace(INVALID_CHARS_REGEX, ' ')
+        .replace(/\s+/g, ' ')
+        .replace(/^[\s.]+|[\s.]+$/g, '');
+    return RESERVED_NAMES_REGEX.test(sanitized) ? `${sanitized}_` : sanitized;
+}
+
+/**
+ * Whether a character is a C0 or C1 control character
+ */
+function isControlChar(char: string): boolean {
+    const code = char.charCodeAt(0);
+    return code < 0x20 || (code >= 0x7f && code <= 0x9f);
+}
+
+/**
+ * Shorten a file name to a number of characters without splitting
+ * surrogate pairs, preferring to cut between words
+ */
+export function truncateFileName(name: string, maxLength: number): string {
+    const chars = Array.from(name);
+    if (maxLength <= 0 || chars.length <= maxLength) return name;
+
+    const cut = chars.slice(0, maxLength).join('');
+    const wordBoundary = cut.lastIndexOf(' ');
+    // Only drop a partial word when little is lost
+    const truncated = wordBoundary > cut.length * 0.8 ? cut.slice(0, wordBoundary) : cut;
+    return truncated.replace(/[\s.,;\-–—]+$/, '');
+}
+
+/**
+ * File name (without extension) of a new note: the routing rule's pattern, else the
+ * file name template, with its {{variables}} filled in, sanitized and truncated
+ */
+export function resolveNoteFileName(settings: WebSidecarSettings, rule: NoteRoutingRule | null, url: string, title: string): string {
+    const pattern = rule?.fileNamePattern.trim() || settings.noteFileNameTemplate.trim() || '{{title}}';
+    const rendered = sanitizeFileName(renderNoteTemplate(pattern, { url, title }));
+    const name = rendered || sanitizeFileName(title);
+    return truncateFileName(name, settings.noteFileNameMaxLength) || FALLBACK_FILE_NAME;
+}
+
+/**
+ * First free path for a note in a folder, adding " 1", " 2", ... to the name if taken
+ */
+export function getAvailableNotePath(app: App, folder: string, baseName: string): string {
+    const pathFor = (name: string) => normalizePath(folder ? `${folder}/${name}.md` : `${name}.md`);
+
+    let path = pathFor(baseName);
+    for (let i = 1; app.vault.getAbstractFileByPath(path); i++) {
+        path = pathFor(`${baseName} ${i}`);
+    }
+    return path;
+}
+
+/**
+ * Where to create a note, or the existing note to open instead
+ */
+export type NotePathResolution =
+    | { type: 'create'; path: string }
+    | { type: 'existing'; file: TFile };
+
+/**
+ * Resolve the path of a new note, applying the collision strategy when a note
+ * with the same name exists. Returns null if the user cancelled.
+ */
+export async function resolveNotePath(
+    app: App,
+    settings: WebSidecarSettings,
+    folder: string,
+    baseName: string
+): Promise<NotePathResolution | null> {
+    const path = normalizePath(folder ? `${folder}/${baseName}.md` : `${baseName}.md`);
+    const existing = app.vault.getAbstractFileByPath(path);
+    if (!(existing instanceof TFile)) {
+        // A folder with the note's name also takes the path
+        return { type: 'create', path: existing ? getAvailableNotePath(app, folder, baseName) : path };
+    }
+
+    let strategy = settings.noteFileNameCollision;
+    if (strategy === 'prompt') {
+        const choice = await new Promise<'open-existing' | 'suffix' | null>(resolve => {
+            new FileNameCollisionModal(app, existing, resolve).open();
+        });
+        if (!choice) return null;
+        strategy = choice;
+    }
+
+    return strategy === 'open-existing'
+        ? { type: 'existing', file: existing }
+        : { type: 'create', path: getAvailableNotePath(app, folder, baseName) };
+}
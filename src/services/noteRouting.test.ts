@@ -0,0 +1,103 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { App, TFile } from 'obsidian';
+import { DEFAULT_SETTINGS, NoteRoutingRule, WebSidecarSettings } from '../types';
+import { applyRoutingFrontmatter, findNoteRoutingRule, matchesUrlPattern, resolveRoutedFolder } from './noteRouting';
+
+function rule(pattern: string, overrides: Partial<NoteRoutingRule> = {}): NoteRoutingRule {
+    return { pattern, folder: '', fileNamePattern: '', tags: [], properties: {}, ...overrides };
+}
+
+function settingsWith(rules: NoteRoutingRule[]): WebSidecarSettings {
+    return { ...DEFAULT_SETTINGS, noteRoutingRules: rules };
+}
+
+/**
+ * Apply a rule to a note with the given frontmatter and return the result
+ */
+async function applyTo(frontmatter: Record<string, unknown>, routingRule: NoteRoutingRule): Promise<Record<string, unknown>> {
+    const app = {
+        fileManager: {
+            processFrontMatter: async (_file: TFile, fn: (frontmatter: Record<string, unknown>) => void) => fn(frontmatter),
+        },
+    } as unknown as App;
+    await applyRoutingFrontmatter(app, new TFile(), routingRule);
+    return frontmatter;
+}
+
+describe('matchesUrlPattern', () => {
+    it('matches a domain and its subdomains', () => {
+        assert.equal(matchesUrlPattern('https://www.youtube.com/watch?v=1', 'youtube.com'), true);
+        assert.equal(matchesUrlPattern('https://music.youtube.com/', 'youtube.com'), true);
+        assert.equal(matchesUrlPattern('https://notyoutube.com/', 'youtube.com'), false);
+    });
+
+    it('matches a path and everything below it', () => {
+        assert.equal(matchesUrlPattern('https://github.com/obsidianmd', 'github.com/obsidianmd'), true);
+        assert.equal(matchesUrlPattern('https://github.com/obsidianmd/obsidian-api/issues', 'https://github.com/obsidianmd/'), true);
+        assert.equal(matchesUrlPattern('https://github.com/obsidianmd?tab=repositories', 'github.com/obsidianmd'), true);
+        assert.equal(matchesUrlPattern('https://github.com/obsidianmd-fork', 'github.com/obsidianmd'), false);
+    });
+
+    it('matches paths of URLs without a scheme', () => {
+        assert.equal(matchesUrlPattern('github.com/obsidianmd/obsidian-api', 'github.com/obsidianmd'), true);
+        assert.equal(matchesUrlPattern('www.github.com/other', 'github.com/obsidianmd'), false);
+    });
+
+    it('supports * wildcards', () => {
+        assert.equal(matchesUrlPattern('https://github.com/org/repo/issues/12', 'github.com/*/issues'), true);
+        assert.equal(matchesUrlPattern('https://github.com/org/repo/pulls', 'github.com/*/issues'), false);
+        assert.equal(matchesUrlPattern('https://docs.example.com/guide', '*.example.com/guide'), true);
+    });
+
+    it('ignores case and special characters of the pattern', () => {
+        assert.equal(matchesUrlPattern('https://example.com/Docs/a+b', 'EXAMPLE.com/docs/a+b'), true);
+        assert.equal(matchesUrlPattern('https://example.com/docsXa', 'example.com/docs.a'), false);
+    });
+
+    it('matches nothing with an empty pattern or an invalid URL', () => {
+        assert.equal(matchesUrlPattern('https://example.com/', '  '), false);
+        assert.equal(matchesUrlPattern('', 'example.com'), false);
+    });
+});
+
+describe('note routing', () => {
+    it('uses the first matching rule', () => {
+        const rules = [rule('github.com/obsidianmd', { folder: 'Obsidian' }), rule('github.com', { folder: 'GitHub' })];
+
+        assert.equal(findNoteRoutingRule(settingsWith(rules), 'https://github.com/obsidianmd/obsidian-api')?.folder, 'Obsidian');
+        assert.equal(findNoteRoutingRule(settingsWith(rules), 'https://github.com/other')?.folder, 'GitHub');
+        assert.equal(findNoteRoutingRule(settingsWith(rules), 'https://example.com/'), null);
+    });
+
+    it('fills in the folder variables', () => {
+        const routingRule = rule('example.com', { folder: 'Web/{{domain}}/{{title}}/' });
+        assert.equal(resolveRoutedFolder(routingRule, 'https://www.example.com/a', 'Page', 'Inbox'), 'Web/example.com/Page');
+    });
+
+    it('sanitizes the title in the folder', () => {
+        const routingRule = rule('example.com', { folder: 'Clips/{{title}}' });
+        assert.equal(resolveRoutedFolder(routingRule, 'https://example.com/a', 'A/B: why?', 'Inbox'), 'Clips/A B why');
+    });
+
+    it('falls back to the default folder', () => {
+        assert.equal(resolveRoutedFolder(null, 'https://example.com/a', 'Page', 'Inbox'), 'Inbox');
+        assert.equal(resolveRoutedFolder(rule('example.com'), 'https://example.com/a', 'Page', 'Inbox'), 'Inbox');
+        assert.equal(resolveRoutedFolder(rule('example.com', { folder: '/' }), 'https://example.com/a', 'Page', 'Inbox'), '');
+    });
+
+    it('merges tags and adds missing properties', async () => {
+        const frontmatter = await applyTo(
+            { tags: 'reading web', status: 'done', source: '' },
+            rule('example.com', { tags: ['#web', 'clip'], properties: { status: 'inbox', source: 'example', ' ': 'x' } })
+        );
+
+        assert.deepEqual(frontmatter, { tags: ['reading', 'web', 'clip'], status: 'done', source: 'example' });
+    });
+});
@@ -0,0 +1,86 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { App, TFile, normalizePath } from 'obsidian';
+import type { NoteRoutingRule, WebSidecarSettings } from '../types';
+import { sanitizeFileName } from './noteFileNames';
+import { renderNoteTemplate } from './noteTemplates';
+import { extractDomain, matchesDomain } from './urlUtils';
+
+/**
+ * Whether a URL matches a routing rule pattern: a domain (subdomains included),
+ * or a host and path pattern where * matches any characters
+ * ("github.com/obsidianmd" matches the page and everything below it)
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+    const trimmed = pattern.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '');
+    if (!trimmed) return false;
+
+    const host = extractDomain(url);
+    if (!host) return false;
+    if (!trimmed.includes('/')) return matchesDomain(host, trimmed);
+
+    let path = '';
+    try {
+        const parsed = new URL(/^https?:\/\//i.test(url) ? url : `https://${url}`);
+        path = parsed.pathname + parsed.search;
+    } catch {
+        return false;
+    }
+
+    const source = trimmed.replace(/\/$/, '')
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+    return new RegExp(`^${source}(?:[/?#].*)?$`).test(host + path.toLowerCase());
+}
+
+/**
+ * First routing rule matching a URL, in the configured order
+ */
+export function findNoteRoutingRule(settings: WebSidecarSettings, url: string): NoteRoutingRule | null {
+    return settings.noteRoutingRules.find(rule => matchesUrlPattern(url, rule.pattern)) ?? null;
+}
+
+/**
+ * Folder for a new note: the rule's folder with its {{variables}} filled in, else the default folder.
+ * The title is sanitized like a file name, so its slashes do not create nested folders.
+ */
+export function resolveRoutedFolder(rule: NoteRoutingRule | null, url: string, title: string, defaultFolder: string): string {
+    const folder = rule?.folder.trim() ? renderNoteTemplate(rule.folder, { url, title: sanitizeFileName(title) }).trim() : '';
+    if (!folder) return defaultFolder;
+    return normalizePath(folder) === '/' ? '' : normalizePath(folder);
+}
+
+/**
+ * Add a rule's tags (merged with the note's) and properties (unless already set) to a created note
+ */
+export async function applyRoutingFrontmatter(app: App, file: TFile, rule: NoteRoutingRule | null): Promise<void> {
+    if (!rule) return;
+    const tags = rule.tags.map(tag => tag.trim().replace(/^#/, '')).filter(tag => tag.length > 0);
+    const properties = Object.entries(rule.properties).filter(([key]) => key.trim().length > 0);
+    if (tags.length === 0 && properties.length === 0) return;
+
+    try {
+        await app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+            if (tags.length > 0) {
+                const existing: unknown = frontmatter.tags;
+                const current = Array.isArray(existing)
+                    ? existing.map(String)
+                    : typeof existing === 'string' ? existing.split(/[,\s]+/).filter(Boolean) : [];
+                frontmatter.tags = Array.from(new Set([...current, ...tags]));
+            }
+            for (const [key, value] of properties) {
+                const current = frontmatter[key.trim()];
+                if (current === undefined || current === null || current === '') {
+                    frontmatter[key.trim()] = value;
+                }
+            }
+        });
+    } catch (error) {
+        console.error('Web Sidecar: Failed to apply routing rule properties:', error);
+    }
+}
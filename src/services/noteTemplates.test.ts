@@ -0,0 +1,125 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getFrontMatterInfo, parseYaml } from 'obsidian';
+import { DEFAULT_SETTINGS, type NoteTemplateData, type WebSidecarSettings } from '../types';
+import { addFrontmatterProperties, ensureUrlProperty, renderNoteTemplate, resolveNoteTemplatePath } from './noteTemplates';
+
+const DATA: NoteTemplateData = {
+    url: 'https://example.com/post',
+    title: 'Foo: "bar"',
+    author: 'Ann O\'Neil',
+    published: '2024-05-06',
+};
+
+function settingsWith(overrides: Partial<WebSidecarSettings> = {}): WebSidecarSettings {
+    return { ...DEFAULT_SETTINGS, ...overrides };
+}
+
+function frontmatterOf(content: string): unknown {
+    return parseYaml(getFrontMatterInfo(content).frontmatter);
+}
+
+describe('renderNoteTemplate', () => {
+    it('quotes a value mixing text and variables as a whole', () => {
+        const rendered = renderNoteTemplate('---\ntitle: {{author}} - {{title}}\n---\n', DATA);
+        assert.equal(rendered, '---\ntitle: "Ann O\'Neil - Foo: \\"bar\\""\n---\n');
+        assert.deepEqual(frontmatterOf(rendered), { title: 'Ann O\'Neil - Foo: "bar"' });
+    });
+
+    it('quotes values and list items that are a single variable', () => {
+        const rendered = renderNoteTemplate('---\nsource: {{url}}\naliases:\n  - {{title}}\n---\n', DATA);
+        assert.equal(rendered, '---\nsource: "https://example.com/post"\naliases:\n  - "Foo: \\"bar\\""\n---\n');
+    });
+
+    it('escapes variables inside quoted strings and flow collections', () => {
+        const template = [
+            '---',
+            'double: "{{title}} (draft)"',
+            'single: \'By {{author}}\'',
+            'tags: [{{domain}}, web]',
+            '---',
+            '',
+        ].join('\n');
+        assert.deepEqual(frontmatterOf(renderNoteTemplate(template, DATA)), {
+            double: 'Foo: "bar" (draft)',
+            single: 'By Ann O\'Neil',
+            tags: ['example.com', 'web'],
+        });
+    });
+
+    it('leaves dates plain so they keep their property type', () => {
+        const rendered = renderNoteTemplate('---\ncreated: {{date:YYYY}}\npublished: {{published}}\n---\n', DATA);
+        assert.equal(rendered, `---\ncreated: ${new Date().getFullYear()}\npublished: 2024-05-06\n---\n`);
+    });
+
+    it('keeps empty values and unknown variables as they are', () => {
+        const rendered = renderNoteTemplate('---\nauthor: {{selection}}\nother: {{unknown}} text\n---\n', DATA);
+        assert.equal(rendered, '---\nauthor: \nother: {{unknown}} text\n---\n');
+    });
+
+    it('fills the body without quoting', () => {
+        assert.equal(
+            renderNoteTemplate('# {{title}}\n\n{{content}}\n\n{{unknown}}\n\n', { ...DATA, content: '  Text  ' }),
+            '# Foo: "bar"\n\nText\n\n{{unknown}}\n'
+        );
+    });
+});
+
+describe('ensureUrlProperty', () => {
+    const settings = settingsWith();
+
+    it('keeps notes that already link to a URL', () => {
+        const content = '---\nurl: https://example.com/other\n---\nBody\n';
+        assert.equal(ensureUrlProperty(content, DATA.url, settings), content);
+    });
+
+    it('adds the primary URL property otherwise', () => {
+        assert.equal(ensureUrlProperty('---\ntitle: A\n---\nBody\n', DATA.url, settings), '---\ntitle: A\nsource: https://example.com/post\n---\nBody\n');
+        assert.equal(ensureUrlProperty('Body\n', DATA.url, settings), '---\nsource: https://example.com/post\n---\n\nBody\n');
+    });
+
+    it('returns null for invalid frontmatter', () => {
+        assert.equal(ensureUrlProperty('---\ntitle: [unclosed\n---\n', DATA.url, settings), null);
+    });
+});
+
+describe('addFrontmatterProperties', () => {
+    it('adds only the missing properties', () => {
+        assert.equal(
+            addFrontmatterProperties('---\nauthor: Ann\n---\nBody', { author: 'Bob', site: 'Example', words: 120 }),
+            '---\nauthor: Ann\nsite: Example\nwords: 120\n---\nBody'
+        );
+    });
+
+    it('leaves notes unchanged without new properties or with invalid frontmatter', () => {
+        assert.equal(addFrontmatterProperties('Body', {}), 'Body');
+        assert.equal(addFrontmatterProperties('---\nauthor: Ann\n---\nBody', { author: 'Bob' }), '---\nauthor: Ann\n---\nBody');
+        assert.equal(addFrontmatterProperties('---\na: [b\n---\nBody', { author: 'Bob' }), '---\na: [b\n---\nBody');
+    });
+});
+
+describe('resolveNoteTemplatePath', () => {
+    const settings = settingsWith({
+        noteTemplatePath: ' Templates/Web.md ',
+        noteTemplateRules: [
+            { domain: 'other.com', templatePath: '  ' },
+            { domain: 'example.com', templatePath: ' Templates/Example.md ' },
+        ],
+    });
+
+    it('uses the first matching domain rule with a template', () => {
+        assert.equal(resolveNoteTemplatePath(settings, 'https://docs.example.com/a'), 'Templates/Example.md');
+    });
+
+    it('falls back to the default template', () => {
+        assert.equal(resolveNoteTemplatePath(settings, 'https://other.com/a'), 'Templates/Web.md');
+        assert.equal(resolveNoteTemplatePath(settings, 'not a url'), 'Templates/Web.md');
+        assert.equal(resolveNoteTemplatePath(settingsWith(), 'https://example.com/'), '');
+    });
+});
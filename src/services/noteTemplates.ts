@@ -0,0 +1,322 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { App, Notice, TFile, TFolder, getFrontMatterInfo, moment, normalizePath, parseYaml, stringifyYaml } from 'obsidian';
+import type { CapturedPage, NoteTemplateData, PageMetadataField, WebSidecarSettings } from '../types';
+import { formatCapturedSection, getCaptureProperties, getCapturedSection } from './capturedSection';
+import { extractDomain, matchesDomain } from './urlUtils';
+
+/** Format used by {{date}} without an explicit format */
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+
+/** {{name}} or {{name:format}} */
+const VARIABLE_REGEX = /\{\{\s*(\w+)\s*(?::([^}]*))?\}\}/g;
+
+/** Dates and times left unquoted in the frontmatter, so they keep their property type */
+const PLAIN_DATE_REGEX = /^\d[\d\-/:.T+Z]*$/;
+
+/** Frontmatter line: indent, list bullets and key, then the value */
+const YAML_LINE_REGEX = /^(\s*(?:-\s+)*(?:[^\s#'"{[-][^:#{]*:(?:\s+|$))?)(.*)$/;
+
+/**
+ * Built-in template: URL property, title heading and captured content
+ */
+export function getDefaultNoteTemplate(settings: WebSidecarSettings): string {
+    return [
+        '---',
+        `${settings.primaryUrlProperty}: {{url}}`,
+        '---',
+        '',
+        '# {{title}}',
+        '',
+        '{{content}}',
+        '',
+    ].join('\n');
+}
+
+/**
+ * Replace template variables:
+ * {{url}}, {{title}}, {{domain}}, {{date:YYYY-MM-DD}}, {{content}}, {{selection}}, {{author}}, {{published}}.
+ * {{published:FORMAT}} reformats the publication date when it can be parsed.
+ * Frontmatter values are YAML-quoted (values mixing text and variables as a whole),
+ * so titles like "Foo: bar" keep it valid.
+ * Unknown variables are left untouched (e.g. for other template plugins).
+ */
+export function renderNoteTemplate(template: string, data: NoteTemplateData): string {
+    const now = moment();
+    const frontmatter = getFrontMatterInfo(template);
+    if (!frontmatter.exists) return renderVariables(template, data, now).trimEnd() + '\n';
+
+    const yaml = template.slice(frontmatter.from, frontmatter.to)
+        .split('\n')
+        .map(line => renderYamlLine(line, data, now))
+        .join('\n');
+    const rendered = template.slice(0, frontmatter.from) + yaml + renderVariables(template.slice(frontmatter.to), data, now);
+    return rendered.trimEnd() + '\n';
+}
+
+/**
+ * Value of a template variable (null for unknown variables)
+ */
+function resolveVariable(name: string, format: string | undefined, data: NoteTemplateData, now: moment.Moment): string | null {
+    switch (name.toLowerCase()) {
+        case 'url':
+            return data.url;
+        case 'title':
+            return data.title;
+        case 'domain':
+            return extractDomain(data.url) ?? '';
+        case 'date':
+            return now.format(format?.trim() || DEFAULT_DATE_FORMAT);
+        case 'content':
+            return data.content?.trim() ?? '';
+        case 'selection':
+            return data.selection ?? '';
+        case 'author':
+            return data.author ?? '';
+        case 'published':
+            return formatPublished(data.published, format);
+        default:
+            return null;
+    }
+}
+
+function renderVariables(text: string, data: NoteTemplateData, now: moment.Moment): string {
+    return text.replace(VARIABLE_REGEX, (match, name: string, format: string | undefined) =>
+        resolveVariable(name, format, data, now) ?? match);
+}
+
+/**
+ * Fill in the variables of a frontmatter line. A value mixing text and variables
+ * is rendered first and quoted as a whole; a value that is a single variable, or
+ * already quoted or a flow collection, gets each variable quoted or escaped in place.
+ */
+function renderYamlLine(line: string, data: NoteTemplateData, now: moment.Moment): string {
+    const [, prefix = '', rest = ''] = YAML_LINE_REGEX.exec(line) ?? [];
+    const value = rest.trimEnd();
+    const variables = Array.from(value.matchAll(VARIABLE_REGEX));
+    if (!variables.some(([, name = '', format]) => resolveVariable(name, format, data, now) !== null)) return line;
+
+    if ((variables.length === 1 && variables[0]?.[0] === value) || /^(?:["'[|>]|\{(?!\{))/.test(value)) {
+        return line.replace(VARIABLE_REGEX, (match, name: string, format: string | undefined, offset: number) => {
+            const resolved = resolveVariable(name, format, data, now);
+            if (resolved === null) return match;
+            const allowPlain = PLAIN_DATE_REGEX.test(resolved) && ['date', 'published'].includes(name.toLowerCase());
+            return toYamlValue(resolved, line.slice(0, offset), allowPlain);
+        });
+    }
+
+    return prefix + JSON.stringify(renderVariables(value, data, now));
+}
+
+/**
+ * Write a value into a YAML line: escaped if the line already opened a quoted string,
+ * otherwise double-quoted (dates may stay plain)
+ */
+function toYamlValue(value: string, linePrefix: string, allowPlain: boolean): string {
+    let quote: '"' | '\'' | null = null;
+    for (let i = 0; i < linePrefix.length; i++) {
+        const char = linePrefix[i];
+        if (quote === '"' && char === '\\') {
+            i++;
+        } else if (quote === null && (char === '"' || char === '\'')) {
+            quote = char;
+        } else if (char === quote) {
+            quote = null;
+        }
+    }
+
+    if (quote === '"') return JSON.stringify(value).slice(1, -1);
+    if (quote === '\'') return value.replace(/'/g, "''");
+    if (value === '' || allowPlain) return value;
+    return JSON.stringify(value);
+}
+
+/**
+ * Make sure a rendered note links to its URL: templates without one of the
+ * URL properties get the primary URL property added to their frontmatter
+ * @returns The content, or null if its frontmatter is not valid YAML (the note could not be linked)
+ */
+export function ensureUrlProperty(content: string, url: string, settings: WebSidecarSettings): string | null {
+    const frontmatter = readFrontmatter(content);
+    if (!frontmatter) return null;
+    if (settings.urlPropertyFields.some(field => !!frontmatter[field])) {
+        return content;
+    }
+    return addFrontmatterProperties(content, { [settings.primaryUrlProperty]: url });
+}
+
+/**
+ * Frontmatter properties for the page metadata found when capturing,
+ * keyed by the configured property names (empty when disabled)
+ */
+export function getPageMetadataProperties(page: CapturedPage | null, settings: WebSidecarSettings): Record<string, string | number> {
+    const properties: Record<string, string | number> = {};
+    if (!page || !settings.savePageMetadata) return properties;
+
+    for (const [field, property] of Object.entries(settings.pageMetadataProperties) as [PageMetadataField, string][]) {
+        const value = page[field];
+        if (property.trim() && value !== undefined && value !== '') {
+            properties[property.trim()] = value;
+        }
+    }
+    return properties;
+}
+
+/**
+ * Add properties to a note's frontmatter (creating it if needed).
+ * Properties already set by the note, e.g. by its template, are kept.
+ */
+export function addFrontmatterProperties(content: string, properties: Record<string, string | number>): string {
+    const info = getFrontMatterInfo(content);
+
+    if (!info.exists) {
+        return Object.keys(properties).length > 0
+            ? `---\n${stringifyYaml(properties)}---\n\n${content}`
+            : content;
+    }
+
+    const frontmatter = readFrontmatter(content);
+    // Leave invalid frontmatter as the template wrote it
+    if (!frontmatter) return content;
+
+    const missing = Object.fromEntries(Object.entries(properties)
+        .filter(([key]) => frontmatter[key] === undefined || frontmatter[key] === null || frontmatter[key] === ''));
+    if (Object.keys(missing).length === 0) return content;
+
+    const separator = info.to > 0 && content[info.to - 1] !== '\n' ? '\n' : '';
+    return content.slice(0, info.to) + separator + stringifyYaml(missing) + content.slice(info.to);
+}
+
+/**
+ * Parse a note's frontmatter (empty object without frontmatter, null if invalid)
+ */
+function readFrontmatter(content: string): Record<string, unknown> | null {
+    const info = getFrontMatterInfo(content);
+    if (!info.exists) return {};
+
+    try {
+        return (parseYaml(info.frontmatter) as Record<string, unknown> | null) ?? {};
+    } catch (error) {
+        console.warn('Web Sidecar: Template frontmatter is not valid YAML:', error);
+        return null;
+    }
+}
+
+/**
+ * Render the note for a URL from a template file (empty path: built-in template),
+ * with the captured page metadata added to its frontmatter.
+ * Page content fills {{content}} as the managed "## Captured" section, and the
+ * capture properties are added when the note has that section, so a re-capture replaces it.
+ * Shared by direct note creation and the create note dialog.
+ * @returns The note content, or null (with a notice) if the template frontmatter is invalid
+ */
+export async function buildNoteContent(
+    app: App,
+    settings: WebSidecarSettings,
+    templatePath: string,
+    data: NoteTemplateData,
+    page: CapturedPage | null = null
+): Promise<string | null> {
+    const template = await loadNoteTemplate(app, settings, templatePath);
+    const section = data.content?.trim() ? formatCapturedSection(data.content) : undefined;
+    const content = ensureUrlProperty(renderNoteTemplate(template, { ...data, content: section }), data.url, settings);
+    if (content === null) {
+        new Notice(`Note not created: the frontmatter of the template ${templatePath || '(built-in)'} is not valid YAML`);
+        return null;
+    }
+    const captureProperties = section && page?.content && getCapturedSection(content) !== null
+        ? await getCaptureProperties(page.content)
+        : {};
+    return addFrontmatterProperties(content, { ...getPageMetadataProperties(page, settings), ...captureProperties });
+}
+
+/**
+ * Template path for a URL: the first matching domain rule, else the default template
+ * (empty for the built-in template)
+ */
+export function resolveNoteTemplatePath(settings: WebSidecarSettings, url: string): string {
+    const host = extractDomain(url);
+    const rule = host
+        ? settings.noteTemplateRules.find(r => r.templatePath.trim() && matchesDomain(host, r.domain))
+        : undefined;
+    return (rule?.templatePath ?? settings.noteTemplatePath).trim();
+}
+
+/**
+ * Read a template file (the ".md" extension is optional).
+ * Falls back to the built-in template if the path is empty or the file is missing.
+ */
+export async function loadNoteTemplate(app: App, settings: WebSidecarSettings, path: string): Promise<string> {
+    if (!path) return getDefaultNoteTemplate(settings);
+
+    const file = getNoteTemplateFile(app, path);
+    if (!file) {
+        console.warn(`Web Sidecar: Note template not found: ${path}`);
+        return getDefaultNoteTemplate(settings);
+    }
+
+    try {
+        return await app.vault.cachedRead(file);
+    } catch (error) {
+        console.error('Web Sidecar: Failed to read note template:', error);
+        return getDefaultNoteTemplate(settings);
+    }
+}
+
+/**
+ * Templates offered in the create note dialog: the template folder
+ * plus the default and per-domain templates, sorted by path
+ */
+export function getNoteTemplateFiles(app: App, settings: WebSidecarSettings): TFile[] {
+    const files = new Map<string, TFile>();
+
+    const folderPath = settings.noteTemplateFolder.trim();
+    const folder = folderPath ? app.vault.getAbstractFileByPath(normalizePath(folderPath)) : null;
+    if (folder instanceof TFolder) {
+        collectMarkdownFiles(folder, files);
+    }
+
+    for (const path of [settings.noteTemplatePath, ...settings.noteTemplateRules.map(r => r.templatePath)]) {
+        const file = path.trim() ? getNoteTemplateFile(app, path.trim()) : null;
+        if (file) files.set(file.path, file);
+    }
+
+    return Array.from(files.values()).sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Find a template file by path (the ".md" extension is optional)
+ */
+export function getNoteTemplateFile(app: App, path: string): TFile | null {
+    const normalized = normalizePath(path);
+    for (const candidate of [normalized, `${normalized}.md`]) {
+        const file = app.vault.getAbstractFileByPath(candidate);
+        if (file instanceof TFile) return file;
+    }
+    return null;
+}
+
+function collectMarkdownFiles(folder: TFolder, files: Map<string, TFile>): void {
+    for (const child of folder.children) {
+        if (child instanceof TFolder) {
+            collectMarkdownFiles(child, files);
+        } else if (child instanceof TFile && child.extension === 'md') {
+            files.set(child.path, child);
+        }
+    }
+}
+
+/**
+ * Format a publication date, keeping the raw value if it cannot be parsed
+ */
+function formatPublished(published: string | undefined, format: string | undefined): string {
+    if (!published) return '';
+    if (!format?.trim()) return published;
+
+    const date = moment(published);
+    return date.isValid() ? date.format(format.trim()) : published;
+}
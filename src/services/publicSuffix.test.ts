@@ -0,0 +1,51 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getRegistrableDomain } from './publicSuffix';
+
+describe('getRegistrableDomain', () => {
+    it('keeps one label below a single-level suffix', () => {
+        assert.equal(getRegistrableDomain('gist.github.com'), 'github.com');
+        assert.equal(getRegistrableDomain('github.com'), 'github.com');
+    });
+
+    it('keeps one label below multi-level suffixes', () => {
+        assert.equal(getRegistrableDomain('news.bbc.co.uk'), 'bbc.co.uk');
+        assert.equal(getRegistrableDomain('www.abc.net.au'), 'abc.net.au');
+        assert.equal(getRegistrableDomain('a.b.example.com.au'), 'example.com.au');
+    });
+
+    it('treats private suffixes as public', () => {
+        assert.equal(getRegistrableDomain('obsidianmd.github.io'), 'obsidianmd.github.io');
+        assert.equal(getRegistrableDomain('docs.obsidianmd.github.io'), 'obsidianmd.github.io');
+    });
+
+    it('applies wildcard and exception rules', () => {
+        assert.equal(getRegistrableDomain('a.b.kawasaki.jp'), 'a.b.kawasaki.jp');
+        assert.equal(getRegistrableDomain('www.city.kawasaki.jp'), 'city.kawasaki.jp');
+    });
+
+    it('returns hosts that are a suffix themselves unchanged', () => {
+        assert.equal(getRegistrableDomain('co.uk'), 'co.uk');
+        assert.equal(getRegistrableDomain('github.io'), 'github.io');
+    });
+
+    it('returns IP addresses and single-label hosts unchanged', () => {
+        assert.equal(getRegistrableDomain('192.168.1.10'), '192.168.1.10');
+        assert.equal(getRegistrableDomain('::1'), '::1');
+        assert.equal(getRegistrableDomain('localhost'), 'localhost');
+    });
+
+    it('ignores case and a trailing dot', () => {
+        assert.equal(getRegistrableDomain('Docs.Example.COM.'), 'example.com');
+    });
+
+    it('uses the last label as suffix for unknown TLDs', () => {
+        assert.equal(getRegistrableDomain('dev.app.internal-tld'), 'app.internal-tld');
+    });
+});
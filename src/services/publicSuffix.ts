@@ -0,0 +1,54 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { PUBLIC_SUFFIX_RULES } from './publicSuffixData';
+
+/** Parsed rules, built on first use */
+let rules: Set<string> | null = null;
+
+function getRules(): Set<string> {
+    if (!rules) {
+        rules = new Set(PUBLIC_SUFFIX_RULES.split(/\s+/).filter(rule => rule.length > 0));
+    }
+    return rules;
+}
+
+/**
+ * Get the registrable domain (eTLD+1) of a hostname using the public suffix list
+ * e.g., "gist.github.com" -> "github.com", "news.bbc.co.uk" -> "bbc.co.uk"
+ * Hostnames that are themselves a public suffix (e.g. "github.io"), IPs and
+ * single-label hosts are returned unchanged.
+ */
+export function getRegistrableDomain(hostname: string): string {
+    const host = hostname.toLowerCase().replace(/\.$/, '');
+    const labels = host.split('.');
+
+    if (labels.length < 2 || /^[\d.]+$/.test(host) || host.includes(':')) {
+        return host;
+    }
+
+    const suffixRules = getRules();
+
+    // Find the longest matching suffix (default rule "*": the last label)
+    let suffixLength = 1;
+    for (let i = 0; i < labels.length; i++) {
+        const candidate = labels.slice(i).join('.');
+        const length = labels.length - i;
+
+        if (suffixRules.has(`!${candidate}`)) {
+            // Exception rule: the suffix is one label shorter
+            suffixLength = length - 1;
+            break;
+        }
+        if (suffixRules.has(candidate) || (i < labels.length - 1 && suffixRules.has(`*.${labels.slice(i + 1).join('.')}`))) {
+            suffixLength = length;
+            break;
+        }
+    }
+
+    if (suffixLength >= labels.length) return host;
+    return labels.slice(labels.length - suffixLength - 1).join('.');
+}
@@ -0,0 +1,209 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { TabStateEvent, TrackedWebViewer } from '../types';
+import { createTrackedTab, isNewPage, reduceTabState, REDIRECT_CHAIN_WINDOW, TAB_HISTORY_LIMIT } from './tabStateReducer';
+import type { CanonicalizationOptions } from './urlUtils';
+
+type NavigateEvent = Extract<TabStateEvent, { type: 'navigate' }>;
+
+const T0 = 1_700_000_000_000;
+
+const CANONICALIZATION: CanonicalizationOptions = { stripTrackingParams: true, stripAmpVariants: false, rules: [] };
+
+function navigate(url: string, timestamp: number, hasLinkedNotes = false, title?: string): NavigateEvent {
+    return { type: 'navigate', url, title, timestamp, hasLinkedNotes };
+}
+
+/**
+ * Track a tab from its first navigation and replay the following events
+ */
+function replay(first: NavigateEvent, ...events: TabStateEvent[]): TrackedWebViewer {
+    return events.reduce(reduceTabState, createTrackedTab('leaf-1', first, 'Web viewer'));
+}
+
+describe('reduceTabState', () => {
+    describe('redirect chains', () => {
+        it('keeps the linked URL a chain of quick redirects started from', () => {
+            const tab = replay(
+                navigate('https://example.com/article', T0, true),
+                navigate('https://login.example.com/sso', T0 + 500),
+                navigate('https://example.com/article?session=1', T0 + 1200)
+            );
+
+            assert.equal(tab.url, 'https://example.com/article?session=1');
+            assert.equal(tab.originalUrl, 'https://example.com/article');
+            assert.deepEqual(tab.history.map(entry => entry.url), [
+                'https://example.com/article',
+                'https://login.example.com/sso',
+                'https://example.com/article?session=1',
+            ]);
+        });
+
+        it('does not link a page reached after the redirect window', () => {
+            const tab = replay(
+                navigate('https://example.com/article', T0, true),
+                navigate('https://example.com/other', T0 + REDIRECT_CHAIN_WINDOW + 1)
+            );
+
+            assert.equal(tab.originalUrl, undefined);
+        });
+
+        it('snaps to a URL in the chain that has linked notes itself', () => {
+            const tab = replay(
+                navigate('https://example.com/a', T0, true),
+                navigate('https://example.com/b', T0 + 100),
+                navigate('https://example.com/c', T0 + 200, true)
+            );
+
+            assert.equal(tab.originalUrl, 'https://example.com/c');
+        });
+
+        it('records an origin that arrives after the redirect it caused', () => {
+            // The web viewer reports the redirect target before the note that opened it is known
+            const tab = replay(
+                navigate('https://example.com/landing', T0 + 300),
+                { type: 'open-from-note', url: 'https://example.com/start', openedAt: T0 }
+            );
+
+            assert.equal(tab.originalUrl, 'https://example.com/start');
+            assert.deepEqual(tab.history.map(entry => entry.url), [
+                'https://example.com/start',
+                'https://example.com/landing',
+            ]);
+            assert.equal(tab.history[0]?.hadLinkedNotes, true);
+        });
+
+        it('bounds the history', () => {
+            const events = Array.from({ length: TAB_HISTORY_LIMIT + 5 }, (_, i) =>
+                navigate(`https://example.com/page/${i + 1}`, T0 + (i + 1) * 10_000)
+            );
+            const tab = replay(navigate('https://example.com/page/0', T0), ...events);
+
+            assert.equal(tab.history.length, TAB_HISTORY_LIMIT);
+            assert.equal(tab.history[tab.history.length - 1]?.url, `https://example.com/page/${TAB_HISTORY_LIMIT + 5}`);
+        });
+    });
+
+    describe('in-page navigation', () => {
+        it('adds a history entry for a new fragment and keeps the linked origin', () => {
+            const tab = replay(
+                navigate('https://docs.example.com/guide', T0, true, 'Guide'),
+                navigate('https://docs.example.com/guide#install', T0 + 100, false, 'Guide')
+            );
+
+            assert.equal(tab.url, 'https://docs.example.com/guide#install');
+            assert.equal(tab.originalUrl, 'https://docs.example.com/guide');
+            assert.equal(tab.history.length, 2);
+        });
+
+        it('returns the same state for a repeated URL with an unchanged title', () => {
+            const tab = replay(navigate('https://example.com/app', T0, false, 'App'));
+            const next = reduceTabState(tab, navigate('https://example.com/app', T0 + 100, false, 'App'));
+
+            assert.equal(next, tab);
+        });
+
+        it('only refreshes the title of a repeated URL', () => {
+            const tab = replay(
+                navigate('https://example.com/app', T0, false, 'App'),
+                navigate('https://example.com/app', T0 + 100, false, 'App - 3 unread')
+            );
+
+            assert.equal(tab.title, 'App - 3 unread');
+            assert.equal(tab.history.length, 1);
+            assert.equal(tab.history[0]?.title, 'App - 3 unread');
+        });
+    });
+
+    describe('title before navigate', () => {
+        it('keeps a title reported before the navigation that has none', () => {
+            const tab = replay(
+                navigate('https://example.com/a', T0, false, 'Page A'),
+                { type: 'title', title: 'Page B' },
+                navigate('https://example.com/b', T0 + 10_000)
+            );
+
+            assert.equal(tab.url, 'https://example.com/b');
+            assert.equal(tab.title, 'Page B');
+            assert.equal(tab.history.length, 2);
+        });
+
+        it('prefers the title of the navigation event', () => {
+            const tab = replay(
+                navigate('https://example.com/a', T0, false, 'Page A'),
+                { type: 'title', title: 'Loading…' },
+                navigate('https://example.com/b', T0 + 10_000, false, 'Page B')
+            );
+
+            assert.equal(tab.title, 'Page B');
+            assert.equal(tab.history[1]?.title, 'Page B');
+        });
+
+        it('falls back to the default title until the page reports one', () => {
+            const tab = replay(navigate('https://example.com/a', T0));
+            assert.equal(tab.title, 'Web viewer');
+
+            const titled = reduceTabState(tab, { type: 'title', title: 'Page A' });
+            assert.equal(titled.title, 'Page A');
+            assert.equal(titled.history[0]?.title, 'Page A');
+            assert.equal(reduceTabState(titled, { type: 'title', title: 'Page A' }), titled);
+        });
+    });
+
+    describe('notes moved', () => {
+        it('clears the origin when the notes move to the current URL', () => {
+            const tab = replay(
+                navigate('https://example.com/old', T0, true),
+                navigate('https://example.com/new', T0 + 100),
+                { type: 'notes-moved', from: 'https://example.com/old', to: 'https://example.com/new' }
+            );
+
+            assert.equal(tab.originalUrl, undefined);
+            assert.deepEqual(tab.history.map(entry => entry.hadLinkedNotes), [false, true]);
+        });
+
+        it('sticks to another URL of the history the notes moved to', () => {
+            const tab = replay(
+                navigate('https://example.com/a', T0, true),
+                navigate('https://example.com/b', T0 + 100),
+                navigate('https://example.com/c', T0 + 200),
+                { type: 'notes-moved', from: 'https://example.com/a', to: 'https://example.com/b' }
+            );
+
+            assert.equal(tab.url, 'https://example.com/c');
+            assert.equal(tab.originalUrl, 'https://example.com/b');
+            assert.deepEqual(tab.history.map(entry => entry.hadLinkedNotes), [false, true, false]);
+        });
+    });
+
+    it('records focus time', () => {
+        const tab = replay(navigate('https://example.com/a', T0), { type: 'focus', timestamp: T0 + 5000 });
+        assert.equal(tab.lastFocused, T0 + 5000);
+    });
+});
+
+describe('isNewPage', () => {
+    it('counts the first URL of a tab as a new page', () => {
+        assert.equal(isNewPage(undefined, 'https://example.com/a', CANONICALIZATION), true);
+    });
+
+    it('ignores in-page anchors and hash routes', () => {
+        assert.equal(isNewPage('https://example.com/docs', 'https://example.com/docs#install', CANONICALIZATION), false);
+        assert.equal(isNewPage('https://app.example.com/#/inbox', 'https://app.example.com/#/settings', CANONICALIZATION), false);
+    });
+
+    it('ignores tracking parameters and trailing slashes', () => {
+        assert.equal(isNewPage('https://example.com/a/', 'https://example.com/a?utm_source=feed', CANONICALIZATION), false);
+    });
+
+    it('detects another path or query', () => {
+        assert.equal(isNewPage('https://example.com/a', 'https://example.com/b', CANONICALIZATION), true);
+        assert.equal(isNewPage('https://example.com/search?q=a', 'https://example.com/search?q=b', CANONICALIZATION), true);
+    });
+});
@@ -0,0 +1,159 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+/**
+ * Pure state transitions for tracked web viewer tabs.
+ * No Obsidian or DOM access: callers resolve linked notes, titles and leaves,
+ * so sequences of navigation events can be replayed in isolation.
+ */
+
+import type { TabHistoryEntry, TabStateEvent, TrackedWebViewer } from '../types';
+import { CanonicalizationOptions, normalizeUrl } from './urlUtils';
+
+/**
+ * Max navigation history entries kept per tracked tab
+ */
+export const TAB_HISTORY_LIMIT = 20;
+
+/**
+ * URLs visited within this delay of each other are treated as one redirect chain (ms)
+ */
+export const REDIRECT_CHAIN_WINDOW = 3000;
+
+/**
+ * Whether a navigation reaches another page rather than another part of the same one
+ * (in-page anchors, hash routes, tracking parameters): URLs are compared canonicalized
+ */
+export function isNewPage(previousUrl: string | undefined, url: string, options: CanonicalizationOptions): boolean {
+    if (previousUrl === undefined) return true;
+    return (normalizeUrl(previousUrl, options) || previousUrl) !== (normalizeUrl(url, options) || url);
+}
+
+/**
+ * Create the state of a newly tracked tab from its first navigation
+ * (the original URL is recorded separately when the tab is opened from a note)
+ */
+export function createTrackedTab(
+    leafId: string,
+    event: Extract<TabStateEvent, { type: 'navigate' }>,
+    fallbackTitle: string
+): TrackedWebViewer {
+    return {
+        leafId,
+        url: event.url,
+        title: event.title || fallbackTitle,
+        lastFocused: event.timestamp,
+        isPopout: false,
+        history: appendHistory([], event.url, event.title, event.hasLinkedNotes, event.timestamp),
+    };
+}
+
+/**
+ * Apply an event to a tab's state.
+ * Returns the same object when nothing changed, so callers can skip re-rendering.
+ */
+export function reduceTabState(tab: TrackedWebViewer, event: TabStateEvent): TrackedWebViewer {
+    switch (event.type) {
+        case 'navigate': {
+            if (tab.url === event.url) {
+                if (!event.title || event.title === tab.title) return tab;
+                const last = tab.history[tab.history.length - 1];
+                return {
+                    ...tab,
+                    title: event.title,
+                    history: appendHistory(tab.history, event.url, event.title, last?.hadLinkedNotes ?? false, event.timestamp),
+                };
+            }
+
+            const history = appendHistory(tab.history, event.url, event.title, event.hasLinkedNotes, event.timestamp);
+
+            // Sticky notes: snap to the new URL if it has linked notes, otherwise
+            // keep the origin or recover it from the redirect chain (e.g. auth or SPA redirects)
+            const originalUrl = event.hasLinkedNotes
+                ? event.url
+                : tab.originalUrl ?? findLinkedUrlInChain(history);
+
+            return {
+                ...tab,
+                url: event.url,
+                title: event.title || tab.title,
+                originalUrl,
+                history,
+            };
+        }
+
+        case 'title': {
+            if (event.title === tab.title) return tab;
+            const last = tab.history[tab.history.length - 1];
+            const history = last && last.url === tab.url
+                ? [...tab.history.slice(0, -1), { ...last, title: event.title }]
+                : tab.history;
+            return { ...tab, title: event.title, history };
+        }
+
+        case 'focus':
+            return { ...tab, lastFocused: event.timestamp };
+
+        case 'open-from-note': {
+            const { url, openedAt } = event;
+            let history = tab.history;
+            const alreadyRecorded = tab.url === url || history.some(entry => entry.url === url && entry.timestamp >= openedAt);
+            if (!alreadyRecorded) {
+                // Insert before the visits that happened since opening (the redirect chain)
+                const index = history.findIndex(entry => entry.timestamp >= openedAt);
+                const entry: TabHistoryEntry = { url, timestamp: openedAt, hadLinkedNotes: true };
+                history = index === -1
+                    ? [...history, entry]
+                    : [...history.slice(0, index), entry, ...history.slice(index)];
+                history = history.slice(-TAB_HISTORY_LIMIT);
+            }
+            return { ...tab, originalUrl: url, history };
+        }
+
+        case 'notes-moved': {
+            const { from, to } = event;
+            return {
+                ...tab,
+                // Clear the originalUrl if the notes now match the current URL, else stick to the new URL
+                originalUrl: to === tab.url ? undefined : to,
+                history: tab.history.map(entry => entry.url === from || entry.url === to
+                    ? { ...entry, hadLinkedNotes: entry.url === to }
+                    : entry),
+            };
+        }
+    }
+}
+
+/**
+ * Append a visit to a tab's history (a repeated URL only refreshes its title), keeping it bounded
+ */
+function appendHistory(
+    history: TabHistoryEntry[],
+    url: string,
+    title: string | undefined,
+    hadLinkedNotes: boolean,
+    timestamp: number
+): TabHistoryEntry[] {
+    const last = history[history.length - 1];
+    if (last && last.url === url) {
+        if (!title || last.title === title) return history;
+        return [...history.slice(0, -1), { ...last, title }];
+    }
+    return [...history, { url, title, timestamp, hadLinkedNotes }].slice(-TAB_HISTORY_LIMIT);
+}
+
+/**
+ * Find the most recent URL with linked notes in the redirect chain leading to the current URL
+ */
+function findLinkedUrlInChain(history: TabHistoryEntry[]): string | undefined {
+    for (let i = history.length - 1; i > 0; i--) {
+        const entry = history[i];
+        const previous = history[i - 1];
+        if (!entry || !previous || entry.timestamp - previous.timestamp > REDIRECT_CHAIN_WINDOW) break;
+        if (previous.hadLinkedNotes) return previous.url;
+    }
+    return undefined;
+}
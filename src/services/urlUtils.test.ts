@@ -0,0 +1,117 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { UrlCanonicalizationRule } from '../types';
+import {
+    buildTextFragmentUrl,
+    CanonicalizationOptions,
+    getPathPrefix,
+    getSharedSectionDepth,
+    normalizeUrl,
+} from './urlUtils';
+
+const DEFAULTS: CanonicalizationOptions = { stripTrackingParams: true, stripAmpVariants: false, rules: [] };
+
+function rule(domain: string, overrides: Partial<UrlCanonicalizationRule> = {}): UrlCanonicalizationRule {
+    return { domain, keepParams: [], dropParams: [], pathRewrites: [], lowercasePath: false, ...overrides };
+}
+
+describe('normalizeUrl', () => {
+    it('strips the protocol, www., trailing slashes and fragments', () => {
+        assert.equal(normalizeUrl('https://www.Example.com/Docs/#intro', DEFAULTS), 'example.com/Docs');
+        assert.equal(normalizeUrl('http://example.com', DEFAULTS), 'example.com');
+    });
+
+    it('sorts query parameters', () => {
+        assert.equal(normalizeUrl('https://example.com/search?q=obsidian&page=2&a=1', DEFAULTS), 'example.com/search?a=1&page=2&q=obsidian');
+        assert.equal(
+            normalizeUrl('https://example.com/?b=2&a=1', DEFAULTS),
+            normalizeUrl('https://example.com/?a=1&b=2', DEFAULTS)
+        );
+    });
+
+    it('strips tracking parameters', () => {
+        assert.equal(normalizeUrl('https://example.com/post?utm_source=feed&fbclid=x&id=7', DEFAULTS), 'example.com/post?id=7');
+        assert.equal(normalizeUrl('https://example.com/post?utm_source=feed', { ...DEFAULTS, stripTrackingParams: false }), 'example.com/post?utm_source=feed');
+    });
+
+    it('strips site-specific tracking parameters only on their sites', () => {
+        assert.equal(normalizeUrl('https://www.youtube.com/watch?v=abc&si=xyz', DEFAULTS), 'youtube.com/watch?v=abc');
+        assert.equal(normalizeUrl('https://github.com/org/repo/blob/x?ref=main', DEFAULTS), 'github.com/org/repo/blob/x?ref=main');
+    });
+
+    it('resolves mobile hosts', () => {
+        assert.equal(normalizeUrl('https://m.youtube.com/watch?v=abc', DEFAULTS), 'youtube.com/watch?v=abc');
+        assert.equal(normalizeUrl('https://en.m.wikipedia.org/wiki/Obsidian', DEFAULTS), 'en.wikipedia.org/wiki/Obsidian');
+    });
+
+    it('unwraps AMP cache URLs', () => {
+        assert.equal(normalizeUrl('https://www.google.com/amp/s/example.com/story', DEFAULTS), 'example.com/story');
+        assert.equal(normalizeUrl('https://example-com.cdn.ampproject.org/c/s/example.com/story', DEFAULTS), 'example.com/story');
+    });
+
+    it('merges AMP variants only when enabled', () => {
+        const merging = { ...DEFAULTS, stripAmpVariants: true };
+        assert.equal(normalizeUrl('https://amp.example.com/story/amp?amp=1', merging), 'example.com/story');
+        assert.equal(normalizeUrl('https://example.com/story.amp.html', merging), 'example.com/story.html');
+        assert.equal(normalizeUrl('https://example.com/story/amp?amp=1', DEFAULTS), 'example.com/story/amp?amp=1');
+    });
+
+    it('applies per-domain rules', () => {
+        const options = {
+            ...DEFAULTS,
+            rules: [
+                rule('example.com', { keepParams: ['id'] }),
+                rule('docs.test', { dropParams: ['lang'], lowercasePath: true, pathRewrites: [{ pattern: '^/v\\d+/', replacement: '/latest/' }] }),
+            ],
+        };
+        assert.equal(normalizeUrl('https://shop.example.com/item?id=3&color=red', options), 'shop.example.com/item?id=3');
+        assert.equal(normalizeUrl('https://docs.test/V2/Guide?lang=en&q=1', options), 'docs.test/v2/guide?q=1');
+        assert.equal(normalizeUrl('https://docs.test/v2/guide', options), 'docs.test/latest/guide');
+    });
+
+    it('ignores invalid path rewrite patterns', () => {
+        const options = { ...DEFAULTS, rules: [rule('example.com', { pathRewrites: [{ pattern: '(', replacement: '' }] })] };
+        assert.equal(normalizeUrl('https://example.com/a', options), 'example.com/a');
+    });
+
+    it('falls back to string normalization for unparseable input', () => {
+        assert.equal(normalizeUrl('HTTPS://www.Not A Host/Path/#top', DEFAULTS), 'not a host/path');
+        assert.equal(normalizeUrl('', DEFAULTS), '');
+    });
+});
+
+describe('section paths', () => {
+    it('counts the shared directories of two pages', () => {
+        assert.equal(getSharedSectionDepth('https://docs.python.org/3/library/asyncio.html', 'https://docs.python.org/3/library/os.html'), 2);
+        assert.equal(getSharedSectionDepth('https://example.com/a/b/', 'https://example.com/a/b/c'), 2);
+        assert.equal(getSharedSectionDepth('https://example.com/a/page', 'https://example.com/b/page'), 0);
+    });
+
+    it('builds path prefixes', () => {
+        assert.equal(getPathPrefix('https://docs.python.org/3/library/asyncio.html', 2), '/3/library/');
+        assert.equal(getPathPrefix('https://example.com/', 2), '/');
+    });
+});
+
+describe('buildTextFragmentUrl', () => {
+    it('links short passages in full', () => {
+        assert.equal(buildTextFragmentUrl('https://example.com/a', 'well-known  text'), 'https://example.com/a#:~:text=well%2Dknown%20text');
+    });
+
+    it('links long passages by their first and last words', () => {
+        assert.equal(
+            buildTextFragmentUrl('https://example.com/a', 'one two three four five six seven eight nine ten'),
+            'https://example.com/a#:~:text=one%20two%20three%20four,seven%20eight%20nine%20ten'
+        );
+    });
+
+    it('keeps a regular fragment and replaces a previous directive', () => {
+        assert.equal(buildTextFragmentUrl('https://example.com/a#part:~:text=old', 'new'), 'https://example.com/a#part:~:text=new');
+    });
+});
@@ -8,18 +8,234 @@
  * URL utility functions for normalizing and comparing URLs
  */
 
+import type { DomainGrouping, UrlCanonicalizationRule, WebSidecarSettings } from '../types';
+import { getRegistrableDomain } from './publicSuffix';
+
+/**
+ * Options controlling URL canonicalization
+ */
+export interface CanonicalizationOptions {
+    /** Strip the built-in list of tracking parameters */
+    stripTrackingParams: boolean;
+    /** Merge AMP variants of a page: `amp.` hosts, `/amp` and `.amp.html` paths, `?amp` params */
+    stripAmpVariants: boolean;
+    /** User-defined per-domain rules */
+    rules: UrlCanonicalizationRule[];
+}
+
+const DEFAULT_CANONICALIZATION: CanonicalizationOptions = {
+    stripTrackingParams: true,
+    stripAmpVariants: false,
+    rules: [],
+};
+
+/**
+ * Query parameters that only carry tracking/referral data
+ */
+const TRACKING_PARAMS = new Set([
+    'fbclid', 'gclid', 'gclsrc', 'dclid', 'msclkid', 'yclid', 'twclid', 'ttclid', 'li_fat_id',
+    'mc_cid', 'mc_eid', 'igshid', 'igsh', 'ref_src', 'ref_url', 'referrer',
+    '_hsenc', '_hsmi', '_ga', '_gl', 'mkt_tok', 'oly_anon_id', 'oly_enc_id', 'vero_id',
+    'wickedid', 'rb_clickid', 's_cid', 'spm',
+]);
+
+/**
+ * Parameters that only carry tracking data on some sites (elsewhere they can select
+ * content, e.g. GitHub's `?ref=<branch>`), keyed by domain (subdomains included)
+ */
+const SITE_TRACKING_PARAMS: Record<string, string[]> = {
+    'youtube.com': ['si'],
+    'youtu.be': ['si'],
+    'spotify.com': ['si'],
+    'producthunt.com': ['ref'],
+};
+
+/** Query parameters that only select an AMP rendering of the page */
+const AMP_PARAMS = new Set(['amp', 'amp_js_v', 'usqp']);
+
+/** Tracking parameter prefixes (e.g., utm_source, utm_medium) */
+const TRACKING_PARAM_PREFIXES = ['utm_', 'pk_', 'mtm_', 'hsa_'];
+
+/**
+ * Mobile/alternate hostnames that serve the same content as a canonical host
+ */
+const HOST_ALIASES: Record<string, string> = {
+    'm.youtube.com': 'youtube.com',
+    'mobile.twitter.com': 'twitter.com',
+    'm.twitter.com': 'twitter.com',
+    'mobile.x.com': 'x.com',
+    'm.facebook.com': 'facebook.com',
+    'mobile.facebook.com': 'facebook.com',
+    'm.wikipedia.org': 'wikipedia.org',
+    'm.imdb.com': 'imdb.com',
+    'm.github.com': 'github.com',
+    'm.reddit.com': 'reddit.com',
+};
+
+/**
+ * Resolve a hostname through the alias table
+ * Handles language-prefixed mobile Wikipedia hosts (en.m.wikipedia.org -> en.wikipedia.org)
+ */
+function resolveHostAlias(host: string): string {
+    const alias = HOST_ALIASES[host];
+    if (alias) return alias;
+
+    const mobileWiki = host.match(/^([a-z-]+)\.m\.(wikipedia|wiktionary|wikibooks|wikiquote|wikivoyage)\.org$/);
+    if (mobileWiki) {
+        return `${mobileWiki[1]}.${mobileWiki[2]}.org`;
+    }
+
+    return host;
+}
+
+/**
+ * Unwrap AMP cache URLs to the publisher URL
+ * e.g., "google.com/amp/s/example.com/story" -> "https://example.com/story"
+ *       "example-com.cdn.ampproject.org/c/s/example.com/story" -> "https://example.com/story"
+ */
+function unwrapAmpCache(host: string, path: string): string | null {
+    if (host === 'google.com' || host.startsWith('google.')) {
+        const match = path.match(/^\/amp\/(s\/)?(.+)$/);
+        if (match?.[2]) return 'https://' + match[2];
+    }
+    if (host.endsWith('.cdn.ampproject.org')) {
+        const match = path.match(/^\/[a-z]+(?:\/s)?\/(.+)$/);
+        if (match?.[1]) return 'https://' + match[1];
+    }
+    return null;
+}
+
+/**
+ * Strip AMP variants from a path
+ * e.g., "/amp/story", "/story/amp", "/story.amp", "/story.amp.html"
+ */
+function stripAmpPath(path: string): string {
+    return path
+        .replace(/^\/amp(?=\/)/, '')
+        .replace(/\/amp\/?$/, '')
+        .replace(/\.amp(\.html?)?$/, '$1');
+}
+
+/**
+ * Check if a query parameter is a known tracking parameter (on any site, or on this host)
+ */
+function isTrackingParam(key: string, host: string): boolean {
+    const lower = key.toLowerCase();
+    return TRACKING_PARAMS.has(lower)
+        || TRACKING_PARAM_PREFIXES.some(prefix => lower.startsWith(prefix))
+        || Object.entries(SITE_TRACKING_PARAMS).some(([domain, params]) => matchesDomain(host, domain) && params.includes(lower));
+}
+
+/**
+ * Check if a host belongs to a user-entered rule domain (exact domain or any subdomain)
+ */
+export function matchesDomain(host: string, ruleDomain: string): boolean {
+    const domain = ruleDomain.trim().toLowerCase().replace(/^www\./, '');
+    return domain.length > 0 && (host === domain || host.endsWith('.' + domain));
+}
+
+/**
+ * Find user rules that apply to a host (exact domain or any subdomain)
+ */
+function getRulesForHost(host: string, rules: UrlCanonicalizationRule[]): UrlCanonicalizationRule[] {
+    return rules.filter(rule => matchesDomain(host, rule.domain));
+}
+
+/**
+ * Apply a user path rewrite, ignoring invalid patterns
+ */
+function applyPathRewrite(path: string, pattern: string, replacement: string): string {
+    try {
+        return path.replace(new RegExp(pattern), replacement);
+    } catch {
+        return path;
+    }
+}
+
+/**
+ * Build canonicalization options from plugin settings
+ */
+export function getCanonicalizationOptions(settings: WebSidecarSettings): CanonicalizationOptions {
+    return {
+        stripTrackingParams: settings.stripTrackingParams,
+        stripAmpVariants: settings.stripAmpVariants,
+        rules: settings.urlCanonicalizationRules,
+    };
+}
+
 /**
  * Normalize a URL for comparison:
- * - Lowercase
  * - Strip protocol (http:// or https://)
- * - Strip www. prefix
- * - Strip trailing slashes
- * - Strip hash fragments
+ * - Lowercase host, strip www. prefix, resolve mobile host aliases
+ * - Unwrap AMP cache URLs, and strip AMP variants if enabled
+ * - Apply per-domain rules (path rewrites, keep/drop params)
+ * - Strip tracking parameters and sort remaining query keys
+ * - Strip trailing slashes and hash fragments
+ *
+ * Path and query values keep their case unless a domain rule says otherwise.
  */
-export function normalizeUrl(url: string): string {
+export function normalizeUrl(url: string, options: CanonicalizationOptions = DEFAULT_CANONICALIZATION): string {
     if (!url || typeof url !== 'string') return '';
 
-    let normalized = url.toLowerCase().trim();
+    const trimmed = url.trim();
+    let parsed: URL;
+    try {
+        parsed = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : 'https://' + trimmed);
+    } catch {
+        return legacyNormalizeUrl(trimmed);
+    }
+
+    let host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+
+    const unwrapped = unwrapAmpCache(host, parsed.pathname);
+    if (unwrapped) {
+        return normalizeUrl(unwrapped, options);
+    }
+
+    if (options.stripAmpVariants) host = host.replace(/^amp\./, '');
+    host = resolveHostAlias(host);
+
+    const rules = getRulesForHost(host, options.rules);
+
+    let path = options.stripAmpVariants ? stripAmpPath(parsed.pathname) : parsed.pathname;
+    for (const rule of rules) {
+        for (const rewrite of rule.pathRewrites) {
+            path = applyPathRewrite(path, rewrite.pattern, rewrite.replacement);
+        }
+    }
+    if (rules.some(rule => rule.lowercasePath)) {
+        path = path.toLowerCase();
+    }
+    path = path.replace(/\/+$/, '');
+
+    const keepParams = new Set(rules.flatMap(rule => rule.keepParams.map(p => p.toLowerCase())));
+    const dropParams = new Set(rules.flatMap(rule => rule.dropParams.map(p => p.toLowerCase())));
+
+    const params: [string, string][] = [];
+    parsed.searchParams.forEach((value, key) => {
+        const lowerKey = key.toLowerCase();
+        if (options.stripAmpVariants && AMP_PARAMS.has(lowerKey)) return;
+        if (keepParams.size > 0) {
+            if (!keepParams.has(lowerKey)) return;
+        } else if (dropParams.has(lowerKey) || (options.stripTrackingParams && isTrackingParam(key, host))) {
+            return;
+        }
+        params.push([key, value]);
+    });
+
+    params.sort((a, b) => a[0] === b[0] ? a[1].localeCompare(b[1]) : a[0].localeCompare(b[0]));
+    const query = new URLSearchParams(params).toString();
+
+    const port = parsed.port ? ':' + parsed.port : '';
+    return host + port + path + (query ? '?' + query : '');
+}
+
+/**
+ * Fallback normalization for strings the URL parser rejects:
+ * lowercase, strip protocol, www. prefix, trailing slashes and hash fragments
+ */
+function legacyNormalizeUrl(url: string): string {
+    let normalized = url.toLowerCase();
 
     // Remove protocol
     normalized = normalized.replace(/^https?:\/\//, '');
@@ -27,12 +243,12 @@ export function normalizeUrl(url: string): string {
     // Remove www. prefix
     normalized = normalized.replace(/^www\./, '');
 
-    // Remove trailing slashes
-    normalized = normalized.replace(/\/+$/, '');
-
     // Remove hash fragments
     normalized = normalized.replace(/#.*$/, '');
 
+    // Remove trailing slashes
+    normalized = normalized.replace(/\/+$/, '');
+
     return normalized;
 }
 
@@ -68,22 +284,83 @@ export function extractDomain(url: string): string | null {
 /**
  * Check if two URLs match after normalization
  */
-export function urlsMatch(url1: string, url2: string): boolean {
-    return normalizeUrl(url1) === normalizeUrl(url2);
+export function urlsMatch(url1: string, url2: string, options?: CanonicalizationOptions): boolean {
+    return normalizeUrl(url1, options) === normalizeUrl(url2, options);
 }
 
 /**
- * Check if two URLs share the same domain
+ * Extract the domain a URL is grouped under: its registrable domain
+ * (e.g., "gist.github.com" -> "github.com") or its full hostname
  */
-export function isSameDomain(url1: string, url2: string): boolean {
-    const domain1 = extractDomain(url1);
-    const domain2 = extractDomain(url2);
+export function extractGroupDomain(url: string, grouping: DomainGrouping): string | null {
+    const domain = extractDomain(url);
+    return domain ? getGroupDomain(domain, grouping) : null;
+}
+
+/**
+ * Get the group domain for a hostname (see extractGroupDomain)
+ */
+export function getGroupDomain(hostname: string, grouping: DomainGrouping): string {
+    return grouping === 'registrable' ? getRegistrableDomain(hostname) : hostname;
+}
+
+/**
+ * Check if two URLs share the same domain (full hostname by default)
+ */
+export function isSameDomain(url1: string, url2: string, grouping: DomainGrouping = 'host'): boolean {
+    const domain1 = extractGroupDomain(url1, grouping);
+    const domain2 = extractGroupDomain(url2, grouping);
 
     if (!domain1 || !domain2) return false;
 
     return domain1 === domain2;
 }
 
+/**
+ * Get the pathname of a URL ("" if it can't be parsed)
+ */
+function getPathname(url: string): string {
+    try {
+        return new URL(/^https?:\/\//i.test(url) ? url : `https://${url}`).pathname;
+    } catch {
+        return '';
+    }
+}
+
+/**
+ * Get the path segments of a URL
+ * e.g., "https://docs.python.org/3/library/asyncio.html" -> ["3", "library", "asyncio.html"]
+ */
+export function getPathSegments(url: string): string[] {
+    return getPathname(url).split('/').filter(segment => segment.length > 0);
+}
+
+/**
+ * Count the leading "directory" path segments of a URL that another URL shares
+ * (the last segment of the URL is the page itself unless the path ends with "/")
+ * e.g., "/3/library/asyncio.html" and "/3/library/os.html" -> 2
+ */
+export function getSharedSectionDepth(url: string, otherUrl: string): number {
+    const pathname = getPathname(url);
+    const segments = pathname.split('/').filter(segment => segment.length > 0);
+    const directories = pathname.endsWith('/') ? segments : segments.slice(0, -1);
+    const otherSegments = getPathSegments(otherUrl);
+
+    let depth = 0;
+    while (depth < directories.length && directories[depth] === otherSegments[depth]) {
+        depth++;
+    }
+    return depth;
+}
+
+/**
+ * Get the first path segments of a URL as a prefix, e.g. "/3/library/"
+ */
+export function getPathPrefix(url: string, depth: number): string {
+    const segments = getPathSegments(url).slice(0, depth);
+    return segments.length > 0 ? `/${segments.join('/')}/` : '/';
+}
+
 /**
  * Check if a string looks like a valid URL
  */
@@ -94,3 +371,32 @@ export function isValidUrl(str: string): boolean {
     const urlPattern = /^(https?:\/\/)?[\w.-]+\.[a-z]{2,}(\/.*)?$/i;
     return urlPattern.test(str.trim());
 }
+
+/** Words kept at each end of a long text fragment (textStart,textEnd) */
+const TEXT_FRAGMENT_EDGE_WORDS = 4;
+
+/**
+ * Encode a text fragment component ("-", "," and "&" are directive syntax)
+ */
+function encodeTextFragment(text: string): string {
+    return encodeURIComponent(text).replace(/-/g, '%2D');
+}
+
+/**
+ * Build a link that scrolls to and highlights a passage (#:~:text= text fragment).
+ * Long passages are matched by their first and last words.
+ */
+export function buildTextFragmentUrl(url: string, text: string): string {
+    const words = text.replace(/\s+/g, ' ').trim().split(' ').filter(word => word.length > 0);
+    if (words.length === 0) return url;
+
+    const directive = words.length <= TEXT_FRAGMENT_EDGE_WORDS * 2
+        ? encodeTextFragment(words.join(' '))
+        : `${encodeTextFragment(words.slice(0, TEXT_FRAGMENT_EDGE_WORDS).join(' '))},${encodeTextFragment(words.slice(-TEXT_FRAGMENT_EDGE_WORDS).join(' '))}`;
+
+    // Replace an existing directive, keeping a regular fragment (#section:~:text=...)
+    const base = url.replace(/:~:.*$/, '');
+    return base.includes('#')
+        ? `${base}:~:text=${directive}`
+        : `${base}#:~:text=${directive}`;
+}
@@ -0,0 +1,80 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TFile } from 'obsidian';
+import { DEFAULT_SETTINGS, VisitHistoryEntry, WebSidecarSettings } from '../types';
+import type { UrlIndex } from './UrlIndex';
+import { getVisitSuggestions } from './visitSuggestions';
+import { normalizeUrl } from './urlUtils';
+
+const NOW = 1_700_000_000_000;
+const DAY = 24 * 60 * 60 * 1000;
+
+function entry(url: string, visitCount: number, daysAgo = 0): VisitHistoryEntry {
+    const lastVisit = NOW - daysAgo * DAY;
+    return { url, title: `Title of ${url}`, firstVisit: lastVisit, lastVisit, visitCount, dwellTime: 0, hadLinkedNote: false };
+}
+
+function settingsWith(overrides: Partial<WebSidecarSettings> = {}): WebSidecarSettings {
+    return { ...DEFAULT_SETTINGS, visitSuggestionMinVisits: 3, dismissedVisitSuggestions: [], domainGrouping: 'host', ...overrides };
+}
+
+/**
+ * URL index with linked notes for the given URLs and domains
+ */
+function indexWith(linkedUrls: string[] = [], linkedDomains: string[] = []): UrlIndex {
+    const note = [new TFile()];
+    return {
+        getFilesForNormalizedUrl: (url: string) => linkedUrls.some(linked => normalizeUrl(linked) === normalizeUrl(url)) ? note : [],
+        getFilesForDomain: (domain: string) => linkedDomains.includes(domain) ? note : [],
+    } as unknown as UrlIndex;
+}
+
+function suggest(entries: VisitHistoryEntry[], settings = settingsWith(), urlIndex = indexWith()): string[] {
+    return getVisitSuggestions(entries, settings, urlIndex, NOW).map(suggestion => suggestion.key);
+}
+
+describe('getVisitSuggestions', () => {
+    it('suggests pages visited at least the minimum number of times', () => {
+        assert.deepEqual(suggest([entry('https://a.com/x', 3), entry('https://b.com/y', 2)]), ['page:a.com/x']);
+    });
+
+    it('ranks by visit count weighted by recency', () => {
+        const keys = suggest([
+            entry('https://a.com/old', 10, 28),
+            entry('https://b.com/recent', 4),
+            entry('https://c.com/frequent', 8, 1),
+        ]);
+        // 10 visits four weeks ago count as 2.5
+        assert.deepEqual(keys, ['page:c.com/frequent', 'page:b.com/recent', 'page:a.com/old']);
+    });
+
+    it('leaves out pages with a linked note', () => {
+        const keys = suggest([entry('https://a.com/x?utm_source=feed', 5)], settingsWith(), indexWith(['https://a.com/x']));
+        assert.deepEqual(keys, []);
+    });
+
+    it('suggests domains with several pages and no linked note', () => {
+        const entries = [entry('https://blog.a.com/1', 2), entry('https://blog.a.com/2', 2), entry('https://b.com/1', 1), entry('https://b.com/2', 1)];
+
+        const suggestions = getVisitSuggestions(entries, settingsWith(), indexWith(), NOW);
+        assert.deepEqual(suggestions.map(s => [s.key, s.url, s.visitCount, s.pageCount]), [['domain:blog.a.com', 'https://blog.a.com/', 4, 2]]);
+        assert.deepEqual(suggest(entries, settingsWith(), indexWith([], ['blog.a.com'])), []);
+    });
+
+    it('groups domains by registrable domain when configured', () => {
+        const entries = [entry('https://blog.a.com/1', 2), entry('https://shop.a.com/1', 2)];
+        assert.deepEqual(suggest(entries, settingsWith({ domainGrouping: 'registrable' })), ['domain:a.com']);
+    });
+
+    it('leaves out dismissed pages and domains', () => {
+        const entries = [entry('https://a.com/1', 3), entry('https://a.com/2', 3)];
+        const settings = settingsWith({ dismissedVisitSuggestions: ['page:a.com/1', 'domain:a.com'] });
+        assert.deepEqual(suggest(entries, settings), ['page:a.com/2']);
+    });
+});
@@ -0,0 +1,88 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import type { VisitHistoryEntry, VisitSuggestion, WebSidecarSettings } from '../types';
+import type { UrlIndex } from './UrlIndex';
+import { extractGroupDomain, getCanonicalizationOptions, normalizeUrl } from './urlUtils';
+
+/** Days after which a visit counts half as much in the ranking */
+const RECENCY_HALF_LIFE_DAYS = 14;
+
+/** Distinct pages of a domain needed to suggest the domain itself */
+const MIN_DOMAIN_PAGES = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Pages and domains from the visit history with no linked note in the URL index,
+ * visited at least `visitSuggestionMinVisits` times, best ranked first
+ * (dismissed suggestions are left out)
+ */
+export function getVisitSuggestions(
+    entries: VisitHistoryEntry[],
+    settings: WebSidecarSettings,
+    urlIndex: UrlIndex,
+    now: number = Date.now()
+): VisitSuggestion[] {
+    const minVisits = settings.visitSuggestionMinVisits;
+    const dismissed = new Set(settings.dismissedVisitSuggestions);
+    const options = getCanonicalizationOptions(settings);
+    const suggestions: VisitSuggestion[] = [];
+    const domains = new Map<string, VisitSuggestion>();
+
+    for (const entry of entries) {
+        const domain = extractGroupDomain(entry.url, settings.domainGrouping);
+        if (domain && urlIndex.getFilesForDomain(domain).length === 0) {
+            const group = domains.get(domain);
+            if (group) {
+                group.visitCount += entry.visitCount;
+                group.pageCount++;
+                group.lastVisit = Math.max(group.lastVisit, entry.lastVisit);
+                group.score += getScore(entry.visitCount, entry.lastVisit, now);
+            } else {
+                domains.set(domain, {
+                    key: `domain:${domain}`,
+                    kind: 'domain',
+                    url: `https://${domain}/`,
+                    title: domain,
+                    visitCount: entry.visitCount,
+                    pageCount: 1,
+                    lastVisit: entry.lastVisit,
+                    score: getScore(entry.visitCount, entry.lastVisit, now),
+                });
+            }
+        }
+
+        if (entry.visitCount < minVisits || urlIndex.getFilesForNormalizedUrl(entry.url).length > 0) continue;
+        const key = `page:${normalizeUrl(entry.url, options) || entry.url}`;
+        if (dismissed.has(key)) continue;
+        suggestions.push({
+            key,
+            kind: 'page',
+            url: entry.url,
+            title: entry.title || entry.url,
+            visitCount: entry.visitCount,
+            pageCount: 1,
+            lastVisit: entry.lastVisit,
+            score: getScore(entry.visitCount, entry.lastVisit, now),
+        });
+    }
+
+    for (const group of domains.values()) {
+        if (group.pageCount < MIN_DOMAIN_PAGES || group.visitCount < minVisits || dismissed.has(group.key)) continue;
+        suggestions.push(group);
+    }
+
+    return suggestions.sort((a, b) => b.score - a.score || b.lastVisit - a.lastVisit);
+}
+
+/**
+ * Visit count halved every RECENCY_HALF_LIFE_DAYS since the last visit
+ */
+function getScore(visitCount: number, lastVisit: number, now: number): number {
+    const ageDays = Math.max(0, now - lastVisit) / DAY_MS;
+    return visitCount * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+}
@@ -4,7 +4,7 @@
  * SPDX-License-Identifier: GPL-3.0-only
  */
 
-import { App } from 'obsidian';
+import { App, WorkspaceLeaf } from 'obsidian';
 
 /**
  * Get the homepage URL from Obsidian's Web Viewer core plugin settings.
@@ -47,3 +47,24 @@ export function getWebViewerHomepage(app: App): string {
         return 'about:blank';
     }
 }
+
+/**
+ * Check if a page title is valid (not a loading/placeholder state)
+ */
+export function isValidPageTitle(title: string | undefined): title is string {
+    if (!title || title.trim() === '') return false;
+    // Filter out data: URIs (actual URIs have format like data:text/plain, data:image/png)
+    if (/^data:[a-z]+\//.test(title)) return false;
+    // Filter out about: pages (about:blank, about:newtab, etc. - actual URLs)
+    if (/^about:(blank|newtab|srcdoc)/.test(title)) return false;
+    if (title === 'New Tab' || title === 'Loading...') return false;
+    return true;
+}
+
+/**
+ * Get the page title shown by a web viewer leaf, if it is a real title
+ */
+export function getWebViewerTitle(leaf: WorkspaceLeaf): string | undefined {
+    const title: unknown = leaf.view.getState()?.title;
+    return typeof title === 'string' && isValidPageTitle(title) ? title.trim() : undefined;
+}
@@ -6,6 +6,9 @@
 
 import { Setting } from 'obsidian';
 import type WebSidecarPlugin from '../main';
+import type { DomainGrouping } from '../types';
+import { getExplorerSiteMatchers, getSiteExplorerSettings, updateSiteExplorerSettings } from '../services/matchers/registry';
+import { getUrlPatternSectionId } from '../services/matchers/urlPatterns';
 
 /**
  * Renders the auxiliary sections settings
@@ -36,6 +39,19 @@ export function renderAuxiliarySectionsSettings(containerEl: HTMLElement, plugin
                 await plugin.saveSettings();
             }));
 
+    new Setting(auxSectionsContainer)
+        .setName('Group domains by')
+        .setDesc('Registrable domain groups subdomains together (gist.github.com under github.com, bbc.co.uk under its own name). Full host keeps every hostname separate.')
+        .setClass('web-sidecar-sub-setting')
+        .addDropdown(dropdown => dropdown
+            .addOption('registrable', 'Registrable domain')
+            .addOption('host', 'Full host')
+            .setValue(plugin.settings.domainGrouping)
+            .onChange(async (value) => {
+                plugin.settings.domainGrouping = value as DomainGrouping;
+                await plugin.saveSettings();
+            }));
+
     new Setting(auxSectionsContainer)
         .setName('Group by tag')
         .setDesc('Show section with notes grouped by their tags')
@@ -71,53 +87,116 @@ export function renderAuxiliarySectionsSettings(containerEl: HTMLElement, plugin
                 }));
     }
 
-    new Setting(auxSectionsContainer)
-        .setName('Group by subreddit')
-        .setDesc('Show section with notes grouped by subreddit')
-        .addToggle(toggle => toggle
-            .setValue(plugin.settings.enableSubredditExplorer)
-            .onChange(async (value) => {
-                plugin.settings.enableSubredditExplorer = value;
-                await plugin.saveSettings();
-            }));
+    // Sites from the matcher registry
+    for (const matcher of getExplorerSiteMatchers()) {
+        new Setting(auxSectionsContainer)
+            .setName(`Group by ${matcher.groupLabel ?? matcher.name}`)
+            .setDesc(`Show section with ${matcher.name} notes grouped by ${matcher.groupLabel ?? 'site'}`)
+            .addToggle(toggle => toggle
+                .setValue(getSiteExplorerSettings(plugin.settings, matcher.id).enabled)
+                .onChange(async (value) => {
+                    updateSiteExplorerSettings(plugin.settings, matcher.id, { enabled: value });
+                    await plugin.saveSettings();
+                }));
+    }
 
-    new Setting(auxSectionsContainer)
-        .setName('Group by YouTube channel')
-        .setDesc('Show section with notes grouped by YouTube channel')
-        .addToggle(toggle => toggle
-            .setValue(plugin.settings.enableYouTubeChannelExplorer)
-            .onChange(async (value) => {
-                plugin.settings.enableYouTubeChannelExplorer = value;
+    renderUrlPatternGroupSettings(auxSectionsContainer, plugin, redisplay);
+}
+
+/**
+ * Renders the user-defined URL pattern grouping sections
+ */
+function renderUrlPatternGroupSettings(containerEl: HTMLElement, plugin: WebSidecarPlugin, redisplay: () => void): void {
+    new Setting(containerEl)
+        .setName('Group by URL pattern')
+        .setDesc('Define your own sections. Notes are grouped by the named (or first) capture group of a regular expression, e.g. https://jira.example.com/browse/(?<project>[A-Z]+)-\\d+')
+        .addButton(button => button
+            .setButtonText('Add section')
+            .onClick(async () => {
+                const group = { id: crypto.randomUUID(), name: '', pattern: '' };
+                const sectionId = getUrlPatternSectionId(group);
+                plugin.settings.urlPatternGroups = [...plugin.settings.urlPatternGroups, group];
+                plugin.settings.sectionOrder = [...plugin.settings.sectionOrder, sectionId];
+                updateSiteExplorerSettings(plugin.settings, sectionId, { enabled: true });
                 await plugin.saveSettings();
+                redisplay();
             }));
 
-    new Setting(auxSectionsContainer)
-        .setName('Group by X (Twitter) user')
-        .setDesc('Show section with notes grouped by X/Twitter user')
+    for (const group of plugin.settings.urlPatternGroups) {
+        const sectionId = getUrlPatternSectionId(group);
+
+        new Setting(containerEl)
+            .setName(group.name || 'New section')
+            .setClass('web-sidecar-sub-setting')
+            .addText(text => text
+                .setPlaceholder('Section name')
+                .setValue(group.name)
+                .onChange(async (value) => {
+                    group.name = value.trim();
+                    await plugin.saveSettings();
+                }))
+            .addText(text => text
+                .setPlaceholder('Regular expression')
+                .setValue(group.pattern)
+                .onChange(async (value) => {
+                    group.pattern = value.trim();
+                    await plugin.saveSettings();
+                }))
+            .addToggle(toggle => toggle
+                .setValue(getSiteExplorerSettings(plugin.settings, sectionId).enabled)
+                .onChange(async (value) => {
+                    updateSiteExplorerSettings(plugin.settings, sectionId, { enabled: value });
+                    await plugin.saveSettings();
+                }))
+            .addExtraButton(button => button
+                .setIcon('trash')
+                .setTooltip('Delete section')
+                .onClick(async () => {
+                    plugin.settings.urlPatternGroups = plugin.settings.urlPatternGroups.filter(g => g.id !== group.id);
+                    plugin.settings.sectionOrder = plugin.settings.sectionOrder.filter(id => id !== sectionId);
+                    plugin.settings.siteExplorers = Object.fromEntries(
+                        Object.entries(plugin.settings.siteExplorers).filter(([id]) => id !== sectionId)
+                    );
+                    await plugin.saveSettings();
+                    redisplay();
+                }));
+    }
+}
+
+/**
+ * Renders the domain rules settings
+ */
+export function renderDomainRulesSettings(containerEl: HTMLElement, plugin: WebSidecarPlugin, redisplay: () => void): void {
+    const domainRulesContainer = containerEl.createDiv({ cls: 'web-sidecar-settings-group' });
+    domainRulesContainer.createEl('div', { text: 'Domain rules', cls: 'web-sidecar-settings-group-title' });
+
+    new Setting(domainRulesContainer).setName('All domains').setHeading();
+
+    new Setting(domainRulesContainer)
+        .setName('Strip tracking parameters')
+        .setDesc('Ignore parameters like utm_source and fbclid (and si on YouTube) when matching urls to notes.')
+        .setClass('web-sidecar-sub-setting')
         .addToggle(toggle => toggle
-            .setValue(plugin.settings.enableTwitterExplorer)
+            .setValue(plugin.settings.stripTrackingParams)
             .onChange(async (value) => {
-                plugin.settings.enableTwitterExplorer = value;
+                plugin.settings.stripTrackingParams = value;
                 await plugin.saveSettings();
             }));
 
-    new Setting(auxSectionsContainer)
-        .setName('Group by GitHub repository')
-        .setDesc('Show section with notes grouped by GitHub repository (owner/repo)')
+    new Setting(domainRulesContainer)
+        .setName('Merge AMP pages')
+        .setDesc('Match AMP versions of a page (amp. subdomains, /amp paths, .amp.html) to notes of the regular page. Can merge distinct pages on sites that use /amp for other content.')
+        .setClass('web-sidecar-sub-setting')
         .addToggle(toggle => toggle
-            .setValue(plugin.settings.enableGithubExplorer)
+            .setValue(plugin.settings.stripAmpVariants)
             .onChange(async (value) => {
-                plugin.settings.enableGithubExplorer = value;
+                plugin.settings.stripAmpVariants = value;
                 await plugin.saveSettings();
             }));
-}
 
-/**
- * Renders the domain rules settings
- */
-export function renderDomainRulesSettings(containerEl: HTMLElement, plugin: WebSidecarPlugin): void {
-    const domainRulesContainer = containerEl.createDiv({ cls: 'web-sidecar-settings-group' });
-    domainRulesContainer.createEl('div', { text: 'Domain rules', cls: 'web-sidecar-settings-group-title' });
+    renderUrlCanonicalizationRules(domainRulesContainer, plugin, redisplay);
+    renderNoteTemplateRules(domainRulesContainer, plugin, redisplay);
+    renderNoteRoutingRules(domainRulesContainer, plugin, redisplay);
 
     new Setting(domainRulesContainer).setName('Reddit.com').setHeading();
 
@@ -160,9 +239,315 @@ export function renderDomainRulesSettings(containerEl: HTMLElement, plugin: WebS
                 await plugin.saveSettings();
             }));
 
+    new Setting(domainRulesContainer)
+        .setName('Record video timestamp')
+        .setDesc('When a note is opened next to a timestamped video link (t=), save the timestamp to the note.')
+        .setClass('web-sidecar-sub-setting')
+        .addToggle(toggle => toggle
+            .setValue(plugin.settings.recordYouTubeTimestamp)
+            .onChange(async (value) => {
+                plugin.settings.recordYouTubeTimestamp = value;
+                await plugin.saveSettings();
+                redisplay();
+            }));
+
+    if (plugin.settings.recordYouTubeTimestamp) {
+        new Setting(domainRulesContainer)
+            .setName('Timestamp property')
+            .setDesc('Frontmatter property used to store the video timestamp')
+            .setClass('web-sidecar-sub-setting')
+            .addText(text => text
+                .setPlaceholder('Timestamp')
+                .setValue(plugin.settings.youtubeTimestampProperty)
+                .onChange(async (value) => {
+                    plugin.settings.youtubeTimestampProperty = value.trim() || 'timestamp';
+                    await plugin.saveSettings();
+                }));
+    }
+
     domainRulesContainer.createEl('div', {
         text: 'Opening up more domain rules soon...',
         cls: 'setting-item-description',
         attr: { style: 'font-style: italic; padding-left: 14px; margin-top: 8px;' }
     });
 }
+
+/**
+ * Parse a comma-separated list (query parameter names, tags)
+ */
+function parseParamList(value: string): string[] {
+    return value
+        .split(',')
+        .map(s => s.trim())
+        .filter(s => s.length > 0);
+}
+
+/**
+ * Renders the user-defined URL canonicalization rules
+ */
+function renderUrlCanonicalizationRules(containerEl: HTMLElement, plugin: WebSidecarPlugin, redisplay: () => void): void {
+    new Setting(containerEl)
+        .setName('Custom URL rules')
+        .setDesc('Per-domain rules applied before matching urls to notes. Rules also apply to subdomains.')
+        .setClass('web-sidecar-sub-setting')
+        .addButton(button => button
+            .setButtonText('Add rule')
+            .onClick(async () => {
+                plugin.settings.urlCanonicalizationRules = [
+                    ...plugin.settings.urlCanonicalizationRules,
+                    { domain: '', keepParams: [], dropParams: [], pathRewrites: [], lowercasePath: false },
+                ];
+                await plugin.saveSettings();
+                redisplay();
+            }));
+
+    plugin.settings.urlCanonicalizationRules.forEach((rule, index) => {
+        new Setting(containerEl)
+            .setName(rule.domain || 'New rule')
+            .setClass('web-sidecar-sub-setting')
+            .addText(text => text
+                .setPlaceholder('Example: example.com')
+                .setValue(rule.domain)
+                .onChange(async (value) => {
+                    rule.domain = value.trim();
+                    await plugin.saveSettings();
+                }))
+            .addExtraButton(button => button
+                .setIcon('trash')
+                .setTooltip('Delete rule')
+                .onClick(async () => {
+                    plugin.settings.urlCanonicalizationRules = plugin.settings.urlCanonicalizationRules
+                        .filter((_, i) => i !== index);
+                    await plugin.saveSettings();
+                    redisplay();
+                }));
+
+        new Setting(containerEl)
+            .setName('Keep only these parameters')
+            .setDesc('Comma-separated. When set, all other query parameters are ignored.')
+            .setClass('web-sidecar-sub-setting')
+            .addText(text => text
+                .setPlaceholder('Example: id, page')
+                .setValue(rule.keepParams.join(', '))
+                .onChange(async (value) => {
+                    rule.keepParams = parseParamList(value);
+                    await plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Ignore these parameters')
+            .setDesc('Comma-separated query parameters to ignore in addition to tracking parameters.')
+            .setClass('web-sidecar-sub-setting')
+            .addText(text => text
+                .setPlaceholder('Example: sessionid, sort')
+                .setValue(rule.dropParams.join(', '))
+                .onChange(async (value) => {
+                    rule.dropParams = parseParamList(value);
+                    await plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Path rewrites')
+            .setDesc('One per line: regular expression => replacement (e.g. ^/en/(.*) => /$1)')
+            .setClass('web-sidecar-sub-setting')
+            .addTextArea(text => text
+                .setPlaceholder('^/en/(.*) => /$1')
+                .setValue(rule.pathRewrites.map(r => `${r.pattern} => ${r.replacement}`).join('\n'))
+                .onChange(async (value) => {
+                    rule.pathRewrites = value
+                        .split('\n')
+                        .filter(line => line.includes('=>'))
+                        .map(line => {
+                            const separator = line.indexOf('=>');
+                            return {
+                                pattern: line.slice(0, separator).trim(),
+                                replacement: line.slice(separator + 2).trim(),
+                            };
+                        })
+                        .filter(rewrite => rewrite.pattern.length > 0);
+                    await plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Case-insensitive paths')
+            .setDesc('Treat paths on this domain as case-insensitive.')
+            .setClass('web-sidecar-sub-setting')
+            .addToggle(toggle => toggle
+                .setValue(rule.lowercasePath)
+                .onChange(async (value) => {
+                    rule.lowercasePath = value;
+                    await plugin.saveSettings();
+                }));
+    });
+}
+
+/**
+ * Renders the per-domain note template rules
+ */
+function renderNoteTemplateRules(containerEl: HTMLElement, plugin: WebSidecarPlugin, redisplay: () => void): void {
+    new Setting(containerEl)
+        .setName('Note templates by domain')
+        .setDesc('Template used for new notes from a domain instead of the default note template. Rules also apply to subdomains.')
+        .setClass('web-sidecar-sub-setting')
+        .addButton(button => button
+            .setButtonText('Add template rule')
+            .onClick(async () => {
+                plugin.settings.noteTemplateRules = [
+                    ...plugin.settings.noteTemplateRules,
+                    { domain: '', templatePath: '' },
+                ];
+                await plugin.saveSettings();
+                redisplay();
+            }));
+
+    plugin.settings.noteTemplateRules.forEach((rule, index) => {
+        new Setting(containerEl)
+            .setName(rule.domain || 'New template rule')
+            .setClass('web-sidecar-sub-setting')
+            .addText(text => text
+                .setPlaceholder('Example: example.com')
+                .setValue(rule.domain)
+                .onChange(async (value) => {
+                    rule.domain = value.trim();
+                    await plugin.saveSettings();
+                }))
+            .addText(text => text
+                .setPlaceholder('Templates/web note')
+                .setValue(rule.templatePath)
+                .onChange(async (value) => {
+                    rule.templatePath = value.trim();
+                    await plugin.saveSettings();
+                }))
+            .addExtraButton(button => button
+                .setIcon('trash')
+                .setTooltip('Delete template rule')
+                .onClick(async () => {
+                    plugin.settings.noteTemplateRules = plugin.settings.noteTemplateRules
+                        .filter((_, i) => i !== index);
+                    await plugin.saveSettings();
+                    redisplay();
+                }));
+    });
+}
+
+/**
+ * Renders the ordered note routing rules (folder, file name, tags and properties of new notes)
+ */
+function renderNoteRoutingRules(containerEl: HTMLElement, plugin: WebSidecarPlugin, redisplay: () => void): void {
+    new Setting(containerEl)
+        .setName('New note routing')
+        .setDesc('Folder, file name, tags and properties of new notes by domain or url pattern (* = any characters). The first matching rule applies. Folder and file name support {{title}}, {{domain}} and {{date:YYYY-MM-DD}}.')
+        .setClass('web-sidecar-sub-setting')
+        .addButton(button => button
+            .setButtonText('Add routing rule')
+            .onClick(async () => {
+                plugin.settings.noteRoutingRules = [
+                    ...plugin.settings.noteRoutingRules,
+                    { pattern: '', folder: '', fileNamePattern: '', tags: [], properties: {} },
+                ];
+                await plugin.saveSettings();
+                redisplay();
+            }));
+
+    const rules = plugin.settings.noteRoutingRules;
+    const moveRule = async (index: number, offset: number) => {
+        const reordered = [...rules];
+        const [rule] = reordered.splice(index, 1);
+        if (!rule) return;
+        reordered.splice(index + offset, 0, rule);
+        plugin.settings.noteRoutingRules = reordered;
+        await plugin.saveSettings();
+        redisplay();
+    };
+
+    rules.forEach((rule, index) => {
+        const header = new Setting(containerEl)
+            .setName(rule.pattern || 'New routing rule')
+            .setClass('web-sidecar-sub-setting')
+            .addText(text => text
+                .setPlaceholder('Example: youtube.com')
+                .setValue(rule.pattern)
+                .onChange(async (value) => {
+                    rule.pattern = value.trim();
+                    await plugin.saveSettings();
+                }));
+
+        if (index > 0) {
+            header.addExtraButton(button => button
+                .setIcon('arrow-up')
+                .setTooltip('Move up')
+                .onClick(() => void moveRule(index, -1)));
+        }
+        if (index < rules.length - 1) {
+            header.addExtraButton(button => button
+                .setIcon('arrow-down')
+                .setTooltip('Move down')
+                .onClick(() => void moveRule(index, 1)));
+        }
+        header.addExtraButton(button => button
+            .setIcon('trash')
+            .setTooltip('Delete routing rule')
+            .onClick(async () => {
+                plugin.settings.noteRoutingRules = plugin.settings.noteRoutingRules
+                    .filter((_, i) => i !== index);
+                await plugin.saveSettings();
+                redisplay();
+            }));
+
+        new Setting(containerEl)
+            .setName('Folder')
+            .setDesc('Empty keeps the default folder.')
+            .setClass('web-sidecar-sub-setting')
+            .addText(text => text
+                .setPlaceholder('Example: media/videos')
+                .setValue(rule.folder)
+                .onChange(async (value) => {
+                    rule.folder = value.trim();
+                    await plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('File name')
+            .setDesc('Empty uses the note file name setting.')
+            .setClass('web-sidecar-sub-setting')
+            .addText(text => text
+                .setPlaceholder('{{date}} {{title}}')
+                .setValue(rule.fileNamePattern)
+                .onChange(async (value) => {
+                    rule.fileNamePattern = value.trim();
+                    await plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Tags')
+            .setDesc('Comma-separated tags added to new notes.')
+            .setClass('web-sidecar-sub-setting')
+            .addText(text => text
+                .setPlaceholder('Example: video, to-watch')
+                .setValue(rule.tags.join(', '))
+                .onChange(async (value) => {
+                    rule.tags = parseParamList(value).map(tag => tag.replace(/^#/, ''));
+                    await plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Properties')
+            .setDesc('One per line: property: value. Properties set by the note template are kept.')
+            .setClass('web-sidecar-sub-setting')
+            .addTextArea(text => text
+                .setPlaceholder('type: video')
+                .setValue(Object.entries(rule.properties).map(([key, value]) => `${key}: ${value}`).join('\n'))
+                .onChange(async (value) => {
+                    const properties: Record<string, string> = {};
+                    for (const line of value.split('\n')) {
+                        const separator = line.indexOf(':');
+                        const key = line.slice(0, separator).trim();
+                        if (separator > 0 && key) {
+                            properties[key] = line.slice(separator + 1).trim();
+                        }
+                    }
+                    rule.properties = properties;
+                    await plugin.saveSettings();
+                }));
+    });
+}
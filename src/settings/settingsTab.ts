@@ -7,9 +7,23 @@
 import { App, PluginSettingTab, Setting } from 'obsidian';
 import type WebSidecarPlugin from '../main';
 import { DEFAULT_SETTINGS } from '../types';
+import type { FileNameCollisionStrategy, PageMetadataField, ReadingQueueSource } from '../types';
 import { renderAuxiliarySectionsSettings, renderDomainRulesSettings } from './settingsSections';
 import { renderExperimentalSettings } from './settingsExperimental';
 
+/**
+ * Page metadata fields in settings order, with their labels
+ */
+const PAGE_METADATA_LABELS: [PageMetadataField, string][] = [
+	['title', 'Title'],
+	['author', 'Author'],
+	['published', 'Published date'],
+	['description', 'Description'],
+	['site', 'Site name'],
+	['image', 'Image'],
+	['wordCount', 'Word count'],
+];
+
 /**
  * Settings tab for Web Sidecar plugin
  */
@@ -52,6 +66,30 @@ export class WebSidecarSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		// Same section matching
+		new Setting(containerEl)
+			.setName('Same section depth')
+			.setDesc('Group same-domain notes sharing at least this many leading path segments (e.g. /3/library/ is 2) as "same section". Set to 0 to turn off.')
+			.addSlider(slider => slider
+				.setLimits(0, 5, 1)
+				.setValue(this.plugin.settings.sectionMatchDepth)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.sectionMatchDepth = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Body-link index
+		new Setting(containerEl)
+			.setName('Index links in note bodies')
+			.setDesc('Also find notes that link to or paste a url in their text, shown as "notes that mention this page". Reads every note once, so the first index takes longer in large vaults.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.enableBodyLinkIndex)
+				.onChange(async (value) => {
+					this.plugin.settings.enableBodyLinkIndex = value;
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl)
 			.setName('Tab appearance')
 			.setDesc('Choose how tabs are displayed in the sidebar')
@@ -104,6 +142,365 @@ export class WebSidecarSettingTab extends PluginSettingTab {
 				.onChange(async (value) => {
 					this.plugin.settings.capturePageContent = value;
 					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.capturePageContent) {
+			new Setting(containerEl)
+				.setName('Save images to vault')
+				.setDesc('Download the images of captured content to the attachment folder, so notes keep working offline. Images already saved are reused.')
+				.setClass('web-sidecar-sub-setting')
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings.localizeImages)
+					.onChange(async (value) => {
+						this.plugin.settings.localizeImages = value;
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+
+			if (this.plugin.settings.localizeImages) {
+				new Setting(containerEl)
+					.setName('Max image size (MB)')
+					.setDesc('Larger images keep their remote link')
+					.setClass('web-sidecar-sub-setting')
+					.addSlider(slider => slider
+						.setLimits(1, 50, 1)
+						.setValue(this.plugin.settings.maxImageSizeMb)
+						.setDynamicTooltip()
+						.onChange(async (value) => {
+							this.plugin.settings.maxImageSizeMb = value;
+							await this.plugin.saveSettings();
+						}));
+
+				new Setting(containerEl)
+					.setName('Max total image size per capture (MB)')
+					.setDesc('Total size of the images saved for one page')
+					.setClass('web-sidecar-sub-setting')
+					.addSlider(slider => slider
+						.setLimits(5, 200, 5)
+						.setValue(this.plugin.settings.maxCaptureImagesSizeMb)
+						.setDynamicTooltip()
+						.onChange(async (value) => {
+							this.plugin.settings.maxCaptureImagesSizeMb = value;
+							await this.plugin.saveSettings();
+						}));
+			}
+		}
+
+		// Flag Changed Pages
+		new Setting(containerEl)
+			.setName('Flag changed pages')
+			.setDesc('When a captured page loads, compare it with the last capture and mark its tab if the content changed')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.flagChangedPages)
+				.onChange(async (value) => {
+					this.plugin.settings.flagChangedPages = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Bulk Capture
+		new Setting(containerEl)
+			.setName('Skip domains when capturing all web viewers')
+			.setDesc('Comma-separated domains (subdomains included) left out by the "create linked notes for all open web viewers" command')
+			.addText(text => text
+				.setPlaceholder('Example: google.com, localhost')
+				.setValue(this.plugin.settings.bulkCaptureSkipDomains.join(', '))
+				.onChange(async (value) => {
+					this.plugin.settings.bulkCaptureSkipDomains = value
+						.split(',')
+						.map(s => s.trim())
+						.filter(s => s.length > 0);
+					await this.plugin.saveSettings();
+				}));
+
+		// Page Archive
+		new Setting(containerEl)
+			.setName('Archive folder')
+			.setDesc('Folder of the HTML copies saved by "Archive page". Archives are linked from the archive property of the page\'s note.')
+			.addText(text => text
+				.setPlaceholder('Web archive')
+				.setValue(this.plugin.settings.archiveFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.archiveFolder = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Max archive size (MB)')
+			.setDesc('Total size of the stylesheets, images and fonts included in one archive; the rest keeps its remote link')
+			.setClass('web-sidecar-sub-setting')
+			.addSlider(slider => slider
+				.setLimits(5, 100, 5)
+				.setValue(this.plugin.settings.archiveMaxSizeMb)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.archiveMaxSizeMb = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Browsing Sessions
+		new Setting(containerEl)
+			.setName('Sessions folder')
+			.setDesc('Folder of the notes saved by "save browsing session", reopened from the sessions button of the toolbar')
+			.addText(text => text
+				.setPlaceholder('Web sessions')
+				.setValue(this.plugin.settings.sessionsFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.sessionsFolder = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		// Visit History
+		new Setting(containerEl)
+			.setName('Visit history')
+			.setDesc('Keep a log of the pages visited in web viewers (visits, time on page), shown in the history section. Stored in the plugin folder, not in notes.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.enableVisitHistory)
+				.onChange(async (value) => {
+					this.plugin.settings.enableVisitHistory = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.enableVisitHistory) {
+			new Setting(containerEl)
+				.setName('Max pages in history')
+				.setDesc('The least recently visited pages are removed first')
+				.setClass('web-sidecar-sub-setting')
+				.addSlider(slider => slider
+					.setLimits(100, 10000, 100)
+					.setValue(this.plugin.settings.visitHistoryMaxEntries)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.visitHistoryMaxEntries = value;
+						await this.plugin.saveSettings();
+					}));
+
+			new Setting(containerEl)
+				.setName('Keep history for (days)')
+				.setDesc('Pages not visited for this long are removed. 0 keeps them until the max page count is reached.')
+				.setClass('web-sidecar-sub-setting')
+				.addSlider(slider => slider
+					.setLimits(0, 365, 1)
+					.setValue(this.plugin.settings.visitHistoryRetentionDays)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.visitHistoryRetentionDays = value;
+						await this.plugin.saveSettings();
+					}));
+
+			new Setting(containerEl)
+				.setName('Suggest pages to document')
+				.setDesc('List pages and domains you keep visiting that have no linked note, most visited and most recent first')
+				.setClass('web-sidecar-sub-setting')
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings.enableVisitSuggestions)
+					.onChange(async (value) => {
+						this.plugin.settings.enableVisitSuggestions = value;
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+
+			if (this.plugin.settings.enableVisitSuggestions) {
+				new Setting(containerEl)
+					.setName('Visits before suggesting')
+					.setDesc('Visits needed before a page or domain is suggested')
+					.setClass('web-sidecar-sub-setting')
+					.addSlider(slider => slider
+						.setLimits(2, 20, 1)
+						.setValue(this.plugin.settings.visitSuggestionMinVisits)
+						.setDynamicTooltip()
+						.onChange(async (value) => {
+							this.plugin.settings.visitSuggestionMinVisits = value;
+							await this.plugin.saveSettings();
+						}));
+
+				const dismissedCount = this.plugin.settings.dismissedVisitSuggestions.length;
+				new Setting(containerEl)
+					.setName('Dismissed suggestions')
+					.setDesc(`${dismissedCount} pages and domains will not be suggested again`)
+					.setClass('web-sidecar-sub-setting')
+					.addButton(button => button
+						.setButtonText('Reset')
+						.setDisabled(dismissedCount === 0)
+						.onClick(async () => {
+							this.plugin.settings.dismissedVisitSuggestions = [];
+							await this.plugin.saveSettings();
+							this.display();
+						}));
+			}
+
+			new Setting(containerEl)
+				.setName('Clear visit history')
+				.setDesc('Remove every page from the visit history')
+				.setClass('web-sidecar-sub-setting')
+				.addButton(button => button
+					.setButtonText('Clear history')
+					.setWarning()
+					.onClick(() => {
+						this.plugin.clearVisitHistory();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('Write visit statistics to linked notes')
+			.setDesc('Keep last_visited, visit_count and time_on_page (seconds) up to date in the properties of notes linked to the pages you visit, for Dataview or Bases queries. Written about once a minute, never to the note being edited.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.writeVisitStats)
+				.onChange(async (value) => {
+					this.plugin.settings.writeVisitStats = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Read-Later Queue
+		new Setting(containerEl)
+			.setName('Read-later queue')
+			.setDesc('Show a queue of pages to read, kept in the vault so it syncs across devices. Add pages from the menu of a web viewer and open them in order.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.enableReadingQueue)
+				.onChange(async (value) => {
+					this.plugin.settings.enableReadingQueue = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.enableReadingQueue) {
+			new Setting(containerEl)
+				.setName('Queue source')
+				.setDesc('A checklist of links in one note, or the linked notes with "status: to-read" (set to "read" once read)')
+				.setClass('web-sidecar-sub-setting')
+				.addDropdown(dropdown => dropdown
+					.addOption('checklist', 'Checklist note')
+					.addOption('status', 'Notes with status: to-read')
+					.setValue(this.plugin.settings.readingQueueSource)
+					.onChange(async (value) => {
+						this.plugin.settings.readingQueueSource = value as ReadingQueueSource;
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+
+			if (this.plugin.settings.readingQueueSource === 'checklist') {
+				new Setting(containerEl)
+					.setName('Queue note')
+					.setDesc('Note holding the queue checklist (created when the first page is added)')
+					.setClass('web-sidecar-sub-setting')
+					.addText(text => text
+						.setPlaceholder('Read later.md')
+						.setValue(this.plugin.settings.readingQueueNote)
+						.onChange(async (value) => {
+							this.plugin.settings.readingQueueNote = value;
+							await this.plugin.saveSettings();
+						}));
+			}
+
+			new Setting(containerEl)
+				.setName('Mark as read after (seconds)')
+				.setDesc('Check off a queued page once it has been shown this long in the focused web viewer. 0 never checks pages off automatically.')
+				.setClass('web-sidecar-sub-setting')
+				.addSlider(slider => slider
+					.setLimits(0, 300, 5)
+					.setValue(this.plugin.settings.readingQueueAutoCheckSeconds)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.readingQueueAutoCheckSeconds = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		// Save Page Metadata
+		new Setting(containerEl)
+			.setName('Save page metadata')
+			.setDesc('When creating a new linked note, write the page metadata (author, published date, ...) to its properties')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.savePageMetadata)
+				.onChange(async (value) => {
+					this.plugin.settings.savePageMetadata = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.savePageMetadata) {
+			for (const [field, label] of PAGE_METADATA_LABELS) {
+				new Setting(containerEl)
+					.setName(`${label} property`)
+					.setClass('web-sidecar-sub-setting')
+					.addText(text => text
+						.setPlaceholder('Not saved')
+						.setValue(this.plugin.settings.pageMetadataProperties[field])
+						.onChange(async (value) => {
+							this.plugin.settings.pageMetadataProperties = {
+								...this.plugin.settings.pageMetadataProperties,
+								[field]: value.trim(),
+							};
+							await this.plugin.saveSettings();
+						}));
+			}
+		}
+
+		// Note Template
+		new Setting(containerEl)
+			.setName('Note template')
+			.setDesc('Template file for new linked notes. Supports {{url}}, {{title}}, {{domain}}, {{date:YYYY-MM-DD}}, {{content}}, {{selection}}, {{author}} and {{published}}. Leave empty for the built-in template.')
+			.addText(text => text
+				.setPlaceholder('Templates/web note')
+				.setValue(this.plugin.settings.noteTemplatePath)
+				.onChange(async (value) => {
+					this.plugin.settings.noteTemplatePath = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		// Note Template Folder
+		new Setting(containerEl)
+			.setName('Template folder')
+			.setDesc('Templates in this folder can be picked when creating a note')
+			.setClass('web-sidecar-sub-setting')
+			.addText(text => text
+				.setPlaceholder('Templates')
+				.setValue(this.plugin.settings.noteTemplateFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.noteTemplateFolder = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		// Note File Name Template
+		new Setting(containerEl)
+			.setName('Note file name')
+			.setDesc('File name of new linked notes. Supports {{title}}, {{domain}}, {{url}} and {{date:YYYY-MM-DD}}. Routing rules with a file name take precedence.')
+			.addText(text => text
+				.setPlaceholder('{{title}}')
+				.setValue(this.plugin.settings.noteFileNameTemplate)
+				.onChange(async (value) => {
+					this.plugin.settings.noteFileNameTemplate = value.trim() || DEFAULT_SETTINGS.noteFileNameTemplate;
+					await this.plugin.saveSettings();
+				}));
+
+		// Note File Name Max Length
+		new Setting(containerEl)
+			.setName('Max file name length')
+			.setDesc('Longer file names are shortened, preferably at a word boundary')
+			.setClass('web-sidecar-sub-setting')
+			.addSlider(slider => slider
+				.setLimits(20, 200, 10)
+				.setValue(this.plugin.settings.noteFileNameMaxLength)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.noteFileNameMaxLength = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Note File Name Collision
+		new Setting(containerEl)
+			.setName('When the file name is taken')
+			.setDesc('What to do when a note with the same name already exists in the folder')
+			.setClass('web-sidecar-sub-setting')
+			.addDropdown(dropdown => dropdown
+				.addOption('suffix', 'Add a number')
+				.addOption('open-existing', 'Open the existing note')
+				.addOption('prompt', 'Ask')
+				.setValue(this.plugin.settings.noteFileNameCollision)
+				.onChange(async (value) => {
+					this.plugin.settings.noteFileNameCollision = value as FileNameCollisionStrategy;
+					await this.plugin.saveSettings();
 				}));
 
 		// Recent Notes Count
@@ -202,7 +599,7 @@ export class WebSidecarSettingTab extends PluginSettingTab {
 		renderAuxiliarySectionsSettings(containerEl, this.plugin, () => this.display());
 
 		// Render domain rules settings
-		renderDomainRulesSettings(containerEl, this.plugin);
+		renderDomainRulesSettings(containerEl, this.plugin, () => this.display());
 
 		// Render experimental settings
 		renderExperimentalSettings(containerEl, this.plugin, () => this.display());
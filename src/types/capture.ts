@@ -0,0 +1,151 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import type { TFile } from 'obsidian';
+
+/**
+ * Content and metadata captured from a web viewer page
+ */
+export interface CapturedPage {
+    /** Main content as markdown (null if extraction failed) */
+    content: string | null;
+    /** Page title reported by the page metadata */
+    title?: string;
+    author?: string;
+    /** Publication date as found in the page metadata */
+    published?: string;
+    description?: string;
+    /** Site name */
+    site?: string;
+    /** Main image URL */
+    image?: string;
+    /** Word count of the main content */
+    wordCount?: number;
+    /** Text selected in the page when captured */
+    selection?: string;
+}
+
+/**
+ * Page metadata fields that can be written to frontmatter of new notes
+ */
+export type PageMetadataField = 'title' | 'author' | 'published' | 'description' | 'site' | 'image' | 'wordCount';
+
+/**
+ * Frontmatter property for each page metadata field (empty skips the field)
+ */
+export type PageMetadataProperties = Record<PageMetadataField, string>;
+
+/**
+ * Text selected in a web viewer page
+ */
+export interface CapturedSelection {
+    /** Selected HTML, with links and images made absolute */
+    html: string;
+    /** Selected text as rendered by the page */
+    text: string;
+}
+
+/**
+ * Values available to note templates as {{variables}}
+ */
+export interface NoteTemplateData {
+    url: string;
+    /** Title of the note being created */
+    title: string;
+    content?: string;
+    selection?: string;
+    author?: string;
+    published?: string;
+}
+
+/**
+ * Image that could not be saved to the vault when localizing captured content
+ */
+export interface AssetFailure {
+    url: string;
+    /** Why the image was skipped (HTTP status, size limit, not an image, ...) */
+    reason: string;
+}
+
+/**
+ * Captured markdown with its images rewritten to local attachments
+ */
+export interface AssetLocalizationResult {
+    markdown: string;
+    /** Paths of the attachments created */
+    saved: string[];
+    /** Images already in the vault (same content hash) */
+    reused: number;
+    /** Images left pointing to their remote URL */
+    failures: AssetFailure[];
+}
+
+/**
+ * A line of a line-based diff between two captures
+ */
+export interface DiffLine {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+/**
+ * Options of linked note creation from a URL
+ */
+export interface NoteCreationOptions {
+    /** Set to false to leave the page content out even if capturing is enabled (default: true) */
+    includeContent?: boolean;
+    /** Open the created note in a new tab (default: true) */
+    openNote?: boolean;
+}
+
+/**
+ * What a linked note is created from: chosen in the create note dialog,
+ * or the page title and defaults for direct note creation
+ */
+export interface NoteDraft {
+    title: string;
+    /** Template file (empty for the built-in template) */
+    templatePath: string;
+    /** Whether to add the captured page content */
+    includeContent: boolean;
+    /** Page capture of the web viewer the note is created from */
+    page: CapturedPage | null;
+}
+
+/**
+ * Outcome of linked note creation from a URL
+ */
+export interface NoteCreationResult {
+    /** The created note (or the existing note with the same name), or null if none was created */
+    file: TFile | null;
+    /** Whether the page content was wanted but could not be captured */
+    captureFailed: boolean;
+    /** Whether a note with the same name existed and was used instead (open existing strategy) */
+    existing?: boolean;
+    /** Whether the user cancelled at the file name collision prompt */
+    cancelled?: boolean;
+}
+
+/**
+ * A web viewer tab handled by the bulk capture of open web viewers
+ */
+export interface BulkCaptureItem {
+    url: string;
+    title: string;
+    /** Why the tab was skipped or failed */
+    reason?: string;
+    /** Created note */
+    file?: TFile;
+}
+
+/**
+ * Summary of a bulk capture of open web viewers
+ */
+export interface BulkCaptureResult {
+    created: BulkCaptureItem[];
+    skipped: BulkCaptureItem[];
+    failed: BulkCaptureItem[];
+}
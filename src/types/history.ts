@@ -0,0 +1,40 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+/**
+ * A page in the visit history, merged across its visits
+ */
+export interface VisitHistoryEntry {
+    url: string;
+    title: string;
+    /** First visit (ms since epoch) */
+    firstVisit: number;
+    /** Most recent visit (ms since epoch) */
+    lastVisit: number;
+    visitCount: number;
+    /** Time the page was shown in the focused web viewer, all visits together (ms) */
+    dwellTime: number;
+    /** Whether the page had a linked note at its most recent visit */
+    hadLinkedNote: boolean;
+}
+
+/**
+ * A page or domain visited repeatedly that has no linked note
+ */
+export interface VisitSuggestion {
+    /** Key stored when the suggestion is dismissed: "page:<normalized URL>" or "domain:<domain>" */
+    key: string;
+    kind: 'page' | 'domain';
+    /** Page URL, or the home page of the domain */
+    url: string;
+    title: string;
+    visitCount: number;
+    /** Distinct pages visited (1 for a page) */
+    pageCount: number;
+    lastVisit: number;
+    /** Ranking: visit count weighted by recency */
+    score: number;
+}
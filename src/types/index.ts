@@ -9,3 +9,8 @@ export * from './tabs';
 export * from './search';
 export * from './settings';
 export * from './view';
+export * from './sites';
+export * from './capture';
+export * from './sessions';
+export * from './history';
+export * from './queue';
@@ -0,0 +1,15 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+/**
+ * A page waiting in the read-later queue
+ */
+export interface ReadingQueueItem {
+    url: string;
+    title: string;
+    /** Vault path of the note holding the item: the queue note, or the note marked to read */
+    path: string;
+}
@@ -9,7 +9,26 @@ import { TFile } from 'obsidian';
 /**
  * Match type for a found note
  */
-export type MatchType = 'exact' | 'tld';
+export type MatchType = 'exact' | 'section' | 'tld' | 'mention';
+
+/**
+ * Where a URL is mentioned in a note body
+ */
+export interface MentionContext {
+    /** 0-based line number */
+    line: number;
+    /** Nearest heading above the mention */
+    heading?: string;
+    /** Trimmed text of the line */
+    text: string;
+}
+
+/**
+ * A URL found in a note body (link, bare URL or autolink)
+ */
+export interface BodyMention extends MentionContext {
+    url: string;
+}
 
 /**
  * A note matched by URL search
@@ -19,6 +38,10 @@ export interface MatchedNote {
     matchType: MatchType;
     url: string;
     propertyName: string;
+    /** Set for 'section' matches: number of leading path segments shared with the URL */
+    sharedPathDepth?: number;
+    /** Set for 'mention' matches: every place the note mentions the URL */
+    mentions?: MentionContext[];
 }
 
 /**
@@ -27,6 +50,10 @@ export interface MatchedNote {
 export interface MatchResult {
     exactMatches: MatchedNote[];
     tldMatches: MatchedNote[];
+    /** Same-domain notes sharing a path prefix (e.g. /3/library/), longest prefix first */
+    sectionMatches?: MatchedNote[];
+    /** Notes mentioning the URL in their body (body-link index only) */
+    mentionMatches?: MatchedNote[];
     subredditMatches?: Map<string, MatchedNote[]>;
     matchedChannel?: string;
 }
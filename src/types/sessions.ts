@@ -0,0 +1,30 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+/**
+ * A web viewer saved in a browsing session
+ */
+export interface BrowsingSessionTab {
+    url: string;
+    title: string;
+    /** Whether the tab was a pinned tab */
+    pinned: boolean;
+    /** Whether the tab was in a popout window */
+    popout: boolean;
+    /** Vault paths of the linked notes open next to the tab */
+    notes: string[];
+}
+
+/**
+ * The open web viewers at one point, saved as a note to reopen them later
+ */
+export interface BrowsingSession {
+    name: string;
+    /** When the session was saved (ISO date and time) */
+    saved: string;
+    /** Web viewers in sidebar order (pinned tabs first) */
+    tabs: BrowsingSessionTab[];
+}
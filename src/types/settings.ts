@@ -5,6 +5,8 @@
  */
 
 import { PinnedTab } from './tabs';
+import type { PageMetadataProperties } from './capture';
+import type { SiteExplorerSettings, UrlPatternGroup } from './sites';
 
 /**
  * Plugin settings interface
@@ -18,6 +20,8 @@ export interface WebSidecarSettings {
     enableRecentNotes: boolean;
     /** Enable Web domains auxiliary section */
     enableTldSearch: boolean;
+    /** Group domains by registrable domain (github.com covers gist.github.com) or by full hostname */
+    domainGrouping: DomainGrouping;
     /** Use vault's default location for new notes instead of custom path */
     useVaultDefaultLocation: boolean;
     /** Default folder path for new notes (empty = vault root) */
@@ -50,30 +54,18 @@ export interface WebSidecarSettings {
     noteOpenBehavior: NoteOpenBehavior;
     /** Enable subreddit filtering for 'same domain' notes */
     enableSubredditFilter: boolean;
-    /** Enable grouping matches by subreddit */
-    enableSubredditExplorer: boolean;
     /** Order of auxiliary sections (drag-to-reorder) */
     sectionOrder: string[];
     /** Sort order for domain grouping section */
     domainSortOrder: 'alpha' | 'count' | 'recent';
-    /** Sort order for subreddit explorer section */
-    subredditSortOrder: 'alpha' | 'count' | 'recent';
-    /** Enable YouTube channel grouping auxiliary section */
-    enableYouTubeChannelExplorer: boolean;
     /** Filter 'More notes from this domain' to same YouTube channel */
     enableYouTubeChannelFilter: boolean;
     /** Property fields to check for YouTube channel name, in priority order */
     youtubeChannelPropertyFields: string[];
-    /** Sort order for YouTube channel explorer section */
-    youtubeChannelSortOrder: 'alpha' | 'count' | 'recent';
-    /** Enable grouping matches by Twitter/X user */
-    enableTwitterExplorer: boolean;
-    /** Sort order for Twitter user explorer section */
-    twitterSortOrder: 'alpha' | 'count' | 'recent';
-    /** Enable grouping matches by GitHub repository */
-    enableGithubExplorer: boolean;
-    /** Sort order for GitHub repository explorer section */
-    githubSortOrder: 'alpha' | 'count' | 'recent';
+    /** Record the video timestamp into the note when opened from a timestamped YouTube link */
+    recordYouTubeTimestamp: boolean;
+    /** Frontmatter property used to store the recorded video timestamp */
+    youtubeTimestampProperty: string;
     /** Enable grouping all web notes by tags */
     enableTagGrouping: boolean;
     /** Enable grouping web notes by selected tags */
@@ -84,16 +76,19 @@ export interface WebSidecarSettings {
     tagSortOrder: 'alpha' | 'count' | 'recent';
     /** Sort order for selected tag grouping section */
     selectedTagSortOrder: 'alpha' | 'count' | 'recent';
+    /** Explorer section state for registry-driven sites, keyed by site matcher id */
+    siteExplorers: Record<string, SiteExplorerSettings>;
+    /** User-defined URL pattern grouping sections */
+    urlPatternGroups: UrlPatternGroup[];
 
     // UI Persistence
     isRecentNotesOpen: boolean;
     isDomainGroupOpen: boolean;
-    isSubredditExplorerOpen: boolean;
     isTagGroupOpen: boolean;
     isSelectedTagGroupOpen: boolean;
-    isYouTubeChannelExplorerOpen: boolean;
-    isTwitterExplorerOpen: boolean;
-    isGithubExplorerOpen: boolean;
+    isVisitHistoryOpen: boolean;
+    isVisitSuggestionsOpen: boolean;
+    isReadingQueueOpen: boolean;
     /** JSON string of Set<string> for expanded groups */
     expandedGroupIds: string[];
 
@@ -109,16 +104,163 @@ export interface WebSidecarSettings {
     // Content Capture
     /** Capture page content when creating new linked notes (desktop only) */
     capturePageContent: boolean;
+    /** Download images of captured content into the vault attachment folder */
+    localizeImages: boolean;
+    /** Largest image downloaded when localizing images (MB) */
+    maxImageSizeMb: number;
+    /** Total size of the images downloaded for one capture (MB) */
+    maxCaptureImagesSizeMb: number;
+    /** Compare loaded pages with their last capture and flag changed ones */
+    flagChangedPages: boolean;
+    /** Domains left out when creating notes for all open web viewers */
+    bulkCaptureSkipDomains: string[];
+
+    // Page Archive
+    /** Vault folder of HTML page archives */
+    archiveFolder: string;
+    /** Total size of the stylesheets, images and fonts inlined in one archive (MB) */
+    archiveMaxSizeMb: number;
+
+    // Browsing Sessions
+    /** Vault folder of saved browsing session notes */
+    sessionsFolder: string;
+
+    // Visit History
+    /** Keep a local log of the pages visited in web viewers (History section) */
+    enableVisitHistory: boolean;
+    /** Most pages kept in the visit history (least recently visited dropped first) */
+    visitHistoryMaxEntries: number;
+    /** Days a page stays in the visit history after its last visit (0 = no limit) */
+    visitHistoryRetentionDays: number;
+    /** Suggest frequently visited pages and domains without a linked note (Suggestions section) */
+    enableVisitSuggestions: boolean;
+    /** Visits needed before a page or domain is suggested */
+    visitSuggestionMinVisits: number;
+    /** Suggestions dismissed forever ("page:<normalized URL>" or "domain:<domain>") */
+    dismissedVisitSuggestions: string[];
+    /** Write last visit, visit count and time on page to the frontmatter of linked notes */
+    writeVisitStats: boolean;
+
+    // Read-Later Queue
+    /** Show the read-later queue (Queue section) */
+    enableReadingQueue: boolean;
+    /** Where the queue comes from: a checklist note, or notes with `status: to-read` */
+    readingQueueSource: ReadingQueueSource;
+    /** Checklist note of the queue (checklist source) */
+    readingQueueNote: string;
+    /** Seconds a queued page must be read in the focused web viewer before it is checked off (0 = never) */
+    readingQueueAutoCheckSeconds: number;
+
+    // Page Metadata
+    /** Write page metadata found when capturing (author, published date, ...) to new linked notes */
+    savePageMetadata: boolean;
+    /** Frontmatter property names for page metadata */
+    pageMetadataProperties: PageMetadataProperties;
+
+    // Note Templates
+    /** Template file for new linked notes (empty uses the built-in template) */
+    noteTemplatePath: string;
+    /** Folder whose templates are offered in the create note dialog */
+    noteTemplateFolder: string;
+    /** Per-domain templates, overriding the default template */
+    noteTemplateRules: NoteTemplateRule[];
+    /** Ordered rules deciding folder, file name, tags and properties of new notes (first match wins) */
+    noteRoutingRules: NoteRoutingRule[];
     /** Prefer to open notes in the right tab group */
     preferNotesRight: boolean;
 
+    // Note File Names
+    /** File name of new notes, supports {{variables}} (overridden by routing rules) */
+    noteFileNameTemplate: string;
+    /** Max length of new note file names in characters (without extension) */
+    noteFileNameMaxLength: number;
+    /** What to do when a note with the same file name exists */
+    noteFileNameCollision: FileNameCollisionStrategy;
+
     // Linked Note Display
     /** How to display linked notes in web viewer tabs based on open state */
     linkedNoteDisplayStyle: 'none' | 'color' | 'style';
     /** Fetch page titles for virtual tabs (web notes not currently open) */
     fetchVirtualTabTitles: boolean;
+
+    // URL Canonicalization
+    /** Strip known tracking parameters (utm_*, fbclid, YouTube's si, ...) before comparing URLs */
+    stripTrackingParams: boolean;
+    /** Treat AMP variants of a page (amp. hosts, /amp paths, .amp.html) as the page itself */
+    stripAmpVariants: boolean;
+    /** User-defined per-domain canonicalization rules */
+    urlCanonicalizationRules: UrlCanonicalizationRule[];
+
+    // Same section matching
+    /** Minimum shared path segments for "Same section" matches (0 disables) */
+    sectionMatchDepth: number;
+
+    // Body links
+    /** Also index URLs linked or pasted in note bodies, shown as "Notes that mention this page" */
+    enableBodyLinkIndex: boolean;
 }
 
+/**
+ * Path rewrite applied to URLs of a domain before comparison
+ */
+export interface UrlPathRewrite {
+    /** Regular expression matched against the URL path */
+    pattern: string;
+    /** Replacement string (supports $1-style capture groups) */
+    replacement: string;
+}
+
+/**
+ * Per-domain URL canonicalization rule
+ */
+export interface UrlCanonicalizationRule {
+    /** Domain the rule applies to, including its subdomains (e.g., "example.com") */
+    domain: string;
+    /** Query parameters to keep; when non-empty, all other parameters are dropped */
+    keepParams: string[];
+    /** Query parameters to drop in addition to the built-in tracking parameters */
+    dropParams: string[];
+    /** Path rewrites applied in order */
+    pathRewrites: UrlPathRewrite[];
+    /** Treat the path as case-insensitive for this domain */
+    lowercasePath: boolean;
+}
+
+/**
+ * Template used for new notes created from pages of a domain
+ */
+export interface NoteTemplateRule {
+    /** Domain the rule applies to, including its subdomains (e.g., "example.com") */
+    domain: string;
+    /** Path of the template file */
+    templatePath: string;
+}
+
+/**
+ * Where and how new notes for matching URLs are created
+ */
+export interface NoteRoutingRule {
+    /**
+     * Domain, including its subdomains (e.g., "youtube.com"), or URL pattern with * wildcards
+     * matched against host and path (e.g., "github.com/obsidianmd")
+     */
+    pattern: string;
+    /** Folder for new notes, supports {{variables}} (empty keeps the default folder) */
+    folder: string;
+    /** File name of new notes, supports {{variables}} (empty uses the note title) */
+    fileNamePattern: string;
+    /** Tags added to new notes */
+    tags: string[];
+    /** Frontmatter properties added to new notes (kept if the template sets them) */
+    properties: Record<string, string>;
+}
+
+/**
+ * Handling of a new note whose file name is taken:
+ * add a numeric suffix, open the existing note, or ask
+ */
+export type FileNameCollisionStrategy = 'suffix' | 'open-existing' | 'prompt';
+
 /**
  * Sort order options for web viewer tabs
  */
@@ -129,6 +271,17 @@ export type TabSortOrder = 'focus' | 'title' | 'manual';
  */
 export type TabAppearance = 'linked-mode' | 'basic';
 
+/**
+ * How URLs are grouped into domains: registrable domain (eTLD+1) or full hostname
+ */
+export type DomainGrouping = 'registrable' | 'host';
+
+/**
+ * Source of the read-later queue: a checklist of URLs in one note,
+ * or the linked notes with `status: to-read`
+ */
+export type ReadingQueueSource = 'checklist' | 'status';
+
 /**
  * Note opening behavior from sidebar
  */
@@ -142,6 +295,7 @@ export const DEFAULT_SETTINGS: WebSidecarSettings = {
     primaryUrlProperty: 'source',
     enableRecentNotes: true,
     enableTldSearch: true,
+    domainGrouping: 'host',
     useVaultDefaultLocation: true,
     newNoteFolderPath: '',
     recentNotesCount: 10,
@@ -158,36 +312,31 @@ export const DEFAULT_SETTINGS: WebSidecarSettings = {
     collapseDuplicateUrls: true,
     noteOpenBehavior: 'split',
     enableSubredditFilter: false,
-    enableSubredditExplorer: false,
-    sectionOrder: ['recent', 'domain', 'subreddit', 'youtube', 'twitter', 'github', 'tag', 'selected-tag'],
+    sectionOrder: ['recent', 'domain', 'subreddit', 'youtube', 'twitter', 'github', 'tag', 'selected-tag', 'history', 'suggestions', 'queue'],
     domainSortOrder: 'alpha',
-    subredditSortOrder: 'alpha',
-    enableTwitterExplorer: false,
-    twitterSortOrder: 'alpha',
-    enableGithubExplorer: false,
-    githubSortOrder: 'alpha',
     enableTagGrouping: false,
     enableSelectedTagGrouping: false,
     selectedTagsAllowlist: '',
     tagSortOrder: 'alpha',
     selectedTagSortOrder: 'alpha',
+    siteExplorers: {},
+    urlPatternGroups: [],
 
     // UI Persistence Defaults
     isRecentNotesOpen: false,
     fetchVirtualTabTitles: true,
     isDomainGroupOpen: false,
-    isSubredditExplorerOpen: false,
-    isTwitterExplorerOpen: false,
-    isGithubExplorerOpen: false,
     isTagGroupOpen: false,
     isSelectedTagGroupOpen: false,
-    isYouTubeChannelExplorerOpen: false,
+    isVisitHistoryOpen: false,
+    isVisitSuggestionsOpen: false,
+    isReadingQueueOpen: false,
 
-    // YouTube Channel Explorer
-    enableYouTubeChannelExplorer: false,
+    // YouTube
     enableYouTubeChannelFilter: false,
     youtubeChannelPropertyFields: ['channel_name', 'author'],
-    youtubeChannelSortOrder: 'alpha',
+    recordYouTubeTimestamp: false,
+    youtubeTimestampProperty: 'timestamp',
 
     expandedGroupIds: [],
 
@@ -203,7 +352,68 @@ export const DEFAULT_SETTINGS: WebSidecarSettings = {
 
     // Content Capture
     capturePageContent: true,
+    localizeImages: false,
+    maxImageSizeMb: 5,
+    maxCaptureImagesSizeMb: 25,
+    flagChangedPages: false,
+    bulkCaptureSkipDomains: [],
+
+    // Page Archive
+    archiveFolder: 'Web archive',
+    archiveMaxSizeMb: 20,
+
+    // Browsing Sessions
+    sessionsFolder: 'Web sessions',
+
+    // Visit History
+    enableVisitHistory: false,
+    visitHistoryMaxEntries: 2000,
+    visitHistoryRetentionDays: 90,
+    enableVisitSuggestions: false,
+    visitSuggestionMinVisits: 3,
+    dismissedVisitSuggestions: [],
+    writeVisitStats: false,
+
+    // Read-Later Queue
+    enableReadingQueue: false,
+    readingQueueSource: 'checklist',
+    readingQueueNote: 'Read later.md',
+    readingQueueAutoCheckSeconds: 30,
+
+    // Page Metadata
+    savePageMetadata: false,
+    pageMetadataProperties: {
+        title: '',
+        author: 'author',
+        published: 'published',
+        description: 'description',
+        site: 'site',
+        image: 'image',
+        wordCount: '',
+    },
+
+    // Note Templates
+    noteTemplatePath: '',
+    noteTemplateFolder: '',
+    noteTemplateRules: [],
+    noteRoutingRules: [],
+
+    // Note File Names
+    noteFileNameTemplate: '{{title}}',
+    noteFileNameMaxLength: 100,
+    noteFileNameCollision: 'suffix',
 
     // Linked Note Display
     linkedNoteDisplayStyle: 'none',
+
+    // URL Canonicalization
+    stripTrackingParams: true,
+    stripAmpVariants: false,
+    urlCanonicalizationRules: [],
+
+    // Same section matching
+    sectionMatchDepth: 0,
+
+    // Body links
+    enableBodyLinkIndex: false,
 };
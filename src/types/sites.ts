@@ -0,0 +1,68 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import type { WebSidecarSettings } from './settings';
+
+/**
+ * Declarative description of a site with special URL semantics
+ * (post/video ids, grouping by community/channel/user, ...)
+ */
+export interface SiteMatcher {
+    /** Unique id, also used as section id and group id prefix (e.g., "reddit") */
+    id: string;
+    /** Display name (e.g., "Reddit") */
+    name: string;
+    /** Domain used for section and group favicons */
+    faviconDomain: string;
+    /** Lucide icon shown instead of the favicon */
+    icon?: string;
+    /** Indexed domains to scan for notes; omit to scan all notes with URLs */
+    indexDomains?: string[];
+    /** Treat every domain matched by this site as one domain for "More web notes" */
+    sharedDomain?: boolean;
+
+    /** Check whether a URL belongs to this site */
+    matchesDomain: (url: string) => boolean;
+    /** Extract the identity of the resource (post id, video id, ...) */
+    extractId?: (url: string) => string | null;
+    /** Check whether two URLs of this site point to the same resource (defaults to comparing extractId) */
+    isEquivalent?: (url1: string, url2: string) => boolean;
+
+    /** Section label, shown with the group count (e.g., "Subreddits") */
+    sectionLabel?: string;
+    /** What groups represent, used in settings (e.g., "subreddit") */
+    groupLabel?: string;
+    /** Extract the grouping key for the explorer section */
+    getGroupKey?: (url: string, frontmatter: Record<string, unknown>, settings: WebSidecarSettings) => string | null;
+    /** URL to open for a group from its external link button */
+    getGroupUrl?: (key: string) => string | null;
+    /**
+     * Names of vault notes that may describe a group (e.g., a channel note), tried in order;
+     * a found note gets a link button and its URL property is used when getGroupUrl has none
+     */
+    getGroupNoteNames?: (key: string) => string[];
+}
+
+/**
+ * Persisted state for a registry-driven site explorer section
+ */
+export interface SiteExplorerSettings {
+    enabled: boolean;
+    sortOrder: 'alpha' | 'count' | 'recent';
+    isOpen: boolean;
+}
+
+/**
+ * User-defined grouping section driven by a URL regular expression
+ */
+export interface UrlPatternGroup {
+    /** Stable id; the section id is "pattern:<id>" */
+    id: string;
+    /** Section name (e.g., "Jira projects") */
+    name: string;
+    /** Regular expression matched against note URLs; named capture groups (or the first group) form the group key */
+    pattern: string;
+}
@@ -14,6 +14,18 @@ export interface WebViewerInfo {
     title?: string;
 }
 
+/**
+ * A URL visited by a tracked web viewer tab
+ */
+export interface TabHistoryEntry {
+    url: string;
+    title?: string;
+    /** When the tab arrived at this URL */
+    timestamp: number;
+    /** Whether the URL had linked notes when visited */
+    hadLinkedNotes: boolean;
+}
+
 /**
  * Tracked web viewer tab with focus timestamp
  */
@@ -32,8 +44,25 @@ export interface TrackedWebViewer {
     leaf?: WorkspaceLeaf;
     /** Original URL when tab was opened from a linked note (before any redirects) */
     originalUrl?: string;
+    /** Recent navigation history, oldest first; the last entry is the current URL (bounded) */
+    history: TabHistoryEntry[];
 }
 
+/**
+ * A state transition of a tracked web viewer tab, applied by reduceTabState()
+ */
+export type TabStateEvent =
+    /** The tab is at a URL (from a navigation event or a state scan); a repeated URL only refreshes the title */
+    | { type: 'navigate'; url: string; title?: string; timestamp: number; hasLinkedNotes: boolean }
+    /** The page title changed without navigating */
+    | { type: 'title'; title: string }
+    /** The tab was focused */
+    | { type: 'focus'; timestamp: number }
+    /** The tab was opened from a linked note with this URL */
+    | { type: 'open-from-note'; url: string; openedAt: number }
+    /** Linked notes were moved from one URL of the tab's history to another */
+    | { type: 'notes-moved'; from: string; to: string };
+
 /**
  * Virtual tab from an open note with URL property
  */
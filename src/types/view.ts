@@ -40,7 +40,31 @@ export interface IWebSidecarView {
     openPaired(file: TFile, url: string, e: MouseEvent): Promise<void>;
     openNoteSmartly(file: TFile, e: MouseEvent | KeyboardEvent, referenceLeafId?: string): Promise<void>;
     openUrlSmartly(url: string, e: MouseEvent): Promise<void>;
+    /** Open a linked note's URL, recording it as the opened tab's original URL (redirect detection) */
+    openUrlFromNote(url: string, e: MouseEvent): Promise<void>;
     openCreateNoteModal(url: string, leafId?: string): void;
+    /** Whether a page changed since it was captured to its linked note */
+    isPageChangedSinceCapture(url: string): boolean;
+    /** Capture a web viewer page into the "## Captured" section of its linked note */
+    captureToLinkedNote(leafId: string): void;
+    /** Append the text selected in a web viewer as a quote to its linked note */
+    captureSelection(leafId: string): void;
+    /** Save a web viewer page as an HTML archive linked from its note */
+    archivePage(leafId: string): void;
+    /** Whether a web viewer's page failed to load and has an archived copy */
+    isArchivedCopyAvailable(tab: TrackedWebViewer): boolean;
+    /** Open the archived copy of a page in a new web viewer */
+    openArchivedCopy(url: string): void;
+    /** Ask for a name and save the open web viewers as a browsing session */
+    saveBrowsingSession(): void;
+    /** Reopen a saved browsing session (picked from a list without a path) */
+    restoreBrowsingSession(path?: string): void;
+    /** Add the page of a web viewer to the read-later queue */
+    addToReadingQueue(leafId: string): void;
+    /** Open the next page of the read-later queue */
+    openNextInReadingQueue(): void;
+    /** Check off a page in the read-later queue */
+    markReadInQueue(url: string): void;
 
     openNewWebViewer(): Promise<void>;
     getOrCreateRightLeaf(): WorkspaceLeaf;
@@ -59,33 +83,12 @@ export interface IWebSidecarView {
     render(force?: boolean): void; // To trigger re-render from components (e.g. sort)
 
     // State Access
-    subredditSort: 'alpha' | 'count' | 'recent';
     domainSort: 'alpha' | 'count' | 'recent';
-    setSubredditSort(sort: 'alpha' | 'count' | 'recent'): void;
     setDomainSort(sort: 'alpha' | 'count' | 'recent'): void;
 
-    // YouTube Channel grouping
-    youtubeChannelSort: 'alpha' | 'count' | 'recent';
-    setYouTubeChannelSort(sort: 'alpha' | 'count' | 'recent'): void;
-
-    // Twitter User grouping
-    twitterSort: 'alpha' | 'count' | 'recent';
-    setTwitterSort(sort: 'alpha' | 'count' | 'recent'): void;
-
-    isSubredditExplorerOpen: boolean;
-    setSubredditExplorerOpen(open: boolean): void;
-
-    isYouTubeChannelExplorerOpen: boolean;
-    setYouTubeChannelExplorerOpen(open: boolean): void;
-
-    isTwitterExplorerOpen: boolean;
-    setTwitterExplorerOpen(open: boolean): void;
-
-    isGithubExplorerOpen: boolean;
-    setGithubExplorerOpen(open: boolean): void;
-
-    githubSort: 'alpha' | 'count' | 'recent';
-    setGithubSort(sort: 'alpha' | 'count' | 'recent'): void;
+    // Registry-driven site explorers (keyed by site matcher id)
+    setSiteExplorerSort(id: string, sort: 'alpha' | 'count' | 'recent'): void;
+    setSiteExplorerOpen(id: string, open: boolean): void;
 
     isDomainGroupOpen: boolean;
     setDomainGroupOpen(open: boolean): void;
@@ -93,6 +96,15 @@ export interface IWebSidecarView {
     isRecentNotesOpen: boolean;
     setRecentNotesOpen(open: boolean): void;
 
+    isVisitHistoryOpen: boolean;
+    setVisitHistoryOpen(open: boolean): void;
+
+    isVisitSuggestionsOpen: boolean;
+    setVisitSuggestionsOpen(open: boolean): void;
+
+    isReadingQueueOpen: boolean;
+    setReadingQueueOpen(open: boolean): void;
+
     expandedGroupIds: Set<string>;
     setGroupExpanded(id: string, expanded: boolean): void;
 
@@ -116,7 +128,9 @@ export interface IWebSidecarView {
 
     // Redirect detection (for linked note URL updates)
     hasRedirectedUrl(leafId: string): boolean;
-    updateTrackedTabNotes(leafId: string): Promise<void>;
+    /** Update notes linked to a tab's source URL to a URL from its history (default: current URL) */
+    updateTrackedTabNotes(leafId: string, targetUrl?: string): Promise<void>;
+    /** URL the tab's linked notes point to (original URL, or current URL if it has notes) */
+    getLinkedSourceUrl(leafId: string): string | undefined;
     setTabOriginalUrl(leafId: string, url: string): void;
-    setPendingOriginalUrl(url: string): void;
 }
@@ -84,6 +84,63 @@ export class ViewEventHandler {
         window.dispatchEvent(event);
     }
 
+    captureToLinkedNote(leafId: string): void {
+        const event = new CustomEvent('web-sidecar:capture-page', {
+            detail: { leafId }
+        });
+        window.dispatchEvent(event);
+    }
+
+    captureSelection(leafId: string): void {
+        const event = new CustomEvent('web-sidecar:capture-selection', {
+            detail: { leafId }
+        });
+        window.dispatchEvent(event);
+    }
+
+    archivePage(leafId: string): void {
+        const event = new CustomEvent('web-sidecar:archive-page', {
+            detail: { leafId }
+        });
+        window.dispatchEvent(event);
+    }
+
+    openArchivedCopy(url: string): void {
+        const event = new CustomEvent('web-sidecar:open-archive', {
+            detail: { url }
+        });
+        window.dispatchEvent(event);
+    }
+
+    saveBrowsingSession(): void {
+        window.dispatchEvent(new CustomEvent('web-sidecar:save-session'));
+    }
+
+    restoreBrowsingSession(path?: string): void {
+        const event = new CustomEvent('web-sidecar:restore-session', {
+            detail: { path }
+        });
+        window.dispatchEvent(event);
+    }
+
+    addToReadingQueue(leafId: string): void {
+        const event = new CustomEvent('web-sidecar:queue-add', {
+            detail: { leafId }
+        });
+        window.dispatchEvent(event);
+    }
+
+    openNextInReadingQueue(): void {
+        window.dispatchEvent(new CustomEvent('web-sidecar:queue-open-next'));
+    }
+
+    markReadInQueue(url: string): void {
+        const event = new CustomEvent('web-sidecar:queue-mark-read', {
+            detail: { url }
+        });
+        window.dispatchEvent(event);
+    }
+
     async pinTab(tab: TrackedWebViewer | VirtualTab): Promise<void> {
         await this.tabStateService.addPinnedTab(tab);
         this.view.render(true);
@@ -5,13 +5,14 @@
  */
 
 import { TFile, WorkspaceLeaf } from 'obsidian';
-import { IWebSidecarView, TrackedWebViewer, PinnedTab } from '../../types';
+import { IWebSidecarView, TrackedWebViewer, PinnedTab, VisitHistoryEntry } from '../../types';
 import { openWebViewerAndRefresh, openInDefaultBrowser } from './context-menus/ContextMenuHelpers';
 import { showWebViewerContextMenu } from './context-menus/WebViewerContextMenu';
 import { showNoteContextMenu } from './context-menus/NoteContextMenu';
 import { showVirtualTabContextMenu } from './context-menus/VirtualTabContextMenu';
 import { showPinnedTabContextMenu } from './context-menus/PinnedTabContextMenu';
-import { showDomainContextMenu, showSubredditContextMenu } from './context-menus/GroupContextMenu';
+import { showDomainContextMenu, showSiteGroupContextMenu } from './context-menus/GroupContextMenu';
+import { showHistoryContextMenu } from './context-menus/HistoryContextMenu';
 
 export class ContextMenus {
     private view: IWebSidecarView;
@@ -60,10 +61,10 @@ export class ContextMenus {
     }
 
     /**
-     * Show context menu for a subreddit group (Subreddit)
+     * Show context menu for a group of a site explorer section
      */
-    showSubredditContextMenu(event: MouseEvent, subreddit: string): void {
-        showSubredditContextMenu(this.view, event, subreddit);
+    showSiteGroupContextMenu(event: MouseEvent, group: string, groupUrl: string): void {
+        showSiteGroupContextMenu(this.view, event, group, groupUrl);
     }
 
     /**
@@ -79,5 +80,11 @@ export class ContextMenus {
     showPinnedTabContextMenu(event: MouseEvent, pin: PinnedTab): void {
         showPinnedTabContextMenu(this.view, event, pin);
     }
-}
 
+    /**
+     * Show context menu for a visit history entry
+     */
+    showHistoryContextMenu(event: MouseEvent, entry: VisitHistoryEntry, linkedNote: TFile | null): void {
+        showHistoryContextMenu(this.view, event, entry, linkedNote);
+    }
+}
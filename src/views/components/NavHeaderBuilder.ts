@@ -4,8 +4,14 @@
  * SPDX-License-Identifier: GPL-3.0-only
  */
 
-import { setIcon, Notice } from 'obsidian';
+import { Menu, setIcon, Notice } from 'obsidian';
 import type { IWebSidecarView, AppWithCommands, ObsidianCommand } from '../../types';
+import { getExplorerSiteMatchers, updateSiteExplorerSettings } from '../../services/matchers/registry';
+import { getUrlPatternMatchers } from '../../services/matchers/urlPatterns';
+import { listBrowsingSessions } from '../../services/BrowsingSessionService';
+
+/** Saved sessions listed in the sessions menu (the rest via "More sessions...") */
+const MAX_SESSION_MENU_ITEMS = 8;
 
 /**
  * Builds and manages the navigation header toolbar for the sidecar view.
@@ -84,13 +90,34 @@ export class NavHeaderBuilder {
             await this.view.saveSettingsFn();
         };
 
-        // History button (activates "Web Viewer: Show history")
+        // Browsing sessions button (save the open web viewers, or reopen a saved session)
+        const sessionsBtn = buttonContainer.createEl('div', {
+            cls: 'clickable-icon nav-action-button',
+            attr: { 'aria-label': 'Browsing sessions' }
+        });
+        setIcon(sessionsBtn, 'layers');
+        sessionsBtn.onclick = (e) => this.showSessionsMenu(e);
+
+        // History button (opens the History section, or activates "Web Viewer: Show history" without it)
         const historyBtn = buttonContainer.createEl('div', {
             cls: 'clickable-icon nav-action-button',
             attr: { 'aria-label': 'Show history' }
         });
         setIcon(historyBtn, 'clock');
-        historyBtn.onclick = () => this.executeCommand('show history', 'web viewer: show history');
+        historyBtn.onclick = () => {
+            if (!this.revealHistorySection()) {
+                this.executeCommand('show history', 'web viewer: show history');
+            }
+        };
+        historyBtn.oncontextmenu = (e) => {
+            e.preventDefault();
+            const menu = new Menu();
+            menu.addItem(item => item
+                .setTitle('Web viewer history')
+                .setIcon('history')
+                .onClick(() => this.executeCommand('show history', 'web viewer: show history')));
+            menu.showAtMouseEvent(e);
+        };
 
         // Search button (activates "Web Viewer: Search the web")
         const searchBtn = buttonContainer.createEl('div', {
@@ -115,6 +142,49 @@ export class NavHeaderBuilder {
         this.containerEl.insertBefore(navHeader, contentEl);
     }
 
+    /**
+     * Open the History section, scroll to it and focus its search field
+     * @returns Whether the section is shown (visit history enabled, with entries)
+     */
+    private revealHistorySection(): boolean {
+        if (!this.view.settings.enableVisitHistory) return false;
+        const section = this.containerEl.querySelector<HTMLDetailsElement>('details[data-section-id="history"]');
+        if (!section) return false;
+
+        section.open = true;
+        section.scrollIntoView({ block: 'start', behavior: 'smooth' });
+        section.querySelector<HTMLInputElement>('.web-sidecar-history-search')?.focus();
+        return true;
+    }
+
+    private showSessionsMenu(e: MouseEvent): void {
+        const menu = new Menu();
+
+        menu.addItem(item => item
+            .setTitle('Save session...')
+            .setIcon('save')
+            .onClick(() => this.view.saveBrowsingSession()));
+
+        const sessions = listBrowsingSessions(this.view.app, this.view.settings);
+        if (sessions.length > 0) {
+            menu.addSeparator();
+            for (const session of sessions.slice(0, MAX_SESSION_MENU_ITEMS)) {
+                menu.addItem(item => item
+                    .setTitle(session.basename)
+                    .setIcon('history')
+                    .onClick(() => this.view.restoreBrowsingSession(session.path)));
+            }
+            if (sessions.length > MAX_SESSION_MENU_ITEMS) {
+                menu.addItem(item => item
+                    .setTitle('More sessions...')
+                    .setIcon('more-horizontal')
+                    .onClick(() => this.view.restoreBrowsingSession()));
+            }
+        }
+
+        menu.showAtMouseEvent(e);
+    }
+
     private handleExpandToggle(btn: HTMLElement): void {
         const settings = this.view.settings;
         const view = this.view;
@@ -133,20 +203,24 @@ export class NavHeaderBuilder {
         view.isDomainGroupOpen = newState;
         settings.isDomainGroupOpen = newState;
 
-        view.isSubredditExplorerOpen = newState;
-        settings.isSubredditExplorerOpen = newState;
-
         view.isTagGroupOpen = newState;
         settings.isTagGroupOpen = newState;
 
         view.isSelectedTagGroupOpen = newState;
         settings.isSelectedTagGroupOpen = newState;
 
-        view.isYouTubeChannelExplorerOpen = newState;
-        settings.isYouTubeChannelExplorerOpen = newState;
+        view.isVisitHistoryOpen = newState;
+        settings.isVisitHistoryOpen = newState;
+
+        view.isVisitSuggestionsOpen = newState;
+        settings.isVisitSuggestionsOpen = newState;
 
-        view.isGithubExplorerOpen = newState;
-        settings.isGithubExplorerOpen = newState;
+        view.isReadingQueueOpen = newState;
+        settings.isReadingQueueOpen = newState;
+
+        for (const matcher of [...getExplorerSiteMatchers(), ...getUrlPatternMatchers(settings)]) {
+            updateSiteExplorerSettings(settings, matcher.id, { isOpen: newState });
+        }
 
         // Persist changes
         void view.saveSettingsFn();
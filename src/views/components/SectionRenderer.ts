@@ -10,12 +10,13 @@ import { ContextMenus } from './ContextMenus';
 import { addEndDropZone } from './sections/SectionHelpers';
 import { RecentNotesSection } from './sections/RecentNotesSection';
 import { DomainSection } from './sections/DomainSection';
-import { SubredditSection } from './sections/SubredditSection';
 import { TagSection } from './sections/TagSection';
-import { YouTubeSection } from './sections/YouTubeSection';
-
-import { TwitterSection } from './sections/TwitterSection';
-import { GithubSection } from './sections/GithubSection';
+import { SiteGroupSection } from './sections/SiteGroupSection';
+import { HistorySection } from './sections/HistorySection';
+import { SuggestionsSection } from './sections/SuggestionsSection';
+import { QueueSection } from './sections/QueueSection';
+import { getSiteMatcher } from '../../services/matchers/registry';
+import { getUrlPatternMatcher } from '../../services/matchers/urlPatterns';
 
 export class SectionRenderer {
     private view: IWebSidecarView;
@@ -25,12 +26,11 @@ export class SectionRenderer {
     // Sub-renderers
     private recentSection: RecentNotesSection;
     private domainSection: DomainSection;
-    private subredditSection: SubredditSection;
     private tagSection: TagSection;
-    private youtubeSection: YouTubeSection;
-
-    private twitterSection: TwitterSection;
-    private githubSection: GithubSection;
+    private siteGroupSection: SiteGroupSection;
+    private historySection: HistorySection;
+    private suggestionsSection: SuggestionsSection;
+    private queueSection: QueueSection;
 
     constructor(view: IWebSidecarView, noteRenderer: NoteRenderer, contextMenus: ContextMenus) {
         this.view = view;
@@ -40,11 +40,11 @@ export class SectionRenderer {
         // Initialize sub-renderers
         this.recentSection = new RecentNotesSection(view, noteRenderer);
         this.domainSection = new DomainSection(view, noteRenderer, contextMenus);
-        this.subredditSection = new SubredditSection(view, noteRenderer, contextMenus);
         this.tagSection = new TagSection(view, noteRenderer);
-        this.youtubeSection = new YouTubeSection(view, noteRenderer);
-        this.twitterSection = new TwitterSection(view, noteRenderer);
-        this.githubSection = new GithubSection(view, noteRenderer);
+        this.siteGroupSection = new SiteGroupSection(view, noteRenderer, contextMenus);
+        this.historySection = new HistorySection(view, contextMenus);
+        this.suggestionsSection = new SuggestionsSection(view);
+        this.queueSection = new QueueSection(view);
     }
 
     /**
@@ -110,11 +110,6 @@ export class SectionRenderer {
                         this.domainSection.render(auxContainer);
                     }
                     break;
-                case 'subreddit':
-                    if (this.view.settings.enableSubredditExplorer) {
-                        this.subredditSection.render(auxContainer);
-                    }
-                    break;
                 case 'tag':
                     if (this.view.settings.enableTagGrouping) {
                         this.tagSection.render(auxContainer);
@@ -125,21 +120,30 @@ export class SectionRenderer {
                         this.tagSection.renderSelected(auxContainer);
                     }
                     break;
-                case 'youtube':
-                    if (this.view.settings.enableYouTubeChannelExplorer) {
-                        this.youtubeSection.render(auxContainer);
+                case 'history':
+                    if (this.view.settings.enableVisitHistory) {
+                        this.historySection.render(auxContainer);
                     }
                     break;
-                case 'twitter':
-                    if (this.view.settings.enableTwitterExplorer) {
-                        this.twitterSection.render(auxContainer);
+                case 'suggestions':
+                    if (this.view.settings.enableVisitHistory && this.view.settings.enableVisitSuggestions) {
+                        this.suggestionsSection.render(auxContainer);
                     }
                     break;
-                case 'github':
-                    if (this.view.settings.enableGithubExplorer) {
-                        this.githubSection.render(auxContainer);
+                case 'queue':
+                    if (this.view.settings.enableReadingQueue) {
+                        this.queueSection.render(auxContainer);
                     }
                     break;
+                default: {
+                    // Sites from the matcher registry, or user-defined URL pattern groups
+                    const matcher = getSiteMatcher(sectionId)
+                        ?? getUrlPatternMatcher(this.view.settings, sectionId);
+                    if (matcher) {
+                        this.siteGroupSection.render(auxContainer, matcher);
+                    }
+                    break;
+                }
             }
         }
 
@@ -153,10 +157,6 @@ export class SectionRenderer {
         this.domainSection.render(container);
     }
 
-    renderSubredditExplorerSection(container: HTMLElement): void {
-        this.subredditSection.render(container);
-    }
-
     renderTagGroupingSection(container: HTMLElement): void {
         this.tagSection.render(container);
     }
@@ -164,16 +164,4 @@ export class SectionRenderer {
     renderSelectedTagGroupingSection(container: HTMLElement): void {
         this.tagSection.renderSelected(container);
     }
-
-    renderYouTubeChannelExplorerSection(container: HTMLElement): void {
-        this.youtubeSection.render(container);
-    }
-
-    renderTwitterExplorerSection(container: HTMLElement): void {
-        this.twitterSection.render(container);
-    }
-
-    renderGithubExplorerSection(container: HTMLElement): void {
-        this.githubSection.render(container);
-    }
 }
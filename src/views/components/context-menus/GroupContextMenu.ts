@@ -82,29 +82,27 @@ export function showDomainContextMenu(
 }
 
 /**
- * Show context menu for a subreddit group (Subreddits)
+ * Show context menu for a group of a site explorer section (subreddit, channel, repository, ...)
  */
-export function showSubredditContextMenu(
+export function showSiteGroupContextMenu(
     view: IWebSidecarView,
     event: MouseEvent,
-    subreddit: string
+    group: string,
+    groupUrl: string
 ): void {
     event.preventDefault();
     const menu = new Menu();
 
-    // subreddit is already in format "r/subredditName"
-    const subredditUrl = `https://reddit.com/${subreddit}`;
-
-    // Open subreddit
+    // Open group
     menu.addItem((item) => {
         item
-            .setTitle(`Open ${subreddit}`)
+            .setTitle(`Open ${group}`)
             .setIcon('globe')
             .onClick(() => {
                 void openWebViewerAndRefresh(
                     view,
                     () => view.app.workspace.getLeaf('tab'),
-                    subredditUrl,
+                    groupUrl,
                     true
                 );
             });
@@ -119,7 +117,7 @@ export function showSubredditContextMenu(
                 void openWebViewerAndRefresh(
                     view,
                     () => view.app.workspace.openPopoutLeaf(),
-                    subredditUrl,
+                    groupUrl,
                     false
                 );
             });
@@ -134,7 +132,7 @@ export function showSubredditContextMenu(
                 void openWebViewerAndRefresh(
                     view,
                     () => view.getOrCreateRightLeaf(),
-                    subredditUrl,
+                    groupUrl,
                     true
                 );
             });
@@ -142,13 +140,13 @@ export function showSubredditContextMenu(
 
     menu.addSeparator();
 
-    // Copy subreddit URL
+    // Copy group URL
     menu.addItem((item) => {
         item
             .setTitle('Copy URL')
             .setIcon('copy')
             .onClick(() => {
-                void navigator.clipboard.writeText(subredditUrl);
+                void navigator.clipboard.writeText(groupUrl);
             });
     });
 
@@ -0,0 +1,97 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { Menu, TFile } from 'obsidian';
+import { IWebSidecarView, VisitHistoryEntry } from '../../../types';
+import { openWebViewerAndRefresh, openInDefaultBrowser } from './ContextMenuHelpers';
+
+/**
+ * Show context menu for a visit history entry
+ */
+export function showHistoryContextMenu(
+    view: IWebSidecarView,
+    event: MouseEvent,
+    entry: VisitHistoryEntry,
+    linkedNote: TFile | null
+): void {
+    event.preventDefault();
+    const menu = new Menu();
+    const url = entry.url;
+
+    // Open URL in new web viewer
+    menu.addItem((item) => {
+        item
+            .setTitle('Open in new web viewer')
+            .setIcon('globe')
+            .onClick(() => {
+                void openWebViewerAndRefresh(
+                    view,
+                    () => view.app.workspace.getLeaf('tab'),
+                    url,
+                    true
+                );
+            });
+    });
+
+    // Open in default browser
+    menu.addItem((item) => {
+        item
+            .setTitle('Open in default browser')
+            .setIcon('external-link')
+            .onClick(() => {
+                openInDefaultBrowser(url);
+            });
+    });
+
+    menu.addSeparator();
+
+    if (linkedNote) {
+        // Open web viewer + note pair
+        menu.addItem((item) => {
+            item
+                .setTitle('Open web viewer + note pair')
+                .setIcon('columns')
+                .onClick(() => {
+                    void view.openPaired(linkedNote, url, { metaKey: false, ctrlKey: false } as MouseEvent);
+                });
+        });
+    }
+
+    // New linked note from URL
+    menu.addItem((item) => {
+        item
+            .setTitle('New linked note from URL')
+            .setIcon('file-plus')
+            .onClick(() => {
+                view.openCreateNoteModal(url);
+            });
+    });
+
+    menu.addSeparator();
+
+    // Copy URL
+    menu.addItem((item) => {
+        item
+            .setTitle('Copy URL')
+            .setIcon('copy')
+            .onClick(() => {
+                void navigator.clipboard.writeText(url);
+            });
+    });
+
+    // Remove from history
+    menu.addItem((item) => {
+        item
+            .setTitle('Remove from history')
+            .setIcon('trash')
+            .onClick(() => {
+                view.setManualRefresh(true);
+                view.tabStateService.removeVisitHistoryEntry(url);
+            });
+    });
+
+    menu.showAtMouseEvent(event);
+}
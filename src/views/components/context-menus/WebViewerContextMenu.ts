@@ -5,10 +5,16 @@
  */
 
 import { Menu } from 'obsidian';
-import { IWebSidecarView, TrackedWebViewer } from '../../../types';
+import { IWebSidecarView, TabHistoryEntry, TrackedWebViewer } from '../../../types';
 import { findMatchingNotes } from '../../../services/noteMatcher';
 import { openWebViewerAndRefresh, openInDefaultBrowser } from './ContextMenuHelpers';
 
+/** Max earlier history URLs offered for note association */
+const MAX_HISTORY_ITEMS = 5;
+
+/** Max length of a history entry label in the menu */
+const MAX_HISTORY_LABEL_LENGTH = 40;
+
 /**
  * Show context menu for a web viewer tab
  */
@@ -97,6 +103,65 @@ export function showWebViewerContextMenu(
             });
     });
 
+    const matches = findMatchingNotes(view.app, tab.url, view.settings);
+    const hasLinkedNotes = matches.exactMatches.length > 0;
+
+    // Capture the page into its linked note
+    if (hasLinkedNotes) {
+        menu.addItem((item) => {
+            item
+                .setTitle('Capture to linked note')
+                .setIcon('download')
+                .onClick(() => {
+                    view.captureToLinkedNote(tab.leafId);
+                });
+        });
+    }
+
+    // Capture selected text as a quote
+    menu.addItem((item) => {
+        item
+            .setTitle('Capture selection as quote')
+            .setIcon('quote')
+            .onClick(() => {
+                view.captureSelection(tab.leafId);
+            });
+    });
+
+    // Archive the page as HTML
+    menu.addItem((item) => {
+        item
+            .setTitle('Archive page')
+            .setIcon('archive')
+            .onClick(() => {
+                view.archivePage(tab.leafId);
+            });
+    });
+
+    // Read-later queue
+    if (view.settings.enableReadingQueue) {
+        menu.addItem((item) => {
+            item
+                .setTitle('Add to read-later queue')
+                .setIcon('list-plus')
+                .onClick(() => {
+                    view.addToReadingQueue(tab.leafId);
+                });
+        });
+    }
+
+    // Archived copy of a page that failed to load
+    if (view.isArchivedCopyAvailable(tab)) {
+        menu.addItem((item) => {
+            item
+                .setTitle('Open archived copy')
+                .setIcon('archive-restore')
+                .onClick(() => {
+                    view.openArchivedCopy(tab.url);
+                });
+        });
+    }
+
     menu.addSeparator();
 
     // Close web view
@@ -120,9 +185,6 @@ export function showWebViewerContextMenu(
     });
 
     // Close linked notes
-    const matches = findMatchingNotes(view.app, tab.url, view.settings);
-    const hasLinkedNotes = matches.exactMatches.length > 0;
-
     if (hasLinkedNotes) {
         menu.addItem((item) => {
             item
@@ -146,7 +208,8 @@ export function showWebViewerContextMenu(
     }
 
     // Show option to update linked notes if URL changed
-    if (view.hasRedirectedUrl(tab.leafId)) {
+    const hasRedirected = view.hasRedirectedUrl(tab.leafId);
+    if (hasRedirected) {
         menu.addSeparator();
         menu.addItem((item) => {
             item
@@ -158,6 +221,33 @@ export function showWebViewerContextMenu(
         });
     }
 
+    // Offer earlier URLs of the tab (e.g. steps of a redirect chain) for the linked notes
+    const sourceUrl = view.getLinkedSourceUrl(tab.leafId);
+    if (sourceUrl) {
+        const seenUrls = new Set([sourceUrl, tab.url]);
+        const earlierEntries: { entry: TabHistoryEntry; steps: number }[] = [];
+        const history = tab.history.slice(0, -1).reverse();
+        history.forEach((entry, index) => {
+            if (seenUrls.has(entry.url) || earlierEntries.length >= MAX_HISTORY_ITEMS) return;
+            seenUrls.add(entry.url);
+            earlierEntries.push({ entry, steps: index + 1 });
+        });
+
+        if (earlierEntries.length > 0 && !hasRedirected) {
+            menu.addSeparator();
+        }
+        for (const { entry, steps } of earlierEntries) {
+            menu.addItem((item) => {
+                item
+                    .setTitle(`Associate note with URL ${steps} ${steps === 1 ? 'step' : 'steps'} back (${getHistoryLabel(entry)})`)
+                    .setIcon('history')
+                    .onClick(() => {
+                        void view.updateTrackedTabNotes(tab.leafId, entry.url);
+                    });
+            });
+        }
+    }
+
     // Return to linked note URL (when navigated away from originalUrl)
     if (tab.originalUrl && tab.originalUrl !== tab.url && tab.leaf) {
         menu.addItem((item) => {
@@ -188,3 +278,11 @@ export function showWebViewerContextMenu(
 
     menu.showAtMouseEvent(event);
 }
+
+/**
+ * Short label for a history entry: its title, or its URL without the protocol
+ */
+function getHistoryLabel(entry: TabHistoryEntry): string {
+    const label = entry.title || entry.url.replace(/^https?:\/\/(www\.)?/, '');
+    return label.length > MAX_HISTORY_LABEL_LENGTH ? `${label.slice(0, MAX_HISTORY_LABEL_LENGTH - 1)}…` : label;
+}
@@ -9,7 +9,7 @@ import { IWebSidecarView, RecentNoteWithUrl } from '../../../types';
 import { NoteRenderer } from '../NoteRenderer';
 import { ContextMenus } from '../ContextMenus';
 import { getRecentNotesWithUrls } from '../../../services/noteMatcher';
-import { extractDomain } from '../../../services/urlUtils';
+import { extractDomain, extractGroupDomain } from '../../../services/urlUtils';
 import { getFaviconUrl } from '../../../services/faviconUtils';
 import { addSectionDragHandlers, renderSortButton, sortGroups } from './SectionHelpers';
 
@@ -33,10 +33,10 @@ export class DomainSection {
 
         if (recentNotes.length === 0) return;
 
-        // Group notes by domain
+        // Group notes by domain (registrable domain or full hostname, per settings)
         const domainMap = new Map<string, { notes: typeof recentNotes, domain: string }>();
         for (const note of recentNotes) {
-            const domain = extractDomain(note.url);
+            const domain = extractGroupDomain(note.url, this.view.settings.domainGrouping);
             if (!domain) continue;
             if (!domainMap.has(domain)) {
                 domainMap.set(domain, { notes: [], domain });
@@ -94,12 +94,52 @@ export class DomainSection {
 
     /**
      * Render a single domain group (expandable)
+     * Notes from several subdomains (gist.github.com, docs.github.com) get a sub-group per host
      */
     private renderDomainGroup(container: HTMLElement, domain: string, notes: RecentNoteWithUrl[]): void {
-        const domainDetails = container.createEl('details', { cls: 'web-sidecar-domain-group' });
+        const domainDetails = this.renderDomainDetails(container, `domain:${domain}`, domain, notes, 'web-sidecar-domain-group');
+
+        // Group notes by full hostname
+        const hostMap = new Map<string, RecentNoteWithUrl[]>();
+        for (const note of notes) {
+            const host = extractDomain(note.url) ?? domain;
+            hostMap.set(host, [...(hostMap.get(host) ?? []), note]);
+        }
+
+        if (hostMap.size > 1) {
+            const subgroupList = domainDetails.createDiv({ cls: 'web-sidecar-subdomain-list' });
+            // The registrable domain itself first, then subdomains alphabetically
+            const hosts = Array.from(hostMap.keys())
+                .sort((a, b) => Number(b === domain) - Number(a === domain) || a.localeCompare(b));
+            for (const host of hosts) {
+                const hostDetails = this.renderDomainDetails(
+                    subgroupList,
+                    `subdomain:${host}`,
+                    host,
+                    hostMap.get(host) ?? [],
+                    'web-sidecar-domain-group web-sidecar-subdomain-group'
+                );
+                this.renderNotesList(hostDetails, hostMap.get(host) ?? []);
+            }
+            return;
+        }
+
+        this.renderNotesList(domainDetails, notes);
+    }
+
+    /**
+     * Render an expandable domain row (favicon, name, link button, count)
+     */
+    private renderDomainDetails(
+        container: HTMLElement,
+        groupId: string,
+        domain: string,
+        notes: RecentNoteWithUrl[],
+        cls: string
+    ): HTMLElement {
+        const domainDetails = container.createEl('details', { cls });
 
         // State persistence
-        const groupId = `domain:${domain}`;
         if (this.view.expandedGroupIds.has(groupId)) {
             domainDetails.setAttribute('open', '');
         }
@@ -160,8 +200,11 @@ export class DomainSection {
             }
         });
 
-        // Notes list
-        const notesList = domainDetails.createEl('ul', { cls: 'web-sidecar-list web-sidecar-domain-notes' });
+        return domainDetails;
+    }
+
+    private renderNotesList(container: HTMLElement, notes: RecentNoteWithUrl[]): void {
+        const notesList = container.createEl('ul', { cls: 'web-sidecar-list web-sidecar-domain-notes' });
         for (const note of notes) {
             this.noteRenderer.renderNoteItem(notesList, note.file, note.url, false, false);
         }
@@ -0,0 +1,223 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { TFile, moment, setIcon } from 'obsidian';
+import { IWebSidecarView, VisitHistoryEntry } from '../../../types';
+import { ContextMenus } from '../ContextMenus';
+import { findMatchingNotes } from '../../../services/noteMatcher';
+import { extractDomain } from '../../../services/urlUtils';
+import { getFaviconUrl } from '../../../services/faviconUtils';
+import { addSectionDragHandlers } from './SectionHelpers';
+
+/** Entries rendered at once (refine the search to find older ones) */
+const MAX_RENDERED_ENTRIES = 150;
+
+export class HistorySection {
+    /** Search text, kept across re-renders */
+    private query = '';
+    /** Whether the search field had focus, to give it back after a re-render */
+    private searchFocused = false;
+
+    constructor(
+        private view: IWebSidecarView,
+        private contextMenus: ContextMenus
+    ) { }
+
+    /**
+     * Render the collapsible "History" section: visited pages grouped by day, with a search field
+     */
+    render(container: HTMLElement): void {
+        const entries = this.view.tabStateService.getVisitHistory();
+        if (entries.length === 0) return;
+
+        // Remove existing history section before creating new one
+        const existingSection = container.querySelector('[data-section-id="history"]');
+        if (existingSection) existingSection.remove();
+
+        const details = container.createEl('details', { cls: 'web-sidecar-history-section web-sidecar-aux-section' });
+        details.setAttribute('data-section-id', 'history');
+        details.setAttribute('draggable', 'true');
+
+        // Drag-and-drop handlers
+        addSectionDragHandlers(this.view, details, 'history');
+
+        const summary = details.createEl('summary', { cls: 'web-sidecar-recent-summary' });
+        const summaryIcon = summary.createSpan({ cls: 'web-sidecar-recent-icon' });
+        setIcon(summaryIcon, 'clock');
+        summary.createSpan({ text: `History (${entries.length})` });
+
+        const search = details.createEl('input', {
+            cls: 'web-sidecar-history-search',
+            attr: { type: 'search', placeholder: 'Search history', 'aria-label': 'Search history' }
+        });
+        search.value = this.query;
+        const list = details.createDiv({ cls: 'web-sidecar-history-list' });
+
+        // The list is only built while the section is open
+        const renderList = () => {
+            list.empty();
+            if (details.hasAttribute('open')) {
+                this.renderEntries(list, entries);
+            }
+        };
+
+        search.addEventListener('input', () => {
+            this.query = search.value;
+            renderList();
+        });
+        // Selecting text in the field must not drag the section
+        search.addEventListener('focus', () => {
+            this.searchFocused = true;
+            details.setAttribute('draggable', 'false');
+        });
+        search.addEventListener('blur', () => {
+            // Also fired when a re-render removes the field
+            if (search.isConnected) this.searchFocused = false;
+            details.setAttribute('draggable', 'true');
+        });
+
+        // Preserve open state
+        if (this.view.isVisitHistoryOpen) {
+            details.setAttribute('open', '');
+        }
+        details.addEventListener('toggle', () => {
+            this.view.setVisitHistoryOpen(details.hasAttribute('open'));
+            renderList();
+        });
+
+        renderList();
+        if (this.searchFocused && details.hasAttribute('open')) {
+            search.focus();
+        }
+    }
+
+    /**
+     * Render the entries matching the search, grouped by the day of their last visit
+     */
+    private renderEntries(list: HTMLElement, entries: VisitHistoryEntry[]): void {
+        const words = this.query.toLowerCase().split(/\s+/).filter(Boolean);
+        const matching = words.length === 0
+            ? entries
+            : entries.filter(entry => {
+                const text = `${entry.title} ${entry.url}`.toLowerCase();
+                return words.every(word => text.includes(word));
+            });
+
+        if (matching.length === 0) {
+            list.createDiv({ text: 'No matching pages', cls: 'web-sidecar-empty-text' });
+            return;
+        }
+
+        let currentDay = '';
+        let dayList: HTMLElement | null = null;
+        for (const entry of matching.slice(0, MAX_RENDERED_ENTRIES)) {
+            const day = moment(entry.lastVisit).format('YYYY-MM-DD');
+            if (day !== currentDay || !dayList) {
+                currentDay = day;
+                list.createDiv({ text: formatDay(entry.lastVisit), cls: 'web-sidecar-history-day' });
+                dayList = list.createEl('ul', { cls: 'web-sidecar-list' });
+            }
+            this.renderEntry(dayList, entry);
+        }
+
+        if (matching.length > MAX_RENDERED_ENTRIES) {
+            list.createDiv({
+                text: `${matching.length - MAX_RENDERED_ENTRIES} older pages not shown, refine the search to find them`,
+                cls: 'web-sidecar-empty-text'
+            });
+        }
+    }
+
+    /**
+     * Render a history entry: click opens the page, the action button opens it with its
+     * linked note (or creates one)
+     */
+    private renderEntry(list: HTMLElement, entry: VisitHistoryEntry): void {
+        const domain = extractDomain(entry.url);
+        const linkedNote = this.findLinkedNote(entry.url);
+
+        const li = list.createEl('li', { cls: 'web-sidecar-item web-sidecar-row-item web-sidecar-history-item' });
+        li.addEventListener('contextmenu', (e) => this.contextMenus.showHistoryContextMenu(e, entry, linkedNote));
+
+        if (domain) {
+            li.createEl('img', {
+                cls: 'web-sidecar-row-favicon web-sidecar-history-favicon',
+                attr: { src: getFaviconUrl(domain, 16), width: '14', height: '14', alt: '' }
+            });
+        }
+
+        const main = li.createEl('div', {
+            cls: 'web-sidecar-row-main clickable',
+            attr: { 'aria-label': describeEntry(entry) }
+        });
+        main.createDiv({ text: entry.title || entry.url, cls: 'web-sidecar-row-title' });
+        const visits = entry.visitCount > 1 ? ` · ${entry.visitCount} visits` : '';
+        main.createDiv({
+            text: `${moment(entry.lastVisit).format('HH:mm')} · ${domain || entry.url}${visits}`,
+            cls: 'web-sidecar-row-subtitle'
+        });
+        main.addEventListener('click', (e) => {
+            e.preventDefault();
+            void this.view.openUrlSmartly(entry.url, e);
+        });
+
+        const action = li.createEl('div', {
+            cls: 'web-sidecar-row-action clickable-icon',
+            attr: { 'aria-label': linkedNote ? 'Open web viewer + note pair' : 'New linked note' }
+        });
+        setIcon(action, linkedNote ? 'columns' : 'file-plus');
+        action.addEventListener('click', (e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            if (linkedNote) {
+                void this.view.openPaired(linkedNote, entry.url, e);
+            } else {
+                this.view.openCreateNoteModal(entry.url);
+            }
+        });
+    }
+
+    /**
+     * Most recently modified note linked to a page
+     */
+    private findLinkedNote(url: string): TFile | null {
+        const { exactMatches } = findMatchingNotes(this.view.app, url, this.view.settings, this.view.urlIndex);
+        const sorted = exactMatches.map(match => match.file).sort((a, b) => b.stat.mtime - a.stat.mtime);
+        return sorted[0] ?? null;
+    }
+}
+
+/**
+ * Day heading: Today, Yesterday, or the date
+ */
+function formatDay(timestamp: number): string {
+    const day = moment(timestamp).startOf('day');
+    const today = moment().startOf('day');
+    if (day.isSame(today)) return 'Today';
+    if (day.isSame(today.clone().subtract(1, 'day'))) return 'Yesterday';
+    return day.format(day.year() === today.year() ? 'dddd, MMMM D' : 'MMMM D, YYYY');
+}
+
+/**
+ * Tooltip of an entry: URL, visits, time on page and linked note status
+ */
+function describeEntry(entry: VisitHistoryEntry): string {
+    const lines = [
+        entry.url,
+        `First visit: ${moment(entry.firstVisit).format('YYYY-MM-DD HH:mm')}`,
+        `Visits: ${entry.visitCount}`,
+        `Time on page: ${formatDuration(entry.dwellTime)}`,
+    ];
+    if (entry.hadLinkedNote) lines.push('Had a linked note when last visited');
+    return lines.join('\n');
+}
+
+function formatDuration(ms: number): string {
+    const minutes = Math.round(ms / 60000);
+    if (minutes < 1) return 'less than a minute';
+    if (minutes < 60) return `${minutes} min`;
+    return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
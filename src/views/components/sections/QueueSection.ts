@@ -0,0 +1,110 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { setIcon } from 'obsidian';
+import { IWebSidecarView, ReadingQueueItem } from '../../../types';
+import { extractDomain } from '../../../services/urlUtils';
+import { getFaviconUrl } from '../../../services/faviconUtils';
+import { addSectionDragHandlers } from './SectionHelpers';
+
+export class QueueSection {
+    constructor(private view: IWebSidecarView) { }
+
+    /**
+     * Render the collapsible "Read later" section: the queued pages in reading order,
+     * with an "open next" button
+     */
+    render(container: HTMLElement): void {
+        const items = this.view.tabStateService.getReadingQueue();
+
+        // Remove existing queue section before creating new one
+        const existingSection = container.querySelector('[data-section-id="queue"]');
+        if (existingSection) existingSection.remove();
+
+        const details = container.createEl('details', { cls: 'web-sidecar-queue-section web-sidecar-aux-section' });
+        details.setAttribute('data-section-id', 'queue');
+        details.setAttribute('draggable', 'true');
+
+        // Drag-and-drop handlers
+        addSectionDragHandlers(this.view, details, 'queue');
+
+        // Preserve open state
+        if (this.view.isReadingQueueOpen) {
+            details.setAttribute('open', '');
+        }
+        details.addEventListener('toggle', () => {
+            this.view.setReadingQueueOpen(details.hasAttribute('open'));
+        });
+
+        const summary = details.createEl('summary', { cls: 'web-sidecar-recent-summary' });
+        const summaryIcon = summary.createSpan({ cls: 'web-sidecar-recent-icon' });
+        setIcon(summaryIcon, 'list-checks');
+        summary.createSpan({ text: `Read later (${items.length})` });
+
+        if (items.length === 0) {
+            details.createDiv({
+                text: 'Nothing to read. Add pages from the menu of a web viewer.',
+                cls: 'web-sidecar-empty-text'
+            });
+            return;
+        }
+
+        const nextBtn = summary.createEl('button', {
+            cls: 'web-sidecar-sort-btn-tiny web-sidecar-align-right clickable-icon',
+            attr: { 'aria-label': 'Open next' }
+        });
+        setIcon(nextBtn, 'skip-forward');
+        nextBtn.onclick = (e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            this.view.openNextInReadingQueue();
+        };
+
+        const list = details.createEl('ul', { cls: 'web-sidecar-list web-sidecar-queue-list' });
+        for (const item of items) {
+            this.renderItem(list, item);
+        }
+    }
+
+    /**
+     * Render a queued page: click opens it, the action button checks it off
+     */
+    private renderItem(list: HTMLElement, item: ReadingQueueItem): void {
+        const domain = extractDomain(item.url);
+
+        const li = list.createEl('li', { cls: 'web-sidecar-item web-sidecar-row-item web-sidecar-queue-item' });
+
+        if (domain) {
+            li.createEl('img', {
+                cls: 'web-sidecar-row-favicon web-sidecar-history-favicon',
+                attr: { src: getFaviconUrl(domain, 16), width: '14', height: '14', alt: '' }
+            });
+        }
+
+        const main = li.createEl('div', {
+            cls: 'web-sidecar-row-main clickable',
+            attr: { 'aria-label': item.url }
+        });
+        main.createDiv({ text: item.title, cls: 'web-sidecar-row-title' });
+        main.createDiv({ text: domain || item.url, cls: 'web-sidecar-row-subtitle' });
+        main.addEventListener('click', (e) => {
+            e.preventDefault();
+            void this.view.openUrlSmartly(item.url, e);
+        });
+
+        const check = li.createEl('div', {
+            cls: 'web-sidecar-row-action clickable-icon',
+            attr: { 'aria-label': 'Mark as read' }
+        });
+        setIcon(check, 'check');
+        check.addEventListener('click', (e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            this.view.setManualRefresh(true);
+            this.view.markReadInQueue(item.url);
+        });
+    }
+}
@@ -0,0 +1,204 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { setIcon, TFile } from 'obsidian';
+import { IWebSidecarView, MatchedNote, SiteMatcher } from '../../../types';
+import { NoteRenderer } from '../NoteRenderer';
+import { ContextMenus } from '../ContextMenus';
+import { getAllSiteNotes } from '../../../services/matchers/siteMatcher';
+import { getSiteExplorerSettings } from '../../../services/matchers/registry';
+import { getFaviconUrl } from '../../../services/faviconUtils';
+import { extractDomain } from '../../../services/urlUtils';
+import { addSectionDragHandlers, renderSortButton, sortGroups } from './SectionHelpers';
+
+/**
+ * Generic explorer section for sites registered in the site matcher registry
+ * and user-defined URL pattern groups
+ */
+export class SiteGroupSection {
+    constructor(
+        private view: IWebSidecarView,
+        private noteRenderer: NoteRenderer,
+        private contextMenus: ContextMenus
+    ) { }
+
+    /**
+     * Render the collapsible explorer section for a site
+     */
+    render(container: HTMLElement, matcher: SiteMatcher): void {
+        const state = getSiteExplorerSettings(this.view.settings, matcher.id);
+        if (!state.enabled) return;
+
+        const groupMap = getAllSiteNotes(
+            this.view.app, this.view.settings, matcher, this.view.urlIndex
+        );
+        if (groupMap.size === 0) return;
+
+        // Remove existing section before creating new one
+        const existingSection = container.querySelector(`[data-section-id="${matcher.id}"]`);
+        if (existingSection) existingSection.remove();
+
+        const details = container.createEl('details', {
+            cls: 'web-sidecar-domain-section web-sidecar-aux-section'
+        });
+        details.setAttribute('data-section-id', matcher.id);
+        details.setAttribute('draggable', 'true');
+
+        addSectionDragHandlers(this.view, details, matcher.id);
+
+        // Preserve open state
+        if (state.isOpen) {
+            details.setAttribute('open', '');
+        }
+        details.addEventListener('toggle', () => {
+            this.view.setSiteExplorerOpen(matcher.id, details.hasAttribute('open'));
+        });
+
+        const summary = details.createEl('summary', { cls: 'web-sidecar-domain-summary' });
+        const summaryIcon = summary.createSpan({ cls: 'web-sidecar-domain-icon' });
+
+        if (matcher.icon) {
+            setIcon(summaryIcon, matcher.icon);
+        } else {
+            summaryIcon.createEl('img', {
+                cls: 'web-sidecar-favicon-small',
+                attr: {
+                    src: getFaviconUrl(matcher.faviconDomain, 16),
+                    alt: matcher.name,
+                    width: '14',
+                    height: '14'
+                }
+            });
+        }
+
+        summary.createSpan({ text: `${matcher.sectionLabel ?? matcher.name} (${groupMap.size})` });
+
+        // Sort button
+        renderSortButton(summary, state.sortOrder, (sort) => {
+            this.view.setSiteExplorerSort(matcher.id, sort);
+            this.view.setManualRefresh(true);
+            this.view.onRefresh();
+        });
+
+        const groupList = details.createDiv({ cls: 'web-sidecar-domain-list' });
+        const sortedGroups = sortGroups(groupMap, state.sortOrder);
+
+        for (const [key, notes] of sortedGroups) {
+            this.renderGroup(groupList, matcher, key, notes);
+        }
+    }
+
+    /**
+     * Render a single group of a site
+     */
+    private renderGroup(
+        container: HTMLElement,
+        matcher: SiteMatcher,
+        key: string,
+        notes: MatchedNote[]
+    ): void {
+        const details = container.createEl('details', { cls: 'web-sidecar-domain-group' });
+
+        // State persistence
+        const groupId = `${matcher.id}:${key}`;
+        if (this.view.expandedGroupIds.has(groupId)) {
+            details.setAttribute('open', '');
+        }
+        details.addEventListener('toggle', () => {
+            this.view.setGroupExpanded(groupId, details.hasAttribute('open'));
+        });
+
+        const summary = details.createEl('summary', { cls: 'web-sidecar-domain-row' });
+
+        // Site favicon, or the favicon of the newest note for user-defined patterns
+        const faviconDomain = matcher.faviconDomain || extractDomain(notes[0]?.url ?? '') || '';
+        const faviconContainer = summary.createDiv({ cls: 'web-sidecar-domain-favicon' });
+        faviconContainer.createEl('img', {
+            attr: {
+                src: getFaviconUrl(faviconDomain, 16),
+                alt: '',
+                width: '14',
+                height: '14'
+            }
+        });
+
+        summary.createSpan({ text: key, cls: 'web-sidecar-domain-name' });
+
+        // Link to a vault note describing the group (e.g., a channel note)
+        const groupNote = this.findGroupNote(matcher, key);
+        if (groupNote) {
+            const noteLinkBtn = summary.createEl('button', {
+                cls: 'web-sidecar-group-link-btn clickable-icon',
+                attr: { 'aria-label': `Open ${key} note` }
+            });
+            setIcon(noteLinkBtn, 'file-text');
+            noteLinkBtn.onclick = async (e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                await this.view.app.workspace.getLeaf(false).openFile(groupNote);
+            };
+        }
+
+        // External link to the group (if the site provides one, or the group note has a URL)
+        const groupUrl = matcher.getGroupUrl?.(key) ?? (groupNote ? this.getNoteUrl(groupNote) : null);
+        if (groupUrl) {
+            // Context menu on right-click
+            summary.addEventListener('contextmenu', (e) => this.contextMenus.showSiteGroupContextMenu(e, key, groupUrl));
+
+            const extLinkBtn = summary.createEl('button', {
+                cls: 'web-sidecar-group-link-btn clickable-icon',
+                attr: { 'aria-label': `Open ${key} on ${matcher.name}` }
+            });
+            setIcon(extLinkBtn, 'external-link');
+            extLinkBtn.onclick = async (e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                await this.view.openUrlSmartly(groupUrl, e);
+            };
+        }
+
+        // Count badge
+        summary.createSpan({
+            text: notes.length.toString(),
+            cls: 'web-sidecar-domain-count',
+            attr: { 'title': notes.length === 1 ? '1 Note' : `${notes.length} Notes` }
+        });
+
+        // Notes list
+        const notesList = details.createEl('ul', {
+            cls: 'web-sidecar-list web-sidecar-domain-notes'
+        });
+        for (const note of notes) {
+            this.noteRenderer.renderNoteItem(notesList, note.file, note.url, false, false);
+        }
+    }
+
+    /**
+     * First vault note named after the group, if the site names any
+     */
+    private findGroupNote(matcher: SiteMatcher, key: string): TFile | null {
+        for (const name of matcher.getGroupNoteNames?.(key) ?? []) {
+            const file = this.view.app.metadataCache.getFirstLinkpathDest(name, '');
+            if (file) return file;
+        }
+        return null;
+    }
+
+    /**
+     * First web URL in the URL properties of a note
+     */
+    private getNoteUrl(file: TFile): string | null {
+        const frontmatter = this.view.app.metadataCache.getFileCache(file)?.frontmatter;
+        if (!frontmatter) return null;
+
+        for (const propName of this.view.settings.urlPropertyFields) {
+            const val: unknown = frontmatter[propName];
+            const first: unknown = Array.isArray(val) ? val[0] : val;
+            if (typeof first === 'string' && first.startsWith('http')) return first;
+        }
+        return null;
+    }
+}
@@ -0,0 +1,128 @@
+/*
+ * Web Sidecar
+ * Copyright (c) 2025 soundslikeinfo
+ * SPDX-License-Identifier: GPL-3.0-only
+ */
+
+import { moment, setIcon } from 'obsidian';
+import { IWebSidecarView, VisitSuggestion } from '../../../types';
+import { extractDomain } from '../../../services/urlUtils';
+import { getFaviconUrl } from '../../../services/faviconUtils';
+import { getVisitSuggestions } from '../../../services/visitSuggestions';
+import { addSectionDragHandlers } from './SectionHelpers';
+
+/** Suggestions shown at once (dismiss or document them to see the next ones) */
+const MAX_RENDERED_SUGGESTIONS = 15;
+
+export class SuggestionsSection {
+    constructor(private view: IWebSidecarView) { }
+
+    /**
+     * Render the collapsible "Frequently visited, no note" section: pages and domains
+     * from the visit history without a linked note, best ranked first
+     */
+    render(container: HTMLElement): void {
+        const suggestions = getVisitSuggestions(
+            this.view.tabStateService.getVisitHistory(),
+            this.view.settings,
+            this.view.urlIndex
+        );
+        if (suggestions.length === 0) return;
+
+        // Remove existing suggestions section before creating new one
+        const existingSection = container.querySelector('[data-section-id="suggestions"]');
+        if (existingSection) existingSection.remove();
+
+        const details = container.createEl('details', { cls: 'web-sidecar-suggestions-section web-sidecar-aux-section' });
+        details.setAttribute('data-section-id', 'suggestions');
+        details.setAttribute('draggable', 'true');
+
+        // Drag-and-drop handlers
+        addSectionDragHandlers(this.view, details, 'suggestions');
+
+        // Preserve open state
+        if (this.view.isVisitSuggestionsOpen) {
+            details.setAttribute('open', '');
+        }
+        details.addEventListener('toggle', () => {
+            this.view.setVisitSuggestionsOpen(details.hasAttribute('open'));
+        });
+
+        const summary = details.createEl('summary', { cls: 'web-sidecar-recent-summary' });
+        const summaryIcon = summary.createSpan({ cls: 'web-sidecar-recent-icon' });
+        setIcon(summaryIcon, 'lightbulb');
+        summary.createSpan({ text: `Frequently visited, no note (${suggestions.length})` });
+
+        const list = details.createEl('ul', { cls: 'web-sidecar-list web-sidecar-suggestions-list' });
+        for (const suggestion of suggestions.slice(0, MAX_RENDERED_SUGGESTIONS)) {
+            this.renderSuggestion(list, suggestion);
+        }
+    }
+
+    /**
+     * Render a suggestion: click opens the page, the action buttons create a linked note
+     * or dismiss the suggestion for good
+     */
+    private renderSuggestion(list: HTMLElement, suggestion: VisitSuggestion): void {
+        const domain = extractDomain(suggestion.url);
+
+        const li = list.createEl('li', { cls: 'web-sidecar-item web-sidecar-row-item web-sidecar-suggestion-item' });
+
+        if (domain) {
+            li.createEl('img', {
+                cls: 'web-sidecar-row-favicon web-sidecar-history-favicon',
+                attr: { src: getFaviconUrl(domain, 16), width: '14', height: '14', alt: '' }
+            });
+        }
+
+        const main = li.createEl('div', {
+            cls: 'web-sidecar-row-main clickable',
+            attr: { 'aria-label': suggestion.url }
+        });
+        main.createDiv({ text: suggestion.title, cls: 'web-sidecar-row-title' });
+        const scope = suggestion.kind === 'domain' ? `Domain · ${suggestion.pageCount} pages` : domain || suggestion.url;
+        main.createDiv({
+            text: `${scope} · ${suggestion.visitCount} visits · ${moment(suggestion.lastVisit).fromNow()}`,
+            cls: 'web-sidecar-row-subtitle'
+        });
+        main.addEventListener('click', (e) => {
+            e.preventDefault();
+            void this.view.openUrlSmartly(suggestion.url, e);
+        });
+
+        const create = li.createEl('div', {
+            cls: 'web-sidecar-row-action clickable-icon',
+            attr: { 'aria-label': 'New linked note' }
+        });
+        setIcon(create, 'file-plus');
+        create.addEventListener('click', (e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            this.view.openCreateNoteModal(suggestion.url);
+        });
+
+        const dismiss = li.createEl('div', {
+            cls: 'web-sidecar-row-action clickable-icon',
+            attr: { 'aria-label': 'Dismiss forever' }
+        });
+        setIcon(dismiss, 'x');
+        dismiss.addEventListener('click', (e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            this.dismiss(suggestion);
+        });
+    }
+
+    /**
+     * Never suggest this page or domain again (until the dismissed suggestions are reset)
+     */
+    private dismiss(suggestion: VisitSuggestion): void {
+        const settings = this.view.settings;
+        if (!settings.dismissedVisitSuggestions.includes(suggestion.key)) {
+            settings.dismissedVisitSuggestions = [...settings.dismissedVisitSuggestions, suggestion.key];
+        }
+        this.view.setManualRefresh(true);
+        void this.view.saveSettingsFn();
+        this.view.onRefresh();
+    }
+}
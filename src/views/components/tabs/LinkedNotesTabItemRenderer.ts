@@ -9,12 +9,14 @@ import { extractDomain } from '../../../services/urlUtils';
 import { getFaviconUrl } from '../../../services/faviconUtils';
 import { getLeafId, leafHasFile } from '../../../services/obsidianHelpers';
 import { findMatchingNotes } from '../../../services/noteMatcher';
-import { IWebSidecarView, TrackedWebViewer, VirtualTab } from '../../../types';
+import { IWebSidecarView, MatchResult, TrackedWebViewer, VirtualTab } from '../../../types';
 import { ContextMenus } from '../ContextMenus';
 import { PageTitleService } from '../../../services/PageTitleService';
 import {
     createNewNoteButton,
     renderTldSection,
+    renderSectionMatches,
+    renderMentionSection,
     applyStyleModeClass,
     type NoteRowContext
 } from './NoteRowBuilder';
@@ -48,6 +50,7 @@ export class LinkedNotesTabItemRenderer {
         // Remove only the tab row, keep notes container if it exists
         const existingRow = tabEl.querySelector('.web-sidecar-linked-notes-tab-row');
         if (existingRow) existingRow.remove();
+        tabEl.querySelector('.web-sidecar-basic-section-matches')?.remove();
 
         // Rebuild the tab content, passing preserved state
         this.populateLinkedNotesTab(tabEl, tab, allTabs, existingNotesContainer as HTMLElement, wasExpanded);
@@ -57,14 +60,9 @@ export class LinkedNotesTabItemRenderer {
         const tabWrapper = container.createDiv({ cls: 'web-sidecar-linked-notes-tab' });
         const tabRow = tabWrapper.createDiv({ cls: 'web-sidecar-linked-notes-tab-row' });
 
-        // Click -> Open web viewer and track original URL
+        // Click -> Open web viewer and track original URL (for redirect detection)
         tabRow.onclick = async (e) => {
-            const originalUrl = virtualTab.url;
-
-            // Set pending original URL for redirect detection
-            this.view.setPendingOriginalUrl(originalUrl);
-
-            await this.view.openUrlSmartly(originalUrl, e);
+            await this.view.openUrlFromNote(virtualTab.url, e);
         };
 
         // Context menu for virtual tab
@@ -128,6 +126,8 @@ export class LinkedNotesTabItemRenderer {
         const matches = findMatchingNotes(this.view.app, virtualTab.url, this.view.settings, this.view.urlIndex);
         const exactCount = matches.exactMatches.length;
         const hasSameDomain = this.view.settings.enableTldSearch && matches.tldMatches.length > 0;
+        const hasSection = (matches.sectionMatches?.length ?? 0) > 0;
+        const hasMentions = (matches.mentionMatches?.length ?? 0) > 0;
 
         // Note count badge (skip in basic mode)
         if (!this.isBasicMode && exactCount > 0) {
@@ -152,7 +152,7 @@ export class LinkedNotesTabItemRenderer {
         }
 
         // Expand button (skip in basic mode)
-        if (!this.isBasicMode && (exactCount > 0 || hasSameDomain)) {
+        if (!this.isBasicMode && (exactCount > 0 || hasSection || hasSameDomain || hasMentions)) {
             const expandBtn = tabRow.createDiv({ cls: 'web-sidecar-expand-btn clickable-icon' });
 
             // Auto-expand logic: Check if a linked note is currently focused
@@ -259,8 +259,10 @@ export class LinkedNotesTabItemRenderer {
 
         const exactCount = matches.exactMatches.length;
         const hasSameDomain = this.view.settings.enableTldSearch && matches.tldMatches.length > 0;
+        const hasSection = (matches.sectionMatches?.length ?? 0) > 0;
+        const hasMentions = (matches.mentionMatches?.length ?? 0) > 0;
         // In basic mode, we don't show expandable content
-        const hasExpandableContent = !this.isBasicMode && (exactCount > 0 || hasSameDomain);
+        const hasExpandableContent = !this.isBasicMode && (exactCount > 0 || hasSection || hasSameDomain || hasMentions);
 
         // Notes container - create/reuse early so onclick can reference it
         let notesContainer: HTMLElement | null = null;
@@ -458,6 +460,28 @@ export class LinkedNotesTabItemRenderer {
             };
         }
 
+        // Page changed since it was captured (click to re-capture)
+        if (exactCount > 0 && this.view.isPageChangedSinceCapture(tab.url)) {
+            const changedIcon = tabRow.createSpan({ cls: 'web-sidecar-changed-icon clickable-icon' });
+            setIcon(changedIcon, 'file-diff');
+            changedIcon.setAttribute('aria-label', 'Page changed since capture');
+            changedIcon.onclick = (e) => {
+                e.stopPropagation();
+                this.view.captureToLinkedNote(tab.leafId);
+            };
+        }
+
+        // Page failed to load but was archived (click to open the archived copy)
+        if (this.view.isArchivedCopyAvailable(tab)) {
+            const archiveIcon = tabRow.createSpan({ cls: 'web-sidecar-archive-icon clickable-icon' });
+            setIcon(archiveIcon, 'archive');
+            archiveIcon.setAttribute('aria-label', 'Page failed to load, open archived copy');
+            archiveIcon.onclick = (e) => {
+                e.stopPropagation();
+                this.view.openArchivedCopy(tab.url);
+            };
+        }
+
         // Return to Original URL Icon (Sticky Mode)
         if (isSticky && tab.originalUrl) {
             const returnIcon = tabRow.createSpan({ cls: 'web-sidecar-return-icon clickable-icon' });
@@ -526,6 +550,25 @@ export class LinkedNotesTabItemRenderer {
                 this.updateNoteFocusState(notesContainer, focusedNotePath);
             }
         }
+
+        // Basic mode lists no notes, except the "Same section" group
+        if (this.isBasicMode && hasSection) {
+            this.renderBasicSectionMatches(tabWrapper, effectiveUrl, matches, tab.leafId);
+        }
+    }
+
+    /**
+     * Render the "Same section" group below a tab row in basic mode
+     */
+    renderBasicSectionMatches(container: HTMLElement, url: string, matches: MatchResult, leafId?: string): void {
+        const ctx: NoteRowContext = {
+            view: this.view,
+            contextMenus: this.contextMenus,
+            settings: this.view.settings
+        };
+        const sectionContainer = container.createDiv({ cls: 'web-sidecar-basic-section-matches' });
+        applyStyleModeClass(sectionContainer, this.view.settings);
+        renderSectionMatches(sectionContainer, url, matches, ctx, true, leafId);
     }
 
     /**
@@ -636,10 +679,16 @@ export class LinkedNotesTabItemRenderer {
         // 2. New linked note button
         createNewNoteButton(container, url, leafId, ctx);
 
-        // 3. Same domain notes
+        // 3. Same section notes (shared path prefix)
+        renderSectionMatches(container, url, matches, ctx);
+
+        // 4. Same domain notes
         if (this.view.settings.enableTldSearch && matches.tldMatches.length > 0) {
             renderTldSection(container, url, matches, ctx);
         }
+
+        // 5. Notes mentioning this page in their body
+        renderMentionSection(container, url, matches, ctx);
     }
 }
 
@@ -6,7 +6,7 @@
 
 import { TFile, View, setIcon, App, WorkspaceLeaf, MarkdownView } from 'obsidian';
 import { MatchResult, WebSidecarSettings, IWebSidecarView } from '../../../types';
-import { extractDomain } from '../../../services/urlUtils';
+import { extractGroupDomain, getPathPrefix } from '../../../services/urlUtils';
 import { leafHasFile, getLeafId } from '../../../services/obsidianHelpers';
 import { ContextMenus } from '../ContextMenus';
 
@@ -144,7 +144,7 @@ export function createNewNoteButton(
  * Generates the header text for "More web notes"
  */
 export function getMoreNotesHeader(url: string, settings: WebSidecarSettings, matchedChannel?: string): string {
-    const domain = extractDomain(url);
+    const domain = extractGroupDomain(url, settings.domainGrouping);
 
     if (matchedChannel) {
         return `More from ${matchedChannel}`;
@@ -167,7 +167,7 @@ export function renderTldSection(
 ): void {
     const { view, contextMenus, settings } = ctx;
 
-    const domain = extractDomain(url);
+    const domain = extractGroupDomain(url, settings.domainGrouping);
     let headerText = `More web notes (${domain || 'this domain'})`;
 
     // Note: Use matches.matchedChannel if available
@@ -214,6 +214,124 @@ export function renderTldSection(
     }
 }
 
+/**
+ * Renders the "Same section" group: same-domain notes sharing a path prefix with the URL
+ */
+export function renderSectionMatches(
+    container: HTMLElement,
+    url: string,
+    matches: MatchResult,
+    ctx: NoteRowContext,
+    stopPropagation: boolean = false,
+    leafId?: string
+): void {
+    const { view, contextMenus, settings } = ctx;
+    const sectionMatches = matches.sectionMatches ?? [];
+    if (sectionMatches.length === 0) return;
+
+    // Longest shared prefix comes first
+    const prefix = getPathPrefix(url, sectionMatches[0]?.sharedPathDepth ?? 0);
+
+    const details = container.createEl('details', { cls: 'web-sidecar-tld-section web-sidecar-same-section' });
+    details.open = true;
+    const summary = details.createEl('summary', { cls: 'web-sidecar-linked-notes-subtitle' });
+    summary.createSpan({ text: `Same section (${prefix})` });
+
+    // Stop propagation to prevent parent tab collapse/expand
+    summary.addEventListener('click', (e) => e.stopPropagation());
+    details.addEventListener('click', (e) => e.stopPropagation());
+
+    const sectionList = details.createEl('ul', { cls: 'web-sidecar-linked-notes-note-list' });
+
+    for (const match of sectionMatches) {
+        const li = sectionList.createEl('li');
+
+        if (settings.linkedNoteDisplayStyle !== 'none') {
+            const isOpen = isNoteOpen(view.app, match.file.path);
+            li.addClass(isOpen ? 'is-open' : 'is-closed');
+        }
+
+        const link = li.createEl('a', {
+            text: match.file.basename,
+            cls: 'web-sidecar-linked-notes-note-link',
+            attr: { href: '#', 'aria-label': getPathPrefix(match.url, match.sharedPathDepth ?? 0) }
+        });
+
+        link.addEventListener('click', (e) => {
+            e.preventDefault();
+            if (stopPropagation) e.stopPropagation();
+            void view.openNoteSmartly(match.file, e, leafId);
+        });
+
+        link.addEventListener('contextmenu', (e) => {
+            if (stopPropagation) e.stopPropagation();
+            contextMenus.showNoteContextMenu(e, match.file, match.url);
+        });
+    }
+}
+
+/**
+ * Renders the collapsible "Notes that mention this page" section (body-link index)
+ */
+export function renderMentionSection(
+    container: HTMLElement,
+    url: string,
+    matches: MatchResult,
+    ctx: NoteRowContext,
+    stopPropagation: boolean = false,
+    leafId?: string
+): void {
+    const { view, contextMenus, settings } = ctx;
+    const mentionMatches = matches.mentionMatches ?? [];
+    if (mentionMatches.length === 0) return;
+
+    const details = container.createEl('details', { cls: 'web-sidecar-tld-section web-sidecar-mention-section' });
+    const summary = details.createEl('summary', { cls: 'web-sidecar-linked-notes-subtitle' });
+    summary.createSpan({ text: `Notes that mention this page (${mentionMatches.length})` });
+
+    // Stop propagation to prevent parent tab collapse/expand
+    summary.addEventListener('click', (e) => e.stopPropagation());
+    details.addEventListener('click', (e) => e.stopPropagation());
+
+    const mentionList = details.createEl('ul', { cls: 'web-sidecar-linked-notes-note-list' });
+
+    for (const match of mentionMatches) {
+        const li = mentionList.createEl('li');
+
+        if (settings.linkedNoteDisplayStyle !== 'none') {
+            const isOpen = isNoteOpen(view.app, match.file.path);
+            li.addClass(isOpen ? 'is-open' : 'is-closed');
+        }
+
+        const link = li.createEl('a', {
+            text: match.file.basename,
+            cls: 'web-sidecar-linked-notes-note-link web-sidecar-muted',
+            attr: { href: '#' }
+        });
+
+        link.addEventListener('click', (e) => {
+            e.preventDefault();
+            if (stopPropagation) e.stopPropagation();
+            void view.openNoteSmartly(match.file, e, leafId);
+        });
+
+        link.addEventListener('contextmenu', (e) => {
+            if (stopPropagation) e.stopPropagation();
+            contextMenus.showNoteContextMenu(e, match.file, url);
+        });
+
+        // Line/heading context for each mention
+        for (const mention of match.mentions ?? []) {
+            const contextEl = li.createDiv({ cls: 'web-sidecar-mention-context' });
+            if (mention.heading) {
+                contextEl.createSpan({ text: mention.heading, cls: 'web-sidecar-mention-heading' });
+            }
+            contextEl.createSpan({ text: mention.text, cls: 'web-sidecar-mention-text' });
+            contextEl.setAttribute('aria-label', `Line ${mention.line + 1}`);
+        }
+    }
+}
+
 /**
  * Apply style-mode class to container
  */
@@ -15,6 +15,8 @@ import {
     createNoteLink,
     createNewNoteButton,
     renderTldSection,
+    renderSectionMatches,
+    renderMentionSection,
     applyStyleModeClass,
     type NoteRowContext
 } from './NoteRowBuilder';
@@ -212,7 +214,9 @@ export class PinnedTabRenderer {
         const matches = findMatchingNotes(this.view.app, pin.url, this.view.settings, this.view.urlIndex);
         const exactCount = matches.exactMatches.length;
         const hasSameDomain = this.view.settings.enableTldSearch && matches.tldMatches.length > 0;
-        const hasExpandableContent = exactCount > 0 || hasSameDomain;
+        const hasSection = (matches.sectionMatches?.length ?? 0) > 0;
+        const hasMentions = (matches.mentionMatches?.length ?? 0) > 0;
+        const hasExpandableContent = exactCount > 0 || hasSection || hasSameDomain || hasMentions;
 
         // Note Count Badge (Skip in Basic Mode)
         if (!isBasicMode && exactCount > 0) {
@@ -283,6 +287,17 @@ export class PinnedTabRenderer {
             };
         }
 
+        // Basic mode lists no notes, except the "Same section" group
+        if (isBasicMode && hasSection) {
+            const sectionContainer = el.createDiv({ cls: 'web-sidecar-pinned-notes' });
+            applyStyleModeClass(sectionContainer, this.view.settings);
+            renderSectionMatches(sectionContainer, pin.url, matches, {
+                view: this.view,
+                contextMenus: this.contextMenus,
+                settings: this.view.settings
+            }, true, pin.leafId);
+        }
+
         // Status checks
         // 1. Is it open? (leafId present)
         if (pin.leafId && this.view.app.workspace.getLeafById(pin.leafId)) {
@@ -339,10 +354,16 @@ export class PinnedTabRenderer {
         // 2. New linked note button
         createNewNoteButton(container, url, leafId, ctx);
 
-        // 3. Same domain notes
+        // 3. Same section notes (shared path prefix)
+        renderSectionMatches(container, url, matches, ctx, true, leafId);
+
+        // 4. Same domain notes
         if (this.view.settings.enableTldSearch && matches.tldMatches.length > 0) {
             renderTldSection(container, url, matches, ctx, true, leafId);
         }
+
+        // 5. Notes mentioning this page in their body
+        renderMentionSection(container, url, matches, ctx, true, leafId);
     }
 
     private async handlePinClick(startPin: PinnedTab, e: MouseEvent) {
@@ -368,7 +389,9 @@ export class PinnedTabRenderer {
         const matches = findMatchingNotes(this.view.app, freshPin.url, this.view.settings, this.view.urlIndex);
         const exactCount = matches.exactMatches.length;
         const hasSameDomain = this.view.settings.enableTldSearch && matches.tldMatches.length > 0;
-        const hasExpandableContent = exactCount > 0 || hasSameDomain;
+        const hasSection = (matches.sectionMatches?.length ?? 0) > 0;
+        const hasMentions = (matches.mentionMatches?.length ?? 0) > 0;
+        const hasExpandableContent = exactCount > 0 || hasSection || hasSameDomain || hasMentions;
 
         // Click behavior for pinned tabs (mirrors open web viewer tabs):
         // - Single tab: first click = focus, subsequent clicks = toggle expand/collapse
@@ -7,7 +7,7 @@
 import { ItemView, WorkspaceLeaf, TFile, MarkdownView } from 'obsidian';
 import type { WebSidecarSettings, TrackedWebViewer, VirtualTab, IWebSidecarView } from '../types';
 import { getLeafId } from '../services/obsidianHelpers';
-import { findMatchingNotes } from '../services/noteMatcher';
+import { findMatchingNotes, updateSiteExplorerSettings } from '../services/noteMatcher';
 import { ContextMenus } from './components/ContextMenus';
 import { NoteRenderer } from './components/NoteRenderer';
 import { SectionRenderer } from './components/SectionRenderer';
@@ -16,6 +16,7 @@ import { LinkedNotesTabRenderer } from './components/tabs/LinkedNotesTabRenderer
 import { PinnedTabRenderer } from './components/tabs/PinnedTabRenderer';
 import { NavHeaderBuilder } from './components/NavHeaderBuilder';
 import { NavigationService } from '../services/NavigationService';
+import { NoteCreationService } from '../services/NoteCreationService';
 import { TabStateService } from '../services/TabStateService';
 import { UrlIndex } from '../services/UrlIndex';
 
@@ -36,9 +37,6 @@ export class WebSidecarView extends ItemView implements IWebSidecarView {
     viewState: ViewState = new ViewState();
 
     // State proxied to viewState for IWebSidecarView compatibility
-    get subredditSort() { return this.viewState.subredditSort; }
-    set subredditSort(val) { this.viewState.subredditSort = val; }
-
     get domainSort() { return this.viewState.domainSort; }
     set domainSort(val) { this.viewState.domainSort = val; }
 
@@ -48,9 +46,6 @@ export class WebSidecarView extends ItemView implements IWebSidecarView {
     get selectedTagSort() { return this.viewState.selectedTagSort; }
     set selectedTagSort(val) { this.viewState.selectedTagSort = val; }
 
-    get isSubredditExplorerOpen() { return this.viewState.isSubredditExplorerOpen; }
-    set isSubredditExplorerOpen(val) { this.viewState.isSubredditExplorerOpen = val; }
-
     get isDomainGroupOpen() { return this.viewState.isDomainGroupOpen; }
     set isDomainGroupOpen(val) { this.viewState.isDomainGroupOpen = val; }
 
@@ -63,23 +58,12 @@ export class WebSidecarView extends ItemView implements IWebSidecarView {
     get isSelectedTagGroupOpen() { return this.viewState.isSelectedTagGroupOpen; }
     set isSelectedTagGroupOpen(val) { this.viewState.isSelectedTagGroupOpen = val; }
 
-    get isYouTubeChannelExplorerOpen() { return this.viewState.isYouTubeChannelExplorerOpen; }
-    set isYouTubeChannelExplorerOpen(val) { this.viewState.isYouTubeChannelExplorerOpen = val; }
-
-    get youtubeChannelSort() { return this.viewState.youtubeChannelSort; }
-    set youtubeChannelSort(val) { this.viewState.youtubeChannelSort = val; }
-
-    get isTwitterExplorerOpen() { return this.viewState.isTwitterExplorerOpen; }
-    set isTwitterExplorerOpen(val) { this.viewState.isTwitterExplorerOpen = val; }
-
-    get twitterSort() { return this.viewState.twitterSort; }
-    set twitterSort(val) { this.viewState.twitterSort = val; }
-
-    get isGithubExplorerOpen() { return this.viewState.isGithubExplorerOpen; }
-    set isGithubExplorerOpen(val) { this.viewState.isGithubExplorerOpen = val; }
-
-    get githubSort() { return this.viewState.githubSort; }
-    set githubSort(val) { this.viewState.githubSort = val; }
+    get isVisitHistoryOpen() { return this.viewState.isVisitHistoryOpen; }
+    set isVisitHistoryOpen(val) { this.viewState.isVisitHistoryOpen = val; }
+    get isVisitSuggestionsOpen() { return this.viewState.isVisitSuggestionsOpen; }
+    set isVisitSuggestionsOpen(val) { this.viewState.isVisitSuggestionsOpen = val; }
+    get isReadingQueueOpen() { return this.viewState.isReadingQueueOpen; }
+    set isReadingQueueOpen(val) { this.viewState.isReadingQueueOpen = val; }
 
     get expandedGroupIds() { return this.viewState.expandedGroupIds; }
     set expandedGroupIds(val) { this.viewState.expandedGroupIds = val; }
@@ -133,6 +117,7 @@ export class WebSidecarView extends ItemView implements IWebSidecarView {
         getVirtualTabs: () => VirtualTab[],
         urlIndex: UrlIndex,
         tabStateService: TabStateService,
+        noteCreationService: NoteCreationService,
         saveSettings: () => Promise<void>
     ) {
         super(leaf);
@@ -150,6 +135,7 @@ export class WebSidecarView extends ItemView implements IWebSidecarView {
             this.app,
             getSettings,
             urlIndex,
+            noteCreationService,
             (val) => { this.isManualRefresh = val; },
             onRefresh
         );
@@ -214,6 +200,7 @@ export class WebSidecarView extends ItemView implements IWebSidecarView {
 
                             const matches = findMatchingNotes(this.app, tab.url, this.settings, this.urlIndex);
                             const isLinked = matches.exactMatches.some(m => m.file.path === filePath) ||
+                                matches.sectionMatches?.some(m => m.file.path === filePath) ||
                                 (this.settings.enableTldSearch && matches.tldMatches.some(m => m.file.path === filePath));
 
                             if (isLinked) {
@@ -271,10 +258,6 @@ export class WebSidecarView extends ItemView implements IWebSidecarView {
     }
 
     // Interface implementation methods
-    setSubredditSort(sort: 'alpha' | 'count'): void {
-        this.subredditSort = sort;
-    }
-
     setDomainSort(sort: 'alpha' | 'count' | 'recent'): void {
         this.domainSort = sort;
     }
@@ -287,12 +270,6 @@ export class WebSidecarView extends ItemView implements IWebSidecarView {
         this.selectedTagSort = sort;
     }
 
-    setSubredditExplorerOpen(open: boolean): void {
-        this.isSubredditExplorerOpen = open;
-        this.settings.isSubredditExplorerOpen = open;
-        void this.saveSettingsFn();
-    }
-
     setDomainGroupOpen(open: boolean): void {
         this.isDomainGroupOpen = open;
         this.settings.isDomainGroupOpen = open;
@@ -318,39 +295,31 @@ export class WebSidecarView extends ItemView implements IWebSidecarView {
         void this.saveSettingsFn();
     }
 
-    setYouTubeChannelSort(sort: 'alpha' | 'count' | 'recent'): void {
-        this.youtubeChannelSort = sort;
-        this.settings.youtubeChannelSortOrder = sort;
+    setVisitHistoryOpen(open: boolean): void {
+        this.isVisitHistoryOpen = open;
+        this.settings.isVisitHistoryOpen = open;
         void this.saveSettingsFn();
     }
 
-    setYouTubeChannelExplorerOpen(open: boolean): void {
-        this.isYouTubeChannelExplorerOpen = open;
-        this.settings.isYouTubeChannelExplorerOpen = open;
+    setVisitSuggestionsOpen(open: boolean): void {
+        this.isVisitSuggestionsOpen = open;
+        this.settings.isVisitSuggestionsOpen = open;
         void this.saveSettingsFn();
     }
 
-    setTwitterSort(sort: 'alpha' | 'count' | 'recent'): void {
-        this.twitterSort = sort;
-        this.settings.twitterSortOrder = sort;
+    setReadingQueueOpen(open: boolean): void {
+        this.isReadingQueueOpen = open;
+        this.settings.isReadingQueueOpen = open;
         void this.saveSettingsFn();
     }
 
-    setTwitterExplorerOpen(open: boolean): void {
-        this.isTwitterExplorerOpen = open;
-        this.settings.isTwitterExplorerOpen = open;
+    setSiteExplorerSort(id: string, sort: 'alpha' | 'count' | 'recent'): void {
+        updateSiteExplorerSettings(this.settings, id, { sortOrder: sort });
         void this.saveSettingsFn();
     }
 
-    setGithubSort(sort: 'alpha' | 'count' | 'recent'): void {
-        this.githubSort = sort;
-        this.settings.githubSortOrder = sort;
-        void this.saveSettingsFn();
-    }
-
-    setGithubExplorerOpen(open: boolean): void {
-        this.isGithubExplorerOpen = open;
-        this.settings.isGithubExplorerOpen = open;
+    setSiteExplorerOpen(id: string, open: boolean): void {
+        updateSiteExplorerSettings(this.settings, id, { isOpen: open });
         void this.saveSettingsFn();
     }
 
@@ -369,10 +338,6 @@ export class WebSidecarView extends ItemView implements IWebSidecarView {
         this.isManualRefresh = manual;
     }
 
-    toggleSubredditExplorer(): void {
-        this.setSubredditExplorerOpen(!this.isSubredditExplorerOpen);
-    }
-
     toggleDomainGroup(): void {
         this.setDomainGroupOpen(!this.isDomainGroupOpen);
     }
@@ -408,6 +373,14 @@ export class WebSidecarView extends ItemView implements IWebSidecarView {
         await this.navigationService.openUrlSmartly(url, e);
     }
 
+    async openUrlFromNote(url: string, e: MouseEvent): Promise<void> {
+        const openedAt = Date.now();
+        await this.navigationService.openUrlSmartly(url, e, (leaf) => {
+            const leafId = getLeafId(leaf);
+            if (leafId) this.tabStateService.recordOriginalUrl(leafId, url, openedAt);
+        });
+    }
+
     async openNewWebViewer(): Promise<void> {
         await this.navigationService.openNewWebViewer();
     }
@@ -429,6 +402,50 @@ export class WebSidecarView extends ItemView implements IWebSidecarView {
         this.eventHandler.openCreateNoteModal(url, leafId);
     }
 
+    isPageChangedSinceCapture(url: string): boolean {
+        return this.tabStateService.isPageChangedSinceCapture(url);
+    }
+
+    captureToLinkedNote(leafId: string): void {
+        this.eventHandler.captureToLinkedNote(leafId);
+    }
+
+    captureSelection(leafId: string): void {
+        this.eventHandler.captureSelection(leafId);
+    }
+
+    archivePage(leafId: string): void {
+        this.eventHandler.archivePage(leafId);
+    }
+
+    isArchivedCopyAvailable(tab: TrackedWebViewer): boolean {
+        return this.tabStateService.isArchivedCopyAvailable(tab);
+    }
+
+    openArchivedCopy(url: string): void {
+        this.eventHandler.openArchivedCopy(url);
+    }
+
+    saveBrowsingSession(): void {
+        this.eventHandler.saveBrowsingSession();
+    }
+
+    restoreBrowsingSession(path?: string): void {
+        this.eventHandler.restoreBrowsingSession(path);
+    }
+
+    addToReadingQueue(leafId: string): void {
+        this.eventHandler.addToReadingQueue(leafId);
+    }
+
+    openNextInReadingQueue(): void {
+        this.eventHandler.openNextInReadingQueue();
+    }
+
+    markReadInQueue(url: string): void {
+        this.eventHandler.markReadInQueue(url);
+    }
+
     async openPaired(file: TFile, url: string, evt: MouseEvent): Promise<void> {
         await this.navigationService.openPaired(file, url, evt);
     }
@@ -473,17 +490,17 @@ export class WebSidecarView extends ItemView implements IWebSidecarView {
         return this.tabStateService.hasRedirectedUrl(leafId);
     }
 
-    async updateTrackedTabNotes(leafId: string): Promise<void> {
-        await this.tabStateService.updateTrackedTabNotes(leafId);
+    async updateTrackedTabNotes(leafId: string, targetUrl?: string): Promise<void> {
+        await this.tabStateService.updateTrackedTabNotes(leafId, targetUrl);
         this.render(true);
     }
 
-    setTabOriginalUrl(leafId: string, url: string): void {
-        this.tabStateService.setTabOriginalUrl(leafId, url);
+    getLinkedSourceUrl(leafId: string): string | undefined {
+        return this.tabStateService.getLinkedSourceUrl(leafId);
     }
 
-    setPendingOriginalUrl(url: string): void {
-        this.tabStateService.setPendingOriginalUrl(url);
+    setTabOriginalUrl(leafId: string, url: string): void {
+        this.tabStateService.setTabOriginalUrl(leafId, url);
     }
 
     focusWebViewer(leafId: string): void {